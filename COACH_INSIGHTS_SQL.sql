@@ -0,0 +1,137 @@
+-- Coach Insights Schema Extensions (compliance scoring, at-risk alerts, volume targets)
+-- Copy and paste this AFTER running WORKOUT_SYSTEM_SQL.sql
+-- URL: https://supabase.com/dashboard/project/vdykrlyybwwbcqqcgjbp/sql
+
+-- Daily nutrition logging against a client's nutrition plan
+CREATE TABLE IF NOT EXISTS public.nutrition_logs (
+  id SERIAL PRIMARY KEY,
+  client_id INTEGER NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  nutrition_plan_id INTEGER REFERENCES public.nutrition_plans(id) ON DELETE SET NULL,
+  date DATE NOT NULL,
+  calories INTEGER,
+  protein_grams INTEGER,
+  carbs_grams INTEGER,
+  fat_grams INTEGER,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Per-coach weighting for client compliance scores
+CREATE TABLE IF NOT EXISTS public.compliance_settings (
+  id SERIAL PRIMARY KEY,
+  coach_id UUID NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+  workout_weight INTEGER NOT NULL DEFAULT 50 CHECK (workout_weight BETWEEN 0 AND 100),
+  nutrition_weight INTEGER NOT NULL DEFAULT 30 CHECK (nutrition_weight BETWEEN 0 AND 100),
+  checkin_weight INTEGER NOT NULL DEFAULT 20 CHECK (checkin_weight BETWEEN 0 AND 100),
+  window_days INTEGER NOT NULL DEFAULT 28 CHECK (window_days BETWEEN 7 AND 180),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Per-coach thresholds for at-risk client alerts (0 disables a rule)
+CREATE TABLE IF NOT EXISTS public.alert_settings (
+  id SERIAL PRIMARY KEY,
+  coach_id UUID NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+  inactivity_days INTEGER NOT NULL DEFAULT 7 CHECK (inactivity_days >= 0),
+  missed_checkins INTEGER NOT NULL DEFAULT 2 CHECK (missed_checkins >= 0),
+  checkin_lookback_days INTEGER NOT NULL DEFAULT 30 CHECK (checkin_lookback_days BETWEEN 7 AND 180),
+  unanswered_message_hours INTEGER NOT NULL DEFAULT 48 CHECK (unanswered_message_hours >= 0),
+  weight_trend_days INTEGER NOT NULL DEFAULT 14 CHECK (weight_trend_days >= 0),
+  weight_trend_threshold DECIMAL NOT NULL DEFAULT 1.0 CHECK (weight_trend_threshold >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Per-coach weekly hard-set targets by muscle group
+CREATE TABLE IF NOT EXISTS public.volume_target_settings (
+  id SERIAL PRIMARY KEY,
+  coach_id UUID NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+  targets JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ "muscleGroup": "chest", "minSets": 10, "maxSets": 20 }, ...]
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Acknowledge/snooze state for computed at-risk alerts
+CREATE TABLE IF NOT EXISTS public.client_alerts (
+  id SERIAL PRIMARY KEY,
+  coach_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  client_id INTEGER NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  rule TEXT NOT NULL CHECK (rule IN ('inactivity', 'missed_checkins', 'unanswered_messages', 'weight_trend')),
+  status TEXT NOT NULL CHECK (status IN ('acknowledged', 'snoozed')),
+  snoozed_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT client_alert_unique UNIQUE (coach_id, client_id, rule)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.nutrition_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.compliance_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.client_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.volume_target_settings ENABLE ROW LEVEL SECURITY;
+
+-- Row Level Security Policies
+
+-- Nutrition logs: clients manage their own, coaches can view their clients'
+CREATE POLICY "Clients can manage own nutrition logs" ON public.nutrition_logs
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.clients
+      WHERE clients.id = nutrition_logs.client_id
+      AND clients.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Coaches can view client nutrition logs" ON public.nutrition_logs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.clients
+      JOIN public.coach_clients ON coach_clients.client_id = clients.user_id
+      WHERE clients.id = nutrition_logs.client_id
+      AND coach_clients.coach_id = auth.uid()
+      AND coach_clients.status = 'active'
+    )
+  );
+
+-- Compliance settings: coaches manage their own, clients can read their coach's
+CREATE POLICY "Coaches can manage own compliance settings" ON public.compliance_settings
+  FOR ALL USING (coach_id = auth.uid());
+
+CREATE POLICY "Clients can view coach compliance settings" ON public.compliance_settings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.coach_clients
+      WHERE coach_clients.coach_id = compliance_settings.coach_id
+      AND coach_clients.client_id = auth.uid()
+      AND coach_clients.status = 'active'
+    )
+  );
+
+-- Alerts: coaches manage their own settings and alert state
+CREATE POLICY "Coaches can manage own alert settings" ON public.alert_settings
+  FOR ALL USING (coach_id = auth.uid());
+
+CREATE POLICY "Coaches can manage own client alerts" ON public.client_alerts
+  FOR ALL USING (coach_id = auth.uid());
+
+-- Volume targets: coaches manage their own
+CREATE POLICY "Coaches can manage own volume targets" ON public.volume_target_settings
+  FOR ALL USING (coach_id = auth.uid());
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS idx_nutrition_logs_client_date ON public.nutrition_logs (client_id, date DESC);
+CREATE INDEX IF NOT EXISTS idx_client_alerts_coach ON public.client_alerts (coach_id);
+
+-- Updated at triggers
+CREATE TRIGGER handle_updated_at BEFORE UPDATE ON public.compliance_settings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+CREATE TRIGGER handle_updated_at BEFORE UPDATE ON public.alert_settings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+CREATE TRIGGER handle_updated_at BEFORE UPDATE ON public.client_alerts
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+CREATE TRIGGER handle_updated_at BEFORE UPDATE ON public.volume_target_settings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Success message
+SELECT 'Coach Insights - compliance scoring, at-risk alerts and volume targets schema ready!' as result;
@@ -0,0 +1,515 @@
+-- Workout Enhancements Schema Extensions
+-- Copy and paste this AFTER running CLIENT_WORKOUT_EXECUTION_SQL.sql
+-- URL: https://supabase.com/dashboard/project/vdykrlyybwwbcqqcgjbp/sql
+
+-- Progressive overload: per-exercise progression model chosen by the coach
+ALTER TABLE public.workout_exercises
+  ADD COLUMN IF NOT EXISTS progression_model TEXT DEFAULT 'none' CHECK (progression_model IN ('none', 'linear', 'double', 'rpe')),
+  ADD COLUMN IF NOT EXISTS progression_increment DECIMAL(5,2) CHECK (progression_increment >= 0); -- load step, defaults to 5 lbs in the app
+
+-- Personal records: estimated 1RM formula is a client preference
+ALTER TABLE public.client_workout_preferences
+  ADD COLUMN IF NOT EXISTS one_rm_formula TEXT DEFAULT 'epley' CHECK (one_rm_formula IN ('epley', 'brzycki'));
+
+-- Plate calculator: bar and plate inventory in the client's unit (metric_system); NULL uses standard plates
+ALTER TABLE public.client_workout_preferences
+  ADD COLUMN IF NOT EXISTS bar_weight DECIMAL(5,2) CHECK (bar_weight >= 0),
+  ADD COLUMN IF NOT EXISTS plate_inventory JSONB; -- [{ "weight": 45, "count": 4 }, ...]
+
+-- Resumable sessions: the player's position is snapshotted on every logged set.
+-- Sessions idle longer than WORKOUT_SESSION_TIMEOUT_HOURS (server config) are marked abandoned.
+ALTER TABLE public.workout_sessions
+  ADD COLUMN IF NOT EXISTS current_exercise_index INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS current_set INTEGER DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS rest_ends_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Offline sync: client-generated ids make replayed sessions and sets idempotent
+ALTER TABLE public.workout_sessions
+  ADD COLUMN IF NOT EXISTS client_session_id UUID UNIQUE;
+
+ALTER TABLE public.exercise_sets
+  ADD COLUMN IF NOT EXISTS client_set_id UUID UNIQUE;
+
+-- Round of its superset each set was logged in (null for straight sets)
+ALTER TABLE public.exercise_sets
+  ADD COLUMN IF NOT EXISTS superset_round INTEGER;
+
+-- Warm-ups: ramp generated from the working load with the coach's scheme.
+-- Warm-up sets are logged but kept out of volume and personal records.
+ALTER TABLE public.workout_exercises
+  ADD COLUMN IF NOT EXISTS warmup_scheme TEXT DEFAULT 'none' CHECK (warmup_scheme IN ('none', 'standard', 'short', 'heavy'));
+
+ALTER TABLE public.exercise_sets
+  ADD COLUMN IF NOT EXISTS is_warmup BOOLEAN DEFAULT false;
+
+-- Cardio: exercises logged by duration, distance and heart rate instead of reps × weight
+DO $$ BEGIN
+  CREATE TYPE exercise_type AS ENUM ('strength', 'cardio');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE public.exercises
+  ADD COLUMN IF NOT EXISTS exercise_type exercise_type DEFAULT 'strength';
+
+ALTER TABLE public.workout_exercises
+  ADD COLUMN IF NOT EXISTS cardio_target JSONB; -- { "durationSeconds": 1800, "heartRateZone": 2, ... }
+
+ALTER TABLE public.exercise_sets
+  ADD COLUMN IF NOT EXISTS duration_seconds INTEGER CHECK (duration_seconds >= 0),
+  ADD COLUMN IF NOT EXISTS distance_meters DECIMAL(10,2) CHECK (distance_meters >= 0),
+  ADD COLUMN IF NOT EXISTS pace_seconds_per_km INTEGER,
+  ADD COLUMN IF NOT EXISTS avg_heart_rate INTEGER CHECK (avg_heart_rate BETWEEN 30 AND 250),
+  ADD COLUMN IF NOT EXISTS max_heart_rate INTEGER CHECK (max_heart_rate BETWEEN 30 AND 250),
+  ADD COLUMN IF NOT EXISTS incline DECIMAL(4,1),
+  ADD COLUMN IF NOT EXISTS resistance INTEGER,
+  ADD COLUMN IF NOT EXISTS time_in_zones JSONB, -- seconds in zones 1-5: [0, 600, 900, 300, 0]
+  ADD COLUMN IF NOT EXISTS calories_burned INTEGER;
+
+-- Measured max heart rate; zones fall back to an estimate from clients.date_of_birth
+ALTER TABLE public.client_workout_preferences
+  ADD COLUMN IF NOT EXISTS max_heart_rate INTEGER CHECK (max_heart_rate BETWEEN 100 AND 230);
+
+-- Periodization: per-week intensity (weight) and volume (sets × reps) multipliers and deload weeks
+ALTER TABLE public.programs
+  ADD COLUMN IF NOT EXISTS periodization JSONB; -- { "model": "linear", "deloadEvery": 4, "weeks": [{ "week": 1, "intensity": 1, "volume": 1, "deload": false }, ...] }
+
+-- Program versions: editing an assigned program saves a new version under the same root_program_id.
+-- client_programs stay on the version they were assigned until the coach migrates them.
+ALTER TABLE public.programs
+  ADD COLUMN IF NOT EXISTS root_program_id INTEGER REFERENCES public.programs(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS cloned_from_id INTEGER REFERENCES public.programs(id) ON DELETE SET NULL;
+
+-- workouts.updated_at is the version offline players compare against,
+-- so editing a workout's exercises has to bump it too
+CREATE OR REPLACE FUNCTION public.touch_workout_from_exercises()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.workouts SET updated_at = NOW()
+  WHERE id = COALESCE(NEW.workout_id, OLD.workout_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_workout_from_exercises ON public.workout_exercises;
+CREATE TRIGGER touch_workout_from_exercises AFTER INSERT OR UPDATE OR DELETE ON public.workout_exercises
+  FOR EACH ROW EXECUTE FUNCTION public.touch_workout_from_exercises();
+
+-- Template library: coaches publish programs (program_templates, from WORKOUT_SYSTEM_SQL.sql) for the
+-- other coaches to preview, copy into their own programs and rate once they have used them.
+ALTER TABLE public.program_templates
+  ADD COLUMN IF NOT EXISTS rating_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_program_templates_program ON public.program_templates (program_id);
+
+ALTER TABLE public.programs
+  ADD COLUMN IF NOT EXISTS template_id INTEGER REFERENCES public.program_templates(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.program_template_ratings (
+  id SERIAL PRIMARY KEY,
+  template_id INTEGER NOT NULL REFERENCES public.program_templates(id) ON DELETE CASCADE,
+  rated_by UUID NOT NULL REFERENCES public.users(id),
+  rating INTEGER NOT NULL CHECK (rating >= 1 AND rating <= 5),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT program_template_rating_unique UNIQUE (template_id, rated_by)
+);
+
+-- usage_count goes up each time a coach creates a program from the template.
+-- New versions of that program keep its template_id but aren't counted again.
+CREATE OR REPLACE FUNCTION public.count_program_template_usage()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.program_templates SET usage_count = COALESCE(usage_count, 0) + 1
+  WHERE id = NEW.template_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS count_program_template_usage ON public.programs;
+CREATE TRIGGER count_program_template_usage AFTER INSERT ON public.programs
+  FOR EACH ROW WHEN (NEW.template_id IS NOT NULL AND NEW.root_program_id IS NULL)
+  EXECUTE FUNCTION public.count_program_template_usage();
+
+CREATE OR REPLACE FUNCTION public.refresh_program_template_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_id INTEGER := COALESCE(NEW.template_id, OLD.template_id);
+BEGIN
+  UPDATE public.program_templates SET
+    rating = COALESCE((SELECT ROUND(AVG(rating), 1) FROM public.program_template_ratings WHERE template_id = target_id), 0),
+    rating_count = (SELECT COUNT(*) FROM public.program_template_ratings WHERE template_id = target_id)
+  WHERE id = target_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS refresh_program_template_rating ON public.program_template_ratings;
+CREATE TRIGGER refresh_program_template_rating AFTER INSERT OR UPDATE OR DELETE ON public.program_template_ratings
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_program_template_rating();
+
+CREATE TRIGGER handle_updated_at BEFORE UPDATE ON public.program_templates
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+CREATE TRIGGER handle_updated_at BEFORE UPDATE ON public.program_template_ratings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.program_template_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Published templates visible to coaches" ON public.program_templates
+  FOR SELECT USING (is_public = true OR created_by = auth.uid());
+CREATE POLICY "Coaches can manage own templates" ON public.program_templates
+  FOR ALL USING (created_by = auth.uid());
+
+CREATE POLICY "Template ratings visible to all" ON public.program_template_ratings
+  FOR SELECT USING (true);
+CREATE POLICY "Coaches can manage own template ratings" ON public.program_template_ratings
+  FOR ALL USING (rated_by = auth.uid());
+
+-- Every version of a published program can be previewed and copied
+CREATE POLICY "Published template programs visible to coaches" ON public.programs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.program_templates
+      WHERE program_templates.program_id = COALESCE(programs.root_program_id, programs.id)
+      AND program_templates.is_public = true
+    )
+  );
+CREATE POLICY "Published template workouts visible to coaches" ON public.workouts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.programs
+      JOIN public.program_templates ON program_templates.program_id = COALESCE(programs.root_program_id, programs.id)
+      WHERE programs.id = workouts.program_id
+      AND program_templates.is_public = true
+    )
+  );
+CREATE POLICY "Published template exercises visible to coaches" ON public.workout_exercises
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.workouts
+      JOIN public.programs ON programs.id = workouts.program_id
+      JOIN public.program_templates ON program_templates.program_id = COALESCE(programs.root_program_id, programs.id)
+      WHERE workouts.id = workout_exercises.workout_id
+      AND program_templates.is_public = true
+    )
+  );
+
+-- Timed blocks: EMOM, AMRAP, for-time, interval (Tabata) and circuit rounds.
+-- Exercises with a block_id are the movements done each round of that block.
+DO $$ BEGIN
+  CREATE TYPE workout_block_type AS ENUM ('emom', 'amrap', 'for_time', 'interval', 'circuit');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.workout_blocks (
+  id SERIAL PRIMARY KEY,
+  workout_id INTEGER NOT NULL REFERENCES public.workouts(id) ON DELETE CASCADE,
+  block_type workout_block_type NOT NULL,
+  name TEXT,
+  order_index INTEGER NOT NULL,
+  parameters JSONB NOT NULL, -- { "intervalSeconds": 60, "rounds": 10 }, { "timeCapSeconds": 720 }, ...
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.workout_exercises
+  ADD COLUMN IF NOT EXISTS block_id INTEGER REFERENCES public.workout_blocks(id) ON DELETE SET NULL;
+
+-- One result per block per session: rounds + reps for AMRAP, completion time for for-time
+CREATE TABLE IF NOT EXISTS public.block_results (
+  id SERIAL PRIMARY KEY,
+  workout_session_id INTEGER NOT NULL REFERENCES public.workout_sessions(id) ON DELETE CASCADE,
+  block_id INTEGER NOT NULL REFERENCES public.workout_blocks(id) ON DELETE CASCADE,
+  rounds_completed INTEGER CHECK (rounds_completed >= 0),
+  extra_reps INTEGER CHECK (extra_reps >= 0),
+  completion_time INTEGER CHECK (completion_time >= 0), -- seconds
+  time_capped BOOLEAN DEFAULT FALSE,
+  notes TEXT,
+  completed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  client_result_id UUID UNIQUE
+);
+
+ALTER TABLE public.workout_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.block_results ENABLE ROW LEVEL SECURITY;
+
+-- Blocks are visible wherever their workout is; coaches build them
+CREATE POLICY "Workout blocks follow their workout" ON public.workout_blocks
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.workouts WHERE workouts.id = workout_blocks.workout_id)
+  );
+
+CREATE POLICY "Coaches can manage workout blocks" ON public.workout_blocks
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Clients can manage own block results" ON public.block_results
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.workout_sessions
+      WHERE workout_sessions.id = block_results.workout_session_id
+      AND workout_sessions.client_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Coaches can view client block results" ON public.block_results
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.workout_sessions
+      JOIN public.coach_clients ON coach_clients.client_id = workout_sessions.client_id
+      WHERE workout_sessions.id = block_results.workout_session_id
+      AND coach_clients.coach_id = auth.uid()
+      AND coach_clients.status = 'active'
+    )
+  );
+
+-- Coaches can verify their clients' personal records
+CREATE POLICY "Coaches can verify client personal records" ON public.personal_records
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.coach_clients
+      WHERE coach_clients.client_id = personal_records.client_id
+      AND coach_clients.coach_id = auth.uid()
+      AND coach_clients.status = 'active'
+    )
+  );
+
+-- Coaches can set up their clients' gym equipment
+CREATE POLICY "Coaches can manage client workout preferences" ON public.client_workout_preferences
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.coach_clients
+      WHERE coach_clients.client_id = client_workout_preferences.client_id
+      AND coach_clients.coach_id = auth.uid()
+      AND coach_clients.status = 'active'
+    )
+  );
+
+-- Program calendar: assigning a program schedules its workouts as dated workout_assignments.
+-- training_days are ISO weekdays (1 = Monday); null follows each program's day numbers.
+-- missed_policy decides what happens to a workout whose date passed: shift, skip or stack.
+ALTER TABLE public.client_workout_preferences
+  ADD COLUMN IF NOT EXISTS training_days INTEGER[] CHECK (training_days <@ ARRAY[1,2,3,4,5,6,7]);
+
+ALTER TABLE public.client_programs
+  ADD COLUMN IF NOT EXISTS missed_policy TEXT DEFAULT 'shift' CHECK (missed_policy IN ('shift', 'skip', 'stack'));
+
+ALTER TABLE public.workout_assignments
+  ADD COLUMN IF NOT EXISTS client_program_id INTEGER REFERENCES public.client_programs(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS week_number INTEGER,
+  ADD COLUMN IF NOT EXISTS day_number INTEGER;
+
+CREATE POLICY "Clients can manage own workout assignments" ON public.workout_assignments
+  FOR ALL USING (client_id = auth.uid());
+
+CREATE POLICY "Coaches can manage assigned workouts" ON public.workout_assignments
+  FOR ALL USING (assigned_by = auth.uid());
+
+-- client_programs.client_id is clients.id, so clients are matched through clients.user_id
+CREATE POLICY "Clients can view own client programs" ON public.client_programs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.clients
+      WHERE clients.id = client_programs.client_id
+      AND clients.user_id = auth.uid()
+    )
+  );
+
+-- Clients move their own programs along (current week, completion) as they train
+CREATE POLICY "Clients can update own program progress" ON public.client_programs
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.clients
+      WHERE clients.id = client_programs.client_id
+      AND clients.user_id = auth.uid()
+    )
+  );
+
+-- Exercise substitution: clients swap an exercise mid-session for a variation or a similar
+-- exercise. substitutions on a workout exercise lists what its coach allows
+-- ({"exerciseIds": [...], "variationIds": [...]}); null allows any suggested substitute.
+ALTER TABLE public.workout_exercises
+  ADD COLUMN IF NOT EXISTS substitutions JSONB;
+
+CREATE TABLE IF NOT EXISTS public.exercise_substitutions (
+  id SERIAL PRIMARY KEY,
+  workout_session_id INTEGER NOT NULL REFERENCES public.workout_sessions(id) ON DELETE CASCADE,
+  workout_exercise_id INTEGER NOT NULL REFERENCES public.workout_exercises(id) ON DELETE CASCADE,
+  original_exercise_id INTEGER NOT NULL REFERENCES public.exercises(id),
+  substitute_exercise_id INTEGER NOT NULL REFERENCES public.exercises(id),
+  variation_id INTEGER REFERENCES public.exercise_variations(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.exercise_substitutions ENABLE ROW LEVEL SECURITY;
+
+-- Variations are visible wherever their base exercise is
+CREATE POLICY "Exercise variations follow their exercise" ON public.exercise_variations
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.exercises WHERE exercises.id = exercise_variations.base_exercise_id)
+  );
+
+CREATE POLICY "Coaches can manage variations of own exercises" ON public.exercise_variations
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.exercises
+      WHERE exercises.id = exercise_variations.base_exercise_id
+      AND exercises.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Clients can manage own exercise substitutions" ON public.exercise_substitutions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.workout_sessions
+      WHERE workout_sessions.id = exercise_substitutions.workout_session_id
+      AND workout_sessions.client_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Coaches can view client exercise substitutions" ON public.exercise_substitutions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.workout_sessions
+      JOIN public.coach_clients ON coach_clients.client_id = workout_sessions.client_id
+      WHERE workout_sessions.id = exercise_substitutions.workout_session_id
+      AND coach_clients.coach_id = auth.uid()
+      AND coach_clients.status = 'active'
+    )
+  );
+
+-- Equipment profiles: what a client has at home, at the gym or when travelling. The active
+-- one filters substitutes and flags exercises the client can't do before a session.
+CREATE TABLE IF NOT EXISTS public.equipment_profiles (
+  id SERIAL PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  profile_type TEXT NOT NULL DEFAULT 'gym' CHECK (profile_type IN ('home', 'gym', 'travel')),
+  equipment TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.client_workout_preferences
+  ADD COLUMN IF NOT EXISTS active_equipment_profile_id INTEGER REFERENCES public.equipment_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.equipment_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can manage own equipment profiles" ON public.equipment_profiles
+  FOR ALL USING (client_id = auth.uid());
+
+CREATE POLICY "Coaches can manage client equipment profiles" ON public.equipment_profiles
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.coach_clients
+      WHERE coach_clients.client_id = equipment_profiles.client_id
+      AND coach_clients.coach_id = auth.uid()
+      AND coach_clients.status = 'active'
+    )
+  );
+
+-- Exercise library search: PostgREST can't look inside arrays case-insensitively, so these
+-- computed fields expose tags and muscle groups as lowercase '|'-delimited text for the API to
+-- filter on (e.g. exercise_tag_search=ilike.*squat*). They aren't returned by select=*.
+CREATE OR REPLACE FUNCTION public.exercise_tag_search(public.exercises)
+RETURNS TEXT AS $$
+  SELECT '|' || lower(array_to_string(COALESCE($1.tags, '{}'), '|')) || '|';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.exercise_muscle_search(public.exercises)
+RETURNS TEXT AS $$
+  SELECT '|' || lower(array_to_string(COALESCE($1.muscle_groups, '{}'), '|')) || '|';
+$$ LANGUAGE sql STABLE;
+
+-- Form reviews: a client's clip of one logged set, reviewed by their coach with timestamped
+-- comments and drawings. The coach's rating lands in exercise_sets.form_rating.
+CREATE TABLE IF NOT EXISTS public.form_reviews (
+  id SERIAL PRIMARY KEY,
+  exercise_set_id INTEGER NOT NULL UNIQUE REFERENCES public.exercise_sets(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  coach_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  video_url TEXT NOT NULL,
+  client_note TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'reviewed')),
+  summary TEXT,
+  reviewed_at TIMESTAMPTZ,
+  seen_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.form_review_comments (
+  id SERIAL PRIMARY KEY,
+  form_review_id INTEGER NOT NULL REFERENCES public.form_reviews(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  timestamp_ms INTEGER NOT NULL CHECK (timestamp_ms >= 0),
+  body TEXT NOT NULL,
+  annotation JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.form_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.form_review_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can manage own form reviews" ON public.form_reviews
+  FOR ALL USING (client_id = auth.uid());
+
+CREATE POLICY "Coaches can review client form reviews" ON public.form_reviews
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.coach_clients
+      WHERE coach_clients.client_id = form_reviews.client_id
+      AND coach_clients.coach_id = auth.uid()
+      AND coach_clients.status = 'active'
+    )
+  );
+
+CREATE POLICY "Form review comments follow their review" ON public.form_review_comments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.form_reviews WHERE form_reviews.id = form_review_comments.form_review_id)
+  );
+
+CREATE POLICY "Coaches can manage own form review comments" ON public.form_review_comments
+  FOR ALL USING (author_id = auth.uid());
+
+-- Coaches write the form rating onto a reviewed set
+CREATE POLICY "Coaches can rate client exercise sets" ON public.exercise_sets
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.workout_sessions
+      JOIN public.coach_clients ON coach_clients.client_id = workout_sessions.client_id
+      WHERE workout_sessions.id = exercise_sets.workout_session_id
+      AND coach_clients.coach_id = auth.uid()
+      AND coach_clients.status = 'active'
+    )
+  );
+
+-- Performance indexes
+-- Last performance lookups filter a client's sets by exercise, newest first
+CREATE INDEX IF NOT EXISTS idx_exercise_sets_exercise_completed ON public.exercise_sets (exercise_id, completed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workout_blocks_workout ON public.workout_blocks (workout_id, order_index);
+CREATE INDEX IF NOT EXISTS idx_block_results_session ON public.block_results (workout_session_id);
+-- Open session lookups when the player starts
+CREATE INDEX IF NOT EXISTS idx_workout_sessions_client_status ON public.workout_sessions (client_id, status);
+-- Version history of a program
+CREATE INDEX IF NOT EXISTS idx_programs_root ON public.programs (root_program_id, version);
+-- Template library browsing and "used this template" checks
+CREATE INDEX IF NOT EXISTS idx_program_templates_public ON public.program_templates (is_public, rating DESC);
+CREATE INDEX IF NOT EXISTS idx_programs_template ON public.programs (coach_id, template_id);
+-- A client program's schedule
+CREATE INDEX IF NOT EXISTS idx_workout_assignments_client_program ON public.workout_assignments (client_program_id, scheduled_date);
+-- Swap audit trail on session summaries
+CREATE INDEX IF NOT EXISTS idx_exercise_substitutions_session ON public.exercise_substitutions (workout_session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_workout_sessions_assignment ON public.workout_sessions (workout_assignment_id);
+CREATE INDEX IF NOT EXISTS idx_equipment_profiles_client ON public.equipment_profiles (client_id);
+-- Coach review queue
+CREATE INDEX IF NOT EXISTS idx_form_reviews_client_status ON public.form_reviews (client_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_form_review_comments_review ON public.form_review_comments (form_review_id, timestamp_ms);
+
+-- Success message
+SELECT 'Workout Enhancements - progression, personal records, plate setup, resumable sessions, offline sync, timed blocks, supersets, warm-ups, cardio, periodization, program versioning, template library, program calendar, exercise substitution, exercise search, equipment profile and form review schema ready!' as result;
@@ -6,6 +6,8 @@ import { Badge } from '@/components/ui/badge'
 import { LoadingSpinner } from '@/components/ui/loading'
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
 import { supabase } from '@/lib/supabase'
+import { precacheAssignments } from '@/lib/offline-sync'
+import { getCachedWorkouts, isOfflineStorageAvailable } from '@/lib/offline-db'
 import { useLocation } from 'wouter'
 import { formatDistanceToNow, isToday, isTomorrow, format } from 'date-fns'
 
@@ -60,6 +62,18 @@ const statusColors = {
   skipped: 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400'
 }
 
+// Transform data to match interface
+const transformAssignments = (data: any[]): WorkoutAssignment[] => data.map(assignment => ({
+  ...assignment,
+  workout: {
+    ...assignment.workouts,
+    exercises: assignment.workouts.workout_exercises.map((we: any) => ({
+      ...we,
+      exercise: we.exercises
+    }))
+  }
+}))
+
 export default function AssignedWorkouts() {
   const [assignments, setAssignments] = useState<WorkoutAssignment[]>([])
   const [loading, setLoading] = useState(true)
@@ -121,21 +135,25 @@ export default function AssignedWorkouts() {
 
       if (error) throw error
 
-      // Transform data to match interface
-      const transformedData = data?.map((assignment: any) => ({
-        ...assignment,
-        workout: {
-          ...assignment.workouts,
-          exercises: assignment.workouts.workout_exercises.map((we: any) => ({
-            ...we,
-            exercise: we.exercises
-          }))
-        }
-      })) || []
-
-      setAssignments(transformedData)
+      setAssignments(transformAssignments(data || []))
+
+      // Keep workouts that haven't been done yet available offline
+      const openAssignmentIds = (data || [])
+        .filter((assignment: any) => assignment.status !== 'completed' && assignment.status !== 'skipped')
+        .map((assignment: any) => assignment.id as number)
+      precacheAssignments(openAssignmentIds, user.id)
     } catch (error) {
       console.error('Error fetching assigned workouts:', error)
+
+      // Offline: show whatever was cached on the last visit
+      if (isOfflineStorageAvailable()) {
+        const cached = await getCachedWorkouts().catch(() => [])
+        setAssignments(transformAssignments(
+          cached
+            .map(({ assignment }) => assignment)
+            .sort((a, b) => a.scheduled_date.localeCompare(b.scheduled_date))
+        ))
+      }
     } finally {
       setLoading(false)
     }
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Video, Star, Clock } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { LoadingSpinner } from '@/components/ui/loading'
+import { ToastAction } from '@/components/ui/toast'
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { useToast } from '@/hooks/use-toast'
+import { apiRequest } from '@/lib/queryClient'
+import { socketService } from '@/lib/socket'
+import { FORM_RATING_LABELS, isUnseenReview, type FormReviewDetail, type FormReviewSummary } from '@/lib/form-review'
+import FormReviewPlayer from '@/components/dashboard/FormReviewPlayer'
+
+// Clips the client sent for a form check, and the coach's feedback on them
+export default function FormReviews() {
+  const [openReviewId, setOpenReviewId] = useState<number | null>(null)
+
+  const { session } = useSupabaseAuth()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: reviews = [], isLoading } = useQuery<FormReviewSummary[]>({
+    queryKey: ['/api/form-reviews'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/form-reviews', undefined, session)
+      return response.json()
+    },
+    enabled: !!session
+  })
+
+  // Finished reviews are pushed over the socket when connected
+  useEffect(() => {
+    const onReviewed = (data: { formReviewId: number; exerciseName: string; formRating: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/form-reviews'] })
+      toast({
+        title: 'Form review ready',
+        description: `Your coach reviewed your ${data.exerciseName}: ${FORM_RATING_LABELS[data.formRating]}.`,
+        action: (
+          <ToastAction altText="View form review" onClick={() => setOpenReviewId(data.formReviewId)}>
+            View
+          </ToastAction>
+        )
+      })
+    }
+    socketService.on('form-review-completed', onReviewed)
+    return () => socketService.off('form-review-completed', onReviewed)
+  }, [])
+
+  if (isLoading || reviews.length === 0) return null
+
+  return (
+    <Card variant="premium">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Video className="w-5 h-5" />
+          Form Checks
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {reviews.map(review => (
+            <div key={review.id} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 font-medium">
+                  <span className="truncate">{review.exerciseName} · Set {review.setNumber}</span>
+                  {isUnseenReview(review) && <Badge>New</Badge>}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {new Date(review.completedAt).toLocaleDateString()}
+                  {review.actualReps !== null && ` · ${review.actualReps} reps`}
+                  {review.actualWeight && ` @ ${parseFloat(review.actualWeight)} ${review.weightUnit ?? 'lbs'}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {review.status === 'reviewed' && review.formRating !== null ? (
+                  <Badge variant="secondary" className="gap-1">
+                    <Star className="w-3 h-3" />
+                    {FORM_RATING_LABELS[review.formRating]}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="gap-1">
+                    <Clock className="w-3 h-3" />
+                    Waiting for coach
+                  </Badge>
+                )}
+                {review.status === 'reviewed' && (
+                  <Button size="sm" variant="outline" onClick={() => setOpenReviewId(review.id)}>
+                    View
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      {openReviewId !== null && (
+        <FormReviewResult formReviewId={openReviewId} onClose={() => setOpenReviewId(null)} />
+      )}
+    </Card>
+  )
+}
+
+function FormReviewResult({ formReviewId, onClose }: { formReviewId: number; onClose: () => void }) {
+  const { session } = useSupabaseAuth()
+  const queryClient = useQueryClient()
+
+  const { data: review } = useQuery<FormReviewDetail>({
+    queryKey: [`/api/form-reviews/${formReviewId}`],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/form-reviews/${formReviewId}`, undefined, session)
+      return response.json()
+    },
+    enabled: !!session
+  })
+
+  // Opening the feedback clears the notification
+  useEffect(() => {
+    if (!review || !isUnseenReview(review)) return
+    apiRequest('PUT', `/api/form-reviews/${formReviewId}/seen`, undefined, session)
+      .then(() => queryClient.invalidateQueries({ queryKey: ['/api/form-reviews'] }))
+      .catch(error => console.error('Error marking form review seen:', error))
+  }, [review?.id])
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>{review ? `${review.exerciseName} · Set ${review.setNumber}` : 'Form Review'}</DialogTitle>
+          {review?.formRating != null && (
+            <DialogDescription className="flex items-center gap-1">
+              <Star className="w-4 h-4" />
+              Form rating: {review.formRating}/5 · {FORM_RATING_LABELS[review.formRating]}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {!review ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {review.summary && (
+              <p className="rounded-lg bg-muted p-3 text-sm whitespace-pre-wrap">{review.summary}</p>
+            )}
+            <FormReviewPlayer videoUrl={review.videoUrl} comments={review.comments} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react'
+import { Dumbbell } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { supabase } from '@/lib/supabase'
+import EquipmentProfiles from '@/components/dashboard/EquipmentProfiles'
+
+export default function MyEquipment() {
+  // clients.id of the signed-in client
+  const [clientProfileId, setClientProfileId] = useState<number | null>(null)
+
+  const { user } = useSupabaseAuth()
+
+  useEffect(() => {
+    if (!user) return
+    supabase
+      .from('clients')
+      .select('id')
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading client profile:', error)
+        setClientProfileId((data as { id: number } | null)?.id ?? null)
+      })
+  }, [user])
+
+  if (clientProfileId === null) return null
+
+  return (
+    <Card variant="premium">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Dumbbell className="w-5 h-5" />
+          My Equipment
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <EquipmentProfiles clientId={clientProfileId} />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react'
+import { CalendarDays } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { supabase } from '@/lib/supabase'
+import ProgramCalendar from '@/components/dashboard/ProgramCalendar'
+
+export default function TrainingCalendar() {
+  // clients.id of the signed-in client
+  const [clientProfileId, setClientProfileId] = useState<number | null>(null)
+
+  const { user } = useSupabaseAuth()
+
+  useEffect(() => {
+    if (!user) return
+    supabase
+      .from('clients')
+      .select('id')
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading client profile:', error)
+        setClientProfileId((data as { id: number } | null)?.id ?? null)
+      })
+  }, [user])
+
+  // Only clients with a profile have programs to schedule
+  if (clientProfileId === null) return null
+
+  return (
+    <Card variant="premium">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5" />
+          Training Calendar
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ProgramCalendar clientId={clientProfileId} />
+      </CardContent>
+    </Card>
+  )
+}
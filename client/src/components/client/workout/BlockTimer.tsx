@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { Play, Pause, Plus, Flag, ChevronRight, Timer } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  BLOCK_TYPE_LABELS,
+  describeBlock,
+  formatBlockResult,
+  formatClock,
+  getBlockClock,
+  getBlockDuration,
+  getClockCue,
+  type BlockClock,
+  type BlockResultData,
+  type WorkoutBlock
+} from '@/lib/interval-blocks'
+import { playTimerCue, type TimerCuePreferences } from '@/lib/timer-cues'
+
+interface BlockExercise {
+  id: number
+  exercise: {
+    name: string
+  }
+  reps: string
+  weight: string
+  notes: string
+}
+
+export interface BlockTimerResult extends BlockResultData {
+  notes?: string
+}
+
+interface BlockTimerProps {
+  block: WorkoutBlock
+  exercises: BlockExercise[]
+  cues: TimerCuePreferences
+  onComplete: (result: BlockTimerResult) => void
+}
+
+export default function BlockTimer({ block, exercises, cues, onComplete }: BlockTimerProps) {
+  const type = block.block_type
+  const params = block.parameters
+  const totalRounds = params.rounds ?? 1
+
+  // Elapsed time survives pauses: seconds banked before the current run, plus the run itself
+  const [accumulated, setAccumulated] = useState(0)
+  const [runningSince, setRunningSince] = useState<number | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const [roundsDone, setRoundsDone] = useState(0)
+  const [circuitIndex, setCircuitIndex] = useState(0)
+  const [restUntil, setRestUntil] = useState<number | null>(null)
+  const [finishedAt, setFinishedAt] = useState<number | null>(null)
+  const [roundsInput, setRoundsInput] = useState('')
+  const [extraReps, setExtraReps] = useState('')
+  const [notes, setNotes] = useState('')
+
+  const elapsed = finishedAt ?? accumulated + (runningSince ? (now - runningSince) / 1000 : 0)
+  const clock = getBlockClock(type, params, elapsed, { roundsDone, restUntil })
+  const previousClockRef = useRef<BlockClock>(clock)
+
+  const isRunning = runningSince !== null
+  const hasStarted = isRunning || accumulated > 0
+
+  useEffect(() => {
+    if (!isRunning) return
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [isRunning])
+
+  // Cue phase changes and the last seconds of each phase
+  useEffect(() => {
+    const cue = getClockCue(previousClockRef.current, clock)
+    previousClockRef.current = clock
+    if (cue && hasStarted) playTimerCue(cue, cues)
+  }, [clock.round, clock.phase, clock.phaseRemaining === null ? null : Math.ceil(clock.phaseRemaining)])
+
+  const finish = () => {
+    if (finishedAt !== null) return
+    const duration = getBlockDuration(type, params)
+    const finalElapsed = duration !== null ? Math.min(elapsed, duration) : elapsed
+    setFinishedAt(finalElapsed)
+    setAccumulated(finalElapsed)
+    setRunningSince(null)
+
+    // Clock-driven blocks count the rounds that ran to the end
+    const timedRounds = clock.phase === 'done' ? totalRounds : clock.round - 1
+    setRoundsInput(String(type === 'emom' || type === 'interval' ? timedRounds : roundsDone))
+  }
+
+  useEffect(() => {
+    if (clock.phase === 'done' && hasStarted) finish()
+  }, [clock.phase])
+
+  const start = () => {
+    setNow(Date.now())
+    setRunningSince(Date.now())
+    if (!hasStarted) playTimerCue('go', cues)
+  }
+
+  const pause = () => {
+    setAccumulated(elapsed)
+    setRunningSince(null)
+  }
+
+  const completeRound = () => setRoundsDone(prev => prev + 1)
+
+  const nextCircuitExercise = () => {
+    if (circuitIndex < exercises.length - 1) {
+      setCircuitIndex(prev => prev + 1)
+      return
+    }
+    const rounds = roundsDone + 1
+    setRoundsDone(rounds)
+    setCircuitIndex(0)
+    setRestUntil(params.restSeconds && rounds < totalRounds ? elapsed + params.restSeconds : null)
+  }
+
+  const buildResult = (): BlockTimerResult => {
+    const rounds = parseInt(roundsInput, 10)
+    const roundsCompleted = Number.isNaN(rounds) ? roundsDone : Math.max(0, rounds)
+    return {
+      roundsCompleted,
+      extraReps: type === 'amrap' ? parseInt(extraReps, 10) || 0 : null,
+      completionTime: type === 'for_time' || type === 'circuit' ? Math.round(finishedAt ?? elapsed) : null,
+      timeCapped: type === 'for_time' && roundsCompleted < totalRounds,
+      notes: notes.trim() || undefined
+    }
+  }
+
+  // Counts down while the clock sets the pace, up while the client does
+  const displaySeconds = clock.phaseRemaining ?? elapsed
+  const phaseLabel = clock.phase === 'rest' ? 'REST' : clock.phase === 'done' ? 'DONE' : 'WORK'
+  const roundLabel = type === 'amrap'
+    ? `Round ${clock.round}`
+    : `Round ${clock.round} of ${totalRounds}`
+
+  if (finishedAt !== null) {
+    const result = buildResult()
+    return (
+      <div className="p-4 space-y-4">
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <div className="text-center">
+              <Badge variant="secondary" className="mb-2">{BLOCK_TYPE_LABELS[type]}</Badge>
+              <h2 className="text-xl font-semibold">{block.name || describeBlock(type, params)}</h2>
+              <p className="text-3xl font-bold text-primary mt-2">{formatBlockResult(type, params, result)}</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="block-rounds">Rounds completed</Label>
+                <Input
+                  id="block-rounds"
+                  type="number"
+                  min="0"
+                  value={roundsInput}
+                  onChange={(e) => setRoundsInput(e.target.value)}
+                />
+              </div>
+              {type === 'amrap' && (
+                <div className="space-y-1">
+                  <Label htmlFor="block-extra-reps">Extra reps</Label>
+                  <Input
+                    id="block-extra-reps"
+                    type="number"
+                    min="0"
+                    value={extraReps}
+                    onChange={(e) => setExtraReps(e.target.value)}
+                    placeholder="0"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="block-notes">Notes</Label>
+              <Textarea
+                id="block-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Scaling, how it felt..."
+                rows={2}
+              />
+            </div>
+
+            <Button onClick={() => onComplete(result)} className="w-full h-12 bg-gradient-to-r from-primary to-accent text-white">
+              Save Result
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <Card>
+        <CardContent className="p-6 text-center space-y-4">
+          <div>
+            <Badge variant="secondary" className="mb-2">{BLOCK_TYPE_LABELS[type]}</Badge>
+            <h2 className="text-xl font-semibold">{block.name || describeBlock(type, params)}</h2>
+            {block.name && <p className="text-sm text-muted-foreground">{describeBlock(type, params)}</p>}
+            {block.notes && <p className="text-sm text-muted-foreground mt-1">{block.notes}</p>}
+          </div>
+
+          <div>
+            <div className={`text-sm font-semibold tracking-widest ${clock.phase === 'rest' ? 'text-green-500' : 'text-primary'}`}>
+              {phaseLabel}
+            </div>
+            <div className={`text-6xl font-bold tabular-nums ${clock.phaseRemaining !== null && clock.phaseRemaining <= 3 ? 'text-red-500' : ''}`}>
+              {formatClock(displaySeconds)}
+            </div>
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground mt-1">
+              <span>{roundLabel}</span>
+              {type === 'for_time' && clock.totalRemaining !== null && (
+                <>
+                  <span>•</span>
+                  <span className="flex items-center gap-1">
+                    <Timer className="w-3 h-3" />
+                    Cap in {formatClock(clock.totalRemaining)}
+                  </span>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-center gap-3">
+            <Button variant="outline" size="icon" onClick={isRunning ? pause : start} className="h-12 w-12">
+              {isRunning ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+            </Button>
+            {(type === 'amrap' || type === 'for_time') && (
+              <Button onClick={completeRound} disabled={!isRunning} className="h-12 touch-manipulation">
+                <Plus className="w-4 h-4 mr-2" />
+                Round done ({roundsDone})
+              </Button>
+            )}
+            {type === 'circuit' && (
+              <Button onClick={nextCircuitExercise} disabled={!isRunning || clock.phase === 'rest'} className="h-12 touch-manipulation">
+                <ChevronRight className="w-4 h-4 mr-2" />
+                {circuitIndex < exercises.length - 1 ? 'Next exercise' : 'Round done'}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Movements done each round */}
+      <Card>
+        <CardContent className="p-4 space-y-2">
+          {exercises.map((blockExercise, index) => (
+            <div
+              key={blockExercise.id}
+              className={`flex items-center justify-between rounded-lg p-2 ${type === 'circuit' && index === circuitIndex && clock.phase === 'work' ? 'bg-primary/10' : ''}`}
+            >
+              <span className="font-medium">{blockExercise.exercise.name}</span>
+              <span className="text-sm text-muted-foreground">
+                {blockExercise.reps}{blockExercise.weight ? ` @ ${blockExercise.weight}` : ''}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {hasStarted && (
+        <Button variant="outline" onClick={finish} className="w-full h-12">
+          <Flag className="w-4 h-4 mr-2" />
+          {type === 'for_time' || type === 'circuit' ? 'Finish' : 'End block'}
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,382 @@
+import React, { useState, useEffect } from 'react'
+import { Check, RotateCcw, Heart, Flame, ChevronDown, ChevronUp } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import {
+  METERS_PER_MILE,
+  calculatePace,
+  describeCardioTarget,
+  estimateCalories,
+  formatDistance,
+  formatDuration,
+  formatPace,
+  getHeartRateZones,
+  getZoneForHeartRate,
+  parseDuration,
+  type CardioTarget,
+  type MaxHeartRate
+} from '@/lib/cardio'
+
+interface WorkoutExercise {
+  id: number
+  exercise: {
+    id: number
+    name: string
+    calories_per_minute?: number | null
+  }
+  sets: number
+  notes: string
+  rpe_target?: number
+  cardio_target?: CardioTarget | null
+}
+
+export interface CardioSetData {
+  set_number: number
+  actual_reps: number
+  actual_weight: number
+  rpe: number
+  notes?: string
+  duration_seconds?: number
+  distance_meters?: number
+  pace_seconds_per_km?: number
+  avg_heart_rate?: number
+  max_heart_rate?: number
+  incline?: number
+  resistance?: number
+  time_in_zones?: number[]
+  calories_burned?: number
+}
+
+interface CardioLoggerProps {
+  exercise: WorkoutExercise
+  setNumber: number
+  previousSets: CardioSetData[]
+  maxHeartRate: MaxHeartRate | null
+  // Latest bodyweight in lbs, used to scale calorie estimates
+  bodyweight: number | null
+  // Distances in km rather than miles
+  metric: boolean
+  onLogSet: (setData: CardioSetData) => void
+  isResting: boolean
+}
+
+const parseOptional = (value: string) => {
+  const parsed = parseFloat(value)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+export default function CardioLogger({
+  exercise,
+  setNumber,
+  previousSets,
+  maxHeartRate,
+  bodyweight,
+  metric,
+  onLogSet,
+  isResting
+}: CardioLoggerProps) {
+  const target = exercise.cardio_target || {}
+  const distanceUnit = metric ? 'km' : 'mi'
+  const metersPerUnit = metric ? 1000 : METERS_PER_MILE
+
+  const [duration, setDuration] = useState('')
+  const [distance, setDistance] = useState('')
+  const [avgHeartRate, setAvgHeartRate] = useState('')
+  const [peakHeartRate, setPeakHeartRate] = useState('')
+  const [incline, setIncline] = useState('')
+  const [resistance, setResistance] = useState('')
+  const [zoneMinutes, setZoneMinutes] = useState<string[]>(['', '', '', '', ''])
+  const [showZones, setShowZones] = useState(false)
+  const [rpe, setRpe] = useState<number>(exercise.rpe_target || 7)
+  const [notes, setNotes] = useState('')
+
+  // Start each bout from the prescription
+  useEffect(() => {
+    setDuration(target.durationSeconds ? formatDuration(target.durationSeconds) : '')
+    setDistance(target.distanceMeters ? String(Math.round(target.distanceMeters / metersPerUnit * 100) / 100) : '')
+    setIncline(target.incline !== undefined ? String(target.incline) : '')
+    setResistance(target.resistance !== undefined ? String(target.resistance) : '')
+    setAvgHeartRate('')
+    setPeakHeartRate('')
+    setZoneMinutes(['', '', '', '', ''])
+    setNotes('')
+  }, [exercise.id, setNumber, metric])
+
+  const durationSeconds = parseDuration(duration)
+  const distanceValue = parseOptional(distance)
+  const distanceMeters = distanceValue !== undefined ? Math.round(distanceValue * metersPerUnit) : undefined
+  const pace = calculatePace(durationSeconds, distanceMeters)
+  const avgHr = parseOptional(avgHeartRate)
+  const avgZone = avgHr && maxHeartRate ? getZoneForHeartRate(avgHr, maxHeartRate.value) : null
+  const calories = estimateCalories(exercise.exercise.calories_per_minute, durationSeconds, bodyweight)
+  const zones = maxHeartRate ? getHeartRateZones(maxHeartRate.value) : []
+  const targetZone = zones.find(zone => zone.zone === target.heartRateZone)
+
+  const handleLogSet = () => {
+    if (!durationSeconds) return
+
+    const timeInZones = zoneMinutes.map(minutes => Math.round((parseOptional(minutes) ?? 0) * 60))
+    const peakHr = parseOptional(peakHeartRate)
+    const inclineValue = parseOptional(incline)
+    const resistanceValue = parseOptional(resistance)
+
+    onLogSet({
+      set_number: setNumber,
+      actual_reps: 0,
+      actual_weight: 0,
+      rpe,
+      notes: notes.trim() || undefined,
+      duration_seconds: durationSeconds,
+      distance_meters: distanceMeters,
+      pace_seconds_per_km: pace ?? undefined,
+      avg_heart_rate: avgHr !== undefined ? Math.round(avgHr) : undefined,
+      max_heart_rate: peakHr !== undefined ? Math.round(peakHr) : undefined,
+      incline: inclineValue,
+      resistance: resistanceValue !== undefined ? Math.round(resistanceValue) : undefined,
+      time_in_zones: timeInZones.some(seconds => seconds > 0) ? timeInZones : undefined,
+      calories_burned: calories ?? undefined
+    })
+  }
+
+  const canLogSet = !!durationSeconds && !isResting
+  const lastSet = previousSets[previousSets.length - 1]
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">{exercise.sets > 1 ? `Log Bout ${setNumber}` : 'Log Cardio'}</h3>
+          {describeCardioTarget(target, metric) && (
+            <p className="text-sm text-muted-foreground">
+              Target: {describeCardioTarget(target, metric)}
+            </p>
+          )}
+          {targetZone && (
+            <p className="text-xs text-muted-foreground">
+              Zone {targetZone.zone} ({targetZone.label}): {targetZone.min}–{targetZone.max} bpm
+            </p>
+          )}
+        </div>
+        {exercise.rpe_target && (
+          <Badge variant="outline">
+            Target RPE {exercise.rpe_target}
+          </Badge>
+        )}
+      </div>
+
+      {/* Duration and Distance */}
+      <Card>
+        <CardContent className="p-4 grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="cardio-duration" className="text-sm font-medium mb-2 block">Duration (mm:ss)</Label>
+            <Input
+              id="cardio-duration"
+              inputMode="numeric"
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              placeholder="30:00"
+              className="text-center text-xl font-bold h-12"
+            />
+          </div>
+          <div>
+            <Label htmlFor="cardio-distance" className="text-sm font-medium mb-2 block">Distance ({distanceUnit})</Label>
+            <Input
+              id="cardio-distance"
+              type="number"
+              min="0"
+              step="0.01"
+              value={distance}
+              onChange={(e) => setDistance(e.target.value)}
+              placeholder="0.00"
+              className="text-center text-xl font-bold h-12"
+            />
+          </div>
+          {pace && (
+            <p className="col-span-2 text-sm text-muted-foreground text-center">
+              Pace {formatPace(pace, metric)}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Heart Rate */}
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium flex items-center gap-2">
+              <Heart className="w-4 h-4 text-red-500" />
+              Heart Rate (bpm)
+            </Label>
+            {avgZone && (
+              <Badge variant="secondary">Zone {avgZone}</Badge>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              type="number"
+              min="30"
+              max="250"
+              value={avgHeartRate}
+              onChange={(e) => setAvgHeartRate(e.target.value)}
+              placeholder="Average"
+              className="h-12 text-center"
+            />
+            <Input
+              type="number"
+              min="30"
+              max="250"
+              value={peakHeartRate}
+              onChange={(e) => setPeakHeartRate(e.target.value)}
+              placeholder="Max"
+              className="h-12 text-center"
+            />
+          </div>
+
+          {/* Time in Zone */}
+          <Collapsible open={showZones} onOpenChange={setShowZones}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="w-full justify-between">
+                Time in zone (minutes)
+                {showZones ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <div className="grid grid-cols-5 gap-2 pt-2">
+                {zoneMinutes.map((minutes, index) => (
+                  <div key={index} className="text-center">
+                    <div className="text-xs font-medium">Z{index + 1}</div>
+                    {zones[index] && (
+                      <div className="text-[10px] text-muted-foreground">{zones[index].min}–{zones[index].max}</div>
+                    )}
+                    <Input
+                      type="number"
+                      min="0"
+                      value={minutes}
+                      onChange={(e) => setZoneMinutes(prev => prev.map((value, i) => i === index ? e.target.value : value))}
+                      className="h-10 text-center mt-1 px-1"
+                    />
+                  </div>
+                ))}
+              </div>
+              {maxHeartRate && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Zones from a max heart rate of {maxHeartRate.value} bpm
+                  {maxHeartRate.source === 'age' ? ' (estimated from age)' : ''}
+                </p>
+              )}
+            </CollapsibleContent>
+          </Collapsible>
+        </CardContent>
+      </Card>
+
+      {/* Machine Settings */}
+      <Card>
+        <CardContent className="p-4 grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="cardio-incline" className="text-sm font-medium mb-2 block">Incline (%)</Label>
+            <Input
+              id="cardio-incline"
+              type="number"
+              step="0.5"
+              value={incline}
+              onChange={(e) => setIncline(e.target.value)}
+              className="h-12 text-center"
+            />
+          </div>
+          <div>
+            <Label htmlFor="cardio-resistance" className="text-sm font-medium mb-2 block">Resistance</Label>
+            <Input
+              id="cardio-resistance"
+              type="number"
+              min="0"
+              value={resistance}
+              onChange={(e) => setResistance(e.target.value)}
+              className="h-12 text-center"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* RPE Selection */}
+      <Card>
+        <CardContent className="p-4">
+          <Label className="text-sm font-medium mb-3 block">
+            Rate of Perceived Exertion (RPE)
+          </Label>
+          <div className="grid grid-cols-5 gap-2">
+            {[6, 7, 8, 9, 10].map(rpeValue => (
+              <Button
+                key={rpeValue}
+                variant={rpe === rpeValue ? 'default' : 'outline'}
+                className="h-12 text-lg font-bold touch-manipulation"
+                onClick={() => setRpe(rpeValue)}
+              >
+                {rpeValue}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Notes (Optional) */}
+      <Card>
+        <CardContent className="p-4">
+          <Label className="text-sm font-medium mb-3 block">
+            Notes (Optional)
+          </Label>
+          <Input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="How did this feel?"
+            className="h-12"
+          />
+        </CardContent>
+      </Card>
+
+      {/* Calories and Previous Bout */}
+      {(calories !== null || lastSet) && (
+        <Card variant="glass">
+          <CardContent className="p-4 space-y-2 text-sm">
+            {calories !== null && (
+              <div className="flex items-center gap-2">
+                <Flame className="w-4 h-4 text-primary" />
+                <span>≈ {calories} kcal</span>
+              </div>
+            )}
+            {lastSet?.duration_seconds && (
+              <div className="flex items-center gap-4 text-muted-foreground">
+                <span>Previous: {formatDuration(lastSet.duration_seconds)}</span>
+                {lastSet.distance_meters && <span>{formatDistance(lastSet.distance_meters, metric)}</span>}
+                {lastSet.avg_heart_rate && <span>{lastSet.avg_heart_rate} bpm</span>}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Log Button */}
+      <Button
+        onClick={handleLogSet}
+        disabled={!canLogSet}
+        className="w-full h-14 text-lg font-semibold bg-gradient-to-r from-primary to-accent text-white disabled:opacity-50 touch-manipulation"
+      >
+        {isResting ? (
+          <>
+            <RotateCcw className="w-5 h-5 mr-2 animate-spin" />
+            Resting...
+          </>
+        ) : (
+          <>
+            <Check className="w-5 h-5 mr-2" />
+            {exercise.sets > 1 ? `Complete Bout ${setNumber}` : 'Complete'}
+          </>
+        )}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+import React, { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Check, Repeat } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { LoadingSpinner } from '@/components/ui/loading'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { useToast } from '@/hooks/use-toast'
+import { apiRequest } from '@/lib/queryClient'
+import { EQUIPMENT_PROFILE_LABELS, type EquipmentProfile, type EquipmentProfileType } from '@/lib/equipment'
+import type { SubstituteCandidate } from './SubstituteDialog'
+
+interface EquipmentProposal {
+  workoutExerciseId: number
+  exerciseId: number
+  exerciseName: string
+  equipment: string | null
+  substitutes: SubstituteCandidate[]
+}
+
+interface EquipmentCheckResult {
+  profile: EquipmentProfile | null
+  proposals: EquipmentProposal[]
+}
+
+interface EquipmentProfilesResponse {
+  profiles: EquipmentProfile[]
+  activeProfileId: number | null
+}
+
+interface EquipmentCheckProps {
+  workoutSessionId: number
+  // clients.id of the signed-in client; profiles can't be switched without it
+  clientId: number | null
+  open: boolean
+  onClose: () => void
+  onSubstituted: (workoutExerciseId: number, substitute: SubstituteCandidate) => void
+}
+
+// Before a session: pick where you're training and swap what that equipment can't do
+export default function EquipmentCheck({ workoutSessionId, clientId, open, onClose, onSubstituted }: EquipmentCheckProps) {
+  const [swapped, setSwapped] = useState<Record<number, string>>({})
+  const [saving, setSaving] = useState<number | null>(null)
+
+  const { session } = useSupabaseAuth()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const profilesKey = [`/api/clients/${clientId}/equipment-profiles`]
+  const checkKey = [`/api/workout-sessions/${workoutSessionId}/equipment-check`]
+
+  const { data: profileData } = useQuery<EquipmentProfilesResponse>({
+    queryKey: profilesKey,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/clients/${clientId}/equipment-profiles`, undefined, session)
+      return response.json()
+    },
+    enabled: open && !!session && clientId !== null
+  })
+
+  const { data: check, isLoading } = useQuery<EquipmentCheckResult>({
+    queryKey: checkKey,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/workout-sessions/${workoutSessionId}/equipment-check`, undefined, session)
+      return response.json()
+    },
+    enabled: open && !!session
+  })
+
+  const switchProfile = async (value: string) => {
+    try {
+      await apiRequest('PUT', `/api/clients/${clientId}/equipment-profiles/active`, {
+        activeEquipmentProfileId: value === 'none' ? null : parseInt(value, 10)
+      }, session)
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: profilesKey }),
+        queryClient.invalidateQueries({ queryKey: checkKey })
+      ])
+    } catch (error) {
+      console.error('Error switching equipment profile:', error)
+      toast({ title: "Couldn't switch equipment profile", description: 'Check your connection and try again.', variant: 'destructive' })
+    }
+  }
+
+  const swap = async (proposal: EquipmentProposal, substitute: SubstituteCandidate) => {
+    try {
+      setSaving(proposal.workoutExerciseId)
+      await apiRequest('POST', `/api/workout-sessions/${workoutSessionId}/substitutions`, {
+        workoutExerciseId: proposal.workoutExerciseId,
+        exerciseId: substitute.exerciseId,
+        variationId: substitute.variationId,
+        reason: check?.profile ? `Not available: ${check.profile.name}` : null
+      }, session)
+      onSubstituted(proposal.workoutExerciseId, substitute)
+      setSwapped(prev => ({ ...prev, [proposal.workoutExerciseId]: substitute.name }))
+    } catch (error) {
+      console.error('Error swapping exercise:', error)
+      toast({ title: "Couldn't swap exercise", description: 'Check your connection and try again.', variant: 'destructive' })
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const profiles = profileData?.profiles ?? []
+
+  // Nothing to check against until the client has set up where they train
+  if (profileData && profiles.length === 0) return null
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Where are you training?</DialogTitle>
+          <DialogDescription>
+            Exercises your equipment can't handle get alternatives you can swap in before you start.
+          </DialogDescription>
+        </DialogHeader>
+
+        {clientId !== null && (
+          <div className="flex items-center gap-2">
+            <Label className="text-sm">Equipment</Label>
+            <Select value={profileData?.activeProfileId ? `${profileData.activeProfileId}` : 'none'} onValueChange={switchProfile}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Any equipment</SelectItem>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={`${profile.id}`}>
+                    {profile.name} · {EQUIPMENT_PROFILE_LABELS[(profile.profileType ?? 'gym') as EquipmentProfileType]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : !check?.profile || check.proposals.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {check?.profile ? `Everything in this workout works with ${check.profile.name}.` : 'No equipment limits set for this session.'}
+          </p>
+        ) : (
+          <div className="space-y-3 max-h-80 overflow-auto">
+            {check.proposals.map(proposal => (
+              <div key={proposal.workoutExerciseId} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{proposal.exerciseName}</span>
+                  {proposal.equipment && <Badge variant="outline">{proposal.equipment}</Badge>}
+                </div>
+                {swapped[proposal.workoutExerciseId] ? (
+                  <p className="flex items-center gap-1 text-sm text-green-600">
+                    <Check className="w-4 h-4" />
+                    Swapped for {swapped[proposal.workoutExerciseId]}
+                  </p>
+                ) : proposal.substitutes.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No alternatives with this equipment. Ask your coach.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {proposal.substitutes.map(substitute => (
+                      <Button
+                        key={`${substitute.kind}-${substitute.variationId ?? substitute.exerciseId}`}
+                        variant="outline"
+                        size="sm"
+                        disabled={saving === proposal.workoutExerciseId}
+                        onClick={() => swap(proposal, substitute)}
+                      >
+                        <Repeat className="w-3 h-3 mr-1" />
+                        {substitute.name}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={onClose}>Start Workout</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
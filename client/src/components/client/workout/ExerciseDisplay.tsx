@@ -1,9 +1,14 @@
 import React, { useState } from 'react'
-import { Play, Pause, Volume2, VolumeX, Target, Info, Clock, Zap } from 'lucide-react'
+import { Play, Pause, Volume2, VolumeX, Target, Info, Clock, Zap, TrendingUp, Repeat } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import ExerciseHistoryChart from '@/components/dashboard/ExerciseHistoryChart'
+import SubstituteDialog, { type SubstituteCandidate } from './SubstituteDialog'
+import { formatResolvedLoad, type ResolvedLoad } from '@/lib/prescription'
+import type { WeightUnit } from '@shared/weight-units'
 
 interface Exercise {
   id: number
@@ -43,6 +48,16 @@ interface ExerciseDisplayProps {
   exercise: WorkoutExercise
   currentSet: number
   completedSets: ExerciseSet[]
+  // Unit the sets were logged in
+  unit: WeightUnit
+  resolvedLoad?: ResolvedLoad
+  // clients.id, for the exercise history chart
+  clientId?: number | null
+  // Swapping needs a session saved on the server
+  workoutSessionId?: number
+  // The workout exercise as programmed, before any swap
+  originalName?: string
+  onSubstitute?: (substitute: SubstituteCandidate) => void
 }
 
 const muscleGroupColors = [
@@ -53,11 +68,23 @@ const muscleGroupColors = [
   'bg-cyan-100 text-cyan-800 dark:bg-cyan-900/20 dark:text-cyan-400'
 ]
 
-export default function ExerciseDisplay({ exercise, currentSet, completedSets }: ExerciseDisplayProps) {
+export default function ExerciseDisplay({
+  exercise,
+  currentSet,
+  completedSets,
+  unit,
+  resolvedLoad,
+  clientId,
+  workoutSessionId,
+  originalName,
+  onSubstitute
+}: ExerciseDisplayProps) {
   const [showVideo, setShowVideo] = useState(false)
   const [isPlaying, setIsPlaying] = useState(false)
   const [isMuted, setIsMuted] = useState(false)
   const [showInstructions, setShowInstructions] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showSubstitutes, setShowSubstitutes] = useState(false)
 
   const formatRestTime = (seconds: number) => {
     if (seconds < 60) return `${seconds}s`
@@ -72,20 +99,61 @@ export default function ExerciseDisplay({ exercise, currentSet, completedSets }:
   }
 
   const lastSet = getLastSetData()
+  const computedLoad = resolvedLoad && resolvedLoad.prescription.kind !== 'fixed' ? formatResolvedLoad(resolvedLoad) : null
 
   return (
     <div className="p-4 space-y-6">
       {/* Exercise Header */}
       <div className="text-center">
         <h1 className="text-2xl font-bold mb-2">{exercise.exercise.name}</h1>
+        {originalName && originalName !== exercise.exercise.name && (
+          <p className="text-sm text-muted-foreground mb-2">Swapped for {originalName}</p>
+        )}
         <div className="flex items-center justify-center gap-2 mb-4">
           <Badge variant="outline">{exercise.exercise.category}</Badge>
           {exercise.exercise.equipment && (
             <Badge variant="secondary">{exercise.exercise.equipment}</Badge>
           )}
+          {clientId && (
+            <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setShowHistory(true)}>
+              <TrendingUp className="w-4 h-4 mr-1" />
+              History
+            </Button>
+          )}
+          {workoutSessionId && onSubstitute && (
+            <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setShowSubstitutes(true)}>
+              <Repeat className="w-4 h-4 mr-1" />
+              Swap
+            </Button>
+          )}
         </div>
       </div>
 
+      {/* Exercise Substitutes */}
+      {workoutSessionId && onSubstitute && (
+        <SubstituteDialog
+          workoutSessionId={workoutSessionId}
+          workoutExerciseId={exercise.id}
+          exerciseName={exercise.exercise.name}
+          equipment={exercise.exercise.equipment}
+          open={showSubstitutes}
+          onClose={() => setShowSubstitutes(false)}
+          onSubstituted={onSubstitute}
+        />
+      )}
+
+      {/* Exercise History */}
+      {clientId && (
+        <Dialog open={showHistory} onOpenChange={setShowHistory}>
+          <DialogContent className="sm:max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{exercise.exercise.name} History</DialogTitle>
+            </DialogHeader>
+            {showHistory && <ExerciseHistoryChart clientId={clientId} exerciseId={exercise.exercise.id} />}
+          </DialogContent>
+        </Dialog>
+      )}
+
       {/* Video/Image Display */}
       <Card variant="premium">
         <CardContent className="p-0">
@@ -162,6 +230,11 @@ export default function ExerciseDisplay({ exercise, currentSet, completedSets }:
                 <div className="text-2xl font-bold text-primary mb-1">
                   {exercise.weight}
                 </div>
+                {computedLoad && (
+                  <div className="text-sm font-semibold mb-1" title={resolvedLoad?.detail}>
+                    ≈ {computedLoad}
+                  </div>
+                )}
                 <div className="text-sm text-muted-foreground">WEIGHT</div>
               </div>
             )}
@@ -231,7 +304,7 @@ export default function ExerciseDisplay({ exercise, currentSet, completedSets }:
                   <div className="text-muted-foreground">reps</div>
                 </div>
                 <div>
-                  <div className="font-semibold">{lastSet.actual_weight} lbs</div>
+                  <div className="font-semibold">{lastSet.actual_weight} {unit}</div>
                   <div className="text-muted-foreground">weight</div>
                 </div>
                 <div>
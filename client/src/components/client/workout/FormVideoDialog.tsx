@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Video, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import storage from '@/lib/storage'
+
+interface FormVideoDialogProps {
+  exerciseSetId: number
+  exerciseName: string
+  setNumber: number
+  open: boolean
+  onClose: () => void
+  onUploaded: (exerciseSetId: number) => void
+}
+
+// Attach a clip of a logged set for the coach to review
+export default function FormVideoDialog({ exerciseSetId, exerciseName, setNumber, open, onClose, onUploaded }: FormVideoDialogProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<string | null>(null)
+  const [note, setNote] = useState('')
+  const [progress, setProgress] = useState<number | null>(null)
+
+  const inputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!file) return
+    const url = URL.createObjectURL(file)
+    setPreview(url)
+    return () => URL.revokeObjectURL(url)
+  }, [file])
+
+  const upload = async () => {
+    if (!file) return
+    try {
+      setProgress(0)
+      await storage.uploadFormVideo(exerciseSetId, file, note.trim() || undefined, setProgress)
+      toast({ title: 'Video sent', description: "Your coach will review your form and you'll be notified." })
+      onUploaded(exerciseSetId)
+      onClose()
+    } catch (error) {
+      console.error('Error uploading form video:', error)
+      toast({
+        title: "Couldn't upload video",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && progress === null && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Form Check: {exerciseName}</DialogTitle>
+          <DialogDescription>
+            Film set {setNumber} from the side, with your whole body in frame. Keep it short.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <input
+            ref={inputRef}
+            type="file"
+            accept="video/mp4,video/webm,video/quicktime"
+            capture="environment"
+            className="hidden"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+          {preview ? (
+            <video src={preview} controls playsInline className="w-full rounded-lg bg-black max-h-64" />
+          ) : (
+            <Button variant="outline" className="w-full h-24 flex-col gap-2" onClick={() => inputRef.current?.click()}>
+              <Video className="w-6 h-6" />
+              Record or choose a video
+            </Button>
+          )}
+          {preview && (
+            <Button variant="ghost" size="sm" onClick={() => inputRef.current?.click()} disabled={progress !== null}>
+              Choose a different video
+            </Button>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="form-video-note" className="text-sm">Note for your coach (optional)</Label>
+            <Input
+              id="form-video-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Lower back felt tight on the last rep"
+              maxLength={500}
+            />
+          </div>
+
+          {progress !== null && <Progress value={progress} />}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={progress !== null}>Cancel</Button>
+          <Button onClick={upload} disabled={!file || progress !== null} className="gap-2">
+            <Upload className="w-4 h-4" />
+            Send to Coach
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react'
+import { Calculator } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { buildLoadTable, calculatePlates, type PlateSetup } from '@/lib/plates'
+import { convertWeight, type WeightUnit } from '@shared/weight-units'
+
+interface PlateCalculatorProps {
+  // Target load in the player's unit, normally the same as the setup's
+  targetWeight: number
+  unit: WeightUnit
+  setup: PlateSetup
+  onRound: (weight: number) => void
+}
+
+const formatWeight = (weight: number) => Number.isInteger(weight) ? `${weight}` : `${Math.round(weight * 100) / 100}`
+
+export default function PlateCalculator({ targetWeight, unit, setup, onRound }: PlateCalculatorProps) {
+  const table = useMemo(() => buildLoadTable(setup), [setup])
+
+  const target = convertWeight(targetWeight, unit, setup.unit)
+  const load = calculatePlates(target, setup, table)
+
+  if (targetWeight <= 0) return null
+
+  const rounded = Math.round(convertWeight(load.total, setup.unit, unit) * 100) / 100
+
+  return (
+    <div className="rounded-lg border bg-muted/30 p-3 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-1 font-medium">
+          <Calculator className="w-4 h-4" />
+          Plates per side
+        </span>
+        <span className="text-muted-foreground">
+          {formatWeight(setup.barWeight)} {setup.unit} bar
+        </span>
+      </div>
+
+      {load.perSide.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {load.perSide.map((plate, index) => (
+            <Badge key={index} variant="secondary" className="font-mono">
+              {formatWeight(plate)}
+            </Badge>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Empty bar</p>
+      )}
+
+      {!load.exact && (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-muted-foreground">
+            Closest you can load: <span className="font-semibold text-foreground">{formatWeight(load.total)} {setup.unit}</span>
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="touch-manipulation"
+            onClick={() => onRound(rounded)}
+          >
+            Round
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
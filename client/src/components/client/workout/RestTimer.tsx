@@ -3,53 +3,22 @@ import { Play, Pause, SkipForward, Plus, Minus, Volume2, VolumeX } from 'lucide-
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
+import { playTimerCue, DEFAULT_TIMER_CUES, type TimerCuePreferences } from '@/lib/timer-cues'
 
 interface RestTimerProps {
   duration: number // seconds
+  cues?: TimerCuePreferences
+  // Exercise and set the client goes to after resting
+  nextUp?: string
   onComplete: () => void
   onSkip: () => void
 }
 
-export default function RestTimer({ duration, onComplete, onSkip }: RestTimerProps) {
+export default function RestTimer({ duration, cues = DEFAULT_TIMER_CUES, nextUp, onComplete, onSkip }: RestTimerProps) {
   const [timeRemaining, setTimeRemaining] = useState(duration)
   const [isRunning, setIsRunning] = useState(true)
-  const [soundEnabled, setSoundEnabled] = useState(true)
+  const [soundEnabled, setSoundEnabled] = useState(cues.sounds)
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
-  const audioRef = useRef<HTMLAudioElement | null>(null)
-
-  useEffect(() => {
-    // Create audio context for timer sounds
-    if (typeof window !== 'undefined' && soundEnabled) {
-      // Create a simple beep sound using Web Audio API
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)()
-      
-      const createBeep = (frequency: number, duration: number) => {
-        const oscillator = audioContext.createOscillator()
-        const gainNode = audioContext.createGain()
-        
-        oscillator.connect(gainNode)
-        gainNode.connect(audioContext.destination)
-        
-        oscillator.frequency.value = frequency
-        oscillator.type = 'sine'
-        
-        gainNode.gain.setValueAtTime(0.3, audioContext.currentTime)
-        gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + duration)
-        
-        oscillator.start(audioContext.currentTime)
-        oscillator.stop(audioContext.currentTime + duration)
-      }
-
-      // Store the beep function for later use
-      audioRef.current = { beep: createBeep } as any
-    }
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
-    }
-  }, [soundEnabled])
 
   useEffect(() => {
     if (isRunning && timeRemaining > 0) {
@@ -57,24 +26,12 @@ export default function RestTimer({ duration, onComplete, onSkip }: RestTimerPro
         setTimeRemaining(prev => {
           const newTime = prev - 1
           
-          // Play warning sounds
-          if (soundEnabled && audioRef.current) {
-            if (newTime === 15 || newTime === 10 || newTime === 5) {
-              // Warning beep
-              ;(audioRef.current as any).beep?.(800, 0.2)
-            } else if (newTime === 0) {
-              // Completion beep
-              ;(audioRef.current as any).beep?.(1200, 0.5)
-            }
-          }
-          
-          // Vibrate on mobile for warnings and completion
-          if ('navigator' in window && 'vibrate' in navigator) {
-            if (newTime === 15 || newTime === 10 || newTime === 5) {
-              navigator.vibrate(100)
-            } else if (newTime === 0) {
-              navigator.vibrate([200, 100, 200])
-            }
+          // Warning and completion cues, following the client's sound and vibration preferences
+          const preferences = { sounds: soundEnabled, vibration: cues.vibration }
+          if (newTime === 15 || newTime === 10 || newTime === 5) {
+            playTimerCue('warning', preferences)
+          } else if (newTime === 0) {
+            playTimerCue('finish', preferences)
           }
           
           if (newTime <= 0) {
@@ -97,7 +54,7 @@ export default function RestTimer({ duration, onComplete, onSkip }: RestTimerPro
         clearInterval(intervalRef.current)
       }
     }
-  }, [isRunning, timeRemaining, onComplete, soundEnabled])
+  }, [isRunning, timeRemaining, onComplete, soundEnabled, cues.vibration])
 
   const toggleTimer = () => {
     setIsRunning(!isRunning)
@@ -137,6 +94,9 @@ export default function RestTimer({ duration, onComplete, onSkip }: RestTimerPro
             <p className="text-sm text-muted-foreground">
               Take your time to recover between sets
             </p>
+            {nextUp && (
+              <p className="text-sm font-medium mt-2">Up next: {nextUp}</p>
+            )}
           </div>
 
           {/* Circular Progress */}
@@ -1,10 +1,16 @@
-import React, { useState, useEffect } from 'react'
-import { Plus, Minus, Check, RotateCcw } from 'lucide-react'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import { Plus, Minus, Check, RotateCcw, TrendingUp, Flame, Video } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { suggestNextSet, parseRepRange, parsePrescribedWeight, type ProgressionModel } from '@/lib/progression'
+import { formatResolvedLoad, type ResolvedLoad } from '@/lib/prescription'
+import type { PlateSetup } from '@/lib/plates'
+import type { WarmupSet } from '@/lib/warmups'
+import type { WeightUnit } from '@shared/weight-units'
+import PlateCalculator from './PlateCalculator'
 
 interface WorkoutExercise {
   id: number
@@ -19,6 +25,8 @@ interface WorkoutExercise {
   rest_seconds: number
   notes: string
   rpe_target?: number
+  progression_model?: ProgressionModel | null
+  progression_increment?: number | string | null
 }
 
 interface ExerciseSet {
@@ -34,7 +42,20 @@ interface SetLoggerProps {
   exercise: WorkoutExercise
   setNumber: number
   previousSets: ExerciseSet[]
+  lastSession?: ExerciseSet[]
+  // Unit of every load shown and logged here (the client's metric_system)
+  unit: WeightUnit
+  resolvedLoad?: ResolvedLoad
+  plateSetup?: PlateSetup
+  // Warm-up ramp still to do before the first working set
+  warmupSets?: WarmupSet[]
+  warmupsLogged?: number
   onLogSet: (setData: Omit<ExerciseSet, 'id'>) => void
+  onLogWarmup?: (warmup: WarmupSet) => void
+  onSkipWarmup?: () => void
+  // Form check: attach a clip to a logged set; sets already sent are ticked
+  onAttachVideo?: (set: ExerciseSet) => void
+  videoSetIds?: number[]
   isResting: boolean
 }
 
@@ -46,40 +67,89 @@ const rpeDescriptions = {
   10: 'Max - Could not do any more reps'
 }
 
-const commonWeights = [
-  5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55, 60, 65, 70, 75, 80, 85, 90, 95, 100,
-  105, 110, 115, 120, 125, 135, 145, 155, 165, 175, 185, 195, 205, 215, 225, 245, 265, 275, 295, 315
-]
+// Shared default so the suggestion isn't recomputed on every render
+const NO_SETS: ExerciseSet[] = []
 
-export default function SetLogger({ exercise, setNumber, previousSets, onLogSet, isResting }: SetLoggerProps) {
+const commonWeights: Record<WeightUnit, number[]> = {
+  lbs: [
+    5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55, 60, 65, 70, 75, 80, 85, 90, 95, 100,
+    105, 110, 115, 120, 125, 135, 145, 155, 165, 175, 185, 195, 205, 215, 225, 245, 265, 275, 295, 315
+  ],
+  kg: [
+    2.5, 5, 7.5, 10, 12.5, 15, 17.5, 20, 22.5, 25, 27.5, 30, 32.5, 35, 37.5, 40, 42.5, 45, 47.5, 50,
+    55, 60, 65, 70, 75, 80, 85, 90, 95, 100, 110, 120, 130, 140
+  ]
+}
+
+// +/- buttons take the small step below `heavy` and the large one from there up
+const weightSteps: Record<WeightUnit, { small: number; large: number; heavy: number; quickRange: number }> = {
+  lbs: { small: 5, large: 10, heavy: 100, quickRange: 50 },
+  kg: { small: 2.5, large: 5, heavy: 50, quickRange: 25 }
+}
+
+export default function SetLogger({
+  exercise,
+  setNumber,
+  previousSets,
+  lastSession = NO_SETS,
+  unit,
+  resolvedLoad,
+  plateSetup,
+  warmupSets = [],
+  warmupsLogged = 0,
+  onLogSet,
+  onLogWarmup,
+  onSkipWarmup,
+  onAttachVideo,
+  videoSetIds = [],
+  isResting
+}: SetLoggerProps) {
   const [reps, setReps] = useState<number>(0)
   const [weight, setWeight] = useState<number>(0)
   const [rpe, setRpe] = useState<number>(exercise.rpe_target || 7)
   const [notes, setNotes] = useState<string>('')
   const [showWeightPicker, setShowWeightPicker] = useState(false)
 
-  // Initialize with previous set data or prescribed values
+  const isBodyweight = exercise.exercise.equipment === 'bodyweight'
+  const isBarbell = exercise.exercise.equipment === 'barbell'
+
+  // Next target from the client's last session of this exercise and the coach's progression model
+  const suggestion = useMemo(
+    () => suggestNextSet(exercise, setNumber, lastSession, previousSets[previousSets.length - 1], isBodyweight, unit),
+    [exercise, setNumber, lastSession, previousSets, isBodyweight, unit]
+  )
+
+  // Whether the client has changed reps or weight for the current set
+  const edited = useRef(false)
+  const prefillKey = `${exercise.id}:${setNumber}`
+  const prefilledKey = useRef<string | null>(null)
+
+  // Initialize with the suggested target, previous set data or prescribed values.
+  // Data that arrives later for the same set only fills in untouched inputs.
   useEffect(() => {
+    if (prefilledKey.current !== prefillKey) {
+      prefilledKey.current = prefillKey
+      edited.current = false
+    } else if (edited.current) {
+      return
+    }
+
     const lastSet = previousSets[previousSets.length - 1]
-    if (lastSet) {
+    if (suggestion) {
+      setReps(suggestion.reps)
+      setWeight(suggestion.weight)
+      if (lastSet) setRpe(lastSet.rpe)
+    } else if (lastSet) {
       // Use previous set as starting point
       setReps(lastSet.actual_reps)
       setWeight(lastSet.actual_weight)
       setRpe(lastSet.rpe)
     } else {
       // Parse prescribed values for first set
-      const prescribedReps = exercise.reps.includes('-') 
-        ? parseInt(exercise.reps.split('-')[0]) 
-        : parseInt(exercise.reps) || 0
-      
-      const prescribedWeight = exercise.weight 
-        ? parseFloat(exercise.weight.replace(/[^\d.]/g, '')) || 0
-        : 0
-
-      setReps(prescribedReps)
-      setWeight(prescribedWeight)
+      setReps(parseRepRange(exercise.reps)?.min ?? 0)
+      setWeight(resolvedLoad?.weight ?? parsePrescribedWeight(exercise.weight, unit))
     }
-  }, [exercise, previousSets, setNumber])
+  }, [prefillKey, previousSets, suggestion, resolvedLoad?.weight])
 
   const handleLogSet = () => {
     if (reps <= 0) return
@@ -96,20 +166,29 @@ export default function SetLogger({ exercise, setNumber, previousSets, onLogSet,
     setNotes('')
   }
 
-  const incrementReps = () => setReps(prev => Math.min(prev + 1, 50))
-  const decrementReps = () => setReps(prev => Math.max(prev - 1, 0))
-  const incrementWeight = () => setWeight(prev => prev + (prev >= 100 ? 10 : 5))
-  const decrementWeight = () => setWeight(prev => Math.max(prev - (prev > 100 ? 10 : 5), 0))
+  const editReps: typeof setReps = value => {
+    edited.current = true
+    setReps(value)
+  }
+  const editWeight: typeof setWeight = value => {
+    edited.current = true
+    setWeight(value)
+  }
+
+  const incrementReps = () => editReps(prev => Math.min(prev + 1, 50))
+  const decrementReps = () => editReps(prev => Math.max(prev - 1, 0))
+  const steps = weightSteps[unit]
+  const incrementWeight = () => editWeight(prev => prev + (prev >= steps.heavy ? steps.large : steps.small))
+  const decrementWeight = () => editWeight(prev => Math.max(prev - (prev > steps.heavy ? steps.large : steps.small), 0))
 
   const getQuickWeights = () => {
     const currentWeight = weight
-    return commonWeights
-      .filter(w => Math.abs(w - currentWeight) <= 50)
+    return commonWeights[unit]
+      .filter(w => Math.abs(w - currentWeight) <= steps.quickRange)
       .sort((a, b) => Math.abs(a - currentWeight) - Math.abs(b - currentWeight))
       .slice(0, 8)
   }
 
-  const isBodyweight = exercise.exercise.equipment === 'bodyweight'
   const canLogSet = reps > 0 && !isResting
 
   return (
@@ -121,6 +200,14 @@ export default function SetLogger({ exercise, setNumber, previousSets, onLogSet,
           <p className="text-sm text-muted-foreground">
             Target: {exercise.reps} reps {exercise.weight && `@ ${exercise.weight}`}
           </p>
+          {resolvedLoad && resolvedLoad.prescription.kind !== 'fixed' && resolvedLoad.detail && (
+            <p className="text-xs text-muted-foreground">
+              {formatResolvedLoad(resolvedLoad) && (
+                <span className="font-semibold text-foreground">≈ {formatResolvedLoad(resolvedLoad)} · </span>
+              )}
+              {resolvedLoad.detail}
+            </p>
+          )}
         </div>
         {exercise.rpe_target && (
           <Badge variant="outline">
@@ -129,6 +216,79 @@ export default function SetLogger({ exercise, setNumber, previousSets, onLogSet,
         )}
       </div>
 
+      {/* Warm-up Sets */}
+      {warmupSets.length > 0 && (
+        <Card variant="glass">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2">
+                <Flame className="w-4 h-4 text-primary" />
+                <span className="font-medium text-sm">Warm-up</span>
+              </div>
+              {onSkipWarmup && (
+                <Button variant="ghost" size="sm" onClick={onSkipWarmup}>
+                  Skip
+                </Button>
+              )}
+            </div>
+            <div className="space-y-2">
+              {warmupSets.map((warmup, index) => {
+                const done = index < warmupsLogged
+                return (
+                  <div key={index} className="flex items-center justify-between gap-3">
+                    <div className={`text-sm ${done ? 'text-muted-foreground line-through' : ''}`}>
+                      <span className="font-medium">{warmup.label}</span>
+                      <span className="text-muted-foreground"> · {warmup.reps} reps @ {warmup.weight} {unit}</span>
+                    </div>
+                    {done ? (
+                      <Check className="w-4 h-4 text-green-500" />
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="touch-manipulation"
+                        disabled={index !== warmupsLogged || isResting}
+                        onClick={() => onLogWarmup?.(warmup)}
+                      >
+                        Done
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Progression Suggestion */}
+      {suggestion && (
+        <Card variant="glass">
+          <CardContent className="p-4 flex items-start gap-3">
+            <TrendingUp className="w-5 h-5 text-primary mt-0.5 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-sm">
+                Suggested: {suggestion.reps} reps{!isBodyweight && suggestion.weight > 0 && ` @ ${suggestion.weight} ${unit}`}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">{suggestion.reason}</p>
+            </div>
+            {(reps !== suggestion.reps || weight !== suggestion.weight) && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="touch-manipulation"
+                onClick={() => {
+                  editReps(suggestion.reps)
+                  editWeight(suggestion.weight)
+                }}
+              >
+                Use
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Reps Input */}
       <Card>
         <CardContent className="p-4">
@@ -148,7 +308,7 @@ export default function SetLogger({ exercise, setNumber, previousSets, onLogSet,
               <Input
                 type="number"
                 value={reps || ''}
-                onChange={(e) => setReps(parseInt(e.target.value) || 0)}
+                onChange={(e) => editReps(parseInt(e.target.value) || 0)}
                 className="text-center text-xl font-bold h-12"
                 min="0"
                 max="50"
@@ -171,7 +331,7 @@ export default function SetLogger({ exercise, setNumber, previousSets, onLogSet,
       {!isBodyweight && (
         <Card>
           <CardContent className="p-4">
-            <Label className="text-sm font-medium mb-3 block">Weight (lbs)</Label>
+            <Label className="text-sm font-medium mb-3 block">Weight ({unit})</Label>
             <div className="space-y-3">
               <div className="flex items-center gap-3">
                 <Button
@@ -188,10 +348,10 @@ export default function SetLogger({ exercise, setNumber, previousSets, onLogSet,
                   <Input
                     type="number"
                     value={weight || ''}
-                    onChange={(e) => setWeight(parseFloat(e.target.value) || 0)}
+                    onChange={(e) => editWeight(parseFloat(e.target.value) || 0)}
                     className="text-center text-xl font-bold h-12"
                     min="0"
-                    step="2.5"
+                    step={unit === 'kg' ? '1.25' : '2.5'}
                   />
                 </div>
                 
@@ -213,12 +373,17 @@ export default function SetLogger({ exercise, setNumber, previousSets, onLogSet,
                     variant={weight === quickWeight ? "default" : "outline"}
                     size="sm"
                     className="h-10 text-sm touch-manipulation"
-                    onClick={() => setWeight(quickWeight)}
+                    onClick={() => editWeight(quickWeight)}
                   >
                     {quickWeight}
                   </Button>
                 ))}
               </div>
+
+              {/* Plate Loading */}
+              {isBarbell && plateSetup && (
+                <PlateCalculator targetWeight={weight} unit={unit} setup={plateSetup} onRound={editWeight} />
+              )}
             </div>
           </CardContent>
         </Card>
@@ -272,11 +437,29 @@ export default function SetLogger({ exercise, setNumber, previousSets, onLogSet,
               <div className="flex items-center gap-4 text-muted-foreground">
                 <span>{previousSets[previousSets.length - 1].actual_reps} reps</span>
                 {!isBodyweight && (
-                  <span>{previousSets[previousSets.length - 1].actual_weight} lbs</span>
+                  <span>{previousSets[previousSets.length - 1].actual_weight} {unit}</span>
                 )}
                 <span>RPE {previousSets[previousSets.length - 1].rpe}</span>
               </div>
             </div>
+            {/* Only sets saved on the server can carry a video */}
+            {onAttachVideo && previousSets.some(set => set.id) && (
+              <div className="flex flex-wrap items-center gap-2 mt-3 pt-3 border-t">
+                <span className="text-xs text-muted-foreground">Form check:</span>
+                {previousSets.filter(set => set.id).map(set => (
+                  <Button
+                    key={set.id}
+                    variant="outline"
+                    size="sm"
+                    className="h-8 gap-1 touch-manipulation"
+                    onClick={() => onAttachVideo(set)}
+                  >
+                    {videoSetIds.includes(set.id!) ? <Check className="w-3 h-3 text-green-500" /> : <Video className="w-3 h-3" />}
+                    Set {set.set_number}
+                  </Button>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
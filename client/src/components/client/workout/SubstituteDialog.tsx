@@ -0,0 +1,177 @@
+import React, { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Repeat } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { LoadingSpinner } from '@/components/ui/loading'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { useToast } from '@/hooks/use-toast'
+import { apiRequest } from '@/lib/queryClient'
+
+export interface SubstituteCandidate {
+  kind: 'variation' | 'exercise'
+  // Exercise the sets are logged against; a variation's base exercise
+  exerciseId: number
+  variationId: number | null
+  name: string
+  equipment: string | null
+  difficulty: number
+  muscleGroups: string[]
+  score: number
+}
+
+interface SubstituteDialogProps {
+  workoutSessionId: number
+  workoutExerciseId: number
+  exerciseName: string
+  equipment?: string | null
+  open: boolean
+  onClose: () => void
+  onSubstituted: (substitute: SubstituteCandidate) => void
+}
+
+const difficultyLabels: Record<number, string> = { 1: 'Beginner', 2: 'Intermediate', 3: 'Advanced' }
+
+const difficultyLabel = (difficulty: number) =>
+  difficultyLabels[Math.round(difficulty)] ?? 'Intermediate'
+
+export default function SubstituteDialog({
+  workoutSessionId,
+  workoutExerciseId,
+  exerciseName,
+  equipment,
+  open,
+  onClose,
+  onSubstituted
+}: SubstituteDialogProps) {
+  const [selected, setSelected] = useState<SubstituteCandidate | null>(null)
+  const [reason, setReason] = useState('')
+  const [noEquipment, setNoEquipment] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const { session } = useSupabaseAuth()
+  const { toast } = useToast()
+
+  const unavailableEquipment = noEquipment && equipment ? equipment : ''
+
+  const { data: substitutes = [], isLoading } = useQuery<SubstituteCandidate[]>({
+    queryKey: [`/api/workout-sessions/${workoutSessionId}/substitutes`, workoutExerciseId, unavailableEquipment],
+    queryFn: async () => {
+      const params = new URLSearchParams({ workoutExerciseId: `${workoutExerciseId}` })
+      if (unavailableEquipment) params.set('unavailableEquipment', unavailableEquipment)
+      const response = await apiRequest('GET', `/api/workout-sessions/${workoutSessionId}/substitutes?${params.toString()}`, undefined, session)
+      return response.json()
+    },
+    enabled: open && !!session
+  })
+
+  const swap = async () => {
+    if (!selected) return
+
+    try {
+      setSaving(true)
+      await apiRequest('POST', `/api/workout-sessions/${workoutSessionId}/substitutions`, {
+        workoutExerciseId,
+        exerciseId: selected.exerciseId,
+        variationId: selected.variationId,
+        reason: reason.trim() || null
+      }, session)
+      onSubstituted(selected)
+      toast({ title: 'Exercise swapped', description: `${exerciseName} → ${selected.name}. Your coach will see the swap.` })
+      setSelected(null)
+      setReason('')
+      onClose()
+    } catch (error) {
+      console.error('Error swapping exercise:', error)
+      toast({ title: "Couldn't swap exercise", description: 'Check your connection and try again.', variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Swap {exerciseName}</DialogTitle>
+          <DialogDescription>
+            Pick an alternative your coach allows. The rest of your sets are logged against it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {equipment && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="no-equipment"
+              checked={noEquipment}
+              onCheckedChange={(checked) => {
+                setNoEquipment(checked === true)
+                setSelected(null)
+              }}
+            />
+            <Label htmlFor="no-equipment" className="text-sm">
+              I don't have {equipment.toLowerCase()}
+            </Label>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : substitutes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No substitutes available for this exercise. Ask your coach for an alternative.
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-auto">
+            {substitutes.map(substitute => {
+              const isSelected = selected?.exerciseId === substitute.exerciseId && selected?.variationId === substitute.variationId
+              return (
+                <button
+                  key={`${substitute.kind}-${substitute.variationId ?? substitute.exerciseId}`}
+                  type="button"
+                  onClick={() => setSelected(substitute)}
+                  className={`w-full rounded-lg border p-3 text-left transition-colors ${isSelected ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{substitute.name}</span>
+                    <span className="text-xs text-muted-foreground">{substitute.score}% match</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {substitute.kind === 'variation' && <Badge variant="secondary">Variation</Badge>}
+                    {substitute.equipment && <Badge variant="outline">{substitute.equipment}</Badge>}
+                    <Badge variant="outline">{difficultyLabel(substitute.difficulty)}</Badge>
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor="swap-reason">Reason (optional)</Label>
+          <Input
+            id="swap-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={200}
+            placeholder="e.g. Bench taken, shoulder discomfort"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={swap} disabled={!selected || saving}>
+            <Repeat className="w-4 h-4 mr-2" />
+            {saving ? 'Swapping...' : 'Swap Exercise'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react'
-import { CheckCircle, Trophy, Clock, Target, Zap, Star, MessageSquare, Share2 } from 'lucide-react'
+import { CheckCircle, Trophy, Clock, Target, Zap, Star, MessageSquare, Share2, Timer, Flame } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label'
 import { LoadingSpinner } from '@/components/ui/loading'
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
 import { supabase } from '@/lib/supabase'
+import { formatDistance, formatDuration } from '@/lib/cardio'
 
 interface WorkoutSession {
   id: number
@@ -26,15 +27,46 @@ interface ExerciseSet {
   actual_weight: number
   rpe: number
   notes?: string
+  duration_seconds?: number
+  distance_meters?: number
+  calories_burned?: number
+}
+
+interface PersonalRecord {
+  id: number
+  exerciseId: number
+  exerciseName?: string
+  recordType: '1rm' | 'max_reps' | 'max_volume' | 'max_time'
+  value: string
+  unit: string | null
+  improvement: string | null
+}
+
+// Timed block results, already formatted by the player (e.g. "5 rounds + 7 reps")
+interface BlockSummary {
+  blockId: number
+  name: string
+  result: string
 }
 
 interface WorkoutCompleteProps {
   workout: any
   workoutSession: WorkoutSession
   completedSets: Record<string, ExerciseSet[]>
+  personalRecords?: PersonalRecord[]
+  blockResults?: BlockSummary[]
+  // Distances in km rather than miles, loads in kg rather than lbs
+  metric?: boolean
   onExit: () => void
 }
 
+const recordTypeLabels: Record<PersonalRecord['recordType'], string> = {
+  '1rm': 'Est. 1RM',
+  max_reps: 'Rep PR',
+  max_volume: 'Volume PR',
+  max_time: 'Time PR'
+}
+
 const motivationalMessages = [
   "Outstanding work! You crushed that workout! 💪",
   "Another step closer to your goals! Keep it up! 🚀",
@@ -47,6 +79,9 @@ export default function WorkoutComplete({
   workout, 
   workoutSession, 
   completedSets, 
+  personalRecords = [],
+  blockResults = [],
+  metric = false,
   onExit 
 }: WorkoutCompleteProps) {
   const [feedback, setFeedback] = useState('')
@@ -74,6 +109,12 @@ export default function WorkoutComplete({
     total + sets.reduce((setTotal, set) => setTotal + (set.actual_weight * set.actual_reps), 0), 0
   )
 
+  // Cardio bouts
+  const allSets = Object.values(completedSets).flat()
+  const cardioSeconds = allSets.reduce((total, set) => total + (set.duration_seconds || 0), 0)
+  const cardioMeters = allSets.reduce((total, set) => total + (set.distance_meters || 0), 0)
+  const caloriesBurned = allSets.reduce((total, set) => total + (set.calories_burned || 0), 0)
+
   const duration = workoutSession.total_duration || 
     Math.round((new Date().getTime() - new Date(workoutSession.start_time).getTime()) / (1000 * 60))
 
@@ -160,6 +201,58 @@ export default function WorkoutComplete({
           </CardContent>
         </Card>
 
+        {/* Personal Records */}
+        {personalRecords.length > 0 && (
+          <Card variant="premium" className="border-yellow-200 bg-yellow-50/50 dark:bg-yellow-950/20">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-yellow-700 dark:text-yellow-400">
+                <Trophy className="w-5 h-5 text-yellow-500" />
+                New Personal Record{personalRecords.length === 1 ? '' : 's'}!
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {personalRecords.map(record => (
+                <div key={record.id} className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{record.exerciseName || 'Exercise'}</div>
+                    <div className="text-xs text-muted-foreground">{recordTypeLabels[record.recordType]}</div>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <div className="font-bold text-primary">
+                      {Number(record.value).toLocaleString()} {record.unit}
+                    </div>
+                    {record.improvement && (
+                      <div className="text-xs text-green-600 dark:text-green-400">
+                        +{Number(record.improvement).toLocaleString()} {record.unit}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Timed Blocks */}
+        {blockResults.length > 0 && (
+          <Card variant="premium">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Timer className="w-5 h-5 text-primary" />
+                Block Results
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {blockResults.map(block => (
+                <div key={block.blockId} className="flex items-center justify-between gap-3">
+                  <div className="font-medium truncate">{block.name}</div>
+                  <div className="font-bold text-primary flex-shrink-0">{block.result}</div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Workout Summary */}
         <Card variant="premium">
           <CardHeader>
@@ -207,7 +300,27 @@ export default function WorkoutComplete({
                   {Math.round(totalWeight).toLocaleString()}
                 </div>
                 <div className="text-sm text-muted-foreground">
-                  total pounds moved
+                  total {metric ? 'kilograms' : 'pounds'} moved
+                </div>
+              </div>
+            )}
+
+            {cardioSeconds > 0 && (
+              <div className="grid grid-cols-3 gap-2 text-center p-4 bg-muted/50 rounded-lg mb-4">
+                <div>
+                  <div className="text-xl font-bold text-primary">{formatDuration(cardioSeconds)}</div>
+                  <div className="text-xs text-muted-foreground">cardio</div>
+                </div>
+                <div>
+                  <div className="text-xl font-bold text-primary">{cardioMeters > 0 ? formatDistance(cardioMeters, metric) : '–'}</div>
+                  <div className="text-xs text-muted-foreground">distance</div>
+                </div>
+                <div>
+                  <div className="text-xl font-bold text-primary flex items-center justify-center gap-1">
+                    <Flame className="w-4 h-4" />
+                    {caloriesBurned || '–'}
+                  </div>
+                  <div className="text-xs text-muted-foreground">est. kcal</div>
                 </div>
               </div>
             )}
@@ -227,6 +340,11 @@ export default function WorkoutComplete({
                   🔥 High Intensity
                 </Badge>
               )}
+              {personalRecords.length > 0 && (
+                <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
+                  🏆 {personalRecords.length} PR{personalRecords.length === 1 ? '' : 's'}
+                </Badge>
+              )}
               {totalSets >= 20 && (
                 <Badge variant="secondary" className="bg-purple-100 text-purple-800">
                   💪 Volume Beast
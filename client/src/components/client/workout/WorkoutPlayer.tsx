@@ -1,17 +1,49 @@
-import React, { useState, useEffect, useRef } from 'react'
-import { ArrowLeft, Pause, Play, SkipForward, MoreVertical, X } from 'lucide-react'
+import React, { useState, useEffect, useRef, useCallback } from 'react'
+import { ArrowLeft, Pause, Play, SkipForward, MoreVertical, X, RotateCcw, WifiOff, CloudUpload } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { LoadingSpinner } from '@/components/ui/loading'
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { useOfflineSync } from '@/hooks/useOfflineSync'
+import { useToast } from '@/hooks/use-toast'
 import { supabase } from '@/lib/supabase'
+import { apiRequest } from '@/lib/queryClient'
+import socketService from '@/lib/socket'
 import { useLocation } from 'wouter'
+import { formatDistanceToNow } from 'date-fns'
 import ExerciseDisplay from './ExerciseDisplay'
 import SetLogger from './SetLogger'
+import CardioLogger from './CardioLogger'
 import RestTimer from './RestTimer'
 import WorkoutComplete from './WorkoutComplete'
+import BlockTimer, { type BlockTimerResult } from './BlockTimer'
+import EquipmentCheck from './EquipmentCheck'
+import FormVideoDialog from './FormVideoDialog'
+import type { SubstituteCandidate } from './SubstituteDialog'
+import type { ProgressionModel } from '@/lib/progression'
+import { resolvePrescription } from '@/lib/prescription'
+import { estimateOneRepMax, type OneRepMaxFormula } from '@shared/one-rep-max'
+import { getPlateSetup, type PlateInventoryItem, type PlateSetup } from '@/lib/plates'
+import { convertWeight, type WeightUnit } from '@shared/weight-units'
+import {
+  loadAssignmentWorkout,
+  fetchAssignmentWorkout,
+  queueAction,
+  createClientId,
+  isNetworkError,
+  rememberSession,
+  getServerSessionId,
+  getPendingActionCount,
+  type SyncResult
+} from '@/lib/offline-sync'
+import type { QueuedActionType } from '@/lib/offline-db'
+import { BLOCK_TYPE_LABELS, describeBlock, formatBlockResult, groupBlockExercises, type WorkoutBlock } from '@/lib/interval-blocks'
+import { DEFAULT_TIMER_CUES, type TimerCuePreferences } from '@/lib/timer-cues'
+import { getNextPosition, getSupersetLabel, getSupersetRounds, isInSuperset, orderSupersets } from '@/lib/supersets'
+import { generateWarmupSets, type WarmupSet } from '@/lib/warmups'
+import { getMaxHeartRate, type CardioTarget, type MaxHeartRate } from '@/lib/cardio'
 
 interface Exercise {
   id: number
@@ -23,6 +55,8 @@ interface Exercise {
   video_url?: string
   thumbnail_url?: string
   category: string
+  exercise_type?: 'strength' | 'cardio' | null
+  calories_per_minute?: number | null
 }
 
 interface WorkoutExercise {
@@ -36,10 +70,24 @@ interface WorkoutExercise {
   order_index: number
   rpe_target?: number
   tempo?: string
+  progression_model?: ProgressionModel | null
+  progression_increment?: number | null
+  is_superset?: boolean | null
+  superset_group?: number | null
+  warmup_scheme?: string | null
+  cardio_target?: CardioTarget | null
+  block_id?: number | null
+  // Set on the single step standing in for a timed block and all of its exercises
+  block?: WorkoutBlock
+  block_exercises?: WorkoutExercise[]
+  // The programmed exercise, once the client has swapped it for a substitute
+  original_exercise?: Exercise
 }
 
 interface WorkoutSession {
+  // 0 until a session started offline has been synced
   id: number
+  client_session_id: string
   workout_id: number
   status: 'in_progress' | 'completed' | 'paused'
   start_time: string
@@ -51,166 +99,233 @@ interface WorkoutSession {
 
 interface ExerciseSet {
   id?: number
+  client_set_id?: string
   set_number: number
   actual_reps: number
   actual_weight: number
   rpe: number
   notes?: string
+  // Cardio bouts
+  duration_seconds?: number
+  distance_meters?: number
+  pace_seconds_per_km?: number
+  avg_heart_rate?: number
+  max_heart_rate?: number
+  incline?: number
+  resistance?: number
+  time_in_zones?: number[]
+  calories_burned?: number
+}
+
+// Session and sets as returned by the API (camelCase)
+interface SavedWorkoutSession {
+  id: number
+  clientSessionId: string | null
+  workoutId: number
+  status: 'in_progress' | 'paused'
+  startTime: string
+  currentExerciseIndex: number | null
+  currentSet: number | null
+  exercisesCompleted: number | null
+  totalExercises: number | null
+  restEndsAt: string | null
+  lastActivityAt: string | null
+}
+
+interface SavedSubstitution {
+  workoutExerciseId: number
+  substituteExerciseId: number
+  substituteName: string
+  substituteEquipment: string | null
+}
+
+interface SavedExerciseSet {
+  id: number
+  workoutExerciseId: number
+  setNumber: number
+  actualReps: number | null
+  actualWeight: string | null
+  weightUnit: string | null
+  rpe: number | null
+  notes: string | null
+  isWarmup: boolean | null
+  durationSeconds: number | null
+  distanceMeters: string | null
+  paceSecondsPerKm: number | null
+  avgHeartRate: number | null
+  maxHeartRate: number | null
+  incline: string | null
+  resistance: number | null
+  timeInZones: number[] | null
+  caloriesBurned: number | null
+}
+
+interface ResumableSession {
+  session: SavedWorkoutSession
+  exerciseSets: SavedExerciseSet[]
+}
+
+interface SessionState {
+  status?: 'in_progress' | 'paused' | 'abandoned'
+  currentExerciseIndex?: number
+  currentSet?: number
+  exercisesCompleted?: number
+  restEndsAt?: string | null
+}
+
+interface PersonalRecord {
+  id: number
+  exerciseId: number
+  recordType: '1rm' | 'max_reps' | 'max_volume' | 'max_time'
+  value: string
+  unit: string | null
+  previousRecord: string | null
+  improvement: string | null
 }
 
 interface WorkoutPlayerProps {
   assignmentId: number
 }
 
+// Stable fallback so the set logger's suggestion doesn't reset on every render
+const NO_SETS: ExerciseSet[] = []
+
 export default function WorkoutPlayer({ assignmentId }: WorkoutPlayerProps) {
   const [workout, setWorkout] = useState<any>(null)
+  // workouts.updated_at of the copy being played, checked when sets are synced
+  const [workoutVersion, setWorkoutVersion] = useState<string | null>(null)
   const [workoutSession, setWorkoutSession] = useState<WorkoutSession | null>(null)
   const [exercises, setExercises] = useState<WorkoutExercise[]>([])
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0)
   const [currentSet, setCurrentSet] = useState(1)
   const [completedSets, setCompletedSets] = useState<Record<string, ExerciseSet[]>>({})
+  const [formVideoSet, setFormVideoSet] = useState<ExerciseSet | null>(null)
+  const [formVideoSetIds, setFormVideoSetIds] = useState<number[]>([])
+  // Logged apart from working sets so they stay out of volume and set counts
+  const [warmupSets, setWarmupSets] = useState<Record<string, ExerciseSet[]>>({})
+  const [skippedWarmups, setSkippedWarmups] = useState<number[]>([])
+  const [lastPerformance, setLastPerformance] = useState<Record<number, ExerciseSet[]>>({})
+  const [personalRecords, setPersonalRecords] = useState<PersonalRecord[]>([])
+  // Estimated 1RMs and bodyweight, in the client's weight unit
+  const [recordedMaxes, setRecordedMaxes] = useState<Record<number, number>>({})
+  const [bodyweight, setBodyweight] = useState<number | null>(null)
+  // clients.id of the signed-in client
+  const [clientProfileId, setClientProfileId] = useState<number | null>(null)
+  const [oneRmFormula, setOneRmFormula] = useState<OneRepMaxFormula>('epley')
+  const [metric, setMetric] = useState(false)
+  const [maxHeartRate, setMaxHeartRate] = useState<MaxHeartRate | null>(null)
+  const [plateSetup, setPlateSetup] = useState<PlateSetup>(() => getPlateSetup())
+  const [timerCues, setTimerCues] = useState<TimerCuePreferences>(DEFAULT_TIMER_CUES)
+  const [blockResults, setBlockResults] = useState<Record<number, BlockTimerResult>>({})
   const [isResting, setIsResting] = useState(false)
   const [restTimeRemaining, setRestTimeRemaining] = useState(0)
   const [showRestTimer, setShowRestTimer] = useState(false)
   const [isWorkoutComplete, setIsWorkoutComplete] = useState(false)
+  const [resumeCandidate, setResumeCandidate] = useState<ResumableSession | null>(null)
+  const [showEquipmentCheck, setShowEquipmentCheck] = useState(false)
   const [loading, setLoading] = useState(true)
   const [, setLocation] = useLocation()
 
-  const { user } = useSupabaseAuth()
+  const { user, session } = useSupabaseAuth()
+  const { toast } = useToast()
   const startTimeRef = useRef<Date | null>(null)
 
+  // Once a session started offline reaches the server, later updates can go straight to it
+  const handleSynced = useCallback(async (result: SyncResult) => {
+    if (workoutSession && !workoutSession.id) {
+      const serverId = await getServerSessionId(workoutSession.client_session_id)
+      if (serverId) setWorkoutSession(prev => prev && { ...prev, id: serverId })
+    }
+
+    // Sets the server refused (their exercise was removed by the coach) are taken back out
+    const rejectedSetIds = result.conflicts
+      .filter(({ action }) => action.type === 'log-set')
+      .map(({ action }) => action.id)
+    if (rejectedSetIds.length > 0) {
+      const withoutRejected = (prev: Record<string, ExerciseSet[]>) => Object.fromEntries(
+        Object.entries(prev).map(([key, sets]) => [key, sets.filter(set => !set.client_set_id || !rejectedSetIds.includes(set.client_set_id))])
+      )
+      setCompletedSets(withoutRejected)
+      setWarmupSets(withoutRejected)
+    }
+
+    if (result.workoutChanged && user) {
+      toast({
+        title: 'Workout updated',
+        description: 'Your coach changed this workout while you were offline. Your logged sets were kept.'
+      })
+      fetchAssignmentWorkout(assignmentId, user.id).catch(error => console.error('Error refreshing cached workout:', error))
+    }
+  }, [workoutSession?.id, workoutSession?.client_session_id, assignmentId, user])
+
+  const { isOnline, pendingCount, sync } = useOfflineSync(handleSynced)
+
   useEffect(() => {
     if (user) {
       loadWorkout()
     }
   }, [assignmentId, user])
 
+  const addPersonalRecords = (records: PersonalRecord[]) => {
+    setPersonalRecords(prev => [
+      ...prev,
+      ...records.filter(record => !prev.some(existing => existing.id === record.id))
+    ])
+  }
+
+  // PRs are also pushed over the socket when connected; de-duplicated with the API response
+  useEffect(() => {
+    if (!workoutSession) return
+    const onPersonalRecord = (data: { workoutSessionId: number; records: PersonalRecord[] }) => {
+      if (data.workoutSessionId === workoutSession.id) addPersonalRecords(data.records)
+    }
+    socketService.on('personal-record', onPersonalRecord)
+    return () => socketService.off('personal-record', onPersonalRecord)
+  }, [workoutSession?.id])
+
   const loadWorkout = async () => {
     if (!user) return
 
     try {
       setLoading(true)
 
-      // Get workout assignment with full workout details
-      const { data: assignment, error: assignmentError } = await supabase
-        .from('workout_assignments')
-        .select(`
-          id,
-          workout_id,
-          scheduled_date,
-          status,
-          notes,
-          workouts!inner (
-            id,
-            name,
-            description,
-            estimated_duration,
-            difficulty_rating,
-            workout_type,
-            instructions,
-            workout_exercises (
-              id,
-              order_index,
-              sets,
-              reps,
-              weight,
-              rest_seconds,
-              notes,
-              rpe_target,
-              tempo,
-              exercises (
-                id,
-                name,
-                description,
-                instructions,
-                muscle_groups,
-                equipment,
-                video_url,
-                thumbnail_url,
-                category
-              )
-            )
-          )
-        `)
-        .eq('id', assignmentId)
-        .eq('client_id', user.id)
-        .single()
-
-      if (assignmentError) throw assignmentError
+      // Get workout assignment with full workout details, from the offline cache if there's no connection
+      const { assignment, version, fromCache } = await loadAssignmentWorkout(assignmentId, user.id)
 
       const workoutData = assignment.workouts
-      const exerciseData = workoutData.workout_exercises
-        .sort((a, b) => a.order_index - b.order_index)
-        .map(we => ({
+      // Exercises of a timed block are played as one step; superset members play back to back
+      const exerciseData: WorkoutExercise[] = orderSupersets(groupBlockExercises(
+        workoutData.workout_exercises.map((we: any) => ({
           ...we,
           exercise: we.exercises
-        }))
+        })),
+        workoutData.workout_blocks || []
+      ))
 
       setWorkout(workoutData)
+      setWorkoutVersion(version)
       setExercises(exerciseData)
 
-      // Check if there's an existing workout session
-      const { data: existingSession, error: sessionError } = await supabase
-        .from('workout_sessions')
-        .select('*')
-        .eq('client_id', user.id)
-        .eq('workout_id', workoutData.id)
-        .eq('status', 'in_progress')
-        .maybeSingle()
-
-      if (sessionError && sessionError.code !== 'PGRST116') {
-        throw sessionError
+      // Loads are shown in the client's unit, so it's needed before any saved sets are read
+      const exerciseIds = exerciseData.map(we => we.exercise.id)
+      const unit = await loadTrainingContext(exerciseIds)
+
+      // Offer to resume an open session of this assignment rather than starting a duplicate;
+      // the server abandons sessions left idle past the timeout before answering
+      let resumable: { session: SavedWorkoutSession | null; exerciseSets: SavedExerciseSet[] } = { session: null, exerciseSets: [] }
+      if (!fromCache) {
+        const resumableResponse = await apiRequest('GET', `/api/workout-sessions/resumable?workoutAssignmentId=${assignmentId}`, undefined, session)
+        resumable = await resumableResponse.json()
       }
 
-      if (existingSession) {
-        setWorkoutSession(existingSession)
-        setCurrentExerciseIndex(existingSession.current_exercise_index || 0)
-        setCurrentSet(existingSession.current_set || 1)
-        
-        // Load completed sets
-        const { data: sets } = await supabase
-          .from('exercise_sets')
-          .select('*')
-          .eq('workout_session_id', existingSession.id)
-
-        if (sets) {
-          const setsMap: Record<string, ExerciseSet[]> = {}
-          sets.forEach(set => {
-            const key = `${set.workout_exercise_id}`
-            if (!setsMap[key]) setsMap[key] = []
-            setsMap[key].push({
-              id: set.id,
-              set_number: set.set_number,
-              actual_reps: set.actual_reps,
-              actual_weight: set.actual_weight,
-              rpe: set.rpe,
-              notes: set.notes
-            })
-          })
-          setCompletedSets(setsMap)
-        }
+      if (resumable.session) {
+        setResumeCandidate({ session: resumable.session, exerciseSets: resumable.exerciseSets })
       } else {
-        // Create new workout session
-        const { data: newSession, error: createError } = await supabase
-          .from('workout_sessions')
-          .insert({
-            client_id: user.id,
-            workout_id: workoutData.id,
-            start_time: new Date().toISOString(),
-            status: 'in_progress',
-            total_exercises: exerciseData.length,
-            exercises_completed: 0,
-            current_exercise_index: 0,
-            current_set: 1
-          })
-          .select()
-          .single()
-
-        if (createError) throw createError
-        setWorkoutSession(newSession)
-        startTimeRef.current = new Date()
+        await startNewSession(workoutData.id, exerciseData.length)
       }
 
+      loadLastPerformance(exerciseIds, resumable.session?.id, unit)
+
     } catch (error) {
       console.error('Error loading workout:', error)
       setLocation('/dashboard')
@@ -219,86 +334,515 @@ export default function WorkoutPlayer({ assignmentId }: WorkoutPlayerProps) {
     }
   }
 
+  const startNewSession = async (workoutId: number, totalExercises: number) => {
+    if (!user) return
+
+    const clientSessionId = createClientId()
+    const sessionData = {
+      workoutAssignmentId: assignmentId,
+      workoutId,
+      startTime: new Date().toISOString(),
+      totalExercises,
+      exercisesCompleted: 0,
+      currentExerciseIndex: 0,
+      currentSet: 1
+    }
+
+    let serverId = 0
+    try {
+      const response = await apiRequest('POST', '/api/workout-sessions', { ...sessionData, clientSessionId }, session)
+      serverId = (await response.json()).id
+      await rememberSession(clientSessionId, serverId)
+    } catch (error) {
+      if (!isNetworkError(error)) throw error
+      // Started offline; the session is created on the server when the queue syncs
+      await queueAction('start-session', clientSessionId, sessionData)
+    }
+
+    setWorkoutSession({
+      id: serverId,
+      client_session_id: clientSessionId,
+      workout_id: workoutId,
+      status: 'in_progress',
+      start_time: sessionData.startTime,
+      current_exercise_index: 0,
+      current_set: 1,
+      exercises_completed: 0,
+      total_exercises: totalExercises
+    })
+    startTimeRef.current = new Date()
+    // The equipment check proposes swaps on the server, so sessions started offline skip it
+    if (serverId) setShowEquipmentCheck(true)
+  }
+
+  const updateSessionState = async (sessionId: number, state: SessionState) => {
+    return apiRequest('PATCH', `/api/workout-sessions/${sessionId}/state`, state, session)
+  }
+
+  // Sends straight to the server when possible. Offline, before the session has synced, or while
+  // earlier actions are still queued, the action is queued instead so the server sees them in order.
+  const sendOrQueue = async (
+    type: QueuedActionType,
+    payload: Record<string, any>,
+    send: (sessionId: number) => Promise<Response>,
+    actionId?: string
+  ): Promise<Response | null> => {
+    if (!workoutSession) return null
+
+    if (workoutSession.id && navigator.onLine && (await getPendingActionCount()) === 0) {
+      try {
+        return await send(workoutSession.id)
+      } catch (error) {
+        if (!isNetworkError(error)) throw error
+      }
+    }
+
+    await queueAction(type, workoutSession.client_session_id, payload, actionId)
+    if (navigator.onLine) sync()
+    return null
+  }
+
+  // The player works in the client's preferred unit; sets saved in the other unit are converted when read
+  const weightUnit: WeightUnit = metric ? 'kg' : 'lbs'
+  const fromStoredWeight = (weight: string | number | null, unit: string | null, to: WeightUnit = weightUnit) =>
+    Math.round(convertWeight(Number(weight) || 0, unit === 'kg' ? 'kg' : 'lbs', to) * 100) / 100
+
+  // Restore position, logged sets and a still-running rest timer from the saved session
+  const resumeSession = async ({ session: saved, exerciseSets }: ResumableSession) => {
+    const setsMap: Record<string, ExerciseSet[]> = {}
+    const warmupsMap: Record<string, ExerciseSet[]> = {}
+    exerciseSets.forEach(set => {
+      const key = `${set.workoutExerciseId}`
+      const target = set.isWarmup ? warmupsMap : setsMap
+      if (!target[key]) target[key] = []
+      target[key].push({
+        id: set.id,
+        set_number: set.setNumber,
+        actual_reps: set.actualReps || 0,
+        actual_weight: fromStoredWeight(set.actualWeight, set.weightUnit),
+        rpe: set.rpe || 0,
+        notes: set.notes || undefined,
+        duration_seconds: set.durationSeconds ?? undefined,
+        distance_meters: set.distanceMeters !== null ? Number(set.distanceMeters) : undefined,
+        pace_seconds_per_km: set.paceSecondsPerKm ?? undefined,
+        avg_heart_rate: set.avgHeartRate ?? undefined,
+        max_heart_rate: set.maxHeartRate ?? undefined,
+        incline: set.incline !== null ? Number(set.incline) : undefined,
+        resistance: set.resistance ?? undefined,
+        time_in_zones: set.timeInZones ?? undefined,
+        calories_burned: set.caloriesBurned ?? undefined
+      })
+    })
+
+    const clientSessionId = saved.clientSessionId || createClientId()
+    await rememberSession(clientSessionId, saved.id)
+
+    setWorkoutSession({
+      id: saved.id,
+      client_session_id: clientSessionId,
+      workout_id: saved.workoutId,
+      status: 'in_progress',
+      start_time: saved.startTime,
+      current_exercise_index: saved.currentExerciseIndex || 0,
+      current_set: saved.currentSet || 1,
+      exercises_completed: saved.exercisesCompleted || 0,
+      total_exercises: saved.totalExercises || exercises.length
+    })
+    setCurrentExerciseIndex(Math.min(saved.currentExerciseIndex || 0, Math.max(exercises.length - 1, 0)))
+    setCurrentSet(saved.currentSet || 1)
+    setCompletedSets(setsMap)
+    setWarmupSets(warmupsMap)
+    startTimeRef.current = new Date(saved.startTime)
+
+    const restRemaining = saved.restEndsAt
+      ? Math.round((new Date(saved.restEndsAt).getTime() - Date.now()) / 1000)
+      : 0
+    if (restRemaining > 0) {
+      setRestTimeRemaining(restRemaining)
+      setShowRestTimer(true)
+      setIsResting(true)
+    }
+
+    setResumeCandidate(null)
+
+    try {
+      await updateSessionState(saved.id, { status: 'in_progress' })
+    } catch (error) {
+      console.error('Error resuming workout session:', error)
+    }
+
+    // Swaps made before the session was interrupted still apply
+    try {
+      const response = await apiRequest('GET', `/api/workout-sessions/${saved.id}/substitutions`, undefined, session)
+      const swaps: SavedSubstitution[] = await response.json()
+      for (const swap of swaps) {
+        await applySubstitution(swap.workoutExerciseId, swap.substituteExerciseId, swap.substituteName, swap.substituteEquipment)
+      }
+      if (swaps.length > 0) {
+        const exerciseIds = exercises.map(we =>
+          [...swaps].reverse().find(swap => swap.workoutExerciseId === we.id)?.substituteExerciseId ?? we.exercise.id)
+        loadLastPerformance(exerciseIds, saved.id)
+        loadTrainingContext(exerciseIds)
+      }
+    } catch (error) {
+      console.error('Error restoring exercise swaps:', error)
+    }
+  }
+
+  // A swapped exercise takes the substitute's details, so sets are logged against the substitute;
+  // a variation is performed as its base exercise under the variation's name
+  const applySubstitution = async (workoutExerciseId: number, exerciseId: number, name: string, equipment: string | null) => {
+    const { data, error } = await supabase
+      .from('exercises')
+      .select('id, name, description, instructions, muscle_groups, equipment, video_url, thumbnail_url, category, exercise_type, calories_per_minute')
+      .eq('id', exerciseId)
+      .single()
+    if (error) throw error
+
+    const substitute: Exercise = { ...(data as Exercise), name, equipment: equipment ?? (data as Exercise).equipment }
+    setExercises(prev => prev.map(we => we.id === workoutExerciseId
+      ? { ...we, original_exercise: we.original_exercise ?? we.exercise, exercise: substitute }
+      : we
+    ))
+  }
+
+  const substituteExercise = async (workoutExerciseId: number, substitute: SubstituteCandidate) => {
+    try {
+      await applySubstitution(workoutExerciseId, substitute.exerciseId, substitute.name, substitute.equipment)
+      const exerciseIds = exercises.map(we => we.id === workoutExerciseId ? substitute.exerciseId : we.exercise.id)
+      loadLastPerformance(exerciseIds, workoutSession?.id)
+      loadTrainingContext(exerciseIds)
+    } catch (error) {
+      console.error('Error loading substitute exercise:', error)
+    }
+  }
+
+  const startOver = async () => {
+    if (!resumeCandidate || !workout) return
+
+    try {
+      await updateSessionState(resumeCandidate.session.id, { status: 'abandoned' })
+      setResumeCandidate(null)
+      await startNewSession(workout.id, exercises.length)
+    } catch (error) {
+      console.error('Error starting a new workout session:', error)
+    }
+  }
+
+  // Most recent earlier session of each exercise, used for progression suggestions
+  const loadLastPerformance = async (exerciseIds: number[], currentSessionId?: number, unit: WeightUnit = weightUnit) => {
+    if (!user || exerciseIds.length === 0) return
+
+    try {
+      let query = supabase
+        .from('exercise_sets')
+        .select('workout_session_id, exercise_id, set_number, actual_reps, actual_weight, weight_unit, rpe, completed_at, workout_sessions!inner (client_id)')
+        .eq('workout_sessions.client_id', user.id)
+        .in('exercise_id', exerciseIds)
+        .eq('is_warmup', false)
+        .order('completed_at', { ascending: false })
+        .limit(exerciseIds.length * 20)
+
+      if (currentSessionId) {
+        query = query.neq('workout_session_id', currentSessionId)
+      }
+
+      const { data: sets, error } = await query
+      if (error) throw error
+
+      const performance: Record<number, ExerciseSet[]> = {}
+      const sessionByExercise: Record<number, number> = {}
+      ;((sets || []) as any[]).forEach(set => {
+        // Sets are newest first, so the first session seen per exercise is the latest
+        sessionByExercise[set.exercise_id] ??= set.workout_session_id
+        if (sessionByExercise[set.exercise_id] !== set.workout_session_id) return
+        if (!performance[set.exercise_id]) performance[set.exercise_id] = []
+        performance[set.exercise_id].push({
+          set_number: set.set_number,
+          actual_reps: set.actual_reps,
+          actual_weight: fromStoredWeight(set.actual_weight, set.weight_unit, unit),
+          rpe: set.rpe
+        })
+      })
+      setLastPerformance(performance)
+    } catch (error) {
+      // Suggestions are optional; the logger falls back to prescribed values
+      console.error('Error loading previous performance:', error)
+    }
+  }
+
+  // Estimated 1RMs, bodyweight and workout preferences used to resolve loads, plate math and heart-rate zones
+  // @returns The client's weight unit, for loads read before the state update lands
+  const loadTrainingContext = async (exerciseIds: number[]): Promise<WeightUnit> => {
+    if (!user || exerciseIds.length === 0) return weightUnit
+
+    try {
+      const [{ data: records }, { data: preferences }, { data: clientProfile }, weightLogsResponse] = await Promise.all([
+        supabase
+          .from('personal_records')
+          .select('exercise_id, value, unit')
+          .eq('client_id', user.id)
+          .eq('record_type', '1rm')
+          .in('exercise_id', exerciseIds),
+        supabase
+          .from('client_workout_preferences')
+          .select('one_rm_formula, metric_system, bar_weight, plate_inventory, timer_sounds, vibration_alerts, max_heart_rate')
+          .eq('client_id', user.id)
+          .maybeSingle(),
+        supabase
+          .from('clients')
+          .select('id, date_of_birth')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        apiRequest('GET', '/api/weight-logs', undefined, session).catch(() => null)
+      ])
+
+      const workoutPreferences = preferences as {
+        one_rm_formula?: OneRepMaxFormula
+        metric_system?: boolean
+        bar_weight?: string | null
+        plate_inventory?: PlateInventoryItem[] | null
+        timer_sounds?: boolean | null
+        vibration_alerts?: boolean | null
+        max_heart_rate?: number | null
+      } | null
+      const unit: WeightUnit = workoutPreferences?.metric_system ? 'kg' : 'lbs'
+
+      const maxes: Record<number, number> = {}
+      ;((records || []) as any[]).forEach(record => {
+        const value = convertWeight(Number(record.value), record.unit === 'kg' ? 'kg' : 'lbs', unit)
+        if (value > (maxes[record.exercise_id] || 0)) maxes[record.exercise_id] = value
+      })
+      setRecordedMaxes(maxes)
+
+      if (workoutPreferences?.one_rm_formula) setOneRmFormula(workoutPreferences.one_rm_formula)
+      const profile = clientProfile as { id: number; date_of_birth?: string | null } | null
+      setClientProfileId(profile?.id ?? null)
+      setMaxHeartRate(getMaxHeartRate(workoutPreferences?.max_heart_rate, profile?.date_of_birth))
+      if (workoutPreferences) {
+        setMetric(!!workoutPreferences.metric_system)
+        setPlateSetup(getPlateSetup(workoutPreferences.metric_system, workoutPreferences.bar_weight, workoutPreferences.plate_inventory))
+        setTimerCues({
+          sounds: workoutPreferences.timer_sounds ?? DEFAULT_TIMER_CUES.sounds,
+          vibration: workoutPreferences.vibration_alerts ?? DEFAULT_TIMER_CUES.vibration
+        })
+      }
+
+      // Weight logs are recorded in kg
+      const weightLogs: { weight: string; date: string }[] = weightLogsResponse?.ok ? await weightLogsResponse.json() : []
+      const latest = [...weightLogs].sort((a, b) => b.date.localeCompare(a.date))[0]
+      if (latest) setBodyweight(convertWeight(Number(latest.weight), 'kg', unit))
+      return unit
+    } catch (error) {
+      // Loads fall back to the raw prescription text
+      console.error('Error loading training maxes:', error)
+      return weightUnit
+    }
+  }
+
+  const getOneRepMax = (exerciseId: number) => {
+    const estimates = (lastPerformance[exerciseId] || [])
+      .map(set => estimateOneRepMax(set.actual_weight, set.actual_reps, oneRmFormula) || 0)
+    return Math.max(recordedMaxes[exerciseId] || 0, ...estimates) || null
+  }
+
   const logSet = async (setData: Omit<ExerciseSet, 'id'>) => {
     if (!workoutSession || !exercises[currentExerciseIndex]) return
 
     const workoutExercise = exercises[currentExerciseIndex]
+    const exerciseKey = `${workoutExercise.id}`
+    // Supersets alternate exercises set by set; straight sets are a superset of one
+    const next = getNextPosition(exercises, { index: currentExerciseIndex, set: currentSet })
+    const restSeconds = next?.rest ? workoutExercise.rest_seconds : 0
+    const groupDone = !next || (next.set === 1 && next.index > currentExerciseIndex)
+
+    // Where the player will be once this set is saved; stored with the set so a reload resumes here
+    const sessionState: SessionState = {
+      currentExerciseIndex: next ? next.index : currentExerciseIndex,
+      currentSet: next ? next.set : currentSet,
+      ...(groupDone && { exercisesCompleted: next ? next.index : exercises.length }),
+      restEndsAt: restSeconds > 0
+        ? new Date(Date.now() + restSeconds * 1000).toISOString()
+        : null
+    }
+    
+    // Same id whether the set is sent now or replayed later, so it's only ever stored once
+    const clientSetId = createClientId()
+    const isCardio = workoutExercise.exercise.exercise_type === 'cardio'
     
     try {
-      // Save set to database
-      const { data: savedSet, error } = await supabase
-        .from('exercise_sets')
-        .insert({
-          workout_session_id: workoutSession.id,
-          workout_exercise_id: workoutExercise.id,
-          exercise_id: workoutExercise.exercise.id,
-          set_number: setData.set_number,
-          prescribed_reps: workoutExercise.reps,
-          actual_reps: setData.actual_reps,
-          prescribed_weight: workoutExercise.weight,
-          actual_weight: setData.actual_weight,
-          weight_unit: 'lbs', // TODO: Get from user preferences
-          rpe: setData.rpe,
-          rest_duration: 0, // Will be updated when rest completes
-          prescribed_rest: workoutExercise.rest_seconds,
-          notes: setData.notes
-        })
-        .select()
-        .single()
+      // Save set through the API so personal records are detected server-side
+      const setPayload = {
+        workoutExerciseId: workoutExercise.id,
+        exerciseId: workoutExercise.exercise.id,
+        setNumber: setData.set_number,
+        prescribedReps: workoutExercise.reps,
+        actualReps: isCardio ? null : setData.actual_reps,
+        prescribedWeight: workoutExercise.weight,
+        actualWeight: isCardio ? null : setData.actual_weight,
+        weightUnit,
+        rpe: setData.rpe,
+        restDuration: 0, // Will be updated when rest completes
+        prescribedRest: workoutExercise.rest_seconds,
+        notes: setData.notes,
+        completedAt: new Date().toISOString(),
+        supersetRound: isInSuperset(exercises, currentExerciseIndex) ? currentSet : null,
+        ...(isCardio && {
+          durationSeconds: setData.duration_seconds,
+          distanceMeters: setData.distance_meters,
+          paceSecondsPerKm: setData.pace_seconds_per_km,
+          avgHeartRate: setData.avg_heart_rate,
+          maxHeartRate: setData.max_heart_rate,
+          incline: setData.incline,
+          resistance: setData.resistance,
+          timeInZones: setData.time_in_zones,
+          caloriesBurned: setData.calories_burned
+        }),
+        workoutVersion,
+        sessionState
+      }
+      const response = await sendOrQueue(
+        'log-set',
+        setPayload,
+        sessionId => apiRequest('POST', `/api/workout-sessions/${sessionId}/sets`, { ...setPayload, clientSetId }, session),
+        clientSetId
+      )
 
-      if (error) throw error
+      // Queued sets are shown straight away; PRs for them are found when they sync
+      let savedSetId: number | undefined
+      if (response) {
+        const { exerciseSet: savedSet, personalRecords: newRecords } = await response.json()
+        if (newRecords?.length) addPersonalRecords(newRecords)
+        savedSetId = savedSet.id
+      }
 
       // Update local state
-      const exerciseKey = `${workoutExercise.id}`
       setCompletedSets(prev => ({
         ...prev,
-        [exerciseKey]: [...(prev[exerciseKey] || []), { ...setData, id: savedSet.id }]
+        [exerciseKey]: [...(prev[exerciseKey] || []), { ...setData, id: savedSetId, client_set_id: clientSetId }]
       }))
 
-      // Check if exercise is complete
-      const completedSetsForExercise = (completedSets[exerciseKey] || []).length + 1
-      
-      if (completedSetsForExercise >= workoutExercise.sets) {
-        // Exercise complete, move to next
-        if (currentExerciseIndex < exercises.length - 1) {
-          setCurrentExerciseIndex(prev => prev + 1)
-          setCurrentSet(1)
-          
-          // Update session
-          await supabase
-            .from('workout_sessions')
-            .update({
-              current_exercise_index: currentExerciseIndex + 1,
-              current_set: 1,
-              exercises_completed: currentExerciseIndex + 1
-            })
-            .eq('id', workoutSession.id)
-        } else {
-          // Workout complete
-          completeWorkout()
-        }
+      if (!next) {
+        // Workout complete
+        completeWorkout()
       } else {
-        // More sets in current exercise
-        setCurrentSet(prev => prev + 1)
-        
-        // Start rest timer
-        if (workoutExercise.rest_seconds > 0) {
-          setRestTimeRemaining(workoutExercise.rest_seconds)
+        setCurrentExerciseIndex(next.index)
+        setCurrentSet(next.set)
+
+        // Rest between sets, or after the last exercise of a superset round
+        if (restSeconds > 0) {
+          setRestTimeRemaining(restSeconds)
           setShowRestTimer(true)
           setIsResting(true)
         }
-        
-        // Update session
-        await supabase
-          .from('workout_sessions')
-          .update({
-            current_set: currentSet + 1
-          })
-          .eq('id', workoutSession.id)
       }
 
     } catch (error) {
       console.error('Error logging set:', error)
+      // The coach removed this exercise since the workout was loaded
+      if (error instanceof Error && error.message.startsWith('409:')) {
+        toast({
+          title: "Set wasn't saved",
+          description: 'This workout was changed by your coach. Reopen it to get the latest version.',
+          variant: 'destructive'
+        })
+      }
+    }
+  }
+
+  // Warm-up sets are logged as they're done but don't move the player on or start a rest
+  const logWarmupSet = async (warmup: WarmupSet) => {
+    const workoutExercise = exercises[currentExerciseIndex]
+    if (!workoutSession || !workoutExercise) return
+
+    const exerciseKey = `${workoutExercise.id}`
+    const setNumber = (warmupSets[exerciseKey] || []).length + 1
+    const clientSetId = createClientId()
+
+    try {
+      const setPayload = {
+        workoutExerciseId: workoutExercise.id,
+        exerciseId: workoutExercise.exercise.id,
+        setNumber,
+        prescribedReps: String(warmup.reps),
+        actualReps: warmup.reps,
+        prescribedWeight: String(warmup.weight),
+        actualWeight: warmup.weight,
+        weightUnit,
+        isWarmup: true,
+        completedAt: new Date().toISOString(),
+        workoutVersion
+      }
+      const response = await sendOrQueue(
+        'log-set',
+        setPayload,
+        sessionId => apiRequest('POST', `/api/workout-sessions/${sessionId}/sets`, { ...setPayload, clientSetId }, session),
+        clientSetId
+      )
+      const savedSetId: number | undefined = response ? (await response.json()).exerciseSet.id : undefined
+
+      setWarmupSets(prev => ({
+        ...prev,
+        [exerciseKey]: [...(prev[exerciseKey] || []), {
+          id: savedSetId,
+          client_set_id: clientSetId,
+          set_number: setNumber,
+          actual_reps: warmup.reps,
+          actual_weight: warmup.weight,
+          rpe: 0
+        }]
+      }))
+    } catch (error) {
+      console.error('Error logging warm-up set:', error)
+    }
+  }
+
+  // A timed block is logged as one result, then the player moves on like a finished exercise
+  const logBlockResult = async (result: BlockTimerResult) => {
+    const step = exercises[currentExerciseIndex]
+    if (!workoutSession || !step?.block) return
+
+    const block = step.block
+    const isLastExercise = currentExerciseIndex >= exercises.length - 1
+    const sessionState: SessionState = {
+      currentExerciseIndex: isLastExercise ? currentExerciseIndex : currentExerciseIndex + 1,
+      currentSet: 1,
+      exercisesCompleted: currentExerciseIndex + 1,
+      restEndsAt: null
+    }
+    const clientResultId = createClientId()
+
+    try {
+      const resultPayload = {
+        blockId: block.id,
+        ...result,
+        completedAt: new Date().toISOString(),
+        sessionState
+      }
+      await sendOrQueue(
+        'log-block-result',
+        resultPayload,
+        sessionId => apiRequest('POST', `/api/workout-sessions/${sessionId}/block-results`, { ...resultPayload, clientResultId }, session),
+        clientResultId
+      )
+
+      setBlockResults(prev => ({ ...prev, [block.id]: result }))
+
+      if (isLastExercise) {
+        completeWorkout()
+      } else {
+        setCurrentExerciseIndex(prev => prev + 1)
+        setCurrentSet(1)
+      }
+    } catch (error) {
+      console.error('Error logging block result:', error)
+      if (error instanceof Error && error.message.startsWith('409:')) {
+        toast({
+          title: "Result wasn't saved",
+          description: 'This workout was changed by your coach. Reopen it to get the latest version.',
+          variant: 'destructive'
+        })
+      }
     }
   }
 
@@ -311,22 +855,17 @@ export default function WorkoutPlayer({ assignmentId }: WorkoutPlayerProps) {
         ? Math.round((endTime.getTime() - startTimeRef.current.getTime()) / (1000 * 60))
         : workout?.estimated_duration || 0
 
-      // Update workout session
-      await supabase
-        .from('workout_sessions')
-        .update({
-          status: 'completed',
-          end_time: endTime.toISOString(),
-          total_duration: duration,
-          exercises_completed: exercises.length
-        })
-        .eq('id', workoutSession.id)
-
-      // Update assignment status
-      await supabase
-        .from('workout_assignments')
-        .update({ status: 'completed' })
-        .eq('id', assignmentId)
+      // Completes the session and its assignment; queued behind any unsynced sets when offline
+      const completion = {
+        endTime: endTime.toISOString(),
+        totalDuration: duration,
+        exercisesCompleted: exercises.length
+      }
+      await sendOrQueue(
+        'complete-session',
+        completion,
+        sessionId => apiRequest('POST', `/api/workout-sessions/${sessionId}/complete`, completion, session)
+      )
 
       setIsWorkoutComplete(true)
     } catch (error) {
@@ -342,17 +881,23 @@ export default function WorkoutPlayer({ assignmentId }: WorkoutPlayerProps) {
     if (!workoutSession) return
 
     try {
-      await supabase
-        .from('workout_sessions')
-        .update({ status: 'paused' })
-        .eq('id', workoutSession.id)
-      
+      const state: SessionState = { status: 'paused' }
+      await sendOrQueue('session-state', state, sessionId => updateSessionState(sessionId, state))
       setLocation('/dashboard')
     } catch (error) {
       console.error('Error pausing workout:', error)
     }
   }
 
+  // e.g. "A2 Pull-Up, set 3"
+  const describePosition = (index: number, set: number) => {
+    const step = exercises[index]
+    if (!step) return ''
+    if (step.block) return step.block.name || BLOCK_TYPE_LABELS[step.block.block_type]
+    const label = getSupersetLabel(exercises, index)
+    return `${label ? `${label} ` : ''}${step.exercise.name}, set ${set}`
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -367,11 +912,64 @@ export default function WorkoutPlayer({ assignmentId }: WorkoutPlayerProps) {
         workout={workout}
         workoutSession={workoutSession!}
         completedSets={completedSets}
+        personalRecords={personalRecords.map(record => ({
+          ...record,
+          exerciseName: exercises.find(we => we.exercise.id === record.exerciseId)?.exercise.name
+        }))}
+        blockResults={exercises
+          .filter(we => we.block && blockResults[we.block.id])
+          .map(({ block }) => ({
+            blockId: block!.id,
+            name: block!.name || BLOCK_TYPE_LABELS[block!.block_type],
+            result: formatBlockResult(block!.block_type, block!.parameters, blockResults[block!.id])
+          }))}
+        metric={metric}
         onExit={exitWorkout}
       />
     )
   }
 
+  if (resumeCandidate && workout) {
+    const saved = resumeCandidate.session
+    const setsLogged = resumeCandidate.exerciseSets.filter(set => !set.isWarmup).length
+    const resumeIndex = Math.min(saved.currentExerciseIndex || 0, exercises.length - 1)
+    const resumeExercise = exercises[resumeIndex]
+
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-8 text-center space-y-4">
+            <RotateCcw className="w-10 h-10 text-primary mx-auto" />
+            <div>
+              <h2 className="text-xl font-semibold mb-1">Resume {workout.name}?</h2>
+              <p className="text-muted-foreground">
+                You {saved.status === 'paused' ? 'paused' : 'started'} this workout{' '}
+                {formatDistanceToNow(new Date(saved.lastActivityAt || saved.startTime), { addSuffix: true })}
+              </p>
+            </div>
+            <div className="flex justify-center gap-2">
+              <Badge variant="secondary">{setsLogged} set{setsLogged === 1 ? '' : 's'} logged</Badge>
+              {resumeExercise && (
+                <Badge variant="outline">
+                  Next: {describePosition(resumeIndex, saved.currentSet || 1)}
+                </Badge>
+              )}
+            </div>
+            <div className="flex flex-col gap-2">
+              <Button onClick={() => resumeSession(resumeCandidate)} className="w-full">
+                <Play className="w-4 h-4 mr-2" />
+                Resume Workout
+              </Button>
+              <Button variant="outline" onClick={startOver} className="w-full">
+                Start Over
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   if (!workout || !workoutSession || exercises.length === 0) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-4">
@@ -393,7 +991,28 @@ export default function WorkoutPlayer({ assignmentId }: WorkoutPlayerProps) {
   const currentExercise = exercises[currentExerciseIndex]
   const progress = ((currentExerciseIndex) / exercises.length) * 100
   const exerciseKey = `${currentExercise.id}`
-  const setsCompleted = (completedSets[exerciseKey] || []).length
+  const resolvedLoad = resolvePrescription(currentExercise.weight, {
+    unit: weightUnit,
+    oneRepMax: getOneRepMax(currentExercise.exercise.id),
+    bodyweight,
+    reps: parseInt(currentExercise.reps, 10) || null
+  })
+  const supersetLabel = getSupersetLabel(exercises, currentExerciseIndex)
+
+  // Ramp up to the prescribed load, or to last session's top set when nothing is prescribed
+  const workingWeight = resolvedLoad.weight ??
+    (Math.max(0, ...(lastPerformance[currentExercise.exercise.id] || []).map(set => set.actual_weight)) || null)
+  const warmupsLogged = (warmupSets[exerciseKey] || []).length
+  const pendingWarmups = (completedSets[exerciseKey] ?? NO_SETS).length === 0 && !skippedWarmups.includes(currentExercise.id)
+    ? generateWarmupSets(
+        currentExercise.warmup_scheme,
+        workingWeight,
+        currentExercise.exercise.equipment === 'barbell' ? plateSetup : undefined,
+        weightUnit
+      )
+    : []
+  const showWarmups = warmupsLogged < pendingWarmups.length
+  const nextPosition = currentExercise.block ? null : getNextPosition(exercises, { index: currentExerciseIndex, set: currentSet })
 
   return (
     <div className="min-h-screen bg-background">
@@ -409,8 +1028,22 @@ export default function WorkoutPlayer({ assignmentId }: WorkoutPlayerProps) {
             <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
               <span>Exercise {currentExerciseIndex + 1} of {exercises.length}</span>
               <span>•</span>
-              <span>Set {currentSet} of {currentExercise.sets}</span>
+              {currentExercise.block ? (
+                <span>{describeBlock(currentExercise.block.block_type, currentExercise.block.parameters)}</span>
+              ) : supersetLabel ? (
+                <span>{supersetLabel} · Round {currentSet} of {getSupersetRounds(exercises, currentExerciseIndex)}</span>
+              ) : (
+                <span>Set {currentSet} of {currentExercise.sets}</span>
+              )}
             </div>
+            {(!isOnline || pendingCount > 0) && (
+              <div className="flex justify-center mt-1">
+                <Badge variant="outline" className="gap-1 text-xs">
+                  {isOnline ? <CloudUpload className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+                  {isOnline ? `Syncing ${pendingCount}...` : `Offline${pendingCount > 0 ? ` · ${pendingCount} to sync` : ''}`}
+                </Badge>
+              </div>
+            )}
           </div>
 
           <Button variant="ghost" size="icon" onClick={pauseWorkout}>
@@ -425,32 +1058,104 @@ export default function WorkoutPlayer({ assignmentId }: WorkoutPlayerProps) {
       </div>
 
       {/* Main Content */}
-      <div className="flex flex-col h-[calc(100vh-120px)]">
-        {/* Exercise Display */}
-        <div className="flex-1 overflow-auto">
-          <ExerciseDisplay
-            exercise={currentExercise}
-            currentSet={currentSet}
-            completedSets={completedSets[exerciseKey] || []}
+      {currentExercise.block ? (
+        <div className="h-[calc(100vh-120px)] overflow-auto">
+          <BlockTimer
+            key={currentExercise.block.id}
+            block={currentExercise.block}
+            exercises={currentExercise.block_exercises || [currentExercise]}
+            cues={timerCues}
+            onComplete={logBlockResult}
           />
         </div>
+      ) : (
+        <div className="flex flex-col h-[calc(100vh-120px)]">
+          {/* Exercise Display */}
+          <div className="flex-1 overflow-auto">
+            <ExerciseDisplay
+              exercise={currentExercise}
+              currentSet={currentSet}
+              completedSets={completedSets[exerciseKey] ?? NO_SETS}
+              unit={weightUnit}
+              resolvedLoad={resolvedLoad}
+              clientId={clientProfileId}
+              workoutSessionId={workoutSession?.id || undefined}
+              originalName={currentExercise.original_exercise?.name}
+              onSubstitute={(substitute) => substituteExercise(currentExercise.id, substitute)}
+            />
+          </div>
 
-        {/* Set Logger */}
-        <div className="border-t bg-card/50 backdrop-blur-sm">
-          <SetLogger
-            exercise={currentExercise}
-            setNumber={currentSet}
-            previousSets={completedSets[exerciseKey] || []}
-            onLogSet={logSet}
-            isResting={isResting}
-          />
+          {nextPosition && (
+            <div className="px-4 py-2 border-t text-sm text-muted-foreground truncate">
+              Up next: {describePosition(nextPosition.index, nextPosition.set)}
+            </div>
+          )}
+
+          {/* Set Logger */}
+          <div className="border-t bg-card/50 backdrop-blur-sm">
+            {currentExercise.exercise.exercise_type === 'cardio' ? (
+              <CardioLogger
+                exercise={currentExercise}
+                setNumber={currentSet}
+                previousSets={completedSets[exerciseKey] ?? NO_SETS}
+                maxHeartRate={maxHeartRate}
+                bodyweight={bodyweight !== null ? convertWeight(bodyweight, weightUnit, 'lbs') : null}
+                metric={metric}
+                onLogSet={logSet}
+                isResting={isResting}
+              />
+            ) : (
+              <SetLogger
+                exercise={currentExercise}
+                setNumber={currentSet}
+                previousSets={completedSets[exerciseKey] ?? NO_SETS}
+                lastSession={lastPerformance[currentExercise.exercise.id]}
+                unit={weightUnit}
+                resolvedLoad={resolvedLoad}
+                plateSetup={plateSetup}
+                warmupSets={showWarmups ? pendingWarmups : []}
+                warmupsLogged={warmupsLogged}
+                onLogSet={logSet}
+                onLogWarmup={logWarmupSet}
+                onSkipWarmup={() => setSkippedWarmups(prev => [...prev, currentExercise.id])}
+                onAttachVideo={setFormVideoSet}
+                videoSetIds={formVideoSetIds}
+                isResting={isResting}
+              />
+            )}
+          </div>
         </div>
-      </div>
+      )}
+
+      {/* Form Check Video */}
+      {formVideoSet?.id && currentExercise && (
+        <FormVideoDialog
+          exerciseSetId={formVideoSet.id}
+          exerciseName={currentExercise.exercise.name}
+          setNumber={formVideoSet.set_number}
+          open={!!formVideoSet}
+          onClose={() => setFormVideoSet(null)}
+          onUploaded={(setId) => setFormVideoSetIds(prev => [...prev, setId])}
+        />
+      )}
+
+      {/* Equipment Check */}
+      {showEquipmentCheck && workoutSession.id > 0 && (
+        <EquipmentCheck
+          workoutSessionId={workoutSession.id}
+          clientId={clientProfileId}
+          open={showEquipmentCheck}
+          onClose={() => setShowEquipmentCheck(false)}
+          onSubstituted={substituteExercise}
+        />
+      )}
 
       {/* Rest Timer Modal */}
       {showRestTimer && (
         <RestTimer
           duration={restTimeRemaining}
+          cues={timerCues}
+          nextUp={describePosition(currentExerciseIndex, currentSet)}
           onComplete={() => {
             setShowRestTimer(false)
             setIsResting(false)
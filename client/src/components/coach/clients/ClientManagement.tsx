@@ -42,6 +42,12 @@ import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query"
 import { apiRequest } from "@/lib/queryClient"
 import { useToast } from "@/hooks/use-toast"
 import { useSupabaseAuth } from "@/hooks/useSupabaseAuth"
+import PlateSetupDialog from "./PlateSetupDialog"
+import HeartRateDialog from "./HeartRateDialog"
+import ExerciseHistoryDialog from "./ExerciseHistoryDialog"
+import TrainingVolumeDialog from "./TrainingVolumeDialog"
+import ProgramCalendarDialog from "./ProgramCalendarDialog"
+import EquipmentProfilesDialog from "./EquipmentProfilesDialog"
 
 interface Client {
   id: number
@@ -53,9 +59,10 @@ interface Client {
   lastActivity: string
   currentProgram?: string
   compliance: {
-    workout: number
-    nutrition: number
-    overall: number
+    workout: number | null
+    nutrition: number | null
+    checkins?: number | null
+    overall: number | null
   }
   progress: {
     weightChange: number
@@ -85,7 +92,14 @@ export default function ClientManagement() {
   const [selectedClients, setSelectedClients] = useState<number[]>([])
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive' | 'paused'>('all')
+  const [sortBy, setSortBy] = useState<'name' | 'compliance-desc' | 'compliance-asc'>('name')
   const [addClientOpen, setAddClientOpen] = useState(false)
+  const [equipmentClient, setEquipmentClient] = useState<Client | null>(null)
+  const [heartRateClient, setHeartRateClient] = useState<Client | null>(null)
+  const [historyClient, setHistoryClient] = useState<Client | null>(null)
+  const [volumeClient, setVolumeClient] = useState<Client | null>(null)
+  const [calendarClient, setCalendarClient] = useState<Client | null>(null)
+  const [equipmentProfilesClient, setEquipmentProfilesClient] = useState<Client | null>(null)
   const { toast } = useToast()
   const queryClient = useQueryClient()
   const { session } = useSupabaseAuth()
@@ -183,7 +197,12 @@ export default function ClientManagement() {
     joinDate: client.createdAt?.split('T')[0] || '2024-01-01',
     lastActivity: '1 day ago',
     currentProgram: 'Custom Program',
-    compliance: { workout: 85, nutrition: 78, overall: 82 },
+    compliance: {
+      workout: client.compliance?.workout ?? null,
+      nutrition: client.compliance?.nutrition ?? null,
+      checkins: client.compliance?.checkins ?? null,
+      overall: client.compliance?.overall ?? null
+    },
     progress: { weightChange: 0, workoutsCompleted: 0, daysActive: 30 },
     package: { name: client.packageType || 'Standard', price: 199 }
   }));
@@ -238,6 +257,14 @@ export default function ClientManagement() {
                          client.email.toLowerCase().includes(searchTerm.toLowerCase())
     const matchesStatus = statusFilter === 'all' || client.status === statusFilter
     return matchesSearch && matchesStatus
+  }).sort((a, b) => {
+    if (sortBy === 'name') return a.name.localeCompare(b.name)
+    // Clients without enough data to score always sort last
+    if (a.compliance.overall === null) return b.compliance.overall === null ? 0 : 1
+    if (b.compliance.overall === null) return -1
+    return sortBy === 'compliance-desc'
+      ? b.compliance.overall - a.compliance.overall
+      : a.compliance.overall - b.compliance.overall
   })
 
   const toggleClientSelection = (clientId: number) => {
@@ -270,7 +297,8 @@ export default function ClientManagement() {
     )
   }
 
-  const getComplianceColor = (compliance: number) => {
+  const getComplianceColor = (compliance: number | null) => {
+    if (compliance === null) return 'text-muted-foreground'
     if (compliance >= 80) return 'text-green-500'
     if (compliance >= 60) return 'text-yellow-500'
     return 'text-red-500'
@@ -492,6 +520,17 @@ export default function ClientManagement() {
                 </TabsList>
               </Tabs>
 
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as typeof sortBy)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="name">Sort by name</SelectItem>
+                  <SelectItem value="compliance-desc">Highest compliance</SelectItem>
+                  <SelectItem value="compliance-asc">Lowest compliance</SelectItem>
+                </SelectContent>
+              </Select>
+
               <div className="flex items-center border rounded-lg">
                 <Button
                   variant={viewMode === 'grid' ? 'default' : 'ghost'}
@@ -581,13 +620,13 @@ export default function ClientManagement() {
                   <div className="flex items-center justify-between text-sm">
                     <span>Overall Compliance</span>
                     <span className={`font-medium ${getComplianceColor(client.compliance.overall)}`}>
-                      {client.compliance.overall}%
+                      {client.compliance.overall === null ? '—' : `${client.compliance.overall}%`}
                     </span>
                   </div>
                   <div className="w-full bg-muted rounded-full h-2">
                     <div 
                       className="bg-primary rounded-full h-2 transition-all"
-                      style={{ width: `${client.compliance.overall}%` }}
+                      style={{ width: `${client.compliance.overall ?? 0}%` }}
                     />
                   </div>
                 </div>
@@ -613,6 +652,30 @@ export default function ClientManagement() {
                         <i className="ri-fitness-line mr-2" />
                         Assign Workout
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setCalendarClient(client)}>
+                        <i className="ri-calendar-line mr-2" />
+                        Program Calendar
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setHistoryClient(client)}>
+                        <i className="ri-line-chart-line mr-2" />
+                        Exercise History
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setVolumeClient(client)}>
+                        <i className="ri-bar-chart-grouped-line mr-2" />
+                        Training Volume
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setEquipmentClient(client)}>
+                        <i className="ri-weight-line mr-2" />
+                        Gym Equipment
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setEquipmentProfilesClient(client)}>
+                        <i className="ri-home-gear-line mr-2" />
+                        Equipment Profiles
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setHeartRateClient(client)}>
+                        <i className="ri-heart-pulse-line mr-2" />
+                        Heart Rate Zones
+                      </DropdownMenuItem>
                       <DropdownMenuItem>
                         <i className="ri-pause-line mr-2" />
                         Pause Program
@@ -641,7 +704,16 @@ export default function ClientManagement() {
                     <th className="text-left p-4">Client</th>
                     <th className="text-left p-4">Status</th>
                     <th className="text-left p-4">Program</th>
-                    <th className="text-left p-4">Compliance</th>
+                    <th className="text-left p-4">
+                      <button
+                        type="button"
+                        className="inline-flex items-center gap-1"
+                        onClick={() => setSortBy(sortBy === 'compliance-desc' ? 'compliance-asc' : 'compliance-desc')}
+                      >
+                        Compliance
+                        <i className={sortBy === 'compliance-asc' ? 'ri-arrow-up-s-line' : sortBy === 'compliance-desc' ? 'ri-arrow-down-s-line' : 'ri-arrow-up-down-line'} />
+                      </button>
+                    </th>
                     <th className="text-left p-4">Progress</th>
                     <th className="text-left p-4">Last Active</th>
                     <th className="text-left p-4">Actions</th>
@@ -677,8 +749,11 @@ export default function ClientManagement() {
                       </td>
                       <td className="p-4">
                         <span className={`font-medium ${getComplianceColor(client.compliance.overall)}`}>
-                          {client.compliance.overall}%
+                          {client.compliance.overall === null ? '—' : `${client.compliance.overall}%`}
                         </span>
+                        <p className="text-xs text-muted-foreground">
+                          W {client.compliance.workout ?? '—'} · N {client.compliance.nutrition ?? '—'} · C {client.compliance.checkins ?? '—'}
+                        </p>
                       </td>
                       <td className="p-4">
                         <p className="text-sm">
@@ -712,6 +787,30 @@ export default function ClientManagement() {
                               <i className="ri-fitness-line mr-2" />
                               Assign Workout
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setCalendarClient(client)}>
+                              <i className="ri-calendar-line mr-2" />
+                              Program Calendar
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setHistoryClient(client)}>
+                              <i className="ri-line-chart-line mr-2" />
+                              Exercise History
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setVolumeClient(client)}>
+                              <i className="ri-bar-chart-grouped-line mr-2" />
+                              Training Volume
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setEquipmentClient(client)}>
+                              <i className="ri-weight-line mr-2" />
+                              Gym Equipment
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setEquipmentProfilesClient(client)}>
+                              <i className="ri-home-gear-line mr-2" />
+                              Equipment Profiles
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setHeartRateClient(client)}>
+                              <i className="ri-heart-pulse-line mr-2" />
+                              Heart Rate Zones
+                            </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </td>
@@ -743,6 +842,60 @@ export default function ClientManagement() {
           </CardContent>
         </Card>
       )}
+
+      {equipmentClient && (
+        <PlateSetupDialog
+          clientId={equipmentClient.id}
+          clientName={equipmentClient.name}
+          open={!!equipmentClient}
+          onOpenChange={(open) => !open && setEquipmentClient(null)}
+        />
+      )}
+
+      {heartRateClient && (
+        <HeartRateDialog
+          clientId={heartRateClient.id}
+          clientName={heartRateClient.name}
+          open={!!heartRateClient}
+          onOpenChange={(open) => !open && setHeartRateClient(null)}
+        />
+      )}
+
+      {historyClient && (
+        <ExerciseHistoryDialog
+          clientId={historyClient.id}
+          clientName={historyClient.name}
+          open={!!historyClient}
+          onOpenChange={(open) => !open && setHistoryClient(null)}
+        />
+      )}
+
+      {volumeClient && (
+        <TrainingVolumeDialog
+          clientId={volumeClient.id}
+          clientName={volumeClient.name}
+          open={!!volumeClient}
+          onOpenChange={(open) => !open && setVolumeClient(null)}
+        />
+      )}
+
+      {calendarClient && (
+        <ProgramCalendarDialog
+          clientId={calendarClient.id}
+          clientName={calendarClient.name}
+          open={!!calendarClient}
+          onOpenChange={(open) => !open && setCalendarClient(null)}
+        />
+      )}
+
+      {equipmentProfilesClient && (
+        <EquipmentProfilesDialog
+          clientId={equipmentProfilesClient.id}
+          clientName={equipmentProfilesClient.name}
+          open={!!equipmentProfilesClient}
+          onOpenChange={(open) => !open && setEquipmentProfilesClient(null)}
+        />
+      )}
     </div>
   )
 }
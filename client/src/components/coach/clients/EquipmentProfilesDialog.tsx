@@ -0,0 +1,32 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import EquipmentProfiles from "@/components/dashboard/EquipmentProfiles"
+
+interface EquipmentProfilesDialogProps {
+  clientId: number
+  clientName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export default function EquipmentProfilesDialog({ clientId, clientName, open, onOpenChange }: EquipmentProfilesDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Equipment Profiles</DialogTitle>
+          <DialogDescription>
+            What {clientName} has at each place they train. Workouts are checked against the active profile.
+          </DialogDescription>
+        </DialogHeader>
+
+        <EquipmentProfiles clientId={clientId} />
+      </DialogContent>
+    </Dialog>
+  )
+}
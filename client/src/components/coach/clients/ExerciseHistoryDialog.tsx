@@ -0,0 +1,69 @@
+import { useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import ExerciseHistoryChart from "@/components/dashboard/ExerciseHistoryChart"
+import type { Exercise } from "@shared/schema"
+
+interface ExerciseHistoryDialogProps {
+  clientId: number
+  clientName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export default function ExerciseHistoryDialog({ clientId, clientName, open, onOpenChange }: ExerciseHistoryDialogProps) {
+  const [exerciseId, setExerciseId] = useState<string>("")
+
+  const { data: exercises = [], isLoading } = useQuery<Exercise[]>({
+    queryKey: ["/api/exercises"],
+    enabled: open
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Exercise History</DialogTitle>
+          <DialogDescription>
+            How {clientName}'s lifts have progressed, session by session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="exercise-history-exercise">Exercise</Label>
+            <Select value={exerciseId} onValueChange={setExerciseId} disabled={isLoading}>
+              <SelectTrigger id="exercise-history-exercise">
+                <SelectValue placeholder={isLoading ? "Loading exercises..." : "Select an exercise"} />
+              </SelectTrigger>
+              <SelectContent>
+                {[...exercises].sort((a, b) => a.name.localeCompare(b.name)).map(exercise => (
+                  <SelectItem key={exercise.id} value={exercise.id.toString()}>
+                    {exercise.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {exerciseId ? (
+            <ExerciseHistoryChart clientId={clientId} exerciseId={parseInt(exerciseId, 10)} />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-12 flex items-center justify-center gap-2">
+              <i className="ri-line-chart-line" />
+              Pick an exercise to see its history.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
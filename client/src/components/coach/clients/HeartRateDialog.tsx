@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { useToast } from "@/hooks/use-toast"
+import { apiRequest } from "@/lib/queryClient"
+import { useSupabaseAuth } from "@/hooks/useSupabaseAuth"
+import { getHeartRateZones, getMaxHeartRate } from "@/lib/cardio"
+
+interface HeartRateSettingsResponse {
+  dateOfBirth: string | null
+  maxHeartRate: number | null
+}
+
+interface HeartRateDialogProps {
+  clientId: number
+  clientName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export default function HeartRateDialog({ clientId, clientName, open, onOpenChange }: HeartRateDialogProps) {
+  const { toast } = useToast()
+  const { session } = useSupabaseAuth()
+  const queryClient = useQueryClient()
+
+  const [measuredMax, setMeasuredMax] = useState("")
+
+  const queryKey = [`/api/clients/${clientId}/heart-rate`]
+
+  const { data: settings, isLoading } = useQuery<HeartRateSettingsResponse>({
+    queryKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/clients/${clientId}/heart-rate`, undefined, session)
+      return response.json()
+    },
+    enabled: open && !!session
+  })
+
+  useEffect(() => {
+    if (!settings) return
+    setMeasuredMax(settings.maxHeartRate ? String(settings.maxHeartRate) : "")
+  }, [settings])
+
+  const saveSettings = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/clients/${clientId}/heart-rate`, {
+        maxHeartRate: measuredMax.trim() ? parseInt(measuredMax, 10) : null
+      }, session)
+      return response.json()
+    },
+    onSuccess: (saved: HeartRateSettingsResponse) => {
+      queryClient.setQueryData(queryKey, saved)
+      toast({
+        title: "Heart-rate zones saved",
+        description: `${clientName}'s cardio sessions will use these zones.`
+      })
+      onOpenChange(false)
+    },
+    onError: () => {
+      toast({
+        title: "Couldn't save heart-rate zones",
+        description: "Max heart rate must be between 100 and 230 bpm.",
+        variant: "destructive"
+      })
+    }
+  })
+
+  // Preview the zones the client will see, falling back to the age estimate
+  const maxHeartRate = getMaxHeartRate(parseInt(measuredMax, 10) || null, settings?.dateOfBirth)
+  const zones = maxHeartRate ? getHeartRateZones(maxHeartRate.value) : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Heart Rate Zones</DialogTitle>
+          <DialogDescription>
+            Zones for {clientName}'s cardio work. Without a measured max heart rate it's estimated from their date of birth.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading heart-rate settings...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="heart-rate-max">Measured max heart rate (bpm)</Label>
+              <Input
+                id="heart-rate-max"
+                type="number"
+                min="100"
+                max="230"
+                value={measuredMax}
+                onChange={(e) => setMeasuredMax(e.target.value)}
+                placeholder={maxHeartRate?.source === "age" ? `${maxHeartRate.value} (estimated)` : "e.g., 190"}
+              />
+            </div>
+
+            {maxHeartRate ? (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {maxHeartRate.source === "measured"
+                    ? `Using a measured max of ${maxHeartRate.value} bpm`
+                    : `Estimated max of ${maxHeartRate.value} bpm (220 − age)`}
+                </p>
+                {zones.map(zone => (
+                  <div key={zone.zone} className="flex items-center justify-between text-sm">
+                    <span>
+                      <span className="font-medium">Zone {zone.zone}</span>
+                      <span className="text-muted-foreground"> · {zone.label}</span>
+                    </span>
+                    <span>{zone.min}–{zone.max} bpm</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <i className="ri-information-line" />
+                Add a date of birth or a measured max heart rate to calculate zones.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveSettings.mutate()} disabled={saveSettings.isPending || isLoading}>
+            {saveSettings.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
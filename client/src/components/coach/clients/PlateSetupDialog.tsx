@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { useToast } from "@/hooks/use-toast"
+import { apiRequest } from "@/lib/queryClient"
+import { useSupabaseAuth } from "@/hooks/useSupabaseAuth"
+import { DEFAULT_PLATE_SETUPS, type PlateInventoryItem } from "@/lib/plates"
+
+interface PlateSetupResponse {
+  metricSystem: boolean
+  barWeight: string | null
+  plateInventory: PlateInventoryItem[] | null
+}
+
+interface PlateSetupDialogProps {
+  clientId: number
+  clientName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export default function PlateSetupDialog({ clientId, clientName, open, onOpenChange }: PlateSetupDialogProps) {
+  const { toast } = useToast()
+  const { session } = useSupabaseAuth()
+  const queryClient = useQueryClient()
+
+  const [metricSystem, setMetricSystem] = useState(false)
+  const [barWeight, setBarWeight] = useState("")
+  const [plates, setPlates] = useState<PlateInventoryItem[]>([])
+
+  const queryKey = [`/api/clients/${clientId}/plate-setup`]
+
+  const { data: setup, isLoading } = useQuery<PlateSetupResponse>({
+    queryKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/clients/${clientId}/plate-setup`, undefined, session)
+      return response.json()
+    },
+    enabled: open && !!session
+  })
+
+  // Start from the saved setup, or standard plates for the client's unit
+  useEffect(() => {
+    if (!setup) return
+    const defaults = DEFAULT_PLATE_SETUPS[setup.metricSystem ? 'kg' : 'lbs']
+    setMetricSystem(setup.metricSystem)
+    setBarWeight(setup.barWeight ?? String(defaults.barWeight))
+    setPlates(setup.plateInventory?.length ? setup.plateInventory : defaults.plates)
+  }, [setup])
+
+  const resetToStandard = (metric: boolean) => {
+    const defaults = DEFAULT_PLATE_SETUPS[metric ? 'kg' : 'lbs']
+    setMetricSystem(metric)
+    setBarWeight(String(defaults.barWeight))
+    setPlates(defaults.plates)
+  }
+
+  const updatePlate = (index: number, field: keyof PlateInventoryItem, value: string) => {
+    setPlates(current => current.map((plate, i) => i === index ? { ...plate, [field]: parseFloat(value) || 0 } : plate))
+  }
+
+  const saveSetup = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/clients/${clientId}/plate-setup`, {
+        metricSystem,
+        barWeight: barWeight.trim() || null,
+        plateInventory: plates.filter(plate => plate.weight > 0)
+      }, session)
+      return response.json()
+    },
+    onSuccess: (saved: PlateSetupResponse) => {
+      queryClient.setQueryData(queryKey, saved)
+      toast({
+        title: "Gym equipment saved",
+        description: `${clientName}'s plate calculator will use this setup.`
+      })
+      onOpenChange(false)
+    },
+    onError: () => {
+      toast({
+        title: "Couldn't save gym equipment",
+        description: "Check the bar and plate weights and try again.",
+        variant: "destructive"
+      })
+    }
+  })
+
+  const unit = metricSystem ? "kg" : "lbs"
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Gym Equipment</DialogTitle>
+          <DialogDescription>
+            The bar and plates {clientName} has access to. Barbell loads in their workouts are calculated from this.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading equipment...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="plate-setup-metric">Use kilograms</Label>
+              <Switch
+                id="plate-setup-metric"
+                checked={metricSystem}
+                onCheckedChange={resetToStandard}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="plate-setup-bar">Bar weight ({unit})</Label>
+              <Input
+                id="plate-setup-bar"
+                type="number"
+                min="0"
+                step="0.5"
+                value={barWeight}
+                onChange={(e) => setBarWeight(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-muted-foreground">
+                <span>Plate ({unit})</span>
+                <span>Plates owned</span>
+                <span className="w-9" />
+              </div>
+              {plates.map((plate, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.25"
+                    value={plate.weight || ""}
+                    onChange={(e) => updatePlate(index, "weight", e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="2"
+                    value={plate.count}
+                    onChange={(e) => updatePlate(index, "count", e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPlates(current => current.filter((_, i) => i !== index))}
+                    title="Remove plate"
+                  >
+                    <i className="ri-delete-bin-line" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPlates(current => [...current, { weight: 0, count: 2 }])}
+                >
+                  <i className="ri-add-line mr-1" />
+                  Add plate
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => resetToStandard(metricSystem)}>
+                  Reset to standard
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveSetup.mutate()} disabled={saveSetup.isPending || isLoading}>
+            {saveSetup.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
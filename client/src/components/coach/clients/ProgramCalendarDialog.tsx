@@ -0,0 +1,32 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import ProgramCalendar from "@/components/dashboard/ProgramCalendar"
+
+interface ProgramCalendarDialogProps {
+  clientId: number
+  clientName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export default function ProgramCalendarDialog({ clientId, clientName, open, onOpenChange }: ProgramCalendarDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Program Calendar</DialogTitle>
+          <DialogDescription>
+            {clientName}'s scheduled and completed program workouts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ProgramCalendar clientId={clientId} canManagePrograms />
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react"
+import { format, parseISO } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { useToast } from "@/hooks/use-toast"
+import { apiRequest } from "@/lib/queryClient"
+import { useSupabaseAuth } from "@/hooks/useSupabaseAuth"
+import type { MuscleVolumeTarget, VolumeStatus } from "@/lib/training-volume"
+
+interface MuscleGroupVolume {
+  muscleGroup: string
+  hardSets: number
+  tonnage: number
+  target: MuscleVolumeTarget | null
+  status: VolumeStatus | null
+}
+
+interface TrainingVolumeResponse {
+  clientId: number
+  unit: "kg" | "lbs"
+  targets: MuscleVolumeTarget[]
+  weeks: {
+    weekStart: string
+    weekEnd: string
+    muscleGroups: MuscleGroupVolume[]
+  }[]
+}
+
+interface TrainingVolumeDialogProps {
+  clientId: number
+  clientName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const statusColors: Record<VolumeStatus, string> = {
+  under: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
+  within: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  over: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"
+}
+
+const WEEK_OPTIONS = [4, 8, 12, 26]
+
+export default function TrainingVolumeDialog({ clientId, clientName, open, onOpenChange }: TrainingVolumeDialogProps) {
+  const { toast } = useToast()
+  const { session } = useSupabaseAuth()
+  const queryClient = useQueryClient()
+
+  const [weeks, setWeeks] = useState(8)
+  const [metric, setMetric] = useState<"sets" | "tonnage">("sets")
+  const [draftTargets, setDraftTargets] = useState<MuscleVolumeTarget[]>([])
+
+  const { data: volume, isLoading } = useQuery<TrainingVolumeResponse>({
+    queryKey: [`/api/clients/${clientId}/training-volume`, weeks],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/clients/${clientId}/training-volume?weeks=${weeks}`, undefined, session)
+      return response.json()
+    },
+    enabled: open && !!session
+  })
+
+  const { data: targetSettings } = useQuery<{ targets: MuscleVolumeTarget[] }>({
+    queryKey: ["/api/coach/volume-targets"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/coach/volume-targets", undefined, session)
+      return response.json()
+    },
+    enabled: open && !!session
+  })
+
+  useEffect(() => {
+    if (targetSettings) setDraftTargets(targetSettings.targets)
+  }, [targetSettings])
+
+  const saveTargets = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/coach/volume-targets", {
+        targets: draftTargets.filter(target => target.muscleGroup.trim())
+      }, session)
+      return response.json()
+    },
+    onSuccess: (saved: { targets: MuscleVolumeTarget[] }) => {
+      queryClient.setQueryData(["/api/coach/volume-targets"], saved)
+      queryClient.invalidateQueries({ queryKey: [`/api/clients/${clientId}/training-volume`] })
+      toast({
+        title: "Volume targets saved",
+        description: "These ranges apply to all of your clients and programs."
+      })
+    },
+    onError: () => {
+      toast({
+        title: "Couldn't save volume targets",
+        description: "Each muscle group needs a unique name and a minimum no higher than its maximum.",
+        variant: "destructive"
+      })
+    }
+  })
+
+  const updateTarget = (index: number, updates: Partial<MuscleVolumeTarget>) => {
+    setDraftTargets(prev => prev.map((target, i) => i === index ? { ...target, ...updates } : target))
+  }
+
+  // Targeted muscle groups first, then anything else the client trained
+  const muscleGroups = volume
+    ? Array.from(new Set([
+        ...volume.targets.map(target => target.muscleGroup),
+        ...volume.weeks.flatMap(week => week.muscleGroups.map(entry => entry.muscleGroup))
+      ]))
+    : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Training Volume</DialogTitle>
+          <DialogDescription>
+            Weekly hard sets per muscle group for {clientName}, against your target ranges.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="heatmap">
+          <TabsList>
+            <TabsTrigger value="heatmap">Heatmap</TabsTrigger>
+            <TabsTrigger value="targets">Targets</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="heatmap" className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <Tabs value={metric} onValueChange={(value) => setMetric(value as "sets" | "tonnage")}>
+                <TabsList>
+                  <TabsTrigger value="sets">Hard Sets</TabsTrigger>
+                  <TabsTrigger value="tonnage">Tonnage</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <Select value={weeks.toString()} onValueChange={(value) => setWeeks(parseInt(value, 10))}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEK_OPTIONS.map(option => (
+                    <SelectItem key={option} value={option.toString()}>
+                      {option} weeks
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading || !volume ? (
+              <p className="text-sm text-muted-foreground text-center py-12">Loading training volume...</p>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm border-separate border-spacing-1">
+                    <thead>
+                      <tr>
+                        <th className="text-left font-medium text-muted-foreground">Muscle</th>
+                        {volume.weeks.map(week => (
+                          <th key={week.weekStart} className="font-medium text-muted-foreground text-xs whitespace-nowrap">
+                            {format(parseISO(week.weekStart), "MMM d")}
+                          </th>
+                        ))}
+                        <th className="font-medium text-muted-foreground text-xs">Target</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {muscleGroups.map(muscleGroup => {
+                        const target = volume.targets.find(entry => entry.muscleGroup === muscleGroup)
+                        return (
+                          <tr key={muscleGroup}>
+                            <td className="capitalize whitespace-nowrap pr-2">{muscleGroup}</td>
+                            {volume.weeks.map(week => {
+                              const entry = week.muscleGroups.find(item => item.muscleGroup === muscleGroup)
+                              const value = metric === "sets" ? entry?.hardSets ?? 0 : Math.round(entry?.tonnage ?? 0)
+                              return (
+                                <td
+                                  key={week.weekStart}
+                                  className={`text-center rounded px-2 py-1 ${entry?.status ? statusColors[entry.status] : "bg-muted text-muted-foreground"}`}
+                                  title={`${entry?.hardSets ?? 0} hard sets · ${entry?.tonnage ?? 0} ${volume.unit}`}
+                                >
+                                  {value}
+                                </td>
+                              )
+                            })}
+                            <td className="text-center text-xs text-muted-foreground whitespace-nowrap">
+                              {target ? `${target.minSets}–${target.maxSets}` : "–"}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1"><span className={`w-3 h-3 rounded ${statusColors.under}`} /> Under target</span>
+                  <span className="flex items-center gap-1"><span className={`w-3 h-3 rounded ${statusColors.within}`} /> Within target</span>
+                  <span className="flex items-center gap-1"><span className={`w-3 h-3 rounded ${statusColors.over}`} /> Over target</span>
+                  <span className="flex items-center gap-1">
+                    <i className="ri-information-line" />
+                    {metric === "sets" ? "Colors compare hard sets with the weekly target" : `Tonnage in ${volume.unit}; colors still follow hard sets`}
+                  </span>
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="targets" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Weekly hard-set ranges per muscle group. Names should match the muscle groups on your exercises.
+            </p>
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground">
+                <div className="col-span-6">Muscle group</div>
+                <div className="col-span-2">Min sets</div>
+                <div className="col-span-2">Max sets</div>
+              </div>
+              {draftTargets.map((target, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <Input
+                    className="col-span-6"
+                    value={target.muscleGroup}
+                    onChange={(e) => updateTarget(index, { muscleGroup: e.target.value })}
+                    placeholder="e.g., chest"
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="0"
+                    max="50"
+                    value={target.minSets}
+                    onChange={(e) => updateTarget(index, { minSets: parseInt(e.target.value, 10) || 0 })}
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="0"
+                    max="50"
+                    value={target.maxSets}
+                    onChange={(e) => updateTarget(index, { maxSets: parseInt(e.target.value, 10) || 0 })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-2"
+                    onClick={() => setDraftTargets(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <i className="ri-delete-bin-line" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
+                onClick={() => setDraftTargets(prev => [...prev, { muscleGroup: "", minSets: 10, maxSets: 20 }])}
+              >
+                <i className="ri-add-line mr-1" />
+                Add Muscle Group
+              </Button>
+              <Button onClick={() => saveTargets.mutate()} disabled={saveTargets.isPending}>
+                {saveTargets.isPending ? "Saving..." : "Save Targets"}
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
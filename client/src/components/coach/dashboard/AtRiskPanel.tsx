@@ -0,0 +1,162 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { useToast } from "@/hooks/use-toast"
+import { apiRequest } from "@/lib/queryClient"
+import { useSupabaseAuth } from "@/hooks/useSupabaseAuth"
+import { formatDistanceToNow } from "date-fns"
+
+type AlertRule = 'inactivity' | 'missed_checkins' | 'unanswered_messages' | 'weight_trend'
+
+interface AtRiskAlert {
+  id: string
+  clientId: number
+  clientName: string
+  clientAvatar: string | null
+  rule: AlertRule
+  message: string
+  since: string | null
+  status: 'open' | 'acknowledged' | 'snoozed'
+  snoozedUntil: string | null
+}
+
+const RULE_ICONS: Record<AlertRule, string> = {
+  inactivity: 'ri-zzz-line text-orange-500',
+  missed_checkins: 'ri-calendar-close-line text-red-500',
+  unanswered_messages: 'ri-chat-off-line text-blue-500',
+  weight_trend: 'ri-line-chart-line text-purple-500'
+}
+
+const SNOOZE_OPTIONS = [1, 3, 7]
+
+export default function AtRiskPanel() {
+  const { toast } = useToast()
+  const { session } = useSupabaseAuth()
+  const queryClient = useQueryClient()
+
+  const { data: alerts = [], isLoading } = useQuery<AtRiskAlert[]>({
+    queryKey: ['/api/coach/alerts'],
+    // Evaluating also clears dismissals of alerts that have since resolved
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/coach/alerts/evaluate", undefined, session)
+      return response.json()
+    },
+    enabled: !!session,
+    staleTime: 60 * 1000
+  })
+
+  const updateAlert = useMutation({
+    mutationFn: async ({ alert, action, days }: { alert: AtRiskAlert, action: 'acknowledge' | 'snooze', days?: number }) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/coach/alerts/${alert.clientId}/${alert.rule}/${action}`,
+        action === 'snooze' ? { days } : undefined,
+        session
+      )
+      return response.json()
+    },
+    onSuccess: (_data, { alert, action, days }) => {
+      queryClient.setQueryData<AtRiskAlert[]>(['/api/coach/alerts'], current =>
+        current?.filter(item => item.id !== alert.id)
+      )
+      toast({
+        title: action === 'snooze' ? "Alert snoozed" : "Alert acknowledged",
+        description: action === 'snooze'
+          ? `${alert.clientName} will be flagged again in ${days} day${days === 1 ? '' : 's'} if nothing changes.`
+          : `${alert.clientName} won't be flagged for this again until it clears.`
+      })
+    },
+    onError: () => {
+      toast({
+        title: "Couldn't update alert",
+        description: "Please try again.",
+        variant: "destructive"
+      })
+    }
+  })
+
+  const clientCount = new Set(alerts.map(alert => alert.clientId)).size
+
+  return (
+    <Card variant="premium">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <i className="ri-alarm-warning-line text-red-500" />
+          At Risk
+          {clientCount > 0 && (
+            <Badge variant="destructive" className="ml-auto">
+              {clientCount} client{clientCount === 1 ? '' : 's'}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {!isLoading && alerts.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No clients are showing churn signals right now
+            </p>
+          )}
+          {alerts.map((alert) => (
+            <div key={alert.id} className="flex items-start gap-3 p-3 rounded-lg border hover:bg-muted/50 transition-colors">
+              <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
+                {alert.clientAvatar ? (
+                  <img
+                    src={alert.clientAvatar}
+                    alt={alert.clientName}
+                    className="w-8 h-8 rounded-full object-cover"
+                  />
+                ) : (
+                  <i className={RULE_ICONS[alert.rule]} />
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground">
+                  {alert.clientName}
+                </p>
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  <i className={RULE_ICONS[alert.rule]} />
+                  {alert.message}
+                </p>
+                {alert.since && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Since {formatDistanceToNow(new Date(alert.since), { addSuffix: true })}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex-shrink-0 flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={updateAlert.isPending}
+                  onClick={() => updateAlert.mutate({ alert, action: 'acknowledge' })}
+                  title="Acknowledge"
+                >
+                  <i className="ri-check-line" />
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" disabled={updateAlert.isPending} title="Snooze">
+                      <i className="ri-time-line" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {SNOOZE_OPTIONS.map(days => (
+                      <DropdownMenuItem key={days} onClick={() => updateAlert.mutate({ alert, action: 'snooze', days })}>
+                        Snooze {days} day{days === 1 ? '' : 's'}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,77 +3,86 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { MetricCard } from "@/components/ui/metric-card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { useQuery } from "@tanstack/react-query"
+import { useQuery, keepPreviousData } from "@tanstack/react-query"
 import { useLocation } from "wouter"
 import { useToast } from "@/hooks/use-toast"
+import { apiRequest } from "@/lib/queryClient"
+import { useSupabaseAuth } from "@/hooks/useSupabaseAuth"
+import { formatDistanceToNow } from "date-fns"
+import AtRiskPanel from "./AtRiskPanel"
 
 interface CoachStats {
   totalClients: number
   activeClients: number
-  newClientsThisMonth: number
-  retentionRate: number
-  averageCompliance: number
+  newClients: number
+  retentionRate: number | null
+  retentionRateChange: number | null
+  averageCompliance: number | null
   monthlyRevenue: number
+  compliance: {
+    workout: number | null
+    nutrition: number | null
+    checkins: number | null
+  }
 }
 
 interface RecentActivity {
-  id: number
+  id: string
   type: 'workout_completed' | 'progress_photo' | 'weight_logged' | 'message_sent'
+  clientId: number
   clientName: string
-  clientAvatar?: string
+  clientAvatar?: string | null
   description: string
   timestamp: string
 }
 
+interface CoachOverviewResponse {
+  range: 'week' | 'month' | 'quarter'
+  stats: CoachStats
+  activity: {
+    items: RecentActivity[]
+    page: number
+    pageSize: number
+    total: number
+    hasMore: boolean
+  }
+}
+
+const ACTIVITY_PAGE_SIZE = 5
+
+const formatPercent = (value: number | null | undefined) => value === null || value === undefined ? '—' : `${value}%`
+
 export default function CoachOverview() {
   const [timeRange, setTimeRange] = useState<'week' | 'month' | 'quarter'>('month')
   const [_, setLocation] = useLocation()
   const { toast } = useToast()
 
-  // Mock data - replace with actual API calls
-  const stats: CoachStats = {
-    totalClients: 28,
-    activeClients: 24,
-    newClientsThisMonth: 4,
-    retentionRate: 92,
-    averageCompliance: 78,
-    monthlyRevenue: 5600
-  }
+  const [activityPage, setActivityPage] = useState(1)
+  const { session } = useSupabaseAuth()
 
-  const recentActivity: RecentActivity[] = [
-    {
-      id: 1,
-      type: 'workout_completed',
-      clientName: 'Sarah Johnson',
-      clientAvatar: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?w=40&h=40&fit=crop&crop=face',
-      description: 'Completed Upper Body Strength workout',
-      timestamp: '2 hours ago'
-    },
-    {
-      id: 2,
-      type: 'progress_photo',
-      clientName: 'Mike Chen',
-      clientAvatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=40&h=40&fit=crop&crop=face',
-      description: 'Uploaded new progress photos',
-      timestamp: '4 hours ago'
-    },
-    {
-      id: 3,
-      type: 'weight_logged',
-      clientName: 'Emma Wilson',
-      clientAvatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=40&h=40&fit=crop&crop=face',
-      description: 'Logged weight: 68.2kg (-0.8kg this week)',
-      timestamp: '6 hours ago'
+  const { data: overview, isLoading } = useQuery<CoachOverviewResponse>({
+    queryKey: ['/api/coach/overview', timeRange, activityPage],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        range: timeRange,
+        page: String(activityPage),
+        pageSize: String(ACTIVITY_PAGE_SIZE)
+      })
+      const response = await apiRequest("GET", `/api/coach/overview?${params}`, undefined, session)
+      return response.json()
     },
-    {
-      id: 4,
-      type: 'message_sent',
-      clientName: 'David Park',
-      clientAvatar: 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=40&h=40&fit=crop&crop=face',
-      description: 'Sent a message about nutrition adjustments',
-      timestamp: '1 day ago'
-    }
-  ]
+    enabled: !!session,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000
+  })
+
+  const stats = overview?.stats
+  const recentActivity = overview?.activity.items ?? []
+
+  const changeRange = (range: 'week' | 'month' | 'quarter') => {
+    setTimeRange(range)
+    setActivityPage(1)
+  }
 
   const getActivityIcon = (type: RecentActivity['type']) => {
     switch (type) {
@@ -110,7 +119,7 @@ export default function CoachOverview() {
                 key={range}
                 variant={timeRange === range ? 'default' : 'ghost'}
                 size="sm"
-                onClick={() => setTimeRange(range)}
+                onClick={() => changeRange(range)}
                 className="capitalize"
               >
                 {range}
@@ -129,49 +138,48 @@ export default function CoachOverview() {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <MetricCard
           title="Total Clients"
-          value={stats.totalClients}
-          change={{
-            value: `+${stats.newClientsThisMonth}`,
-            type: 'increase'
-          }}
+          value={stats ? stats.totalClients : '—'}
+          change={stats ? {
+            value: `+${stats.newClients}`,
+            type: stats.newClients > 0 ? 'increase' : 'neutral'
+          } : undefined}
           icon={<i className="ri-team-line text-primary w-5 h-5" />}
           variant="premium"
         />
 
         <MetricCard
           title="Active Clients"
-          value={stats.activeClients}
-          change={{
+          value={stats ? stats.activeClients : '—'}
+          change={stats && stats.totalClients > 0 ? {
             value: `${Math.round((stats.activeClients / stats.totalClients) * 100)}%`,
-            type: 'increase'
-          }}
+            type: 'neutral'
+          } : undefined}
           icon={<i className="ri-user-heart-line text-green-500 w-5 h-5" />}
           variant="premium"
         />
 
         <MetricCard
           title="Retention Rate"
-          value={`${stats.retentionRate}%`}
-          change={{
-            value: '+2%',
-            type: 'increase'
-          }}
+          value={formatPercent(stats?.retentionRate)}
+          change={stats && stats.retentionRateChange !== null ? {
+            value: `${stats.retentionRateChange >= 0 ? '+' : ''}${stats.retentionRateChange}%`,
+            type: stats.retentionRateChange > 0 ? 'increase' : stats.retentionRateChange < 0 ? 'decrease' : 'neutral'
+          } : undefined}
           icon={<i className="ri-shield-check-line text-blue-500 w-5 h-5" />}
           variant="premium"
         />
 
         <MetricCard
           title="Monthly Revenue"
-          value={`$${stats.monthlyRevenue.toLocaleString()}`}
-          change={{
-            value: '+12%',
-            type: 'increase'
-          }}
+          value={stats ? `$${stats.monthlyRevenue.toLocaleString()}` : '—'}
           icon={<i className="ri-money-dollar-circle-line text-green-500 w-5 h-5" />}
           variant="gradient-orange"
         />
       </div>
 
+      {/* Clients showing churn signals */}
+      <AtRiskPanel />
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Client Compliance Overview */}
@@ -187,8 +195,8 @@ export default function CoachOverview() {
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Average Compliance</span>
-                  <Badge variant={stats.averageCompliance >= 80 ? 'default' : 'secondary'}>
-                    {stats.averageCompliance}%
+                  <Badge variant={(stats?.averageCompliance ?? 0) >= 80 ? 'default' : 'secondary'}>
+                    {formatPercent(stats?.averageCompliance)}
                   </Badge>
                 </div>
                 
@@ -198,15 +206,15 @@ export default function CoachOverview() {
                 
                 <div className="grid grid-cols-3 gap-4 pt-4 border-t">
                   <div className="text-center">
-                    <div className="text-2xl font-bold text-green-500">85%</div>
+                    <div className="text-2xl font-bold text-green-500">{formatPercent(stats?.compliance.workout)}</div>
                     <div className="text-xs text-muted-foreground">Workout</div>
                   </div>
                   <div className="text-center">
-                    <div className="text-2xl font-bold text-blue-500">72%</div>
+                    <div className="text-2xl font-bold text-blue-500">{formatPercent(stats?.compliance.nutrition)}</div>
                     <div className="text-xs text-muted-foreground">Nutrition</div>
                   </div>
                   <div className="text-center">
-                    <div className="text-2xl font-bold text-purple-500">91%</div>
+                    <div className="text-2xl font-bold text-purple-500">{formatPercent(stats?.compliance.checkins)}</div>
                     <div className="text-xs text-muted-foreground">Check-ins</div>
                   </div>
                 </div>
@@ -225,6 +233,11 @@ export default function CoachOverview() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
+              {!isLoading && recentActivity.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  No client activity in this period yet
+                </p>
+              )}
               {recentActivity.map((activity) => (
                 <div key={activity.id} className="flex items-start gap-3 p-3 rounded-lg hover:bg-muted/50 transition-colors">
                   <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
@@ -247,7 +260,7 @@ export default function CoachOverview() {
                       {activity.description}
                     </p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      {activity.timestamp}
+                      {formatDistanceToNow(new Date(activity.timestamp), { addSuffix: true })}
                     </p>
                   </div>
                   
@@ -258,18 +271,29 @@ export default function CoachOverview() {
               ))}
             </div>
             
-            <Button 
-              variant="ghost" 
-              className="w-full mt-4"
-              onClick={() => {
-                toast({
-                  title: "Feature Coming Soon",
-                  description: "Activity history page is under development and will be available soon.",
-                });
-              }}
-            >
-              View All Activity
-            </Button>
+            {overview && (activityPage > 1 || overview.activity.hasMore) && (
+              <div className="flex items-center justify-between mt-4">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={activityPage === 1}
+                  onClick={() => setActivityPage(page => page - 1)}
+                >
+                  Newer
+                </Button>
+                <span className="text-xs text-muted-foreground">
+                  Page {activityPage} of {Math.max(1, Math.ceil(overview.activity.total / overview.activity.pageSize))}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={!overview.activity.hasMore}
+                  onClick={() => setActivityPage(page => page + 1)}
+                >
+                  Older
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
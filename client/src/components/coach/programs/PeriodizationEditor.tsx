@@ -0,0 +1,149 @@
+import React from 'react'
+import { TrendingUp } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  PERIODIZATION_MODELS,
+  DELOAD_MULTIPLIERS,
+  buildPeriodizationWeeks,
+  type PeriodizationModel,
+  type PeriodizationWeek,
+  type ProgramPeriodization
+} from '@/lib/periodization'
+
+interface PeriodizationEditorProps {
+  durationWeeks: number
+  periodization: ProgramPeriodization | null
+  onChange: (periodization: ProgramPeriodization | null) => void
+}
+
+const deloadOptions = [3, 4, 5, 6, 8]
+
+const toPercent = (multiplier: number) => Math.round(multiplier * 100)
+
+export default function PeriodizationEditor({ durationWeeks, periodization, onChange }: PeriodizationEditorProps) {
+  const setModel = (value: string) => {
+    if (value === 'none') {
+      onChange(null)
+      return
+    }
+    const model = value as PeriodizationModel
+    const deloadEvery = periodization?.deloadEvery ?? null
+    onChange({ model, deloadEvery, weeks: buildPeriodizationWeeks(model, durationWeeks, deloadEvery, periodization?.weeks) })
+  }
+
+  const setDeloadEvery = (value: string) => {
+    if (!periodization) return
+    const deloadEvery = value === 'none' ? null : parseInt(value)
+    onChange({
+      ...periodization,
+      deloadEvery,
+      weeks: buildPeriodizationWeeks(periodization.model, durationWeeks, deloadEvery, periodization.weeks)
+    })
+  }
+
+  // Hand edits turn the program into a custom scheme so they aren't regenerated away
+  const updateWeek = (week: number, updates: Partial<PeriodizationWeek>) => {
+    if (!periodization) return
+    onChange({
+      model: 'custom',
+      deloadEvery: null,
+      weeks: periodization.weeks.map(entry => {
+        if (entry.week !== week) return entry
+        const updated = { ...entry, ...updates }
+        return updates.deload === true ? { ...updated, ...DELOAD_MULTIPLIERS } : updated
+      })
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Periodization</Label>
+          <Select value={periodization?.model ?? 'none'} onValueChange={setModel}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None (build each week by hand)</SelectItem>
+              {PERIODIZATION_MODELS.map(model => (
+                <SelectItem key={model.value} value={model.value}>
+                  {model.label} — {model.description}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Deload</Label>
+          <Select
+            value={periodization?.deloadEvery?.toString() ?? 'none'}
+            onValueChange={setDeloadEvery}
+            disabled={!periodization}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No scheduled deloads</SelectItem>
+              {deloadOptions.map(weeks => (
+                <SelectItem key={weeks} value={weeks.toString()}>
+                  Every {weeks} weeks
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {periodization && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground">
+            <div className="col-span-3">Week</div>
+            <div className="col-span-3">Intensity (weight %)</div>
+            <div className="col-span-3">Volume (sets × reps %)</div>
+            <div className="col-span-3">Deload</div>
+          </div>
+          {periodization.weeks.map(entry => (
+            <div key={entry.week} className="grid grid-cols-12 gap-2 items-center">
+              <div className="col-span-3 flex items-center gap-2 text-sm">
+                <TrendingUp className="w-3 h-3 text-muted-foreground" />
+                Week {entry.week}
+                {entry.deload && <Badge variant="secondary" className="text-xs">Deload</Badge>}
+              </div>
+              <Input
+                className="col-span-3 h-8"
+                type="number"
+                min="30"
+                max="150"
+                value={toPercent(entry.intensity)}
+                onChange={(e) => updateWeek(entry.week, { intensity: (parseInt(e.target.value) || 100) / 100 })}
+              />
+              <Input
+                className="col-span-3 h-8"
+                type="number"
+                min="20"
+                max="200"
+                value={toPercent(entry.volume)}
+                onChange={(e) => updateWeek(entry.week, { volume: (parseInt(e.target.value) || 100) / 100 })}
+              />
+              <div className="col-span-3">
+                <Checkbox
+                  checked={entry.deload}
+                  onCheckedChange={(checked) => updateWeek(entry.week, { deload: checked === true })}
+                />
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Copying a week applies these multipliers to its sets, reps and weight. Copied weeks stay editable.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
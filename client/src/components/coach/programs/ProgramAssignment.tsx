@@ -8,6 +8,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Calendar as CalendarComponent } from '@/components/ui/calendar'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { LoadingSpinner } from '@/components/ui/loading'
@@ -15,6 +16,7 @@ import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
 import { supabase } from '@/lib/supabase'
 import { format } from 'date-fns'
 import { cn } from '@/lib/utils'
+import type { MissedWorkoutPolicy } from '@shared/schema'
 
 interface Client {
   id: string
@@ -37,6 +39,7 @@ export default function ProgramAssignment({ programId, open, onClose, onSuccess
   const [selectedClients, setSelectedClients] = useState<string[]>([])
   const [startDate, setStartDate] = useState<Date>()
   const [assignmentNotes, setAssignmentNotes] = useState('')
+  const [missedPolicy, setMissedPolicy] = useState<MissedWorkoutPolicy>('shift')
   const [loading, setLoading] = useState(false)
   const [loadingClients, setLoadingClients] = useState(true)
   const [program, setProgram] = useState<any>(null)
@@ -131,6 +134,7 @@ export default function ProgramAssignment({ programId, open, onClose, onSuccess
         body: JSON.stringify({
           clientIds: selectedClients,
           startDate: format(startDate, 'yyyy-MM-dd'),
+          missedPolicy,
           notes: assignmentNotes
         })
       })
@@ -223,6 +227,24 @@ export default function ProgramAssignment({ programId, open, onClose, onSuccess
               </Popover>
             </div>
 
+            {/* Missed Workouts */}
+            <div>
+              <Label className="text-base font-semibold mb-4 block">Missed Workouts</Label>
+              <Select value={missedPolicy} onValueChange={(value) => setMissedPolicy(value as MissedWorkoutPolicy)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="shift">Shift - move to the next training day and push the plan back</SelectItem>
+                  <SelectItem value="skip">Skip - mark as skipped and keep the plan's dates</SelectItem>
+                  <SelectItem value="stack">Stack - add to the day the client is on</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-2">
+                Workouts are scheduled from the start date on each client's training days.
+              </p>
+            </div>
+
             {/* Client Selection */}
             <div>
               <div className="flex items-center justify-between mb-4">
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react'
-import { Plus, Calendar, Copy, Save, Eye, Users, Clock, Target } from 'lucide-react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Plus, Calendar, Copy, Save, Eye, Users, Clock, Target, AlertTriangle } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -10,10 +11,15 @@ import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { LoadingSpinner } from '@/components/ui/loading'
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { useToast } from '@/hooks/use-toast'
 import { supabase } from '@/lib/supabase'
-import WeeklySchedule from './WeeklySchedule'
+import { getPlannedWeekVolume, getPlannedVolumeWarnings, type MuscleVolumeTarget } from '@/lib/training-volume'
+import { buildPeriodizationWeeks, getRelativeMultipliers, scaleExercise, type ProgramPeriodization } from '@/lib/periodization'
+import WeeklySchedule, { type ProgramExercise } from './WeeklySchedule'
+import PeriodizationEditor from './PeriodizationEditor'
 import ProgramPreview from './ProgramPreview'
 import ProgramAssignment from './ProgramAssignment'
+import type { Exercise, Program, Workout as StoredWorkout, WorkoutBlock, WorkoutExercise } from '@shared/schema'
 
 interface Workout {
   id?: number
@@ -24,7 +30,21 @@ interface Workout {
   workout_type: 'strength' | 'cardio' | 'hiit' | 'flexibility' | 'recovery'
   day_number: number
   week_number: number
-  exercises: any[]
+  exercises: ProgramExercise[]
+  // Kept from a saved workout so editing doesn't drop them
+  instructions?: string | null
+  blocks?: Omit<WorkoutBlock, 'id' | 'workoutId' | 'createdAt'>[]
+}
+
+export interface ProgramTree {
+  program: Program
+  workouts: { workout: StoredWorkout; blocks: WorkoutBlock[]; exercises: WorkoutExercise[] }[]
+}
+
+interface ProgramBuilderProps {
+  // Edit this saved program instead of building a new one
+  programId?: number | null
+  onSaved?: (programId: number) => void
 }
 
 interface ProgramData {
@@ -38,6 +58,7 @@ interface ProgramData {
   is_template: boolean
   is_public: boolean
   tags: string[]
+  periodization: ProgramPeriodization | null
 }
 
 const initialProgramData: ProgramData = {
@@ -50,7 +71,8 @@ const initialProgramData: ProgramData = {
   estimated_hours_per_week: 3,
   is_template: false,
   is_public: false,
-  tags: []
+  tags: [],
+  periodization: null
 }
 
 const goalOptions = [
@@ -58,7 +80,61 @@ const goalOptions = [
   'athletic_performance', 'general_fitness', 'rehabilitation'
 ]
 
-export default function ProgramBuilder() {
+export function toProgramData(program: Program): ProgramData {
+  return {
+    ...initialProgramData,
+    name: program.name,
+    description: program.description ?? '',
+    duration_weeks: program.durationWeeks ?? initialProgramData.duration_weeks,
+    difficulty_level: program.difficultyLevel ?? initialProgramData.difficulty_level,
+    program_type: program.programType ?? initialProgramData.program_type,
+    is_template: program.isTemplate ?? false,
+    periodization: program.periodization ?? null
+  }
+}
+
+export function toBuilderWorkout({ workout, blocks, exercises }: ProgramTree['workouts'][number], exerciseLibrary: Exercise[]): Workout {
+  return {
+    id: workout.id,
+    name: workout.name,
+    description: workout.description ?? '',
+    estimated_duration: workout.estimatedDuration ?? 45,
+    difficulty_rating: 5,
+    workout_type: 'strength',
+    day_number: workout.dayNumber ?? 1,
+    week_number: workout.weekNumber ?? 1,
+    instructions: workout.instructions,
+    blocks: blocks.map(({ id, workoutId, createdAt, ...block }) => block),
+    exercises: [...exercises]
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .map(exercise => {
+        const libraryExercise = exerciseLibrary.find(e => e.id === exercise.exerciseId)
+        const blockIndex = blocks.findIndex(block => block.id === exercise.blockId)
+        return {
+          exercise_id: exercise.exerciseId,
+          name: libraryExercise?.name ?? `Exercise #${exercise.exerciseId}`,
+          muscle_groups: libraryExercise?.muscleGroups ?? [],
+          sets: exercise.sets ?? 3,
+          reps: exercise.reps ?? '',
+          weight: exercise.weight ?? '',
+          rest_seconds: exercise.restSeconds ?? 60,
+          details: {
+            notes: exercise.notes,
+            isSuperset: exercise.isSuperset,
+            supersetGroup: exercise.supersetGroup,
+            progressionModel: exercise.progressionModel,
+            progressionIncrement: exercise.progressionIncrement,
+            warmupScheme: exercise.warmupScheme,
+            cardioTarget: exercise.cardioTarget,
+            substitutions: exercise.substitutions,
+            blockIndex: blockIndex >= 0 ? blockIndex : null
+          }
+        }
+      })
+  }
+}
+
+export default function ProgramBuilder({ programId = null, onSaved }: ProgramBuilderProps) {
   const [programData, setProgramData] = useState<ProgramData>(initialProgramData)
   const [workouts, setWorkouts] = useState<Workout[]>([])
   const [selectedWeek, setSelectedWeek] = useState(1)
@@ -68,11 +144,47 @@ export default function ProgramBuilder() {
   const [savedProgramId, setSavedProgramId] = useState<number | null>(null)
 
   const { user } = useSupabaseAuth()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: volumeTargets } = useQuery<{ targets: MuscleVolumeTarget[] }>({
+    queryKey: ['/api/coach/volume-targets'],
+    enabled: !!user
+  })
+
+  const { data: programTree, isLoading: programLoading } = useQuery<ProgramTree>({
+    queryKey: [`/api/programs/${programId}/tree`],
+    enabled: !!user && programId !== null
+  })
+
+  const { data: exerciseLibrary } = useQuery<Exercise[]>({
+    queryKey: ['/api/exercises'],
+    enabled: !!user && programId !== null
+  })
+
+  useEffect(() => {
+    if (!programTree || !exerciseLibrary) return
+    setProgramData(toProgramData(programTree.program))
+    setWorkouts(programTree.workouts.map(tree => toBuilderWorkout(tree, exerciseLibrary)))
+    setSelectedWeek(1)
+  }, [programTree, exerciseLibrary])
 
   const updateProgramData = (field: keyof ProgramData, value: any) => {
     setProgramData(prev => ({ ...prev, [field]: value }))
   }
 
+  // Keep one periodization entry per week as the program length changes
+  useEffect(() => {
+    setProgramData(prev => {
+      if (!prev.periodization || prev.periodization.weeks.length === prev.duration_weeks) return prev
+      const { model, deloadEvery, weeks } = prev.periodization
+      return {
+        ...prev,
+        periodization: { model, deloadEvery, weeks: buildPeriodizationWeeks(model, prev.duration_weeks, deloadEvery, weeks) }
+      }
+    })
+  }, [programData.duration_weeks])
+
   const addGoal = (goal: string) => {
     if (!programData.target_goals.includes(goal)) {
       updateProgramData('target_goals', [...programData.target_goals, goal])
@@ -123,32 +235,111 @@ export default function ProgramBuilder() {
     }
   }
 
+  // Replace each target week with copies of the source week, scaled by periodization
+  const copyWeek = (sourceWeek: number, targetWeeks: number[]) => {
+    const sourceWorkouts = workouts.filter(w => w.week_number === sourceWeek)
+    const baseId = Date.now()
+    const copies = targetWeeks.flatMap((targetWeek, weekIndex) => {
+      const { intensity, volume } = getRelativeMultipliers(programData.periodization, sourceWeek, targetWeek)
+      return sourceWorkouts.map((workout, index) => ({
+        ...workout,
+        id: baseId + weekIndex * sourceWorkouts.length + index, // Temporary ID
+        week_number: targetWeek,
+        exercises: workout.exercises.map(exercise => scaleExercise(exercise, intensity, volume))
+      }))
+    })
+    setWorkouts(prev => [...prev.filter(w => !targetWeeks.includes(w.week_number)), ...copies])
+  }
+
+  const getAuthHeaders = async () => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
+  })
+
+  const programPayload = () => ({
+    name: programData.name,
+    description: programData.description,
+    durationWeeks: programData.duration_weeks,
+    difficultyLevel: programData.difficulty_level,
+    programType: programData.program_type,
+    isTemplate: programData.is_template,
+    isPublic: programData.is_public,
+    tags: programData.tags,
+    estimatedHoursPerWeek: programData.estimated_hours_per_week,
+    targetGoals: programData.target_goals,
+    periodization: programData.periodization
+  })
+
+  const workoutPayload = (workout: Workout, parentProgramId?: number) => ({
+    workout: {
+      programId: parentProgramId,
+      name: workout.name,
+      description: workout.description,
+      dayNumber: workout.day_number,
+      weekNumber: workout.week_number,
+      estimatedDuration: workout.estimated_duration,
+      difficultyRating: workout.difficulty_rating,
+      workoutType: workout.workout_type,
+      instructions: workout.instructions ?? null
+    },
+    blocks: workout.blocks ?? [],
+    exercises: workout.exercises.map((exercise, index) => ({
+      ...exercise.details,
+      exerciseId: exercise.exercise_id,
+      orderIndex: index,
+      sets: exercise.sets,
+      reps: exercise.reps,
+      weight: exercise.weight || null,
+      restSeconds: exercise.rest_seconds
+    }))
+  })
+
+  // Assigned programs come back as a new version; their clients stay on the old one until migrated
+  const saveProgramEdit = async (editedProgramId: number) => {
+    const response = await fetch(`/api/programs/${editedProgramId}`, {
+      method: 'PUT',
+      headers: await getAuthHeaders(),
+      body: JSON.stringify({
+        program: programPayload(),
+        workouts: workouts.map(workout => workoutPayload(workout))
+      })
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.message || 'Failed to save program')
+    }
+
+    const { program, versioned }: { program: Program; versioned: boolean } = await response.json()
+    console.log('✅ Program saved:', program.id, versioned ? `as version ${program.version}` : 'in place')
+    queryClient.invalidateQueries({ queryKey: ['/api/programs'] })
+    queryClient.invalidateQueries({ queryKey: [`/api/programs/${program.id}/tree`] })
+    toast(versioned
+      ? {
+          title: `Saved as version ${program.version}`,
+          description: 'Clients on earlier versions keep their workouts until you migrate them from Versions.'
+        }
+      : { title: 'Program saved' })
+    onSaved?.(program.id)
+  }
+
   const saveProgram = async () => {
     if (!user || !programData.name.trim()) return
 
     setSaving(true)
     try {
       console.log('💾 Saving program:', programData.name)
+
+      if (programId !== null) {
+        await saveProgramEdit(programId)
+        return
+      }
       
       // Create program using API endpoint
       const response = await fetch('/api/programs', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
-        },
-        body: JSON.stringify({
-          name: programData.name,
-          description: programData.description,
-          durationWeeks: programData.duration_weeks,
-          difficultyLevel: programData.difficulty_level,
-          programType: programData.program_type,
-          isTemplate: programData.is_template,
-          isPublic: programData.is_public,
-          tags: programData.tags,
-          estimatedHoursPerWeek: programData.estimated_hours_per_week,
-          targetGoals: programData.target_goals
-        })
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(programPayload())
       })
 
       if (!response.ok) {
@@ -163,23 +354,8 @@ export default function ProgramBuilder() {
       for (const workout of workouts) {
         const workoutResponse = await fetch('/api/workouts', {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
-          },
-          body: JSON.stringify({
-            workout: {
-              programId: program.id,
-              name: workout.name,
-              description: workout.description,
-              dayNumber: workout.day_number,
-              weekNumber: workout.week_number,
-              estimatedDuration: workout.estimated_duration,
-              difficultyRating: workout.difficulty_rating,
-              workoutType: workout.workout_type
-            },
-            exercises: [] // No exercises for now
-          })
+          headers: await getAuthHeaders(),
+          body: JSON.stringify(workoutPayload(workout, program.id))
         })
 
         if (!workoutResponse.ok) {
@@ -189,6 +365,7 @@ export default function ProgramBuilder() {
       }
 
       console.log('✅ All workouts created successfully')
+      queryClient.invalidateQueries({ queryKey: ['/api/programs'] })
       setSavedProgramId(program.id)
       setShowAssignment(true)
 
@@ -209,17 +386,35 @@ export default function ProgramBuilder() {
     return workouts.filter(w => w.week_number === week)
   }
 
+  // Only weeks with exercises planned are checked against the volume targets
+  const selectedWeekWorkouts = getWeekWorkouts(selectedWeek)
+  const volumeWarnings = selectedWeekWorkouts.some(w => w.exercises.length > 0)
+    ? getPlannedVolumeWarnings(getPlannedWeekVolume(selectedWeekWorkouts), volumeTargets?.targets ?? [])
+    : []
+
   const getTotalWorkouts = () => workouts.length
   const getAverageWorkoutsPerWeek = () => Math.round(workouts.length / programData.duration_weeks * 10) / 10
 
+  if (programId !== null && programLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" variant="orange" />
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-3xl font-display font-bold text-gradient-orange">Program Builder</h2>
+          <h2 className="text-3xl font-display font-bold text-gradient-orange">
+            {programId !== null ? 'Edit Program' : 'Program Builder'}
+          </h2>
           <p className="text-muted-foreground">
-            Create comprehensive multi-week training programs
+            {programId !== null
+              ? 'Changes to a program clients are following are saved as a new version'
+              : 'Create comprehensive multi-week training programs'}
           </p>
         </div>
         <div className="flex gap-2">
@@ -388,6 +583,20 @@ export default function ProgramBuilder() {
         </CardContent>
       </Card>
 
+      {/* Periodization */}
+      <Card variant="premium">
+        <CardHeader>
+          <CardTitle>Periodization</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PeriodizationEditor
+            durationWeeks={programData.duration_weeks}
+            periodization={programData.periodization}
+            onChange={(periodization) => updateProgramData('periodization', periodization)}
+          />
+        </CardContent>
+      </Card>
+
       {/* Weekly Schedule */}
       <Card variant="premium">
         <CardHeader>
@@ -419,12 +628,38 @@ export default function ProgramBuilder() {
         <CardContent>
           <WeeklySchedule
             week={selectedWeek}
-            workouts={getWeekWorkouts(selectedWeek)}
+            totalWeeks={programData.duration_weeks}
+            periodization={programData.periodization}
+            workouts={selectedWeekWorkouts}
             onAddWorkout={(workout) => addWorkoutToWeek(selectedWeek, workout)}
             onUpdateWorkout={updateWorkout}
             onRemoveWorkout={removeWorkout}
             onDuplicateWorkout={duplicateWorkout}
+            onCopyWeek={(targetWeeks) => copyWeek(selectedWeek, targetWeeks)}
           />
+
+          {volumeWarnings.length > 0 && (
+            <div className="mt-4 rounded-lg border border-amber-300 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-900/20">
+              <div className="flex items-center gap-2 font-medium text-amber-800 dark:text-amber-400">
+                <AlertTriangle className="w-4 h-4" />
+                Week {selectedWeek} volume is outside your targets
+              </div>
+              <ul className="mt-2 space-y-1 text-sm">
+                {volumeWarnings.map(warning => (
+                  <li key={warning.muscleGroup} className="flex items-center justify-between">
+                    <span className="capitalize">{warning.muscleGroup}</span>
+                    <span className="text-muted-foreground">
+                      {warning.plannedSets} set{warning.plannedSets !== 1 ? 's' : ''} planned
+                      {' · '}
+                      {warning.status === 'under'
+                        ? `at least ${warning.target.minSets}`
+                        : `at most ${warning.target.maxSets}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </CardContent>
       </Card>
 
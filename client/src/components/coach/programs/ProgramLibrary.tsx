@@ -0,0 +1,124 @@
+import React, { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Copy, Edit, GitBranch, Library, Share2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { LoadingSpinner } from '@/components/ui/loading'
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { useToast } from '@/hooks/use-toast'
+import { apiRequestAuto } from '@/lib/queryClient'
+import ProgramVersionsDialog from './ProgramVersionsDialog'
+import PublishTemplateDialog from './PublishTemplateDialog'
+import type { Program } from '@shared/schema'
+
+interface ProgramLibraryProps {
+  onEdit: (programId: number) => void
+}
+
+export default function ProgramLibrary({ onEdit }: ProgramLibraryProps) {
+  const [versionsProgramId, setVersionsProgramId] = useState<number | null>(null)
+  const [publishingProgram, setPublishingProgram] = useState<Program | null>(null)
+
+  const { user } = useSupabaseAuth()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  // Only the latest version of each program is listed
+  const { data: programs = [], isLoading } = useQuery<Program[]>({
+    queryKey: ['/api/programs'],
+    enabled: !!user
+  })
+
+  const cloneProgram = useMutation({
+    mutationFn: async (programId: number) => {
+      const response = await apiRequestAuto('POST', `/api/programs/${programId}/clone`, {})
+      return response.json()
+    },
+    onSuccess: (clone: Program) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/programs'] })
+      toast({ title: 'Program cloned', description: `"${clone.name}" is ready to edit.` })
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't clone program", description: error.message, variant: 'destructive' })
+    }
+  })
+
+  return (
+    <Card variant="premium">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Library className="w-5 h-5" />
+          My Programs
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : programs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No programs yet. Build your first one below.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {programs.map(program => (
+              <div key={program.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium truncate">{program.name}</span>
+                  <Badge variant="outline">v{program.version}</Badge>
+                  {program.durationWeeks && (
+                    <span className="text-sm text-muted-foreground">{program.durationWeeks} weeks</span>
+                  )}
+                  {program.isTemplate && <Badge variant="secondary">Published</Badge>}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => onEdit(program.id)}>
+                    <Edit className="w-3 h-3 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => cloneProgram.mutate(program.id)}
+                    disabled={cloneProgram.isPending}
+                  >
+                    <Copy className="w-3 h-3 mr-1" />
+                    Clone
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setVersionsProgramId(program.id)}>
+                    <GitBranch className="w-3 h-3 mr-1" />
+                    Versions
+                  </Button>
+                  {!program.isTemplate && (
+                    <Button variant="outline" size="sm" onClick={() => setPublishingProgram(program)}>
+                      <Share2 className="w-3 h-3 mr-1" />
+                      Publish
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {versionsProgramId !== null && (
+        <ProgramVersionsDialog
+          programId={versionsProgramId}
+          open={versionsProgramId !== null}
+          onClose={() => setVersionsProgramId(null)}
+        />
+      )}
+
+      {publishingProgram && (
+        <PublishTemplateDialog
+          program={publishingProgram}
+          open={!!publishingProgram}
+          onClose={() => setPublishingProgram(null)}
+        />
+      )}
+    </Card>
+  )
+}
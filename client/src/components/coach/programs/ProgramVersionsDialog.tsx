@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { ArrowRight, GitBranch, Minus, Pencil, Plus, Users } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { LoadingSpinner } from '@/components/ui/loading'
+import { useToast } from '@/hooks/use-toast'
+import { apiRequestAuto } from '@/lib/queryClient'
+import type { ClientProgram, Program } from '@shared/schema'
+
+interface ProgramVersion extends Program {
+  assignments: (ClientProgram & { clientName: string })[]
+}
+
+interface ProgramChange {
+  scope: 'program' | 'workout' | 'exercise'
+  kind: 'added' | 'removed' | 'changed'
+  weekNumber: number | null
+  dayNumber: number | null
+  workoutName: string | null
+  exerciseId: number | null
+  exerciseName: string | null
+  fields: { field: string; from: unknown; to: unknown }[]
+}
+
+interface ProgramDiff {
+  from: { id: number; version: number }
+  to: { id: number; version: number }
+  changes: ProgramChange[]
+}
+
+interface ProgramVersionsDialogProps {
+  programId: number
+  open: boolean
+  onClose: () => void
+}
+
+const kindIcons = {
+  added: <Plus className="w-3 h-3 text-green-600" />,
+  removed: <Minus className="w-3 h-3 text-red-600" />,
+  changed: <Pencil className="w-3 h-3 text-amber-600" />
+}
+
+const fieldLabels: Record<string, string> = {
+  durationWeeks: 'duration (weeks)',
+  difficultyLevel: 'difficulty',
+  programType: 'program type',
+  isTemplate: 'template',
+  estimatedDuration: 'duration (min)',
+  restSeconds: 'rest (s)',
+  supersetGroup: 'superset',
+  progressionModel: 'progression',
+  progressionIncrement: 'progression step',
+  warmupScheme: 'warm-up',
+  cardioTarget: 'cardio target',
+  substitutions: 'allowed substitutes'
+}
+
+// Objects such as periodization or blocks are summarized rather than printed in full
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '–'
+  if (typeof value === 'object') return Array.isArray(value) ? `${value.length} item${value.length !== 1 ? 's' : ''}` : 'updated'
+  return String(value)
+}
+
+const describeChange = (change: ProgramChange) => {
+  if (change.scope === 'program') return 'Program details'
+  const location = `Week ${change.weekNumber ?? '?'}, Day ${change.dayNumber ?? '?'}`
+  if (change.scope === 'workout') return `${location} · ${change.workoutName}`
+  return `${location} · ${change.exerciseName ?? `Exercise #${change.exerciseId}`}`
+}
+
+export default function ProgramVersionsDialog({ programId, open, onClose }: ProgramVersionsDialogProps) {
+  const [compareFromId, setCompareFromId] = useState<number | null>(null)
+  const [selectedAssignments, setSelectedAssignments] = useState<number[]>([])
+
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: versions = [], isLoading } = useQuery<ProgramVersion[]>({
+    queryKey: [`/api/programs/${programId}/versions`],
+    enabled: open
+  })
+
+  const latest = versions[versions.length - 1]
+  const olderVersions = versions.filter(version => version.id !== latest?.id)
+  const pinnedAssignments = olderVersions.flatMap(version => version.assignments)
+
+  // Start with the newest older version that still has clients on it
+  useEffect(() => {
+    if (compareFromId !== null) return
+    const pinned = [...olderVersions].reverse().find(version => version.assignments.length > 0)
+    if (pinned) setCompareFromId(pinned.id)
+  }, [versions])
+
+  const { data: diff, isLoading: diffLoading } = useQuery<ProgramDiff>({
+    queryKey: [`/api/programs/${latest?.id}/diff?from=${compareFromId}`],
+    enabled: open && !!latest && compareFromId !== null
+  })
+
+  const migrate = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequestAuto('POST', `/api/programs/${latest.id}/migrate`, {
+        clientProgramIds: selectedAssignments
+      })
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/programs/${programId}/versions`] })
+      toast({
+        title: 'Clients migrated',
+        description: `${selectedAssignments.length} client${selectedAssignments.length !== 1 ? 's' : ''} moved to version ${latest.version}.`
+      })
+      setSelectedAssignments([])
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't migrate clients", description: error.message, variant: 'destructive' })
+    }
+  })
+
+  const toggleAssignment = (assignmentId: number, checked: boolean) => {
+    setSelectedAssignments(prev => checked ? [...prev, assignmentId] : prev.filter(id => id !== assignmentId))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitBranch className="w-5 h-5" />
+            Program Versions
+          </DialogTitle>
+          <DialogDescription>
+            Clients stay on the version they were assigned until you migrate them to the latest one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !latest ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {[...versions].reverse().map(version => (
+                <div
+                  key={version.id}
+                  className={`flex items-center justify-between rounded-lg border p-3 ${compareFromId === version.id ? 'border-primary' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge variant={version.id === latest.id ? 'default' : 'outline'}>v{version.version}</Badge>
+                    <span className="font-medium">{version.name}</span>
+                    {version.id === latest.id && <span className="text-xs text-muted-foreground">latest</span>}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <Users className="w-3 h-3" />
+                      {version.assignments.length}
+                    </span>
+                    {version.id !== latest.id && (
+                      <Button variant="outline" size="sm" onClick={() => setCompareFromId(version.id)}>
+                        Compare
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {compareFromId !== null && (
+              <div className="space-y-2">
+                <h4 className="flex items-center gap-2 font-medium">
+                  Changes in
+                  <Badge variant="outline">v{versions.find(version => version.id === compareFromId)?.version}</Badge>
+                  <ArrowRight className="w-3 h-3" />
+                  <Badge>v{latest.version}</Badge>
+                </h4>
+                {diffLoading || !diff ? (
+                  <p className="text-sm text-muted-foreground">Comparing versions...</p>
+                ) : diff.changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No changes to the workouts.</p>
+                ) : (
+                  <ul className="space-y-1 text-sm max-h-60 overflow-y-auto">
+                    {diff.changes.map((change, index) => (
+                      <li key={index} className="flex items-start gap-2">
+                        <span className="mt-1">{kindIcons[change.kind]}</span>
+                        <div>
+                          <span className="font-medium">{describeChange(change)}</span>
+                          {change.kind !== 'changed' && <span className="text-muted-foreground"> {change.kind}</span>}
+                          {change.fields.map(field => (
+                            <div key={field.field} className="text-xs text-muted-foreground">
+                              {fieldLabels[field.field] ?? field.field}: {formatValue(field.from)} → {formatValue(field.to)}
+                            </div>
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Clients on older versions</h4>
+              {pinnedAssignments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every assigned client is on the latest version.</p>
+              ) : (
+                <>
+                  {olderVersions.flatMap(version => version.assignments.map(assignment => (
+                    <label key={assignment.id} className="flex items-center gap-3 text-sm">
+                      <Checkbox
+                        checked={selectedAssignments.includes(assignment.id)}
+                        onCheckedChange={(checked) => toggleAssignment(assignment.id, checked === true)}
+                      />
+                      <span className="flex-1">{assignment.clientName}</span>
+                      <span className="text-muted-foreground">week {assignment.currentWeek ?? 1}</span>
+                      <Badge variant="outline">v{version.version}</Badge>
+                    </label>
+                  )))}
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={() => migrate.mutate()}
+                      disabled={selectedAssignments.length === 0 || migrate.isPending}
+                    >
+                      {migrate.isPending ? 'Migrating...' : `Migrate to v${latest.version}`}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,111 @@
+import React, { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Share2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/hooks/use-toast'
+import { apiRequestAuto } from '@/lib/queryClient'
+import type { Program } from '@shared/schema'
+
+interface PublishTemplateDialogProps {
+  program: Program
+  open: boolean
+  onClose: () => void
+}
+
+export default function PublishTemplateDialog({ program, open, onClose }: PublishTemplateDialogProps) {
+  const [name, setName] = useState(program.name)
+  const [description, setDescription] = useState(program.description ?? '')
+  const [category, setCategory] = useState('')
+  const [isPublic, setIsPublic] = useState(true)
+
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const publish = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequestAuto('POST', '/api/program-templates', {
+        programId: program.id,
+        name: name.trim(),
+        description: description.trim() || null,
+        category: category.trim() || null,
+        isPublic
+      })
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/program-templates'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/programs'] })
+      toast({
+        title: 'Template published',
+        description: isPublic
+          ? 'Other coaches can now find it in the template library.'
+          : 'Only you can see it in the template library.'
+      })
+      onClose()
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't publish template", description: error.message, variant: 'destructive' })
+    }
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="w-5 h-5" />
+            Publish as Template
+          </DialogTitle>
+          <DialogDescription>
+            The template always shows the latest version of this program. Coaches who use it get their own copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="template-name">Template Name *</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Who the program is for and what it builds"
+              rows={3}
+            />
+          </div>
+          <div>
+            <Label htmlFor="template-category">Category</Label>
+            <Input
+              id="template-category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="e.g., Powerlifting, Fat loss, Return to training"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="template-public">Share with all coaches</Label>
+              <p className="text-xs text-muted-foreground">Off keeps the template in your own library only</p>
+            </div>
+            <Switch id="template-public" checked={isPublic} onCheckedChange={setIsPublic} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => publish.mutate()} disabled={!name.trim() || publish.isPending}>
+            {publish.isPending ? 'Publishing...' : 'Publish'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
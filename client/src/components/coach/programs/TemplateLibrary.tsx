@@ -0,0 +1,323 @@
+import React, { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Download, Eye, LayoutTemplate, Search, Star, Trash2, Users } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LoadingSpinner } from '@/components/ui/loading'
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { useToast } from '@/hooks/use-toast'
+import { apiRequestAuto } from '@/lib/queryClient'
+import { toBuilderWorkout, toProgramData, type ProgramTree } from './ProgramBuilder'
+import ProgramPreview from './ProgramPreview'
+import type { Exercise, Program, ProgramTemplate } from '@shared/schema'
+
+interface TemplateListing extends ProgramTemplate {
+  authorName: string
+  programType: Program['programType']
+  difficultyLevel: Program['difficultyLevel']
+  durationWeeks: number | null
+  version: number
+  isOwn: boolean
+  usedByMe: boolean
+  myRating: number | null
+}
+
+interface TemplateLibraryProps {
+  // Called with the coach's new program after using a template
+  onUse: (programId: number) => void
+}
+
+const durationOptions = [
+  { value: 'all', label: 'Any length' },
+  { value: '1-4', label: 'Up to 4 weeks' },
+  { value: '5-8', label: '5-8 weeks' },
+  { value: '9-12', label: '9-12 weeks' },
+  { value: '13-52', label: 'Over 12 weeks' }
+]
+
+const sortOptions = [
+  { value: 'rating', label: 'Top rated' },
+  { value: 'usage', label: 'Most used' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'name', label: 'Name' }
+]
+
+const difficultyColors = {
+  beginner: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  intermediate: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+  advanced: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+}
+
+function StarRating({ value, onRate, disabled }: { value: number; onRate?: (rating: number) => void; disabled?: boolean }) {
+  return (
+    <div className="flex items-center">
+      {[1, 2, 3, 4, 5].map(star => (
+        <button
+          key={star}
+          type="button"
+          disabled={disabled || !onRate}
+          onClick={() => onRate?.(star)}
+          className="p-0.5 disabled:cursor-default"
+        >
+          <Star className={`w-4 h-4 ${star <= Math.round(value) ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`} />
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default function TemplateLibrary({ onUse }: TemplateLibraryProps) {
+  const [search, setSearch] = useState('')
+  const [programType, setProgramType] = useState('all')
+  const [difficultyLevel, setDifficultyLevel] = useState('all')
+  const [duration, setDuration] = useState('all')
+  const [sort, setSort] = useState('rating')
+  const [previewTemplateId, setPreviewTemplateId] = useState<number | null>(null)
+
+  const { user } = useSupabaseAuth()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const params = new URLSearchParams({ sort })
+  if (search.trim()) params.set('search', search.trim())
+  if (programType !== 'all') params.set('programType', programType)
+  if (difficultyLevel !== 'all') params.set('difficultyLevel', difficultyLevel)
+  if (duration !== 'all') {
+    const [minWeeks, maxWeeks] = duration.split('-')
+    params.set('minWeeks', minWeeks)
+    params.set('maxWeeks', maxWeeks)
+  }
+
+  const { data: templates = [], isLoading } = useQuery<TemplateListing[]>({
+    queryKey: [`/api/program-templates?${params.toString()}`],
+    enabled: !!user
+  })
+
+  const { data: previewTree, isLoading: previewLoading } = useQuery<ProgramTree>({
+    queryKey: [`/api/program-templates/${previewTemplateId}/tree`],
+    enabled: !!user && previewTemplateId !== null
+  })
+
+  const { data: exercises = [] } = useQuery<Exercise[]>({
+    queryKey: ['/api/exercises'],
+    enabled: !!user && previewTemplateId !== null
+  })
+
+  const invalidateTemplates = () =>
+    queryClient.invalidateQueries({
+      predicate: query => String(query.queryKey[0]).startsWith('/api/program-templates')
+    })
+
+  const applyTemplate = useMutation({
+    mutationFn: async (templateId: number) => {
+      const response = await apiRequestAuto('POST', `/api/program-templates/${templateId}/instantiate`, {})
+      return response.json()
+    },
+    onSuccess: (program: Program) => {
+      invalidateTemplates()
+      queryClient.invalidateQueries({ queryKey: ['/api/programs'] })
+      toast({ title: 'Template added to your programs', description: `"${program.name}" is open in the program builder.` })
+      onUse(program.id)
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't use template", description: error.message, variant: 'destructive' })
+    }
+  })
+
+  const rateTemplate = useMutation({
+    mutationFn: async ({ templateId, rating }: { templateId: number; rating: number }) => {
+      const response = await apiRequestAuto('PUT', `/api/program-templates/${templateId}/rating`, { rating })
+      return response.json()
+    },
+    onSuccess: () => {
+      invalidateTemplates()
+      toast({ title: 'Thanks for rating this template' })
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save rating", description: error.message, variant: 'destructive' })
+    }
+  })
+
+  const unpublish = useMutation({
+    mutationFn: async (templateId: number) => {
+      await apiRequestAuto('DELETE', `/api/program-templates/${templateId}`)
+    },
+    onSuccess: () => {
+      invalidateTemplates()
+      queryClient.invalidateQueries({ queryKey: ['/api/programs'] })
+      toast({ title: 'Template removed', description: 'Programs coaches already created from it are unaffected.' })
+    }
+  })
+
+  return (
+    <Card variant="premium">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LayoutTemplate className="w-5 h-5" />
+          Template Library
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+          <div className="relative md:col-span-2">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search templates, categories or coaches"
+            />
+          </div>
+          <Select value={programType} onValueChange={setProgramType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              <SelectItem value="strength">Strength</SelectItem>
+              <SelectItem value="cardio">Cardio</SelectItem>
+              <SelectItem value="hybrid">Hybrid</SelectItem>
+              <SelectItem value="flexibility">Flexibility</SelectItem>
+              <SelectItem value="sports_specific">Sports Specific</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={difficultyLevel} onValueChange={setDifficultyLevel}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All levels</SelectItem>
+              <SelectItem value="beginner">Beginner</SelectItem>
+              <SelectItem value="intermediate">Intermediate</SelectItem>
+              <SelectItem value="advanced">Advanced</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={duration} onValueChange={setDuration}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {durationOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex justify-end">
+          <Select value={sort} onValueChange={setSort}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sortOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No templates match. Publish one of your programs from My Programs to share it.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {templates.map(template => (
+              <div key={template.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <h4 className="font-semibold truncate">{template.name}</h4>
+                    <p className="text-xs text-muted-foreground">
+                      by {template.isOwn ? 'you' : template.authorName}
+                      {!template.isPublic && ' · private'}
+                    </p>
+                  </div>
+                  {template.difficultyLevel && (
+                    <Badge className={difficultyColors[template.difficultyLevel]}>{template.difficultyLevel}</Badge>
+                  )}
+                </div>
+                {template.description && (
+                  <p className="text-sm text-muted-foreground line-clamp-2">{template.description}</p>
+                )}
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  {template.programType && <Badge variant="outline">{template.programType.replace('_', ' ')}</Badge>}
+                  {template.durationWeeks && <Badge variant="outline">{template.durationWeeks} weeks</Badge>}
+                  {template.category && <Badge variant="secondary">{template.category}</Badge>}
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <div className="flex items-center gap-2">
+                    <StarRating value={parseFloat(template.rating ?? '0')} />
+                    <span className="text-muted-foreground">
+                      {template.ratingCount > 0 ? `${template.rating} (${template.ratingCount})` : 'No ratings yet'}
+                    </span>
+                  </div>
+                  <span className="flex items-center gap-1 text-muted-foreground">
+                    <Users className="w-3 h-3" />
+                    {template.usageCount ?? 0} use{template.usageCount !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                {template.usedByMe && !template.isOwn && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {template.myRating ? 'Your rating' : 'Rate this template'}
+                    <StarRating
+                      value={template.myRating ?? 0}
+                      onRate={(rating) => rateTemplate.mutate({ templateId: template.id, rating })}
+                      disabled={rateTemplate.isPending}
+                    />
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPreviewTemplateId(template.id)}>
+                    <Eye className="w-3 h-3 mr-1" />
+                    Preview
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => applyTemplate.mutate(template.id)}
+                    disabled={applyTemplate.isPending}
+                  >
+                    <Download className="w-3 h-3 mr-1" />
+                    Use Template
+                  </Button>
+                  {template.isOwn && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => unpublish.mutate(template.id)}
+                      disabled={unpublish.isPending}
+                    >
+                      <Trash2 className="w-3 h-3 mr-1" />
+                      Unpublish
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {previewTemplateId !== null && previewLoading && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+          <LoadingSpinner size="lg" />
+        </div>
+      )}
+
+      {previewTemplateId !== null && previewTree && (
+        <ProgramPreview
+          program={toProgramData(previewTree.program)}
+          workouts={previewTree.workouts.map(tree => toBuilderWorkout(tree, exercises))}
+          open={previewTemplateId !== null}
+          onClose={() => setPreviewTemplateId(null)}
+        />
+      )}
+    </Card>
+  )
+}
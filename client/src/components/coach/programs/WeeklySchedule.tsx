@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
-import { Plus, Clock, Target, Copy, Trash2, Edit } from 'lucide-react'
+import { useQuery } from '@tanstack/react-query'
+import { Plus, Clock, Target, Copy, Trash2, Edit, X } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -8,6 +9,21 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Checkbox } from '@/components/ui/checkbox'
+import { getRelativeMultipliers, getWeekMultipliers, type ProgramPeriodization } from '@/lib/periodization'
+import type { Exercise } from '@shared/schema'
+
+export interface ProgramExercise {
+  exercise_id: number
+  name: string
+  muscle_groups: string[]
+  sets: number
+  reps: string
+  weight: string
+  rest_seconds: number
+  // Saved fields the builder doesn't edit (notes, progression, block, ...), sent back unchanged
+  details?: Record<string, unknown>
+}
 
 interface Workout {
   id?: number
@@ -18,16 +34,19 @@ interface Workout {
   workout_type: 'strength' | 'cardio' | 'hiit' | 'flexibility' | 'recovery'
   day_number: number
   week_number: number
-  exercises: any[]
+  exercises: ProgramExercise[]
 }
 
 interface WeeklyScheduleProps {
   week: number
+  totalWeeks: number
+  periodization: ProgramPeriodization | null
   workouts: Workout[]
   onAddWorkout: (workout: Omit<Workout, 'week_number'>) => void
   onUpdateWorkout: (workoutId: number, updates: Partial<Workout>) => void
   onRemoveWorkout: (workoutId: number) => void
   onDuplicateWorkout: (workoutId: number, targetWeek?: number) => void
+  onCopyWeek: (targetWeeks: number[]) => void
 }
 
 const daysOfWeek = [
@@ -55,21 +74,39 @@ const initialWorkoutData = {
   difficulty_rating: 5,
   workout_type: 'strength' as const,
   day_number: 1,
-  exercises: []
+  exercises: [] as ProgramExercise[]
+}
+
+const formatChange = (multiplier: number) => {
+  const percent = Math.round((multiplier - 1) * 100)
+  return `${percent > 0 ? '+' : ''}${percent}%`
 }
 
 export default function WeeklySchedule({
   week,
+  totalWeeks,
+  periodization,
   workouts,
   onAddWorkout,
   onUpdateWorkout,
   onRemoveWorkout,
-  onDuplicateWorkout
+  onDuplicateWorkout,
+  onCopyWeek
 }: WeeklyScheduleProps) {
   const [showWorkoutDialog, setShowWorkoutDialog] = useState(false)
   const [editingWorkout, setEditingWorkout] = useState<Workout | null>(null)
   const [workoutData, setWorkoutData] = useState(initialWorkoutData)
   const [selectedDay, setSelectedDay] = useState(1)
+  const [showCopyDialog, setShowCopyDialog] = useState(false)
+  const [copyTargets, setCopyTargets] = useState<number[]>([])
+
+  const weekMultipliers = getWeekMultipliers(periodization, week)
+  const otherWeeks = Array.from({ length: totalWeeks }, (_, i) => i + 1).filter(w => w !== week)
+
+  const { data: exerciseLibrary = [] } = useQuery<Exercise[]>({
+    queryKey: ['/api/exercises'],
+    enabled: showWorkoutDialog
+  })
 
   const getWorkoutForDay = (dayNumber: number) => {
     return workouts.find(w => w.day_number === dayNumber)
@@ -96,6 +133,34 @@ export default function WeeklySchedule({
     setShowWorkoutDialog(true)
   }
 
+  const addExercise = (exerciseId: string) => {
+    const exercise = exerciseLibrary.find(e => e.id.toString() === exerciseId)
+    if (!exercise) return
+    setWorkoutData(prev => ({
+      ...prev,
+      exercises: [...prev.exercises, {
+        exercise_id: exercise.id,
+        name: exercise.name,
+        muscle_groups: exercise.muscleGroups || [],
+        sets: 3,
+        reps: '10',
+        weight: '',
+        rest_seconds: 90
+      }]
+    }))
+  }
+
+  const updateExercise = (index: number, updates: Partial<ProgramExercise>) => {
+    setWorkoutData(prev => ({
+      ...prev,
+      exercises: prev.exercises.map((exercise, i) => i === index ? { ...exercise, ...updates } : exercise)
+    }))
+  }
+
+  const removeExercise = (index: number) => {
+    setWorkoutData(prev => ({ ...prev, exercises: prev.exercises.filter((_, i) => i !== index) }))
+  }
+
   const handleSaveWorkout = () => {
     if (!workoutData.name.trim()) return
 
@@ -122,11 +187,35 @@ export default function WeeklySchedule({
     }
   }
 
+  const openCopyDialog = () => {
+    // Default to every later week, i.e. generate the rest of the program from this one
+    setCopyTargets(otherWeeks.filter(w => w > week))
+    setShowCopyDialog(true)
+  }
+
+  const toggleCopyTarget = (targetWeek: number, checked: boolean) => {
+    setCopyTargets(prev => checked ? [...prev, targetWeek].sort((a, b) => a - b) : prev.filter(w => w !== targetWeek))
+  }
+
+  const handleCopyWeek = () => {
+    if (copyTargets.length === 0) return
+    onCopyWeek(copyTargets)
+    setShowCopyDialog(false)
+  }
+
   return (
     <>
       <div className="space-y-4">
         <div className="flex items-center justify-between">
-          <h3 className="text-lg font-semibold">Week {week} Schedule</h3>
+          <div className="flex items-center gap-2">
+            <h3 className="text-lg font-semibold">Week {week} Schedule</h3>
+            {periodization && (
+              <Badge variant={weekMultipliers.deload ? 'secondary' : 'outline'} className="text-xs">
+                {weekMultipliers.deload ? 'Deload · ' : ''}
+                {Math.round(weekMultipliers.intensity * 100)}% load · {Math.round(weekMultipliers.volume * 100)}% volume
+              </Badge>
+            )}
+          </div>
           <div className="text-sm text-muted-foreground">
             {workouts.length} workout{workouts.length !== 1 ? 's' : ''} scheduled
           </div>
@@ -159,6 +248,12 @@ export default function WeeklySchedule({
                           <Clock className="w-3 h-3" />
                           <span>{workout.estimated_duration}min</span>
                         </div>
+                        {workout.exercises.length > 0 && (
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Target className="w-3 h-3" />
+                            <span>{workout.exercises.length} exercise{workout.exercises.length !== 1 ? 's' : ''}</span>
+                          </div>
+                        )}
                       </div>
 
                       <Badge 
@@ -236,14 +331,11 @@ export default function WeeklySchedule({
             Add Workout
           </Button>
           
-          {workouts.length > 0 && (
+          {workouts.length > 0 && otherWeeks.length > 0 && (
             <Button
               variant="outline"
               size="sm"
-              onClick={() => {
-                // TODO: Copy entire week to another week
-                console.log('Copy week functionality')
-              }}
+              onClick={openCopyDialog}
             >
               <Copy className="w-4 h-4 mr-2" />
               Copy Week
@@ -252,6 +344,70 @@ export default function WeeklySchedule({
         </div>
       </div>
 
+      {/* Copy Week Dialog */}
+      <Dialog open={showCopyDialog} onOpenChange={setShowCopyDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Copy Week {week}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Workouts already in the selected weeks are replaced.
+              {periodization
+                ? " Each copy's sets, reps and weight are scaled to that week's periodization."
+                : ' Add a periodization scheme to scale each copy automatically.'}
+            </p>
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setCopyTargets(otherWeeks)}>
+                Select All
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setCopyTargets([])}>
+                Clear
+              </Button>
+            </div>
+
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {otherWeeks.map(targetWeek => {
+                const target = getWeekMultipliers(periodization, targetWeek)
+                const change = getRelativeMultipliers(periodization, week, targetWeek)
+                return (
+                  <label key={targetWeek} className="flex items-center justify-between gap-2 text-sm cursor-pointer">
+                    <span className="flex items-center gap-2">
+                      <Checkbox
+                        checked={copyTargets.includes(targetWeek)}
+                        onCheckedChange={(checked) => toggleCopyTarget(targetWeek, checked === true)}
+                      />
+                      Week {targetWeek}
+                      {target.deload && <Badge variant="secondary" className="text-xs">Deload</Badge>}
+                    </span>
+                    {periodization && (
+                      <span className="text-xs text-muted-foreground">
+                        weight {formatChange(change.intensity)} · volume {formatChange(change.volume)}
+                      </span>
+                    )}
+                  </label>
+                )
+              })}
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button variant="outline" onClick={() => setShowCopyDialog(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCopyWeek}
+                disabled={copyTargets.length === 0}
+                className="bg-gradient-to-r from-primary to-accent text-white"
+              >
+                Copy to {copyTargets.length} week{copyTargets.length !== 1 ? 's' : ''}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Workout Dialog */}
       <Dialog open={showWorkoutDialog} onOpenChange={setShowWorkoutDialog}>
         <DialogContent className="max-w-2xl">
@@ -346,6 +502,67 @@ export default function WeeklySchedule({
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Exercises</Label>
+              {workoutData.exercises.length > 0 && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground">
+                    <div className="col-span-5">Exercise</div>
+                    <div className="col-span-2">Sets</div>
+                    <div className="col-span-2">Reps</div>
+                    <div className="col-span-2">Weight</div>
+                  </div>
+                  {workoutData.exercises.map((exercise, index) => (
+                    <div key={`${exercise.exercise_id}-${index}`} className="grid grid-cols-12 gap-2 items-center">
+                      <div className="col-span-5 text-sm truncate" title={exercise.name}>
+                        {exercise.name}
+                      </div>
+                      <Input
+                        className="col-span-2 h-8"
+                        type="number"
+                        min="1"
+                        max="20"
+                        value={exercise.sets}
+                        onChange={(e) => updateExercise(index, { sets: parseInt(e.target.value) || 1 })}
+                      />
+                      <Input
+                        className="col-span-2 h-8"
+                        value={exercise.reps}
+                        onChange={(e) => updateExercise(index, { reps: e.target.value })}
+                        placeholder="8-12"
+                      />
+                      <Input
+                        className="col-span-2 h-8"
+                        value={exercise.weight}
+                        onChange={(e) => updateExercise(index, { weight: e.target.value })}
+                        placeholder="Optional"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="col-span-1 h-8 w-8 p-0"
+                        onClick={() => removeExercise(index)}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Select value="" onValueChange={addExercise}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Add an exercise..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...exerciseLibrary].sort((a, b) => a.name.localeCompare(b.name)).map(exercise => (
+                    <SelectItem key={exercise.id} value={exercise.id.toString()}>
+                      {exercise.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="flex justify-end gap-2 pt-4">
               <Button
                 variant="outline"
@@ -0,0 +1,89 @@
+import React from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { AllowedSubstitutions } from '@shared/schema'
+
+interface SubstituteCandidate {
+  kind: 'variation' | 'exercise'
+  exerciseId: number
+  variationId: number | null
+  name: string
+  equipment: string | null
+  score: number
+}
+
+interface AllowedSubstitutesProps {
+  exerciseId: number
+  // null: the client may pick any suggested substitute
+  value: AllowedSubstitutions | null | undefined
+  onChange: (value: AllowedSubstitutions | null) => void
+}
+
+const isAllowed = (allowed: AllowedSubstitutions, candidate: SubstituteCandidate) =>
+  candidate.variationId !== null
+    ? allowed.variationIds.includes(candidate.variationId)
+    : allowed.exerciseIds.includes(candidate.exerciseId)
+
+export default function AllowedSubstitutes({ exerciseId, value, onChange }: AllowedSubstitutesProps) {
+  const { data: suggestions = [] } = useQuery<SubstituteCandidate[]>({
+    queryKey: [`/api/exercises/${exerciseId}/substitutes`]
+  })
+
+  const toggle = (candidate: SubstituteCandidate, checked: boolean) => {
+    if (!value) return
+    const next = { exerciseIds: [...value.exerciseIds], variationIds: [...value.variationIds] }
+    const ids = candidate.variationId !== null ? next.variationIds : next.exerciseIds
+    const id = candidate.variationId ?? candidate.exerciseId
+    if (checked && !ids.includes(id)) ids.push(id)
+    if (!checked) ids.splice(ids.indexOf(id), 1)
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-xs font-medium">Substitutes</Label>
+        <Select
+          value={value ? 'selected' : 'any'}
+          onValueChange={(mode) => onChange(mode === 'any' ? null : { exerciseIds: [], variationIds: [] })}
+        >
+          <SelectTrigger className="h-8 w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any suggested substitute</SelectItem>
+            <SelectItem value="selected">Only the ones I pick</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value && (
+        suggestions.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No substitutes found for this exercise.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {suggestions.map(candidate => (
+              <label
+                key={`${candidate.kind}-${candidate.variationId ?? candidate.exerciseId}`}
+                className="flex items-center gap-2 rounded border p-2 text-sm cursor-pointer"
+              >
+                <Checkbox
+                  checked={isAllowed(value, candidate)}
+                  onCheckedChange={(checked) => toggle(candidate, checked === true)}
+                />
+                <span className="truncate flex-1">{candidate.name}</span>
+                {candidate.kind === 'variation' && <Badge variant="secondary" className="text-xs">Variation</Badge>}
+              </label>
+            ))}
+          </div>
+        )
+      )}
+      {value && value.exerciseIds.length + value.variationIds.length === 0 && (
+        <p className="text-xs text-muted-foreground">With none picked, the client can't swap this exercise.</p>
+      )}
+    </div>
+  )
+}
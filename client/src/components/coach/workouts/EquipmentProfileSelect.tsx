@@ -0,0 +1,47 @@
+import React from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { EquipmentProfile } from '@/lib/equipment'
+
+export interface ClientEquipmentProfile extends EquipmentProfile {
+  clientName: string
+}
+
+interface EquipmentProfileSelectProps {
+  value: ClientEquipmentProfile | null
+  onChange: (profile: ClientEquipmentProfile | null) => void
+  className?: string
+}
+
+// Narrows the exercise library to what one of the coach's clients has
+export default function EquipmentProfileSelect({ value, onChange, className }: EquipmentProfileSelectProps) {
+  const { data: profiles = [] } = useQuery<ClientEquipmentProfile[]>({
+    queryKey: ['/api/coach/equipment-profiles']
+  })
+
+  const clientNames = Array.from(new Set(profiles.map(profile => profile.clientName)))
+
+  return (
+    <Select
+      value={value ? `${value.id}` : 'all'}
+      onValueChange={(id) => onChange(profiles.find(profile => `${profile.id}` === id) ?? null)}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">Any Equipment</SelectItem>
+        {clientNames.map(clientName => (
+          <SelectGroup key={clientName}>
+            <SelectLabel>{clientName}</SelectLabel>
+            {profiles.filter(profile => profile.clientName === clientName).map(profile => (
+              <SelectItem key={profile.id} value={`${profile.id}`}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
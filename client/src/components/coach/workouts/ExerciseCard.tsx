@@ -11,6 +11,7 @@ interface ExerciseCardProps {
   exercise: Exercise
   onPreview: () => void
   onUpdate: (exercise: Exercise) => void
+  onEdit?: (exercise: Exercise) => void
   onDelete: (exerciseId: number) => void
   showActions?: boolean
   isDraggable?: boolean
@@ -35,6 +36,7 @@ export default function ExerciseCard({
   exercise,
   onPreview,
   onUpdate,
+  onEdit,
   onDelete,
   showActions = false,
   isDraggable = false,
@@ -124,10 +126,12 @@ export default function ExerciseCard({
                     <Eye className="w-4 h-4 mr-2" />
                     Preview
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => {/* TODO: Implement edit */}}>
-                    <Edit className="w-4 h-4 mr-2" />
-                    Edit
-                  </DropdownMenuItem>
+                  {onEdit && (
+                    <DropdownMenuItem onClick={() => onEdit(exercise)}>
+                      <Edit className="w-4 h-4 mr-2" />
+                      Edit
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem 
                     onClick={() => setShowDeleteDialog(true)}
                     className="text-red-600 focus:text-red-600"
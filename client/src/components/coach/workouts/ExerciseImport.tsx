@@ -0,0 +1,147 @@
+import React, { useRef, useState } from 'react'
+import { FileUp, CheckCircle2, AlertTriangle } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { LoadingSpinner } from '@/components/ui/loading'
+import { useToast } from '@/hooks/use-toast'
+import { supabase } from '@/lib/supabase'
+import { rewriteApiUrl } from '@/lib/queryClient'
+import type { Exercise } from '@shared/schema'
+
+interface ImportRowIssue {
+  row: number
+  name: string | null
+  reasons: string[]
+}
+
+interface ExerciseImportResult {
+  imported: Exercise[]
+  skipped: ImportRowIssue[]
+  invalid: ImportRowIssue[]
+}
+
+interface ExerciseImportProps {
+  open: boolean
+  onClose: () => void
+  onImported: () => void
+}
+
+const SAMPLE_HEADER = 'name,description,muscle_groups,equipment,difficulty_level,category,tags,is_public'
+
+// Bulk-adds exercises from a CSV or JSON file and reports the rows that didn't make it
+export default function ExerciseImport({ open, onClose, onImported }: ExerciseImportProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [result, setResult] = useState<ExerciseImportResult | null>(null)
+
+  const inputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const handleImport = async () => {
+    if (!file) return
+    setImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(rewriteApiUrl('/api/exercises/import'), {
+        method: 'POST',
+        headers: session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {},
+        body: formData
+      })
+      const body = await response.json().catch(() => null)
+      if (!response.ok) {
+        throw new Error(body?.message || `Import failed: ${response.statusText}`)
+      }
+
+      setResult(body)
+      if (body.imported.length > 0) onImported()
+    } catch (error) {
+      console.error('Error importing exercises:', error)
+      toast({
+        title: "Couldn't import exercises",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const issues = result ? [...result.invalid, ...result.skipped].sort((a, b) => a.row - b.row) : []
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Exercises</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with a header row, or a JSON array of exercises. Exercises you already have are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-3">
+            <p className="flex items-center gap-2 text-sm">
+              <CheckCircle2 className="w-4 h-4 text-green-600" />
+              Imported {result.imported.length} exercise{result.imported.length === 1 ? '' : 's'}
+            </p>
+            {issues.length > 0 && (
+              <div className="space-y-2 max-h-64 overflow-auto">
+                {issues.map(issue => (
+                  <div key={issue.row} className="rounded-lg border p-2 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">Row {issue.row}{issue.name ? ` · ${issue.name}` : ''}</span>
+                      {result.skipped.includes(issue)
+                        ? <Badge variant="secondary">Skipped</Badge>
+                        : <Badge variant="destructive">Invalid</Badge>}
+                    </div>
+                    {issue.reasons.map(reason => (
+                      <p key={reason} className="text-xs text-muted-foreground">{reason}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <Button variant="outline" className="w-full gap-2" onClick={() => inputRef.current?.click()}>
+              <FileUp className="w-4 h-4" />
+              {file ? file.name : 'Choose file'}
+            </Button>
+            <p className="flex items-start gap-2 text-xs text-muted-foreground">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              <span>
+                CSV columns: <code>{SAMPLE_HEADER}</code>. Separate muscle groups and tags with semicolons. Up to 1000 exercises per file.
+              </span>
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button onClick={handleImport} disabled={!file || importing}>
+                {importing && <LoadingSpinner size="sm" className="mr-2" />}
+                Import
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
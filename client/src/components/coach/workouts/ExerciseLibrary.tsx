@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react'
-import { Search, Filter, Plus, Video, Eye, Edit, Trash2, Target, Zap } from 'lucide-react'
+import { Search, Filter, Plus, Video, Eye, Edit, Trash2, Target, Zap, FileUp, ChevronLeft, ChevronRight } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -8,12 +8,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { LoadingSpinner } from '@/components/ui/loading'
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import { useToast } from '@/hooks/use-toast'
 import { apiRequestAuto } from '@/lib/queryClient'
+import { hasEquipment } from '@/lib/equipment'
 import ExerciseCard from './ExerciseCard'
 import ExercisePreview from './ExercisePreview'
 import ExerciseUpload from './ExerciseUpload'
-import type { Exercise, ExerciseCategory } from '@shared/schema'
+import ExerciseImport from './ExerciseImport'
+import EquipmentProfileSelect, { type ClientEquipmentProfile } from './EquipmentProfileSelect'
+import type { Exercise, ExerciseCategory, ExerciseSearchResult } from '@shared/schema'
 
 const difficultyColors = {
   beginner: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
@@ -21,6 +25,11 @@ const difficultyColors = {
   advanced: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400'
 }
 
+const PAGE_SIZE = 24
+
+// Library tabs map onto the search scopes
+const TAB_SCOPES: Record<string, string> = { all: 'all', my: 'mine', public: 'public' }
+
 const muscleGroupColors = [
   'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
   'bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-400',
@@ -34,20 +43,58 @@ export default function ExerciseLibrary() {
   const [selectedDifficulty, setSelectedDifficulty] = useState<string>('all')
   const [selectedEquipment, setSelectedEquipment] = useState<string>('all')
   const [selectedMuscleGroup, setSelectedMuscleGroup] = useState<string>('all')
+  const [equipmentProfile, setEquipmentProfile] = useState<ClientEquipmentProfile | null>(null)
   const [showFilters, setShowFilters] = useState(false)
   const [previewExercise, setPreviewExercise] = useState<Exercise | null>(null)
   const [showUpload, setShowUpload] = useState(false)
+  const [editExercise, setEditExercise] = useState<Exercise | null>(null)
+  const [showImport, setShowImport] = useState(false)
   const [activeTab, setActiveTab] = useState('all')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [page, setPage] = useState(1)
   
   const { user } = useSupabaseAuth()
+  const { toast } = useToast()
   const queryClient = useQueryClient()
 
-  // Fetch exercises using backend API
+  // Wait for typing to settle before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300)
+    return () => clearTimeout(timeout)
+  }, [searchTerm])
+
+  // Any filter change starts over from the first page
+  useEffect(() => {
+    setPage(1)
+  }, [debouncedSearch, selectedCategory, selectedDifficulty, selectedEquipment, selectedMuscleGroup, activeTab])
+
+  // Every visible exercise, for the filter options
   const { data: exercises = [], isLoading: exercisesLoading } = useQuery<Exercise[]>({
     queryKey: ['/api/exercises'],
     enabled: !!user
   })
 
+  const searchParams = useMemo(() => {
+    const params = new URLSearchParams({ scope: TAB_SCOPES[activeTab], page: String(page), pageSize: String(PAGE_SIZE) })
+    if (debouncedSearch) params.set('search', debouncedSearch)
+    if (selectedCategory !== 'all') params.set('categoryId', selectedCategory)
+    if (selectedDifficulty !== 'all') params.set('difficultyLevel', selectedDifficulty)
+    if (selectedEquipment !== 'all') params.set('equipment', selectedEquipment)
+    if (selectedMuscleGroup !== 'all') params.set('muscleGroup', selectedMuscleGroup)
+    return params.toString()
+  }, [activeTab, page, debouncedSearch, selectedCategory, selectedDifficulty, selectedEquipment, selectedMuscleGroup])
+
+  // Search runs on the server; keyed under /api/exercises so saves refresh it too
+  const { data: searchResult, isLoading: searchLoading } = useQuery<ExerciseSearchResult>({
+    queryKey: ['/api/exercises', 'search', searchParams],
+    queryFn: async () => {
+      const response = await apiRequestAuto('GET', `/api/exercises/search?${searchParams}`)
+      return response.json()
+    },
+    enabled: !!user,
+    placeholderData: keepPreviousData
+  })
+
   // Fetch categories using backend API
   const { data: categories = [], isLoading: categoriesLoading } = useQuery<ExerciseCategory[]>({
     queryKey: ['/api/exercise-categories'],
@@ -65,7 +112,9 @@ export default function ExerciseLibrary() {
     }
   })
 
-  const loading = exercisesLoading || categoriesLoading
+  const loading = exercisesLoading || categoriesLoading || searchLoading
+  const totalMatches = searchResult?.total ?? 0
+  const pageCount = Math.max(1, Math.ceil(totalMatches / PAGE_SIZE))
 
   // Get unique values for filters
   const uniqueEquipment = useMemo(() => {
@@ -78,37 +127,13 @@ export default function ExerciseLibrary() {
     return Array.from(new Set(muscleGroups)).sort()
   }, [exercises])
 
-  // Filter exercises based on search and filters
+  // A client's equipment profile narrows the current page of results
   const filteredExercises = useMemo(() => {
-    return exercises.filter(exercise => {
-      // Search filter
-      const matchesSearch = !searchTerm || 
-        exercise.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        exercise.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        exercise.muscleGroups?.some(mg => mg.toLowerCase().includes(searchTerm.toLowerCase()))
-
-      // Category filter
-      const matchesCategory = selectedCategory === 'all' || String(exercise.categoryId) === selectedCategory
-
-      // Difficulty filter
-      const matchesDifficulty = selectedDifficulty === 'all' || exercise.difficultyLevel === selectedDifficulty
-
-      // Equipment filter
-      const matchesEquipment = selectedEquipment === 'all' || exercise.equipment === selectedEquipment
-
-      // Muscle group filter
-      const matchesMuscleGroup = selectedMuscleGroup === 'all' || 
-        exercise.muscleGroups?.includes(selectedMuscleGroup)
-
-      // Tab filter
-      const matchesTab = activeTab === 'all' || 
-        (activeTab === 'my' && exercise.createdBy === user?.id) ||
-        (activeTab === 'public' && exercise.isPublic)
-
-      return matchesSearch && matchesCategory && matchesDifficulty && 
-             matchesEquipment && matchesMuscleGroup && matchesTab
-    })
-  }, [exercises, searchTerm, selectedCategory, selectedDifficulty, selectedEquipment, selectedMuscleGroup, activeTab, user?.id])
+    const results = searchResult?.exercises ?? []
+    return equipmentProfile
+      ? results.filter(exercise => hasEquipment(exercise.equipment, equipmentProfile.equipment))
+      : results
+  }, [searchResult, equipmentProfile])
 
   const handleExerciseUpdate = (updatedExercise: Exercise) => {
     queryClient.invalidateQueries({ queryKey: ['/api/exercises'] })
@@ -120,6 +145,12 @@ export default function ExerciseLibrary() {
       queryClient.invalidateQueries({ queryKey: ['/api/exercises'] })
     } catch (error) {
       console.error('Error deleting exercise:', error)
+      const inUse = error instanceof Error && error.message.startsWith('409')
+      toast({
+        title: "Couldn't delete exercise",
+        description: inUse ? 'It is used in workouts or logs. Make it private instead.' : 'Please try again.',
+        variant: 'destructive'
+      })
     }
   }
 
@@ -143,13 +174,19 @@ export default function ExerciseLibrary() {
             Comprehensive exercise database with {exercises.length} exercises
           </p>
         </div>
-        <Button 
-          onClick={() => setShowUpload(true)}
-          className="bg-gradient-to-r from-primary to-accent text-white hover:shadow-orange-glow"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Add Exercise
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setShowImport(true)}>
+            <FileUp className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <Button 
+            onClick={() => setShowUpload(true)}
+            className="bg-gradient-to-r from-primary to-accent text-white hover:shadow-orange-glow"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Exercise
+          </Button>
+        </div>
       </div>
 
       {/* Search and Filters */}
@@ -160,7 +197,7 @@ export default function ExerciseLibrary() {
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
               <Input
-                placeholder="Search exercises by name, muscle group, or description..."
+                placeholder="Search exercises by name or tag..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10 h-12 text-lg"
@@ -177,19 +214,19 @@ export default function ExerciseLibrary() {
                 <Filter className="w-4 h-4" />
                 Filters
                 {(selectedCategory !== 'all' || selectedDifficulty !== 'all' || 
-                  selectedEquipment !== 'all' || selectedMuscleGroup !== 'all') && (
+                  selectedEquipment !== 'all' || selectedMuscleGroup !== 'all' || equipmentProfile) && (
                   <Badge variant="secondary" className="ml-2">Active</Badge>
                 )}
               </Button>
 
               <div className="text-sm text-muted-foreground">
-                {filteredExercises.length} of {exercises.length} exercises
+                {totalMatches} of {exercises.length} exercises
               </div>
             </div>
 
             {/* Filters */}
             {showFilters && (
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 pt-4 border-t">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 pt-4 border-t">
                 <div>
                   <label className="text-sm font-medium mb-2 block">Category</label>
                   <Select value={selectedCategory} onValueChange={setSelectedCategory}>
@@ -255,6 +292,11 @@ export default function ExerciseLibrary() {
                     </SelectContent>
                   </Select>
                 </div>
+
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Client Equipment</label>
+                  <EquipmentProfileSelect value={equipmentProfile} onChange={setEquipmentProfile} />
+                </div>
               </div>
             )}
           </div>
@@ -277,7 +319,7 @@ export default function ExerciseLibrary() {
                 <h3 className="text-lg font-semibold mb-2">No exercises found</h3>
                 <p className="text-muted-foreground mb-4">
                   {searchTerm || selectedCategory !== 'all' || selectedDifficulty !== 'all' || 
-                   selectedEquipment !== 'all' || selectedMuscleGroup !== 'all'
+                   selectedEquipment !== 'all' || selectedMuscleGroup !== 'all' || equipmentProfile
                     ? "Try adjusting your search or filters"
                     : "Start building your exercise library"}
                 </p>
@@ -295,12 +337,27 @@ export default function ExerciseLibrary() {
                   exercise={exercise}
                   onPreview={() => setPreviewExercise(exercise)}
                   onUpdate={handleExerciseUpdate}
+                  onEdit={setEditExercise}
                   onDelete={handleExerciseDelete}
                   showActions={exercise.createdBy === user?.id}
                 />
               ))}
             </div>
           )}
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-6">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">Page {page} of {pageCount}</span>
+              <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                Next
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </Button>
+            </div>
+          )}
         </TabsContent>
       </Tabs>
 
@@ -314,16 +371,30 @@ export default function ExerciseLibrary() {
       )}
 
       {/* Exercise Upload Modal */}
-      {showUpload && (
+      {(showUpload || editExercise) && (
         <ExerciseUpload
-          open={showUpload}
-          onClose={() => setShowUpload(false)}
+          open
+          editExercise={editExercise ?? undefined}
+          onClose={() => {
+            setShowUpload(false)
+            setEditExercise(null)
+          }}
           onSuccess={(newExercise) => {
             queryClient.invalidateQueries({ queryKey: ['/api/exercises'] })
             setShowUpload(false)
+            setEditExercise(null)
           }}
         />
       )}
+
+      {/* Exercise Import Modal */}
+      {showImport && (
+        <ExerciseImport
+          open={showImport}
+          onClose={() => setShowImport(false)}
+          onImported={() => queryClient.invalidateQueries({ queryKey: ['/api/exercises'] })}
+        />
+      )}
     </div>
   )
 }
@@ -80,11 +80,12 @@ export default function ExercisePreview({ exercise, open, onClose }: ExercisePre
                       className="w-full h-full object-cover"
                       poster={exercise.thumbnailUrl || undefined}
                       controls
+                      preload="metadata"
                       muted={isMuted}
                       onPlay={() => setIsPlaying(true)}
                       onPause={() => setIsPlaying(false)}
                     >
-                      <source src={exercise.videoUrl} type="video/mp4" />
+                      <source src={exercise.videoUrl} />
                       Your browser does not support the video tag.
                     </video>
                   </div>
@@ -11,7 +11,9 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Switch } from '@/components/ui/switch'
 import { LoadingSpinner } from '@/components/ui/loading'
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { useToast } from '@/hooks/use-toast'
 import { apiRequestAuto, queryClient } from '@/lib/queryClient'
+import storage from '@/lib/storage'
 import { Exercise } from '@shared/schema'
 
 interface ExerciseUploadProps {
@@ -47,6 +49,7 @@ export default function ExerciseUpload({ open, onClose, onSuccess, editExercise
     difficultyLevel: editExercise?.difficultyLevel || 'beginner',
     categoryId: editExercise?.categoryId ? editExercise.categoryId.toString() : '',
     caloriesPerMinute: editExercise?.caloriesPerMinute || '',
+    exerciseType: editExercise?.exerciseType || 'strength',
     isPublic: editExercise?.isPublic || false,
     tags: editExercise?.tags || []
   })
@@ -63,6 +66,7 @@ export default function ExerciseUpload({ open, onClose, onSuccess, editExercise
   const videoInputRef = useRef<HTMLInputElement>(null)
   const thumbnailInputRef = useRef<HTMLInputElement>(null)
   const { user } = useSupabaseAuth()
+  const { toast } = useToast()
 
   const handleInputChange = (field: string, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }))
@@ -119,19 +123,16 @@ export default function ExerciseUpload({ open, onClose, onSuccess, editExercise
       let videoUrl = editExercise?.videoUrl
       let thumbnailUrl = editExercise?.thumbnailUrl
 
-      // Upload video if provided
+      // Upload video if provided; the server pulls a poster frame from it
       if (videoFile) {
-        setUploadProgress(25)
-        // TODO: Implement upload endpoint
-        const result = { url: 'placeholder-video-url' }
+        const result = await storage.uploadExerciseVideo(videoFile, percent => setUploadProgress(Math.round(percent * 0.6)))
         videoUrl = result.url
+        if (result.thumbnailUrl && !thumbnailFile) thumbnailUrl = result.thumbnailUrl
       }
 
-      // Upload thumbnail if provided
+      // Upload thumbnail if provided; a chosen thumbnail wins over the video's poster
       if (thumbnailFile) {
-        setUploadProgress(50)
-        // TODO: Implement upload endpoint
-        const result = { url: 'placeholder-thumbnail-url' }
+        const result = await storage.uploadExerciseThumbnail(thumbnailFile, percent => setUploadProgress(60 + Math.round(percent * 0.15)))
         thumbnailUrl = result.url
       }
 
@@ -150,7 +151,8 @@ export default function ExerciseUpload({ open, onClose, onSuccess, editExercise
         thumbnailUrl: thumbnailUrl,
         isPublic: formData.isPublic,
         tags: formData.tags,
-        caloriesPerMinute: formData.caloriesPerMinute ? parseInt(formData.caloriesPerMinute.toString()) : null
+        caloriesPerMinute: formData.caloriesPerMinute ? parseInt(formData.caloriesPerMinute.toString()) : null,
+        exerciseType: formData.exerciseType
       }
 
       let result
@@ -172,7 +174,11 @@ export default function ExerciseUpload({ open, onClose, onSuccess, editExercise
       
     } catch (error) {
       console.error('Error saving exercise:', error)
-      // TODO: Show error toast
+      toast({
+        title: "Couldn't save exercise",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      })
     } finally {
       setLoading(false)
       setUploadProgress(0)
@@ -189,6 +195,7 @@ export default function ExerciseUpload({ open, onClose, onSuccess, editExercise
       difficultyLevel: 'beginner',
       categoryId: '',
       caloriesPerMinute: '',
+      exerciseType: 'strength',
       isPublic: false,
       tags: []
     })
@@ -286,7 +293,20 @@ export default function ExerciseUpload({ open, onClose, onSuccess, editExercise
               <CardContent className="p-4 space-y-4">
                 <h3 className="font-semibold text-lg">Exercise Details</h3>
                 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <Label htmlFor="exercise-type">Exercise Type</Label>
+                    <Select value={formData.exerciseType} onValueChange={(value) => handleInputChange('exerciseType', value)}>
+                      <SelectTrigger id="exercise-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="strength">Strength</SelectItem>
+                        <SelectItem value="cardio">Cardio / Conditioning</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div>
                     <Label htmlFor="difficulty">Difficulty Level</Label>
                     <Select value={formData.difficultyLevel} onValueChange={(value) => handleInputChange('difficultyLevel', value)}>
@@ -318,7 +338,7 @@ export default function ExerciseUpload({ open, onClose, onSuccess, editExercise
                   </div>
 
                   <div>
-                    <Label htmlFor="calories">Calories per minute</Label>
+                    <Label htmlFor="calories">Calories per minute (70 kg)</Label>
                     <Input
                       id="calories"
                       type="number"
@@ -447,7 +467,7 @@ export default function ExerciseUpload({ open, onClose, onSuccess, editExercise
                     <input
                       ref={videoInputRef}
                       type="file"
-                      accept="video/*"
+                      accept="video/mp4,video/webm,video/quicktime"
                       onChange={handleVideoChange}
                       className="hidden"
                     />
@@ -494,7 +514,7 @@ export default function ExerciseUpload({ open, onClose, onSuccess, editExercise
                     <input
                       ref={thumbnailInputRef}
                       type="file"
-                      accept="image/*"
+                      accept="image/jpeg,image/png,image/webp"
                       onChange={handleThumbnailChange}
                       className="hidden"
                     />
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { MessageSquarePlus, Send, Star } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { LoadingSpinner } from '@/components/ui/loading'
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { useToast } from '@/hooks/use-toast'
+import { apiRequest } from '@/lib/queryClient'
+import { FORM_RATING_LABELS, formatClipTime, type FormAnnotation, type FormReviewComment, type FormReviewDetail } from '@/lib/form-review'
+import FormReviewPlayer from '@/components/dashboard/FormReviewPlayer'
+
+interface FormReviewDialogProps {
+  formReviewId: number
+  open: boolean
+  onClose: () => void
+}
+
+// Coach side of a form review: comment on moments of the clip, then rate the set
+export default function FormReviewDialog({ formReviewId, open, onClose }: FormReviewDialogProps) {
+  const [currentMs, setCurrentMs] = useState(0)
+  const [commentText, setCommentText] = useState('')
+  const [draft, setDraft] = useState<FormAnnotation | null>(null)
+  const [rating, setRating] = useState<number | null>(null)
+  const [summary, setSummary] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const { session } = useSupabaseAuth()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const reviewKey = [`/api/form-reviews/${formReviewId}`]
+
+  const { data: review, isLoading } = useQuery<FormReviewDetail>({
+    queryKey: reviewKey,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/form-reviews/${formReviewId}`, undefined, session)
+      return response.json()
+    },
+    enabled: open && !!session
+  })
+
+  // Reopening a finished review starts from what was sent
+  useEffect(() => {
+    if (!review) return
+    setRating(review.formRating)
+    setSummary(review.summary ?? '')
+  }, [review?.id])
+
+  const addComment = async () => {
+    if (!commentText.trim()) return
+    try {
+      setSaving(true)
+      await apiRequest('POST', `/api/form-reviews/${formReviewId}/comments`, {
+        timestampMs: currentMs,
+        body: commentText,
+        annotation: draft
+      }, session)
+      setCommentText('')
+      setDraft(null)
+      await queryClient.invalidateQueries({ queryKey: reviewKey })
+    } catch (error) {
+      console.error('Error adding comment:', error)
+      toast({ title: "Couldn't add comment", description: 'Please try again.', variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteComment = async (comment: FormReviewComment) => {
+    try {
+      await apiRequest('DELETE', `/api/form-review-comments/${comment.id}`, undefined, session)
+      await queryClient.invalidateQueries({ queryKey: reviewKey })
+    } catch (error) {
+      console.error('Error deleting comment:', error)
+      toast({ title: "Couldn't delete comment", description: 'Please try again.', variant: 'destructive' })
+    }
+  }
+
+  const sendReview = async () => {
+    if (rating === null) return
+    try {
+      setSaving(true)
+      await apiRequest('PUT', `/api/form-reviews/${formReviewId}/review`, {
+        formRating: rating,
+        summary: summary.trim() || null
+      }, session)
+      await queryClient.invalidateQueries({ queryKey: ['/api/coach/form-reviews'] })
+      toast({ title: 'Review sent', description: `${review?.clientName ?? 'Your client'} has been notified.` })
+      onClose()
+    } catch (error) {
+      console.error('Error sending review:', error)
+      toast({ title: "Couldn't send review", description: 'Please try again.', variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>{review ? `${review.clientName} · ${review.exerciseName}` : 'Form Review'}</DialogTitle>
+          {review && (
+            <DialogDescription>
+              Set {review.setNumber}
+              {review.actualReps !== null && ` · ${review.actualReps} reps`}
+              {review.actualWeight && ` @ ${parseFloat(review.actualWeight)} ${review.weightUnit ?? 'lbs'}`}
+              {' · '}{new Date(review.completedAt).toLocaleDateString()}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading || !review ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {review.clientNote && (
+              <p className="rounded-lg bg-muted p-3 text-sm italic">"{review.clientNote}"</p>
+            )}
+
+            <FormReviewPlayer
+              videoUrl={review.videoUrl}
+              comments={review.comments}
+              draft={draft}
+              onDraftChange={setDraft}
+              onTimeChange={setCurrentMs}
+              onDeleteComment={deleteComment}
+            />
+
+            <div className="flex items-center gap-2">
+              <Input
+                value={commentText}
+                onChange={(e) => setCommentText(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addComment()}
+                placeholder={`Comment at ${formatClipTime(currentMs)}${draft ? ' (with drawing)' : ''}`}
+                maxLength={1000}
+              />
+              <Button onClick={addComment} disabled={!commentText.trim() || saving} className="gap-2">
+                <MessageSquarePlus className="w-4 h-4" />
+                Add
+              </Button>
+            </div>
+
+            <div className="space-y-3 border-t pt-4">
+              <Label>Form rating</Label>
+              <div className="flex flex-wrap gap-2">
+                {[1, 2, 3, 4, 5].map(value => (
+                  <Button
+                    key={value}
+                    variant={rating === value ? 'default' : 'outline'}
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => setRating(value)}
+                  >
+                    <Star className="w-3 h-3" />
+                    {value} · {FORM_RATING_LABELS[value]}
+                  </Button>
+                ))}
+              </div>
+              <Textarea
+                value={summary}
+                onChange={(e) => setSummary(e.target.value)}
+                placeholder="Overall feedback (optional)"
+                maxLength={2000}
+                rows={3}
+              />
+              <div className="flex justify-end">
+                <Button onClick={sendReview} disabled={rating === null || saving} className="gap-2">
+                  {saving ? <LoadingSpinner size="sm" /> : <Send className="w-4 h-4" />}
+                  {review.status === 'reviewed' ? 'Update Review' : 'Send Review'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,101 @@
+import React, { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Video, Star, MessageSquare } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { LoadingSpinner } from '@/components/ui/loading'
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
+import { apiRequest } from '@/lib/queryClient'
+import { FORM_RATING_LABELS, type FormReviewSummary } from '@/lib/form-review'
+import FormReviewDialog from './FormReviewDialog'
+
+// Set clips from active clients waiting for the coach, and the ones already reviewed
+export default function FormReviewQueue() {
+  const [status, setStatus] = useState<'pending' | 'reviewed'>('pending')
+  const [openReviewId, setOpenReviewId] = useState<number | null>(null)
+
+  const { session } = useSupabaseAuth()
+
+  const { data: reviews = [], isLoading } = useQuery<FormReviewSummary[]>({
+    queryKey: ['/api/coach/form-reviews', status],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/coach/form-reviews?status=${status}`, undefined, session)
+      return response.json()
+    },
+    enabled: !!session
+  })
+
+  return (
+    <Card variant="premium">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Video className="w-5 h-5" />
+          Form Reviews
+        </CardTitle>
+        <Tabs value={status} onValueChange={(value) => setStatus(value as 'pending' | 'reviewed')}>
+          <TabsList>
+            <TabsTrigger value="pending">Waiting</TabsTrigger>
+            <TabsTrigger value="reviewed">Reviewed</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" variant="orange" />
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Video className="w-12 h-12 mx-auto mb-4" />
+            {status === 'pending'
+              ? 'No clips waiting. Clients can attach a video to any logged set.'
+              : 'No reviewed clips yet.'}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {reviews.map(review => (
+              <div key={review.id} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{review.clientName} · {review.exerciseName}</div>
+                  <div className="text-sm text-muted-foreground">
+                    Set {review.setNumber}
+                    {review.actualReps !== null && ` · ${review.actualReps} reps`}
+                    {review.actualWeight && ` @ ${parseFloat(review.actualWeight)} ${review.weightUnit ?? 'lbs'}`}
+                    {' · '}uploaded {new Date(review.createdAt).toLocaleDateString()}
+                  </div>
+                  {review.clientNote && (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1 truncate">
+                      <MessageSquare className="w-3 h-3 shrink-0" />
+                      {review.clientNote}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {review.formRating !== null && (
+                    <Badge variant="secondary" className="gap-1">
+                      <Star className="w-3 h-3" />
+                      {review.formRating} · {FORM_RATING_LABELS[review.formRating]}
+                    </Badge>
+                  )}
+                  <Button size="sm" variant={status === 'pending' ? 'default' : 'outline'} onClick={() => setOpenReviewId(review.id)}>
+                    {status === 'pending' ? 'Review' : 'Open'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {openReviewId !== null && (
+        <FormReviewDialog
+          formReviewId={openReviewId}
+          open={openReviewId !== null}
+          onClose={() => setOpenReviewId(null)}
+        />
+      )}
+    </Card>
+  )
+}
@@ -29,6 +29,10 @@ import { Separator } from '@/components/ui/separator'
 import { LoadingSpinner } from '@/components/ui/loading'
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
 import { supabase } from '@/lib/supabase'
+import type { ProgressionModel } from '@/lib/progression'
+import type { WarmupScheme } from '@/lib/warmups'
+import type { CardioTarget } from '@/lib/cardio'
+import type { AllowedSubstitutions } from '@shared/schema'
 import ExerciseDropZone from './ExerciseDropZone'
 import WorkoutExerciseCard from './WorkoutExerciseCard'
 import WorkoutSidebar from './WorkoutSidebar'
@@ -46,6 +50,7 @@ interface Exercise {
   video_url?: string
   thumbnail_url?: string
   category: string
+  exercise_type?: 'strength' | 'cardio'
 }
 
 interface WorkoutExercise {
@@ -59,6 +64,12 @@ interface WorkoutExercise {
   order_index: number
   rpe_target?: number
   tempo?: string
+  progression_model?: ProgressionModel
+  progression_increment?: number
+  superset_group?: number | null
+  warmup_scheme?: WarmupScheme
+  cardio_target?: CardioTarget | null
+  substitutions?: AllowedSubstitutions | null
 }
 
 interface WorkoutBuilderState {
@@ -111,7 +122,8 @@ export default function WorkoutBuilder() {
   // Calculate estimated duration based on exercises
   const calculatedDuration = useMemo(() => {
     return workout.exercises.reduce((total, ex) => {
-      const exerciseTime = ex.sets * 30 // 30 seconds per set estimate
+      // Cardio bouts last as long as prescribed; strength sets are estimated at 30 seconds
+      const exerciseTime = ex.sets * (ex.cardio_target?.durationSeconds || 30)
       const restTime = ex.sets * ex.rest_seconds
       return total + exerciseTime + restTime
     }, 0) / 60 // Convert to minutes
@@ -176,16 +188,21 @@ export default function WorkoutBuilder() {
   }, [])
 
   const addExerciseToWorkout = useCallback((exercise: Exercise) => {
+    const isCardio = exercise.exercise_type === 'cardio'
     const newWorkoutExercise: WorkoutExercise = {
       id: `workout-exercise-${Date.now()}-${exercise.id}`,
       exercise,
-      sets: 3,
-      reps: '8-12',
+      // Cardio is prescribed as a single bout with a duration/distance target
+      sets: isCardio ? 1 : 3,
+      reps: isCardio ? '' : '8-12',
       weight: '',
       rest_seconds: 60,
       notes: '',
       order_index: workout.exercises.length,
-      rpe_target: 7
+      rpe_target: 7,
+      progression_model: 'none',
+      warmup_scheme: 'none',
+      cardio_target: isCardio ? { durationSeconds: 20 * 60 } : null
     }
 
     setWorkout(prev => ({
@@ -260,7 +277,14 @@ export default function WorkoutBuilder() {
         rest_seconds: ex.rest_seconds,
         notes: ex.notes,
         rpe_target: ex.rpe_target,
-        tempo: ex.tempo
+        tempo: ex.tempo,
+        progression_model: ex.progression_model || 'none',
+        progression_increment: ex.progression_increment ?? null,
+        is_superset: ex.superset_group != null,
+        superset_group: ex.superset_group ?? null,
+        warmup_scheme: ex.warmup_scheme || 'none',
+        cardio_target: ex.exercise.exercise_type === 'cardio' ? ex.cardio_target ?? null : null,
+        substitutions: ex.substitutions ?? null
       }))
 
       const { error: exercisesError } = await supabase
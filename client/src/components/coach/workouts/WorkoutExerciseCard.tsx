@@ -11,6 +11,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
 import { cn } from '@/lib/utils'
+import { PROGRESSION_MODELS, DEFAULT_PROGRESSION_INCREMENT, type ProgressionModel } from '@/lib/progression'
+import { SUPERSET_GROUPS, getSupersetLetter } from '@/lib/supersets'
+import { WARMUP_SCHEMES, type WarmupScheme } from '@/lib/warmups'
+import { HEART_RATE_ZONES, describeCardioTarget, formatDuration, parseDuration, type CardioTarget } from '@/lib/cardio'
+import AllowedSubstitutes from './AllowedSubstitutes'
+import type { AllowedSubstitutions } from '@shared/schema'
 
 interface Exercise {
   id: number
@@ -23,6 +29,7 @@ interface Exercise {
   video_url?: string
   thumbnail_url?: string
   category: string
+  exercise_type?: 'strength' | 'cardio'
 }
 
 interface WorkoutExercise {
@@ -36,6 +43,12 @@ interface WorkoutExercise {
   order_index: number
   rpe_target?: number
   tempo?: string
+  progression_model?: ProgressionModel
+  progression_increment?: number
+  superset_group?: number | null
+  warmup_scheme?: WarmupScheme
+  cardio_target?: CardioTarget | null
+  substitutions?: AllowedSubstitutions | null
 }
 
 interface WorkoutExerciseCardProps {
@@ -96,6 +109,19 @@ export default function WorkoutExerciseCard({
   }
 
   const { exercise } = workoutExercise
+  const isCardio = exercise.exercise_type === 'cardio'
+  const cardioTarget = workoutExercise.cardio_target || {}
+
+  // Empty inputs clear the field rather than storing 0
+  const updateCardioTarget = (updates: Partial<CardioTarget>) => {
+    const next = { ...cardioTarget, ...updates }
+    Object.keys(next).forEach(key => {
+      if (next[key as keyof CardioTarget] === undefined) delete next[key as keyof CardioTarget]
+    })
+    onUpdate({ cardio_target: Object.keys(next).length > 0 ? next : null })
+  }
+
+  const parseOptional = (value: string) => (value === '' || Number.isNaN(parseFloat(value)) ? undefined : parseFloat(value))
 
   const formatRestTime = (seconds: number) => {
     if (seconds < 60) return `${seconds}s`
@@ -138,10 +164,19 @@ export default function WorkoutExerciseCard({
               <Badge variant="outline" className="text-xs">
                 {exercise.category}
               </Badge>
+              {workoutExercise.superset_group != null && (
+                <Badge variant="secondary" className="text-xs">
+                  Superset {getSupersetLetter(workoutExercise.superset_group)}
+                </Badge>
+              )}
             </div>
             <div className="flex items-center gap-4 text-sm text-muted-foreground">
-              <span>{workoutExercise.sets} sets × {workoutExercise.reps} reps</span>
-              {workoutExercise.weight && (
+              {isCardio ? (
+                <span>{describeCardioTarget(workoutExercise.cardio_target) || 'No target set'}</span>
+              ) : (
+                <span>{workoutExercise.sets} sets × {workoutExercise.reps} reps</span>
+              )}
+              {!isCardio && workoutExercise.weight && (
                 <>
                   <span>•</span>
                   <span>{workoutExercise.weight}</span>
@@ -296,8 +331,118 @@ export default function WorkoutExerciseCard({
                 </div>
               </div>
 
+              {/* Cardio Target */}
+              {isCardio && (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor={`duration-${workoutExercise.id}`} className="text-xs font-medium">
+                      Duration (min)
+                    </Label>
+                    <Input
+                      id={`duration-${workoutExercise.id}`}
+                      type="number"
+                      min="0"
+                      value={cardioTarget.durationSeconds ? cardioTarget.durationSeconds / 60 : ''}
+                      onChange={(e) => {
+                        const minutes = parseOptional(e.target.value)
+                        updateCardioTarget({ durationSeconds: minutes !== undefined ? Math.round(minutes * 60) : undefined })
+                      }}
+                      placeholder="e.g., 30"
+                      className="h-8 mt-1"
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor={`distance-${workoutExercise.id}`} className="text-xs font-medium">
+                      Distance (km)
+                    </Label>
+                    <Input
+                      id={`distance-${workoutExercise.id}`}
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={cardioTarget.distanceMeters ? cardioTarget.distanceMeters / 1000 : ''}
+                      onChange={(e) => {
+                        const km = parseOptional(e.target.value)
+                        updateCardioTarget({ distanceMeters: km !== undefined ? Math.round(km * 1000) : undefined })
+                      }}
+                      placeholder="e.g., 5"
+                      className="h-8 mt-1"
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor={`pace-${workoutExercise.id}`} className="text-xs font-medium">
+                      Pace (min/km)
+                    </Label>
+                    <Input
+                      id={`pace-${workoutExercise.id}`}
+                      key={cardioTarget.paceSecondsPerKm ?? 'none'}
+                      defaultValue={cardioTarget.paceSecondsPerKm ? formatDuration(cardioTarget.paceSecondsPerKm) : ''}
+                      onBlur={(e) => updateCardioTarget({ paceSecondsPerKm: parseDuration(e.target.value) ?? undefined })}
+                      placeholder="e.g., 5:30"
+                      className="h-8 mt-1"
+                    />
+                  </div>
+
+                  <div>
+                    <Label className="text-xs font-medium">Heart Rate Zone</Label>
+                    <Select
+                      value={cardioTarget.heartRateZone?.toString() || 'none'}
+                      onValueChange={(value) => updateCardioTarget({ heartRateZone: value === 'none' ? undefined : parseInt(value) })}
+                    >
+                      <SelectTrigger className="h-8 mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Any</SelectItem>
+                        {HEART_RATE_ZONES.map(zone => (
+                          <SelectItem key={zone.zone} value={zone.zone.toString()}>
+                            <div>
+                              <div>Zone {zone.zone} - {zone.label}</div>
+                              <div className="text-xs text-muted-foreground">{zone.minPercent}-{zone.maxPercent}% of max HR</div>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label htmlFor={`incline-${workoutExercise.id}`} className="text-xs font-medium">
+                      Incline (%)
+                    </Label>
+                    <Input
+                      id={`incline-${workoutExercise.id}`}
+                      type="number"
+                      step="0.5"
+                      value={cardioTarget.incline ?? ''}
+                      onChange={(e) => updateCardioTarget({ incline: parseOptional(e.target.value) })}
+                      className="h-8 mt-1"
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor={`resistance-${workoutExercise.id}`} className="text-xs font-medium">
+                      Resistance Level
+                    </Label>
+                    <Input
+                      id={`resistance-${workoutExercise.id}`}
+                      type="number"
+                      min="0"
+                      value={cardioTarget.resistance ?? ''}
+                      onChange={(e) => {
+                        const level = parseOptional(e.target.value)
+                        updateCardioTarget({ resistance: level !== undefined ? Math.round(level) : undefined })
+                      }}
+                      className="h-8 mt-1"
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* Advanced Options */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
                   <Label className="text-xs font-medium">RPE Target</Label>
                   <Select 
@@ -332,8 +477,100 @@ export default function WorkoutExerciseCard({
                     className="h-8 mt-1"
                   />
                 </div>
+
+                <div>
+                  <Label className="text-xs font-medium">Superset</Label>
+                  <Select
+                    value={workoutExercise.superset_group?.toString() || 'none'}
+                    onValueChange={(value) => onUpdate({ superset_group: value === 'none' ? null : parseInt(value) })}
+                  >
+                    <SelectTrigger className="h-8 mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {SUPERSET_GROUPS.map(group => (
+                        <SelectItem key={group} value={group.toString()}>
+                          Superset {getSupersetLetter(group)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
+              {/* Progression */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label className="text-xs font-medium">Warm-up</Label>
+                  <Select
+                    value={workoutExercise.warmup_scheme || 'none'}
+                    onValueChange={(value) => onUpdate({ warmup_scheme: value as WarmupScheme })}
+                  >
+                    <SelectTrigger className="h-8 mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WARMUP_SCHEMES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          <div>
+                            <div>{option.label}</div>
+                            <div className="text-xs text-muted-foreground">{option.description}</div>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label className="text-xs font-medium">Progression Model</Label>
+                  <Select
+                    value={workoutExercise.progression_model || 'none'}
+                    onValueChange={(value) => onUpdate({ progression_model: value as ProgressionModel })}
+                  >
+                    <SelectTrigger className="h-8 mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROGRESSION_MODELS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          <div>
+                            <div>{option.label}</div>
+                            <div className="text-xs text-muted-foreground">{option.description}</div>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {workoutExercise.progression_model && workoutExercise.progression_model !== 'none' && (
+                  <div>
+                    <Label htmlFor={`increment-${workoutExercise.id}`} className="text-xs font-medium">
+                      Load Increment (lbs)
+                    </Label>
+                    <Input
+                      id={`increment-${workoutExercise.id}`}
+                      type="number"
+                      min="0"
+                      step="2.5"
+                      value={workoutExercise.progression_increment ?? ''}
+                      onChange={(e) => onUpdate({ progression_increment: e.target.value ? parseFloat(e.target.value) : undefined })}
+                      placeholder={`${DEFAULT_PROGRESSION_INCREMENT}`}
+                      className="h-8 mt-1"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Substitutes the client may swap to mid-session */}
+              <AllowedSubstitutes
+                exerciseId={exercise.id}
+                value={workoutExercise.substitutions}
+                onChange={(substitutions) => onUpdate({ substitutions })}
+              />
+
               {/* Exercise Notes */}
               <div>
                 <Label htmlFor={`notes-${workoutExercise.id}`} className="text-xs font-medium">
@@ -6,6 +6,9 @@ import { Badge } from '@/components/ui/badge'
 import { Card, CardContent } from '@/components/ui/card'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Separator } from '@/components/ui/separator'
+import { getSupersetLetter, groupSupersets } from '@/lib/supersets'
+import { WARMUP_SCHEMES } from '@/lib/warmups'
+import { describeCardioTarget, type CardioTarget } from '@/lib/cardio'
 
 interface Exercise {
   id: number
@@ -18,6 +21,7 @@ interface Exercise {
   video_url?: string
   thumbnail_url?: string
   category: string
+  exercise_type?: 'strength' | 'cardio'
 }
 
 interface WorkoutExercise {
@@ -31,6 +35,9 @@ interface WorkoutExercise {
   order_index: number
   rpe_target?: number
   tempo?: string
+  superset_group?: number | null
+  warmup_scheme?: string
+  cardio_target?: CardioTarget | null
 }
 
 interface WorkoutBuilderState {
@@ -82,6 +89,125 @@ export default function WorkoutPreview({ workout, open, onClose }: WorkoutPrevie
   const totalSets = workout.exercises.reduce((total, ex) => total + ex.sets, 0)
   const uniqueMuscleGroups = [...new Set(workout.exercises.flatMap(ex => ex.exercise.muscle_groups || []))]
 
+  // Superset members are labelled A1, A2...; straight exercises are numbered
+  const renderExercise = (workoutExercise: WorkoutExercise, label: string) => (
+    <Card key={workoutExercise.id} variant="premium">
+      <CardContent className="p-4">
+        <div className="flex gap-4">
+          {/* Exercise Number */}
+          <div className="flex items-center justify-center w-10 h-10 bg-primary/10 rounded-full text-primary font-semibold text-lg flex-shrink-0">
+            {label}
+          </div>
+
+          {/* Exercise Image/Video */}
+          <div className="flex-shrink-0">
+            {workoutExercise.exercise.thumbnail_url || workoutExercise.exercise.video_url ? (
+              <div className="w-16 h-16 rounded-lg overflow-hidden bg-muted relative">
+                <img
+                  src={workoutExercise.exercise.thumbnail_url || workoutExercise.exercise.video_url}
+                  alt={workoutExercise.exercise.name}
+                  className="w-full h-full object-cover"
+                />
+                {workoutExercise.exercise.video_url && (
+                  <div className="absolute inset-0 flex items-center justify-center opacity-0 hover:opacity-100 bg-black/50 transition-opacity">
+                    <Play className="w-4 h-4 text-white" />
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="w-16 h-16 rounded-lg bg-muted flex items-center justify-center">
+                <Target className="w-6 h-6 text-muted-foreground" />
+              </div>
+            )}
+          </div>
+
+          {/* Exercise Details */}
+          <div className="flex-1 min-w-0">
+            <div className="flex items-start justify-between mb-2">
+              <div>
+                <h4 className="font-semibold text-lg mb-1">
+                  {workoutExercise.exercise.name}
+                </h4>
+                <div className="flex items-center gap-2 mb-2">
+                  <Badge variant="outline" className="text-xs">
+                    {workoutExercise.exercise.category}
+                  </Badge>
+                  <Badge className={difficultyColors[workoutExercise.exercise.difficulty_level]}>
+                    {workoutExercise.exercise.difficulty_level}
+                  </Badge>
+                </div>
+              </div>
+            </div>
+
+            {/* Exercise Prescription */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-3">
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-1">SETS</p>
+                <p className="text-lg font-semibold">{workoutExercise.sets}</p>
+              </div>
+              {workoutExercise.exercise.exercise_type === 'cardio' ? (
+                <div className="col-span-2">
+                  <p className="text-xs font-medium text-muted-foreground mb-1">TARGET</p>
+                  <p className="text-lg font-semibold">{describeCardioTarget(workoutExercise.cardio_target) || '—'}</p>
+                </div>
+              ) : (
+                <div>
+                  <p className="text-xs font-medium text-muted-foreground mb-1">REPS</p>
+                  <p className="text-lg font-semibold">{workoutExercise.reps}</p>
+                </div>
+              )}
+              {workoutExercise.weight && (
+                <div>
+                  <p className="text-xs font-medium text-muted-foreground mb-1">WEIGHT</p>
+                  <p className="text-lg font-semibold">{workoutExercise.weight}</p>
+                </div>
+              )}
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-1">REST</p>
+                <p className="text-lg font-semibold">{formatRestTime(workoutExercise.rest_seconds)}</p>
+              </div>
+            </div>
+
+            {/* Additional Info */}
+            <div className="flex items-center gap-4 text-sm text-muted-foreground mb-3">
+              {workoutExercise.rpe_target && (
+                <span>RPE: {workoutExercise.rpe_target}/10</span>
+              )}
+              {workoutExercise.tempo && (
+                <span>Tempo: {workoutExercise.tempo}</span>
+              )}
+              {workoutExercise.warmup_scheme && workoutExercise.warmup_scheme !== 'none' && (
+                <span>Warm-up: {WARMUP_SCHEMES.find(scheme => scheme.value === workoutExercise.warmup_scheme)?.description}</span>
+              )}
+              {workoutExercise.exercise.equipment && (
+                <span>Equipment: {workoutExercise.exercise.equipment}</span>
+              )}
+            </div>
+
+            {/* Exercise Notes */}
+            {workoutExercise.notes && (
+              <div className="bg-muted/50 rounded-lg p-3 mb-3">
+                <p className="text-sm font-medium mb-1">Coaching Notes:</p>
+                <p className="text-sm text-muted-foreground">{workoutExercise.notes}</p>
+              </div>
+            )}
+
+            {/* Muscle Groups */}
+            {workoutExercise.exercise.muscle_groups && workoutExercise.exercise.muscle_groups.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {workoutExercise.exercise.muscle_groups.map(muscle => (
+                  <Badge key={muscle} variant="secondary" className="text-xs">
+                    {muscle}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] p-0">
@@ -194,113 +320,22 @@ export default function WorkoutPreview({ workout, open, onClose }: WorkoutPrevie
               {/* Exercise List */}
               <div className="space-y-4">
                 <h3 className="text-xl font-semibold">Exercise Breakdown</h3>
-                {workout.exercises.map((workoutExercise, index) => (
-                  <Card key={workoutExercise.id} variant="premium">
-                    <CardContent className="p-4">
-                      <div className="flex gap-4">
-                        {/* Exercise Number */}
-                        <div className="flex items-center justify-center w-10 h-10 bg-primary/10 rounded-full text-primary font-semibold text-lg flex-shrink-0">
-                          {index + 1}
-                        </div>
-
-                        {/* Exercise Image/Video */}
-                        <div className="flex-shrink-0">
-                          {workoutExercise.exercise.thumbnail_url || workoutExercise.exercise.video_url ? (
-                            <div className="w-16 h-16 rounded-lg overflow-hidden bg-muted relative">
-                              <img
-                                src={workoutExercise.exercise.thumbnail_url || workoutExercise.exercise.video_url}
-                                alt={workoutExercise.exercise.name}
-                                className="w-full h-full object-cover"
-                              />
-                              {workoutExercise.exercise.video_url && (
-                                <div className="absolute inset-0 flex items-center justify-center opacity-0 hover:opacity-100 bg-black/50 transition-opacity">
-                                  <Play className="w-4 h-4 text-white" />
-                                </div>
-                              )}
-                            </div>
-                          ) : (
-                            <div className="w-16 h-16 rounded-lg bg-muted flex items-center justify-center">
-                              <Target className="w-6 h-6 text-muted-foreground" />
-                            </div>
-                          )}
-                        </div>
-
-                        {/* Exercise Details */}
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-start justify-between mb-2">
-                            <div>
-                              <h4 className="font-semibold text-lg mb-1">
-                                {workoutExercise.exercise.name}
-                              </h4>
-                              <div className="flex items-center gap-2 mb-2">
-                                <Badge variant="outline" className="text-xs">
-                                  {workoutExercise.exercise.category}
-                                </Badge>
-                                <Badge className={difficultyColors[workoutExercise.exercise.difficulty_level]}>
-                                  {workoutExercise.exercise.difficulty_level}
-                                </Badge>
-                              </div>
-                            </div>
-                          </div>
-
-                          {/* Exercise Prescription */}
-                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-3">
-                            <div>
-                              <p className="text-xs font-medium text-muted-foreground mb-1">SETS</p>
-                              <p className="text-lg font-semibold">{workoutExercise.sets}</p>
-                            </div>
-                            <div>
-                              <p className="text-xs font-medium text-muted-foreground mb-1">REPS</p>
-                              <p className="text-lg font-semibold">{workoutExercise.reps}</p>
-                            </div>
-                            {workoutExercise.weight && (
-                              <div>
-                                <p className="text-xs font-medium text-muted-foreground mb-1">WEIGHT</p>
-                                <p className="text-lg font-semibold">{workoutExercise.weight}</p>
-                              </div>
-                            )}
-                            <div>
-                              <p className="text-xs font-medium text-muted-foreground mb-1">REST</p>
-                              <p className="text-lg font-semibold">{formatRestTime(workoutExercise.rest_seconds)}</p>
-                            </div>
-                          </div>
-
-                          {/* Additional Info */}
-                          <div className="flex items-center gap-4 text-sm text-muted-foreground mb-3">
-                            {workoutExercise.rpe_target && (
-                              <span>RPE: {workoutExercise.rpe_target}/10</span>
-                            )}
-                            {workoutExercise.tempo && (
-                              <span>Tempo: {workoutExercise.tempo}</span>
-                            )}
-                            {workoutExercise.exercise.equipment && (
-                              <span>Equipment: {workoutExercise.exercise.equipment}</span>
-                            )}
-                          </div>
-
-                          {/* Exercise Notes */}
-                          {workoutExercise.notes && (
-                            <div className="bg-muted/50 rounded-lg p-3 mb-3">
-                              <p className="text-sm font-medium mb-1">Coaching Notes:</p>
-                              <p className="text-sm text-muted-foreground">{workoutExercise.notes}</p>
-                            </div>
-                          )}
-
-                          {/* Muscle Groups */}
-                          {workoutExercise.exercise.muscle_groups && workoutExercise.exercise.muscle_groups.length > 0 && (
-                            <div className="flex flex-wrap gap-1">
-                              {workoutExercise.exercise.muscle_groups.map(muscle => (
-                                <Badge key={muscle} variant="secondary" className="text-xs">
-                                  {muscle}
-                                </Badge>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                {groupSupersets(workout.exercises).map(run => run.length > 1 ? (
+                  <div key={run[0].id} className="rounded-xl border-2 border-dashed border-primary/40 p-3 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">
+                        {run.length > 2 ? 'Giant Set' : 'Superset'} {getSupersetLetter(run[0].superset_group!)}
+                      </Badge>
+                      <span className="text-sm text-muted-foreground">
+                        {Math.max(...run.map(ex => ex.sets))} rounds • rest after the last exercise of each round
+                      </span>
+                    </div>
+                    {run.map((workoutExercise, position) => renderExercise(
+                      workoutExercise,
+                      `${getSupersetLetter(workoutExercise.superset_group!)}${position + 1}`
+                    ))}
+                  </div>
+                ) : renderExercise(run[0], `${workout.exercises.indexOf(run[0]) + 1}`))}
               </div>
             </div>
           </ScrollArea>
@@ -10,7 +10,9 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { LoadingSpinner } from '@/components/ui/loading'
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
 import { supabase } from '@/lib/supabase'
+import { hasEquipment } from '@/lib/equipment'
 import { cn } from '@/lib/utils'
+import EquipmentProfileSelect, { type ClientEquipmentProfile } from './EquipmentProfileSelect'
 
 interface Exercise {
   id: number
@@ -133,6 +135,7 @@ export default function WorkoutSidebar({ open, onClose, onExerciseSelect }: Work
   const [selectedCategory, setSelectedCategory] = useState<string>('all')
   const [selectedDifficulty, setSelectedDifficulty] = useState<string>('all')
   const [selectedEquipment, setSelectedEquipment] = useState<string>('all')
+  const [equipmentProfile, setEquipmentProfile] = useState<ClientEquipmentProfile | null>(null)
   const [showFilters, setShowFilters] = useState(false)
 
   const { user } = useSupabaseAuth()
@@ -183,10 +186,11 @@ export default function WorkoutSidebar({ open, onClose, onExerciseSelect }: Work
       const matchesCategory = selectedCategory === 'all' || exercise.category === selectedCategory
       const matchesDifficulty = selectedDifficulty === 'all' || exercise.difficulty_level === selectedDifficulty
       const matchesEquipment = selectedEquipment === 'all' || exercise.equipment === selectedEquipment
+      const matchesProfile = !equipmentProfile || hasEquipment(exercise.equipment, equipmentProfile.equipment)
 
-      return matchesSearch && matchesCategory && matchesDifficulty && matchesEquipment
+      return matchesSearch && matchesCategory && matchesDifficulty && matchesEquipment && matchesProfile
     })
-  }, [exercises, searchTerm, selectedCategory, selectedDifficulty, selectedEquipment])
+  }, [exercises, searchTerm, selectedCategory, selectedDifficulty, selectedEquipment, equipmentProfile])
 
   if (!open) return null
 
@@ -221,7 +225,7 @@ export default function WorkoutSidebar({ open, onClose, onExerciseSelect }: Work
         >
           <Filter className="w-4 h-4" />
           Filters
-          {(selectedCategory !== 'all' || selectedDifficulty !== 'all' || selectedEquipment !== 'all') && (
+          {(selectedCategory !== 'all' || selectedDifficulty !== 'all' || selectedEquipment !== 'all' || equipmentProfile) && (
             <Badge variant="secondary" className="ml-auto">Active</Badge>
           )}
         </Button>
@@ -277,6 +281,11 @@ export default function WorkoutSidebar({ open, onClose, onExerciseSelect }: Work
                 </SelectContent>
               </Select>
             </div>
+
+            <div>
+              <Label className="text-xs font-medium mb-1 block">Client Equipment</Label>
+              <EquipmentProfileSelect value={equipmentProfile} onChange={setEquipmentProfile} className="h-8" />
+            </div>
           </div>
         )}
 
@@ -296,7 +305,7 @@ export default function WorkoutSidebar({ open, onClose, onExerciseSelect }: Work
             <div className="text-center py-8">
               <Target className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
               <p className="text-sm text-muted-foreground">
-                {searchTerm || selectedCategory !== 'all' || selectedDifficulty !== 'all' || selectedEquipment !== 'all'
+                {searchTerm || selectedCategory !== 'all' || selectedDifficulty !== 'all' || selectedEquipment !== 'all' || equipmentProfile
                   ? 'No exercises match your filters'
                   : 'No exercises found'
                 }
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { useToast } from "@/hooks/use-toast";
+import { useSupabaseAuth } from "@/hooks/useSupabaseAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import {
+  COMMON_EQUIPMENT,
+  EQUIPMENT_PROFILE_LABELS,
+  EQUIPMENT_PROFILE_TYPES,
+  type EquipmentProfile,
+  type EquipmentProfileType,
+} from "@/lib/equipment";
+
+interface EquipmentProfilesResponse {
+  profiles: EquipmentProfile[];
+  activeProfileId: number | null;
+}
+
+interface EquipmentProfilesProps {
+  // clients.id of the client whose profiles are managed
+  clientId: number;
+}
+
+interface ProfileDraft {
+  id: number | null;
+  name: string;
+  profileType: EquipmentProfileType;
+  equipment: string[];
+}
+
+const emptyDraft: ProfileDraft = { id: null, name: "", profileType: "home", equipment: [] };
+
+const profileIcons: Record<EquipmentProfileType, string> = {
+  home: "ri-home-4-line",
+  gym: "ri-building-line",
+  travel: "ri-suitcase-line",
+};
+
+export default function EquipmentProfiles({ clientId }: EquipmentProfilesProps) {
+  const { toast } = useToast();
+  const { session } = useSupabaseAuth();
+  const queryClient = useQueryClient();
+
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [customItem, setCustomItem] = useState("");
+
+  const profilesKey = [`/api/clients/${clientId}/equipment-profiles`];
+
+  const { data, isLoading } = useQuery<EquipmentProfilesResponse>({
+    queryKey: profilesKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/clients/${clientId}/equipment-profiles`, undefined, session);
+      return response.json();
+    },
+    enabled: !!session,
+  });
+
+  const invalidateProfiles = () => {
+    queryClient.invalidateQueries({ queryKey: profilesKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/coach/equipment-profiles"] });
+  };
+
+  const saveProfile = useMutation({
+    mutationFn: async (profile: ProfileDraft) => {
+      const body = { name: profile.name, profileType: profile.profileType, equipment: profile.equipment };
+      const response = profile.id === null
+        ? await apiRequest("POST", `/api/clients/${clientId}/equipment-profiles`, body, session)
+        : await apiRequest("PUT", `/api/equipment-profiles/${profile.id}`, body, session);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateProfiles();
+      setDraft(null);
+      toast({ title: "Equipment profile saved" });
+    },
+    onError: () => {
+      toast({ title: "Couldn't save the equipment profile", variant: "destructive" });
+    },
+  });
+
+  const deleteProfile = useMutation({
+    mutationFn: async (profileId: number) => {
+      await apiRequest("DELETE", `/api/equipment-profiles/${profileId}`, undefined, session);
+    },
+    onSuccess: () => {
+      invalidateProfiles();
+      toast({ title: "Equipment profile deleted" });
+    },
+    onError: () => {
+      toast({ title: "Couldn't delete the equipment profile", variant: "destructive" });
+    },
+  });
+
+  const setActiveProfile = useMutation({
+    mutationFn: async (activeEquipmentProfileId: number | null) => {
+      const response = await apiRequest("PUT", `/api/clients/${clientId}/equipment-profiles/active`, {
+        activeEquipmentProfileId,
+      }, session);
+      return response.json();
+    },
+    onSuccess: (saved: { activeProfileId: number | null }) => {
+      queryClient.setQueryData<EquipmentProfilesResponse>(profilesKey, current =>
+        current && { ...current, activeProfileId: saved.activeProfileId });
+      toast({
+        title: "Active profile updated",
+        description: "Workouts are checked against this equipment before each session.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Couldn't switch the active profile", variant: "destructive" });
+    },
+  });
+
+  const toggleItem = (item: string) => {
+    setDraft(prev => prev && {
+      ...prev,
+      equipment: prev.equipment.includes(item)
+        ? prev.equipment.filter(value => value !== item)
+        : [...prev.equipment, item],
+    });
+  };
+
+  const addCustomItem = () => {
+    const item = customItem.trim();
+    if (!item) return;
+    setDraft(prev => prev && !prev.equipment.some(value => value.toLowerCase() === item.toLowerCase())
+      ? { ...prev, equipment: [...prev.equipment, item] }
+      : prev);
+    setCustomItem("");
+  };
+
+  const profiles = data?.profiles ?? [];
+  const activeProfileId = data?.activeProfileId ?? null;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Label className="text-sm">Training with</Label>
+          <Select
+            value={activeProfileId ? `${activeProfileId}` : "none"}
+            onValueChange={(value) => setActiveProfile.mutate(value === "none" ? null : parseInt(value, 10))}
+            disabled={setActiveProfile.isPending}
+          >
+            <SelectTrigger className="h-9 w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Any equipment</SelectItem>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={`${profile.id}`}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {!draft && (
+          <Button variant="outline" size="sm" onClick={() => setDraft(emptyDraft)}>
+            <i className="ri-add-line mr-1" />
+            New Profile
+          </Button>
+        )}
+      </div>
+
+      {profiles.length === 0 && !draft && (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No equipment profiles yet. Add one for each place you train.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {profiles.map(profile => {
+          const profileType = (profile.profileType ?? "gym") as EquipmentProfileType;
+          return (
+            <div
+              key={profile.id}
+              className={cn("rounded-lg border p-3 space-y-2", profile.id === activeProfileId && "border-primary bg-primary/5")}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <i className={cn(profileIcons[profileType], "text-lg text-muted-foreground")} />
+                  <span className="font-medium truncate">{profile.name}</span>
+                  {profile.id === activeProfileId && <Badge>Active</Badge>}
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft({ id: profile.id, name: profile.name, profileType, equipment: profile.equipment })}
+                  >
+                    <i className="ri-pencil-line" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteProfile.mutate(profile.id)}
+                    disabled={deleteProfile.isPending}
+                  >
+                    <i className="ri-delete-bin-line" />
+                  </Button>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">{EQUIPMENT_PROFILE_LABELS[profileType]}</p>
+              <div className="flex flex-wrap gap-1">
+                {profile.equipment.length === 0 ? (
+                  <span className="text-xs text-muted-foreground">Bodyweight only</span>
+                ) : (
+                  profile.equipment.map(item => <Badge key={item} variant="outline">{item}</Badge>)
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {draft && (
+        <div className="rounded-lg border p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="equipment-profile-name">Name</Label>
+              <Input
+                id="equipment-profile-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                maxLength={50}
+                placeholder="e.g. Home garage, Hotel gym"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select
+                value={draft.profileType}
+                onValueChange={(value) => setDraft({ ...draft, profileType: value as EquipmentProfileType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EQUIPMENT_PROFILE_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{EQUIPMENT_PROFILE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Equipment</Label>
+            <div className="flex flex-wrap gap-1">
+              {Array.from(new Set([...COMMON_EQUIPMENT, ...draft.equipment])).map(item => (
+                <button key={item} type="button" onClick={() => toggleItem(item)}>
+                  <Badge variant={draft.equipment.includes(item) ? "default" : "outline"}>{item}</Badge>
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={customItem}
+                onChange={(e) => setCustomItem(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addCustomItem();
+                  }
+                }}
+                maxLength={50}
+                placeholder="Other equipment"
+              />
+              <Button variant="outline" onClick={addCustomItem} disabled={!customItem.trim()}>
+                Add
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={() => saveProfile.mutate(draft)} disabled={!draft.name.trim() || saveProfile.isPending}>
+              {saveProfile.isPending ? "Saving..." : "Save Profile"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO, subMonths, subWeeks, subYears } from "date-fns";
+import { Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { useTheme } from "next-themes";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useSupabaseAuth } from "@/hooks/useSupabaseAuth";
+
+// Register ChartJS components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface LoadReps {
+  weight: number;
+  reps: number;
+}
+
+interface ExerciseHistorySession {
+  source: "session" | "log";
+  id: number;
+  date: string;
+  sets: number;
+  totalReps: number;
+  totalVolume: number;
+  topSet: LoadReps | null;
+  estimatedOneRepMax: number | null;
+  bestRepsByLoad: LoadReps[];
+  durationSeconds: number | null;
+  distanceMeters: number | null;
+}
+
+interface ExerciseHistory {
+  exerciseId: number;
+  unit: "kg" | "lbs";
+  formula: "epley" | "brzycki";
+  periodStart: string | null;
+  periodEnd: string | null;
+  sessions: ExerciseHistorySession[];
+  bestRepsByLoad: LoadReps[];
+}
+
+type HistoryRange = "4w" | "3m" | "6m" | "1y" | "all";
+type HistoryMetric = "oneRepMax" | "topSet" | "volume";
+
+const RANGES: { value: HistoryRange; label: string; start: (end: Date) => Date | null }[] = [
+  { value: "4w", label: "4 weeks", start: end => subWeeks(end, 4) },
+  { value: "3m", label: "3 months", start: end => subMonths(end, 3) },
+  { value: "6m", label: "6 months", start: end => subMonths(end, 6) },
+  { value: "1y", label: "1 year", start: end => subYears(end, 1) },
+  { value: "all", label: "All time", start: () => null }
+];
+
+interface ExerciseHistoryChartProps {
+  // clients.id
+  clientId: number;
+  exerciseId: number;
+}
+
+export default function ExerciseHistoryChart({ clientId, exerciseId }: ExerciseHistoryChartProps) {
+  const { theme } = useTheme();
+  const { session } = useSupabaseAuth();
+  const [range, setRange] = useState<HistoryRange>("3m");
+  const [metric, setMetric] = useState<HistoryMetric>("oneRepMax");
+
+  const { data: history, isLoading } = useQuery<ExerciseHistory>({
+    queryKey: [`/api/clients/${clientId}/exercises/${exerciseId}/history`, range],
+    queryFn: async () => {
+      const end = new Date();
+      const start = RANGES.find(option => option.value === range)!.start(end);
+      const query = start
+        ? `?startDate=${format(start, "yyyy-MM-dd")}&endDate=${format(end, "yyyy-MM-dd")}`
+        : "";
+      const response = await apiRequest("GET", `/api/clients/${clientId}/exercises/${exerciseId}/history${query}`, undefined, session);
+      return response.json();
+    },
+    enabled: !!session
+  });
+
+  const sessions = history?.sessions ?? [];
+  const unit = history?.unit ?? "lbs";
+  const textColor = theme === "dark" ? "#cbd5e1" : "#475569";
+  const gridColor = theme === "dark" ? "rgba(203, 213, 225, 0.1)" : "rgba(71, 85, 105, 0.1)";
+
+  const values = sessions.map(entry =>
+    metric === "oneRepMax" ? entry.estimatedOneRepMax
+      : metric === "topSet" ? entry.topSet?.weight ?? null
+      : entry.totalVolume || null
+  );
+  const metricLabel = metric === "oneRepMax" ? `Estimated 1RM (${unit})`
+    : metric === "topSet" ? `Top set (${unit})`
+    : `Volume (${unit} × reps)`;
+
+  const chartData = {
+    labels: sessions.map(entry => format(parseISO(entry.date), "MMM d")),
+    datasets: [
+      {
+        label: metricLabel,
+        data: values,
+        borderColor: "#3B82F6",
+        backgroundColor: "rgba(59, 130, 246, 0.1)",
+        borderWidth: 2,
+        tension: 0.3,
+        pointRadius: 3,
+        pointHoverRadius: 6,
+        spanGaps: true
+      }
+    ]
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false
+      },
+      tooltip: {
+        mode: "index" as const,
+        intersect: false,
+        callbacks: {
+          // Show the set behind the number, e.g. "225 lbs × 5"
+          afterLabel: (context: { dataIndex: number }) => {
+            const topSet = sessions[context.dataIndex]?.topSet;
+            return topSet ? `Top set: ${topSet.weight} ${unit} × ${topSet.reps}` : "";
+          }
+        }
+      }
+    },
+    scales: {
+      y: {
+        ticks: { color: textColor },
+        grid: { color: gridColor }
+      },
+      x: {
+        ticks: { color: textColor },
+        grid: { color: gridColor }
+      }
+    }
+  };
+
+  const recorded = values.filter((value): value is number => value !== null);
+  const change = recorded.length > 1 ? Math.round((recorded[recorded.length - 1] - recorded[0]) * 10) / 10 : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Tabs value={metric} onValueChange={(value) => setMetric(value as HistoryMetric)}>
+          <TabsList>
+            <TabsTrigger value="oneRepMax">Est. 1RM</TabsTrigger>
+            <TabsTrigger value="topSet">Top Set</TabsTrigger>
+            <TabsTrigger value="volume">Volume</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Select value={range} onValueChange={(value) => setRange(value as HistoryRange)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground text-center py-12">Loading history...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-12">No sessions logged in this period.</p>
+      ) : (
+        <>
+          <div className="h-[260px]">
+            <Line data={chartData} options={chartOptions} />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <div className="text-xl font-bold">{sessions.length}</div>
+              <div className="text-xs text-muted-foreground">sessions</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold">{recorded.length > 0 ? Math.max(...recorded) : "–"}</div>
+              <div className="text-xs text-muted-foreground">best</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold">
+                {change === null ? "–" : `${change > 0 ? "+" : ""}${change}`}
+              </div>
+              <div className="text-xs text-muted-foreground">change</div>
+            </div>
+          </div>
+
+          {history && history.bestRepsByLoad.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium mb-2">Best reps at each load</h4>
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {history.bestRepsByLoad.slice(0, 12).map(entry => (
+                  <div key={entry.weight} className="rounded-md border px-2 py-1 text-sm text-center">
+                    {entry.weight} {unit} × {entry.reps}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { cn } from "@/lib/utils";
+import {
+  ANNOTATION_COLORS,
+  ANNOTATION_WINDOW_MS,
+  FRAME_STEP_SECONDS,
+  PLAYBACK_RATES,
+  drawAnnotation,
+  formatClipTime,
+  type FormAnnotation,
+  type FormReviewComment,
+} from "@/lib/form-review";
+
+interface FormReviewPlayerProps {
+  videoUrl: string;
+  comments: FormReviewComment[];
+  // Strokes for a comment being written; drawing is on when onDraftChange is given
+  draft?: FormAnnotation | null;
+  onDraftChange?: (draft: FormAnnotation | null) => void;
+  onTimeChange?: (ms: number) => void;
+  onDeleteComment?: (comment: FormReviewComment) => void;
+}
+
+const STROKE_WIDTH = 4;
+const MAX_STROKE_POINTS = 500;
+
+// Clip player for form reviews: frame stepping, slow motion and comment drawings over the frame
+export default function FormReviewPlayer({
+  videoUrl,
+  comments,
+  draft = null,
+  onDraftChange,
+  onTimeChange,
+  onDeleteComment,
+}: FormReviewPlayerProps) {
+  const [playing, setPlaying] = useState(false);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [durationMs, setDurationMs] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [aspectRatio, setAspectRatio] = useState(16 / 9);
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  const canDraw = !!onDraftChange;
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.playbackRate = rate;
+  }, [rate]);
+
+  useEffect(() => {
+    onTimeChange?.(currentMs);
+  }, [currentMs]);
+
+  // Drawings near the current moment, and the one being drawn
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = canvas.clientWidth * scale;
+    canvas.height = canvas.clientHeight * scale;
+    context.setTransform(scale, 0, 0, scale, 0, 0);
+    context.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight);
+
+    comments
+      .filter((comment) => comment.annotation && Math.abs(comment.timestampMs - currentMs) <= ANNOTATION_WINDOW_MS)
+      .forEach((comment) => drawAnnotation(context, comment.annotation!, canvas.clientWidth, canvas.clientHeight));
+    if (draft) drawAnnotation(context, draft, canvas.clientWidth, canvas.clientHeight);
+  }, [comments, draft, currentMs, aspectRatio]);
+
+  const seek = (ms: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = Math.min(Math.max(ms / 1000, 0), video.duration || 0);
+    setCurrentMs(Math.round(video.currentTime * 1000));
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) video.play();
+    else video.pause();
+  };
+
+  const stepFrame = (direction: 1 | -1) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    seek((video.currentTime + direction * FRAME_STEP_SECONDS) * 1000);
+  };
+
+  const pointAt = (event: PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+    return [clamp((event.clientX - bounds.left) / bounds.width), clamp((event.clientY - bounds.top) / bounds.height)];
+  };
+
+  const startStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!onDraftChange) return;
+    videoRef.current?.pause();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    const stroke = { color, width: STROKE_WIDTH, points: [pointAt(event)] };
+    onDraftChange({ strokes: [...(draft?.strokes ?? []), stroke] });
+  };
+
+  const extendStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!onDraftChange || !drawingRef.current || !draft) return;
+    const strokes = draft.strokes.slice();
+    const last = strokes[strokes.length - 1];
+    if (last.points.length >= MAX_STROKE_POINTS) return;
+    strokes[strokes.length - 1] = { ...last, points: [...last.points, pointAt(event)] };
+    onDraftChange({ strokes });
+  };
+
+  const endStroke = () => {
+    drawingRef.current = false;
+  };
+
+  const undoStroke = () => {
+    if (!onDraftChange || !draft) return;
+    const strokes = draft.strokes.slice(0, -1);
+    onDraftChange(strokes.length > 0 ? { strokes } : null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative w-full overflow-hidden rounded-lg bg-black" style={{ aspectRatio }}>
+        <video
+          ref={videoRef}
+          src={videoUrl}
+          preload="metadata"
+          playsInline
+          className="absolute inset-0 w-full h-full"
+          onLoadedMetadata={(event) => {
+            const video = event.currentTarget;
+            setDurationMs(Math.round(video.duration * 1000));
+            if (video.videoWidth && video.videoHeight) setAspectRatio(video.videoWidth / video.videoHeight);
+            video.playbackRate = rate;
+          }}
+          onTimeUpdate={(event) => setCurrentMs(Math.round(event.currentTarget.currentTime * 1000))}
+          onSeeked={(event) => setCurrentMs(Math.round(event.currentTarget.currentTime * 1000))}
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+        />
+        <canvas
+          ref={canvasRef}
+          className={cn("absolute inset-0 w-full h-full", canDraw ? "cursor-crosshair touch-none" : "pointer-events-none")}
+          onPointerDown={startStroke}
+          onPointerMove={extendStroke}
+          onPointerUp={endStroke}
+          onPointerCancel={endStroke}
+        />
+      </div>
+
+      <Slider
+        value={[currentMs]}
+        max={Math.max(durationMs, 1)}
+        step={10}
+        onValueChange={([ms]) => seek(ms)}
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="icon" onClick={() => stepFrame(-1)} title="Previous frame">
+            <i className="ri-skip-back-mini-line" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={togglePlay} title={playing ? "Pause" : "Play"}>
+            <i className={playing ? "ri-pause-fill" : "ri-play-fill"} />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => stepFrame(1)} title="Next frame">
+            <i className="ri-skip-forward-mini-line" />
+          </Button>
+          <span className="ml-2 text-sm tabular-nums text-muted-foreground">
+            {formatClipTime(currentMs)} / {formatClipTime(durationMs)}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          {PLAYBACK_RATES.map((option) => (
+            <Button
+              key={option}
+              variant={rate === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => setRate(option)}
+            >
+              {option}×
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {canDraw && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Draw on the frame:</span>
+          {ANNOTATION_COLORS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              aria-label={`Draw in ${option}`}
+              className={cn("h-6 w-6 rounded-full border-2", color === option ? "border-foreground" : "border-transparent")}
+              style={{ backgroundColor: option }}
+              onClick={() => setColor(option)}
+            />
+          ))}
+          <Button variant="ghost" size="sm" disabled={!draft} onClick={undoStroke}>
+            <i className="ri-arrow-go-back-line mr-1" />
+            Undo
+          </Button>
+          <Button variant="ghost" size="sm" disabled={!draft} onClick={() => onDraftChange?.(null)}>
+            Clear
+          </Button>
+        </div>
+      )}
+
+      {comments.length > 0 && (
+        <div className="space-y-2 max-h-56 overflow-auto">
+          {comments.map((comment) => (
+            <div
+              key={comment.id}
+              className={cn(
+                "flex items-start gap-2 rounded-lg border p-2 text-sm cursor-pointer hover:bg-muted/50",
+                Math.abs(comment.timestampMs - currentMs) <= ANNOTATION_WINDOW_MS && "border-primary"
+              )}
+              onClick={() => {
+                videoRef.current?.pause();
+                seek(comment.timestampMs);
+              }}
+            >
+              <Badge variant="outline" className="tabular-nums">{formatClipTime(comment.timestampMs)}</Badge>
+              <p className="flex-1">{comment.body}</p>
+              {comment.annotation && <i className="ri-brush-line text-muted-foreground" title="Has a drawing" />}
+              {onDeleteComment && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onDeleteComment(comment);
+                  }}
+                >
+                  <i className="ri-delete-bin-line" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useQueryClient } from "@tanstack/react-query";
+
+const optionalAmount = z.preprocess(
+  (val) => (val === "" || val === undefined ? undefined : Number(val)),
+  z.number().int("Use whole numbers").min(0, "Can't be negative").optional()
+);
+
+const formSchema = z.object({
+  calories: optionalAmount,
+  proteinGrams: optionalAmount,
+  carbsGrams: optionalAmount,
+  fatGrams: optionalAmount,
+  date: z.string().min(1, "Date is required"),
+  notes: z.string().optional(),
+}).refine(
+  (values) => [values.calories, values.proteinGrams, values.carbsGrams, values.fatGrams].some((value) => value !== undefined),
+  { message: "Enter calories or at least one macro", path: ["calories"] }
+);
+
+type FormValues = z.infer<typeof formSchema>;
+
+const MACRO_FIELDS = [
+  { name: "calories", label: "Calories" },
+  { name: "proteinGrams", label: "Protein (g)" },
+  { name: "carbsGrams", label: "Carbs (g)" },
+  { name: "fatGrams", label: "Fat (g)" },
+] as const;
+
+interface NutritionLogFormProps {
+  // The plan the day is logged against, when the client has one
+  nutritionPlanId?: number;
+}
+
+// A day's intake; days with a log count toward the client's nutrition compliance
+export default function NutritionLogForm({ nutritionPlanId }: NutritionLogFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const emptyValues = {
+    calories: undefined,
+    proteinGrams: undefined,
+    carbsGrams: undefined,
+    fatGrams: undefined,
+    date: format(new Date(), "yyyy-MM-dd"),
+    notes: "",
+  };
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyValues,
+  });
+
+  const onSubmit = async (values: FormValues) => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest("POST", "/api/nutrition-logs", {
+        nutritionPlanId: nutritionPlanId ?? null,
+        date: values.date,
+        calories: values.calories ?? null,
+        proteinGrams: values.proteinGrams ?? null,
+        carbsGrams: values.carbsGrams ?? null,
+        fatGrams: values.fatGrams ?? null,
+        notes: values.notes || null,
+      });
+
+      toast({
+        title: "Success!",
+        description: "Your nutrition has been logged.",
+      });
+      form.reset({ ...emptyValues, date: format(new Date(), "yyyy-MM-dd") });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-logs"] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to log nutrition. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-4">
+          Log Today's Nutrition
+        </h3>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {MACRO_FIELDS.map((macro) => (
+                <FormField
+                  key={macro.name}
+                  control={form.control}
+                  name={macro.name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                        {macro.label}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          {...field}
+                          value={field.value ?? ""}
+                          className="focus:ring-2 focus:ring-primary"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                    Date
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      {...field}
+                      className="focus:ring-2 focus:ring-primary"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                    Notes (optional)
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="How did today's eating go?"
+                      rows={2}
+                      {...field}
+                      className="focus:ring-2 focus:ring-primary"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="submit"
+              className="w-full bg-primary hover:bg-blue-600"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <i className="ri-loader-4-line animate-spin mr-1"></i> Saving...
+                </>
+              ) : (
+                <>
+                  <i className="ri-save-line mr-1"></i> Save Nutrition
+                </>
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,327 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { useToast } from "@/hooks/use-toast";
+import { useSupabaseAuth } from "@/hooks/useSupabaseAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import WorkoutSummaryDialog from "./WorkoutSummaryDialog";
+import type { ClientProgram, MissedWorkoutPolicy, WorkoutAssignment } from "@shared/schema";
+
+interface CalendarEntry extends WorkoutAssignment {
+  workoutName: string;
+  programName: string | null;
+}
+
+interface ClientCalendarResponse {
+  programs: (ClientProgram & { programName: string })[];
+  entries: CalendarEntry[];
+}
+
+interface ProgramCalendarProps {
+  clientId: number;
+  // Coaches choose each program's missed-workout policy and open session summaries
+  canManagePrograms?: boolean;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 7, label: "Sun" },
+];
+
+const missedPolicies: { value: MissedWorkoutPolicy; label: string; description: string }[] = [
+  { value: "shift", label: "Shift", description: "Missed workouts move to the next training day and the rest of the plan slides back" },
+  { value: "skip", label: "Skip", description: "Missed workouts are skipped and the plan stays on its dates" },
+  { value: "stack", label: "Stack", description: "Missed workouts are added to today" },
+];
+
+const statusClasses: Record<string, string> = {
+  scheduled: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  in_progress: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
+  completed: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  skipped: "bg-slate-200 text-slate-600 line-through dark:bg-slate-700 dark:text-slate-300",
+  cancelled: "bg-slate-200 text-slate-600 line-through dark:bg-slate-700 dark:text-slate-300",
+};
+
+const toDateKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+export default function ProgramCalendar({ clientId, canManagePrograms = false }: ProgramCalendarProps) {
+  const { toast } = useToast();
+  const { session } = useSupabaseAuth();
+  const queryClient = useQueryClient();
+
+  const [view, setView] = useState<"month" | "week">("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [trainingDays, setTrainingDays] = useState<number[]>([]);
+  const [summaryEntry, setSummaryEntry] = useState<CalendarEntry | null>(null);
+
+  // Month view shows whole weeks, Monday first, so training days line up in columns
+  const rangeStart = startOfWeek(view === "month" ? startOfMonth(anchor) : anchor, { weekStartsOn: 1 });
+  const rangeEnd = endOfWeek(view === "month" ? endOfMonth(anchor) : anchor, { weekStartsOn: 1 });
+  const from = toDateKey(rangeStart);
+  const to = toDateKey(rangeEnd);
+
+  const calendarKey = [`/api/clients/${clientId}/calendar`, from, to];
+  const trainingDaysKey = [`/api/clients/${clientId}/training-days`];
+
+  const { data: calendar, isLoading } = useQuery<ClientCalendarResponse>({
+    queryKey: calendarKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/clients/${clientId}/calendar?from=${from}&to=${to}`, undefined, session);
+      return response.json();
+    },
+    enabled: !!session,
+  });
+
+  const { data: savedTrainingDays } = useQuery<{ trainingDays: number[] | null }>({
+    queryKey: trainingDaysKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/clients/${clientId}/training-days`, undefined, session);
+      return response.json();
+    },
+    enabled: !!session,
+  });
+
+  useEffect(() => {
+    setTrainingDays(savedTrainingDays?.trainingDays ?? []);
+  }, [savedTrainingDays]);
+
+  const invalidateCalendar = () =>
+    queryClient.invalidateQueries({ queryKey: [`/api/clients/${clientId}/calendar`] });
+
+  const saveTrainingDays = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/clients/${clientId}/training-days`, {
+        trainingDays: trainingDays.length > 0 ? trainingDays : null,
+      }, session);
+      return response.json();
+    },
+    onSuccess: (saved: { trainingDays: number[] | null }) => {
+      queryClient.setQueryData(trainingDaysKey, saved);
+      invalidateCalendar();
+      toast({
+        title: "Training days saved",
+        description: "Upcoming program workouts have been moved to the new days.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Couldn't save training days", variant: "destructive" });
+    },
+  });
+
+  const updateMissedPolicy = useMutation({
+    mutationFn: async ({ clientProgramId, missedPolicy }: { clientProgramId: number; missedPolicy: MissedWorkoutPolicy }) => {
+      const response = await apiRequest("PATCH", `/api/client-programs/${clientProgramId}`, { missedPolicy }, session);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCalendar();
+      toast({ title: "Missed-workout policy updated" });
+    },
+    onError: () => {
+      toast({ title: "Couldn't update the missed-workout policy", variant: "destructive" });
+    },
+  });
+
+  const toggleTrainingDay = (day: number) => {
+    setTrainingDays(prev => prev.includes(day) ? prev.filter(value => value !== day) : [...prev, day].sort((a, b) => a - b));
+  };
+
+  const navigate = (direction: 1 | -1) => {
+    setAnchor(prev => view === "month" ? addMonths(prev, direction) : addWeeks(prev, direction));
+  };
+
+  const days: Date[] = [];
+  for (let day = rangeStart; day <= rangeEnd; day = addDays(day, 1)) days.push(day);
+
+  const entriesByDay = new Map<string, CalendarEntry[]>();
+  (calendar?.entries ?? []).forEach(entry => {
+    entriesByDay.set(entry.scheduledDate, [...(entriesByDay.get(entry.scheduledDate) ?? []), entry]);
+  });
+
+  const activePrograms = (calendar?.programs ?? []).filter(program => program.status === "active");
+  const trainingDaysChanged =
+    trainingDays.join(",") !== (savedTrainingDays?.trainingDays ?? []).join(",");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => navigate(-1)}>
+            <i className="ri-arrow-left-s-line" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => navigate(1)}>
+            <i className="ri-arrow-right-s-line" />
+          </Button>
+          <span className="font-medium ml-2">
+            {view === "month"
+              ? format(anchor, "MMMM yyyy")
+              : `${format(rangeStart, "MMM d")} – ${format(rangeEnd, "MMM d, yyyy")}`}
+          </span>
+        </div>
+        <div className="flex gap-1">
+          <Button variant={view === "month" ? "default" : "outline"} size="sm" onClick={() => setView("month")}>
+            Month
+          </Button>
+          <Button variant={view === "week" ? "default" : "outline"} size="sm" onClick={() => setView("week")}>
+            Week
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 gap-px rounded-lg border bg-border overflow-hidden">
+          {WEEKDAYS.map(day => (
+            <div key={day.value} className="bg-muted px-2 py-1 text-xs font-medium text-muted-foreground">
+              {day.label}
+            </div>
+          ))}
+          {days.map(day => {
+            const entries = entriesByDay.get(toDateKey(day)) ?? [];
+            return (
+              <div
+                key={toDateKey(day)}
+                className={cn(
+                  "bg-background p-1 space-y-1",
+                  view === "month" ? "min-h-[84px]" : "min-h-[160px]",
+                  view === "month" && !isSameMonth(day, anchor) && "opacity-50"
+                )}
+              >
+                <div className={cn(
+                  "text-xs w-6 h-6 flex items-center justify-center rounded-full",
+                  isToday(day) && "bg-primary text-primary-foreground font-semibold"
+                )}>
+                  {format(day, "d")}
+                </div>
+                {entries.map(entry => {
+                  const hasSummary = canManagePrograms && (entry.status === "completed" || entry.status === "in_progress");
+                  return (
+                    <div
+                      key={entry.id}
+                      className={cn(
+                        "rounded px-1.5 py-0.5 text-xs truncate",
+                        statusClasses[entry.status ?? "scheduled"],
+                        hasSummary && "cursor-pointer hover:opacity-80"
+                      )}
+                      title={[
+                        entry.workoutName,
+                        entry.programName && `${entry.programName} · week ${entry.weekNumber}, day ${entry.dayNumber}`,
+                        (entry.status ?? "scheduled").replace("_", " "),
+                      ].filter(Boolean).join("\n")}
+                      onClick={hasSummary ? () => setSummaryEntry(entry) : undefined}
+                    >
+                      {entry.status === "completed" && <i className="ri-check-line mr-1" />}
+                      {entry.workoutName}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {activePrograms.length > 0 && (
+        <div className="space-y-2">
+          {activePrograms.map(program => (
+            <div key={program.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{program.programName}</span>
+                <Badge variant="outline">Week {program.currentWeek ?? 1}</Badge>
+              </div>
+              {canManagePrograms ? (
+                <Select
+                  value={program.missedPolicy ?? "shift"}
+                  onValueChange={(missedPolicy) => updateMissedPolicy.mutate({
+                    clientProgramId: program.id,
+                    missedPolicy: missedPolicy as MissedWorkoutPolicy,
+                  })}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {missedPolicies.map(policy => (
+                      <SelectItem key={policy.value} value={policy.value}>
+                        {policy.label} missed workouts
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <span className="text-xs text-muted-foreground">
+                  {missedPolicies.find(policy => policy.value === (program.missedPolicy ?? "shift"))?.description}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div>
+          <p className="text-sm font-medium">Training days</p>
+          <p className="text-xs text-muted-foreground">
+            Program workouts are scheduled on these days. With none selected they follow the program's own days.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          {WEEKDAYS.map(day => (
+            <Button
+              key={day.value}
+              variant={trainingDays.includes(day.value) ? "default" : "outline"}
+              size="sm"
+              onClick={() => toggleTrainingDay(day.value)}
+            >
+              {day.label}
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            className="ml-auto"
+            onClick={() => saveTrainingDays.mutate()}
+            disabled={!trainingDaysChanged || saveTrainingDays.isPending}
+          >
+            {saveTrainingDays.isPending ? "Saving..." : "Save days"}
+          </Button>
+        </div>
+      </div>
+
+      {summaryEntry && (
+        <WorkoutSummaryDialog
+          assignmentId={summaryEntry.id}
+          workoutName={summaryEntry.workoutName}
+          open={!!summaryEntry}
+          onClose={() => setSummaryEntry(null)}
+        />
+      )}
+    </div>
+  );
+}
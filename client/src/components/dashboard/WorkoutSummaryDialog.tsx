@@ -0,0 +1,127 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { useSupabaseAuth } from "@/hooks/useSupabaseAuth";
+import { apiRequest } from "@/lib/queryClient";
+import type { ExerciseSubstitution, WorkoutAssignment, WorkoutSession } from "@shared/schema";
+
+interface SubstitutionRecord extends ExerciseSubstitution {
+  originalName: string;
+  substituteName: string;
+  substituteEquipment: string | null;
+}
+
+interface WorkoutSummary {
+  assignment: WorkoutAssignment;
+  session: WorkoutSession | null;
+  setsLogged: number;
+  substitutions: SubstitutionRecord[];
+}
+
+interface WorkoutSummaryDialogProps {
+  assignmentId: number;
+  workoutName: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export default function WorkoutSummaryDialog({ assignmentId, workoutName, open, onClose }: WorkoutSummaryDialogProps) {
+  const { session } = useSupabaseAuth();
+
+  const { data: summary, isLoading } = useQuery<WorkoutSummary>({
+    queryKey: [`/api/workout-assignments/${assignmentId}/summary`],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/workout-assignments/${assignmentId}/summary`, undefined, session);
+      return response.json();
+    },
+    enabled: open && !!session,
+  });
+
+  const workoutSession = summary?.session;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{workoutName}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : !workoutSession ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No session has been recorded for this workout yet.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="rounded-lg border p-2">
+                <p className="text-lg font-semibold">
+                  {workoutSession.exercisesCompleted ?? 0}/{workoutSession.totalExercises ?? 0}
+                </p>
+                <p className="text-xs text-muted-foreground">Exercises</p>
+              </div>
+              <div className="rounded-lg border p-2">
+                <p className="text-lg font-semibold">{summary.setsLogged}</p>
+                <p className="text-xs text-muted-foreground">Sets logged</p>
+              </div>
+              <div className="rounded-lg border p-2">
+                <p className="text-lg font-semibold">
+                  {workoutSession.totalDuration ? formatDuration(workoutSession.totalDuration) : "—"}
+                </p>
+                <p className="text-xs text-muted-foreground">Duration</p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {workoutSession.endTime
+                  ? `Finished ${format(new Date(workoutSession.endTime), "MMM d, h:mm a")}`
+                  : workoutSession.startTime && `Started ${format(new Date(workoutSession.startTime), "MMM d, h:mm a")}`}
+              </span>
+              <Badge variant="outline">{(workoutSession.status ?? "in_progress").replace("_", " ")}</Badge>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Exercise swaps</p>
+              {summary.substitutions.length === 0 ? (
+                <p className="text-xs text-muted-foreground">The workout was done as programmed.</p>
+              ) : (
+                summary.substitutions.map(substitution => (
+                  <div key={substitution.id} className="rounded-lg border p-3 text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span>
+                        <span className="text-muted-foreground line-through">{substitution.originalName}</span>
+                        {" → "}
+                        <span className="font-medium">{substitution.substituteName}</span>
+                      </span>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {format(new Date(substitution.createdAt), "h:mm a")}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1">
+                      {substitution.variationId && <Badge variant="secondary">Variation</Badge>}
+                      {substitution.substituteEquipment && <Badge variant="outline">{substitution.substituteEquipment}</Badge>}
+                    </div>
+                    {substitution.reason && (
+                      <p className="text-xs text-muted-foreground">“{substitution.reason}”</p>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
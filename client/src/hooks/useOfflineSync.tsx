@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useSupabaseAuth } from './useSupabaseAuth'
+import { useToast } from './use-toast'
+import {
+  getPendingActionCount,
+  syncOfflineQueue,
+  QUEUE_CHANGED_EVENT,
+  type SyncResult
+} from '../lib/offline-sync'
+
+// Tracks connectivity and the offline workout queue, replaying it whenever the browser comes back online
+export function useOfflineSync(onSynced?: (result: SyncResult) => void) {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [syncing, setSyncing] = useState(false)
+
+  const { session } = useSupabaseAuth()
+  const { toast } = useToast()
+
+  const refreshPendingCount = useCallback(async () => {
+    try {
+      setPendingCount(await getPendingActionCount())
+    } catch (error) {
+      console.error('Error reading offline queue:', error)
+    }
+  }, [])
+
+  const sync = useCallback(async () => {
+    if (!session || !navigator.onLine) return
+
+    setSyncing(true)
+    try {
+      const result = await syncOfflineQueue(session)
+
+      if (result.conflicts.length > 0) {
+        toast({
+          title: `${result.conflicts.length} offline ${result.conflicts.length === 1 ? 'entry' : 'entries'} couldn't be saved`,
+          description: result.conflicts[0].message,
+          variant: 'destructive'
+        })
+      } else if (result.synced > 0 && result.pending === 0) {
+        toast({
+          title: 'Workout synced',
+          description: 'Everything you logged offline has been saved.'
+        })
+      }
+
+      onSynced?.(result)
+    } catch (error) {
+      console.error('Error syncing offline workouts:', error)
+    } finally {
+      setSyncing(false)
+    }
+  }, [session, onSynced])
+
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true)
+      sync()
+    }
+    const goOffline = () => setIsOnline(false)
+
+    window.addEventListener('online', goOnline)
+    window.addEventListener('offline', goOffline)
+    window.addEventListener(QUEUE_CHANGED_EVENT, refreshPendingCount)
+    return () => {
+      window.removeEventListener('online', goOnline)
+      window.removeEventListener('offline', goOffline)
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refreshPendingCount)
+    }
+  }, [sync, refreshPendingCount])
+
+  // Anything left over from an earlier visit is sent as soon as there's a session
+  useEffect(() => {
+    refreshPendingCount()
+    sync()
+  }, [session?.access_token])
+
+  return { isOnline, pendingCount, syncing, sync }
+}
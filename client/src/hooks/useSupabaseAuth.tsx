@@ -1,5 +1,6 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react'
 import { supabase, auth } from '../lib/supabase'
+import { socketService } from '../lib/socket'
 import { useLocation } from 'wouter'
 import { useToast } from './use-toast'
 import type { User, Session } from '@supabase/supabase-js'
@@ -78,6 +79,20 @@ export function SupabaseAuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe()
   }, [])
 
+  // Real-time connection follows the signed-in user; dropped on sign-out
+  const userId = authState.user?.id
+  useEffect(() => {
+    const accessToken = authState.session?.access_token
+    if (!userId || !authState.role || !accessToken) return
+    socketService.connect(userId, authState.role, accessToken)
+      .catch(error => console.error('Error connecting to real-time server:', error))
+    return () => socketService.disconnect()
+  }, [userId, authState.role])
+
+  useEffect(() => {
+    if (authState.session?.access_token) socketService.updateToken(authState.session.access_token)
+  }, [authState.session?.access_token])
+
   const fetchUserProfile = async (userId: string) => {
     try {
       // Get fresh user data from Supabase to ensure we have latest metadata
@@ -0,0 +1,137 @@
+/**
+ * Cardio and conditioning
+ * Heart-rate zones from a measured max heart rate or one estimated from the
+ * client's age, pace from duration and distance, and calorie estimates from
+ * exercises.calories_per_minute scaled to the client's bodyweight.
+ */
+
+import type { CardioTarget } from '@shared/schema';
+import { LBS_PER_KG } from '@shared/weight-units';
+
+export type { CardioTarget };
+
+export interface HeartRateZone {
+  zone: number;
+  label: string;
+  // Share of max heart rate
+  minPercent: number;
+  maxPercent: number;
+  // Beats per minute for this client
+  min: number;
+  max: number;
+}
+
+export interface MaxHeartRate {
+  value: number;
+  source: 'measured' | 'age';
+}
+
+export const METERS_PER_MILE = 1609.344;
+
+// calories_per_minute is given for this bodyweight
+const REFERENCE_BODYWEIGHT_KG = 70;
+
+export const HEART_RATE_ZONES: Omit<HeartRateZone, 'min' | 'max'>[] = [
+  { zone: 1, label: 'Recovery', minPercent: 50, maxPercent: 60 },
+  { zone: 2, label: 'Endurance', minPercent: 60, maxPercent: 70 },
+  { zone: 3, label: 'Tempo', minPercent: 70, maxPercent: 80 },
+  { zone: 4, label: 'Threshold', minPercent: 80, maxPercent: 90 },
+  { zone: 5, label: 'Max', minPercent: 90, maxPercent: 100 }
+];
+
+export const getAge = (dateOfBirth: string, now = new Date()): number => {
+  const birth = new Date(dateOfBirth);
+  let age = now.getFullYear() - birth.getFullYear();
+  const hadBirthday = now.getMonth() > birth.getMonth() ||
+    (now.getMonth() === birth.getMonth() && now.getDate() >= birth.getDate());
+  if (!hadBirthday) age--;
+  return age;
+};
+
+/**
+ * A measured max heart rate wins; otherwise it's estimated as 220 - age
+ */
+export const getMaxHeartRate = (measured?: number | null, dateOfBirth?: string | null): MaxHeartRate | null => {
+  if (measured) return { value: measured, source: 'measured' };
+  if (!dateOfBirth) return null;
+  const age = getAge(dateOfBirth);
+  return age > 0 && age < 120 ? { value: 220 - age, source: 'age' } : null;
+};
+
+export const getHeartRateZones = (maxHeartRate: number): HeartRateZone[] =>
+  HEART_RATE_ZONES.map(zone => ({
+    ...zone,
+    min: Math.round(maxHeartRate * zone.minPercent / 100),
+    max: Math.round(maxHeartRate * zone.maxPercent / 100)
+  }));
+
+/**
+ * Zone a heart rate falls in; below zone 1 is null, above max counts as zone 5
+ */
+export const getZoneForHeartRate = (heartRate: number, maxHeartRate: number): number | null => {
+  const percent = heartRate / maxHeartRate * 100;
+  if (percent < HEART_RATE_ZONES[0].minPercent) return null;
+  return HEART_RATE_ZONES.find(zone => percent < zone.maxPercent)?.zone ?? 5;
+};
+
+/**
+ * Seconds per km, or null without both a duration and a distance
+ */
+export const calculatePace = (durationSeconds?: number | null, distanceMeters?: number | null): number | null =>
+  durationSeconds && distanceMeters ? Math.round(durationSeconds / (distanceMeters / 1000)) : null;
+
+export const formatDuration = (seconds: number) => {
+  const whole = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const rest = (whole % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+/**
+ * Parses "25", "25:30" or "1:05:00" (minutes, m:ss, h:mm:ss) into seconds
+ */
+export const parseDuration = (value: string): number | null => {
+  if (!value.trim()) return null;
+  const parts = value.trim().split(':').map(part => Number(part));
+  if (parts.length === 0 || parts.length > 3 || parts.some(part => Number.isNaN(part) || part < 0)) return null;
+  if (parts.length === 1) return Math.round(parts[0] * 60);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// Pace in the client's distance unit, e.g. "5:30 /km"
+export const formatPace = (secondsPerKm: number, metric = true) =>
+  metric
+    ? `${formatDuration(secondsPerKm)} /km`
+    : `${formatDuration(secondsPerKm * METERS_PER_MILE / 1000)} /mi`;
+
+export const formatDistance = (meters: number, metric = true) =>
+  metric ? `${Math.round(meters / 10) / 100} km` : `${Math.round(meters / METERS_PER_MILE * 100) / 100} mi`;
+
+/**
+ * Calories for a bout, scaling the exercise's per-minute rate by bodyweight when it's known
+ */
+export const estimateCalories = (
+  caloriesPerMinute: number | null | undefined,
+  durationSeconds: number | null | undefined,
+  bodyweightLbs?: number | null
+): number | null => {
+  if (!caloriesPerMinute || !durationSeconds) return null;
+  const scale = bodyweightLbs ? bodyweightLbs / LBS_PER_KG / REFERENCE_BODYWEIGHT_KG : 1;
+  return Math.round(caloriesPerMinute * (durationSeconds / 60) * scale);
+};
+
+/**
+ * One-line prescription, e.g. "30:00 · 5 km · Zone 2"
+ */
+export const describeCardioTarget = (target: CardioTarget | null | undefined, metric = true) => {
+  if (!target) return '';
+  const parts: string[] = [];
+  if (target.durationSeconds) parts.push(formatDuration(target.durationSeconds));
+  if (target.distanceMeters) parts.push(formatDistance(target.distanceMeters, metric));
+  if (target.paceSecondsPerKm) parts.push(formatPace(target.paceSecondsPerKm, metric));
+  if (target.heartRateZone) parts.push(`Zone ${target.heartRateZone}`);
+  if (target.incline !== undefined) parts.push(`${target.incline}% incline`);
+  if (target.resistance !== undefined) parts.push(`Level ${target.resistance}`);
+  return parts.join(' · ');
+};
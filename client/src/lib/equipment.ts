@@ -0,0 +1,55 @@
+/**
+ * Equipment profiles
+ * What a client has at a place they train, matched against the equipment an
+ * exercise names. An exercise can name several items ("barbell, bench");
+ * matching ignores case and a plural "s", and bodyweight exercises always
+ * match, the same as the server's substitute filtering.
+ */
+
+import { EQUIPMENT_PROFILE_TYPES, type EquipmentProfile, type EquipmentProfileType } from '@shared/schema';
+
+export { EQUIPMENT_PROFILE_TYPES };
+export type { EquipmentProfile, EquipmentProfileType };
+
+export const EQUIPMENT_PROFILE_LABELS: Record<EquipmentProfileType, string> = {
+  home: 'Home',
+  gym: 'Commercial gym',
+  travel: 'Travel / hotel'
+};
+
+// Starting points offered when a profile is created
+export const COMMON_EQUIPMENT = [
+  'Barbell',
+  'Dumbbells',
+  'Kettlebell',
+  'Bench',
+  'Squat rack',
+  'Pull-up bar',
+  'Cable machine',
+  'Resistance bands',
+  'Treadmill',
+  'Stationary bike'
+];
+
+// Equipment that every client has
+const NO_EQUIPMENT = ['', 'none', 'bodyweight', 'body weight'];
+
+const normalizeEquipment = (value: string) => value.trim().toLowerCase().replace(/s$/, '');
+
+/**
+ * Items of equipment an exercise needs, normalized; empty for bodyweight exercises
+ */
+export function equipmentItems(equipment: string | null | undefined): string[] {
+  return (equipment ?? '')
+    .split(/,|\/|&|\+|\band\b/)
+    .map(normalizeEquipment)
+    .filter(item => !NO_EQUIPMENT.includes(item));
+}
+
+/**
+ * Whether everything an exercise needs is in the available equipment
+ */
+export function hasEquipment(equipment: string | null | undefined, available: string[]): boolean {
+  const have = new Set(available.map(normalizeEquipment));
+  return equipmentItems(equipment).every(item => have.has(item));
+}
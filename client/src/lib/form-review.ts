@@ -0,0 +1,82 @@
+/**
+ * Form reviews
+ * A client's clip of one logged set, reviewed by their coach with comments at
+ * moments in the clip. A comment can carry strokes drawn over that frame;
+ * stroke points are fractions of the frame's width and height so drawings
+ * line up at any player size.
+ */
+
+import type { FormAnnotation, FormReview, FormReviewComment } from '@shared/schema';
+
+export type { FormAnnotation, FormReviewComment };
+
+// Mirrors the server's summary: the review with the set it shows
+export interface FormReviewSummary extends FormReview {
+  clientName: string;
+  exerciseId: number;
+  exerciseName: string;
+  workoutSessionId: number;
+  setNumber: number;
+  actualReps: number | null;
+  actualWeight: string | null;
+  weightUnit: string | null;
+  formRating: number | null;
+  completedAt: string;
+}
+
+export interface FormReviewDetail extends FormReviewSummary {
+  comments: FormReviewComment[];
+}
+
+export const FORM_RATING_LABELS: Record<number, string> = {
+  1: 'Needs work',
+  2: 'Below par',
+  3: 'Solid',
+  4: 'Good',
+  5: 'Excellent'
+};
+
+// Phone clips are usually 30fps; one step moves a frame
+export const FRAME_STEP_SECONDS = 1 / 30;
+
+export const PLAYBACK_RATES = [0.25, 0.5, 1];
+
+export const ANNOTATION_COLORS = ['#ef4444', '#facc15', '#22c55e', '#3b82f6'];
+
+// A comment's drawing shows while playback is this close to its moment
+export const ANNOTATION_WINDOW_MS = 400;
+
+/**
+ * Position in a clip as m:ss.t
+ */
+export function formatClipTime(ms: number): string {
+  const tenths = Math.floor(ms / 100);
+  const minutes = Math.floor(tenths / 600);
+  const seconds = Math.floor((tenths % 600) / 10);
+  return `${minutes}:${String(seconds).padStart(2, '0')}.${tenths % 10}`;
+}
+
+/**
+ * Paints an annotation's strokes onto a canvas the size of the video frame
+ */
+export function drawAnnotation(context: CanvasRenderingContext2D, annotation: FormAnnotation, width: number, height: number): void {
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+  for (const stroke of annotation.strokes) {
+    context.strokeStyle = stroke.color;
+    context.lineWidth = stroke.width;
+    context.beginPath();
+    stroke.points.forEach(([x, y], index) => {
+      if (index === 0) context.moveTo(x * width, y * height);
+      else context.lineTo(x * width, y * height);
+    });
+    // A single tap still leaves a dot
+    if (stroke.points.length === 1) context.lineTo(stroke.points[0][0] * width + 0.1, stroke.points[0][1] * height);
+    context.stroke();
+  }
+}
+
+/**
+ * Whether a review is finished and the client hasn't opened it yet
+ */
+export const isUnseenReview = (review: FormReviewSummary) => review.status === 'reviewed' && !review.seenAt;
@@ -0,0 +1,224 @@
+/**
+ * Timed workout blocks
+ * Clock logic for EMOM, AMRAP, for-time, interval (Tabata) and circuit blocks:
+ * which round and phase a block is in after a given time, when to cue the
+ * client, and how block results read back.
+ */
+
+import type { WorkoutBlockParameters, WorkoutBlockType } from '@shared/schema';
+import type { TimerCue } from './timer-cues';
+
+export type { WorkoutBlockParameters, WorkoutBlockType };
+
+// workout_blocks row as selected by the player
+export interface WorkoutBlock {
+  id: number;
+  block_type: WorkoutBlockType;
+  name: string | null;
+  order_index: number;
+  parameters: WorkoutBlockParameters;
+  notes: string | null;
+}
+
+export type BlockPhase = 'work' | 'rest' | 'done';
+
+export interface BlockClock {
+  // 1-based round in progress
+  round: number;
+  phase: BlockPhase;
+  // Seconds left in this phase; null while the client sets the pace (for-time, circuits)
+  phaseRemaining: number | null;
+  // Seconds left on the whole block; null without a time cap
+  totalRemaining: number | null;
+}
+
+// Rounds the client finished themselves; timed blocks derive rounds from the clock
+export interface BlockProgress {
+  roundsDone: number;
+  // Elapsed second the current circuit rest ends at
+  restUntil?: number | null;
+}
+
+export interface BlockResultData {
+  roundsCompleted: number | null;
+  extraReps: number | null;
+  completionTime: number | null;
+  timeCapped: boolean;
+}
+
+export const BLOCK_TYPE_LABELS: Record<WorkoutBlockType, string> = {
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+  for_time: 'For Time',
+  interval: 'Intervals',
+  circuit: 'Circuit'
+};
+
+export const TABATA: WorkoutBlockParameters = { workSeconds: 20, restSeconds: 10, rounds: 8 };
+
+export const formatClock = (seconds: number) => {
+  const whole = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
+
+const formatSpan = (seconds: number) =>
+  seconds % 60 === 0 ? `${seconds / 60} min` : seconds < 60 ? `${seconds}s` : formatClock(seconds);
+
+/**
+ * Total running time of a block, or null when the client sets the pace
+ */
+export const getBlockDuration = (type: WorkoutBlockType, params: WorkoutBlockParameters): number | null => {
+  switch (type) {
+    case 'emom':
+      return (params.intervalSeconds ?? 60) * (params.rounds ?? 1);
+    case 'amrap':
+      return params.timeCapSeconds ?? null;
+    case 'interval': {
+      const rounds = params.rounds ?? 1;
+      // No rest after the final round
+      return rounds * (params.workSeconds ?? 0) + (rounds - 1) * (params.restSeconds ?? 0);
+    }
+    case 'for_time':
+      return params.timeCapSeconds ?? null;
+    case 'circuit':
+      return null;
+  }
+};
+
+/**
+ * One-line prescription, e.g. "EMOM 10 min" or "Tabata"
+ */
+export const describeBlock = (type: WorkoutBlockType, params: WorkoutBlockParameters) => {
+  const rounds = params.rounds ?? 1;
+  switch (type) {
+    case 'emom': {
+      const interval = params.intervalSeconds ?? 60;
+      return interval === 60 ? `EMOM ${rounds} min` : `Every ${formatSpan(interval)} × ${rounds}`;
+    }
+    case 'amrap':
+      return `AMRAP ${formatSpan(params.timeCapSeconds ?? 0)}`;
+    case 'for_time':
+      return `${rounds} round${rounds === 1 ? '' : 's'} for time${params.timeCapSeconds ? ` (${formatSpan(params.timeCapSeconds)} cap)` : ''}`;
+    case 'interval':
+      return params.workSeconds === TABATA.workSeconds && params.restSeconds === TABATA.restSeconds && rounds === TABATA.rounds
+        ? 'Tabata'
+        : `${rounds} × ${params.workSeconds}s on / ${params.restSeconds}s off`;
+    case 'circuit':
+      return `${rounds} round${rounds === 1 ? '' : 's'}${params.restSeconds ? `, ${formatSpan(params.restSeconds)} rest between rounds` : ''}`;
+  }
+};
+
+/**
+ * Where a block's clock is after `elapsed` seconds
+ */
+export const getBlockClock = (
+  type: WorkoutBlockType,
+  params: WorkoutBlockParameters,
+  elapsed: number,
+  progress: BlockProgress = { roundsDone: 0 }
+): BlockClock => {
+  const rounds = params.rounds ?? 1;
+  const duration = getBlockDuration(type, params);
+  const totalRemaining = duration === null ? null : Math.max(0, duration - elapsed);
+  const capped = totalRemaining !== null && totalRemaining <= 0;
+
+  switch (type) {
+    case 'emom': {
+      const interval = params.intervalSeconds ?? 60;
+      if (capped) return { round: rounds, phase: 'done', phaseRemaining: 0, totalRemaining: 0 };
+      return {
+        round: Math.floor(elapsed / interval) + 1,
+        phase: 'work',
+        phaseRemaining: interval - (elapsed % interval),
+        totalRemaining
+      };
+    }
+    case 'amrap':
+      return {
+        round: progress.roundsDone + 1,
+        phase: capped ? 'done' : 'work',
+        phaseRemaining: totalRemaining,
+        totalRemaining
+      };
+    case 'interval': {
+      const work = params.workSeconds ?? 0;
+      const cycle = work + (params.restSeconds ?? 0);
+      if (capped) return { round: rounds, phase: 'done', phaseRemaining: 0, totalRemaining: 0 };
+      const round = Math.floor(elapsed / cycle) + 1;
+      const intoCycle = elapsed % cycle;
+      return intoCycle < work
+        ? { round, phase: 'work', phaseRemaining: work - intoCycle, totalRemaining }
+        : { round, phase: 'rest', phaseRemaining: cycle - intoCycle, totalRemaining };
+    }
+    case 'for_time':
+      return {
+        round: Math.min(progress.roundsDone + 1, rounds),
+        phase: capped || progress.roundsDone >= rounds ? 'done' : 'work',
+        phaseRemaining: null,
+        totalRemaining
+      };
+    case 'circuit': {
+      if (progress.roundsDone >= rounds) return { round: rounds, phase: 'done', phaseRemaining: null, totalRemaining };
+      const restRemaining = progress.restUntil ? progress.restUntil - elapsed : 0;
+      return restRemaining > 0
+        ? { round: progress.roundsDone + 1, phase: 'rest', phaseRemaining: restRemaining, totalRemaining }
+        : { round: progress.roundsDone + 1, phase: 'work', phaseRemaining: null, totalRemaining };
+    }
+  }
+};
+
+/**
+ * The cue to play when a block's clock ticks from `previous` to `next`, if any
+ */
+export const getClockCue = (previous: BlockClock, next: BlockClock): TimerCue | null => {
+  if (next.phase === 'done') return previous.phase === 'done' ? null : 'finish';
+  if (next.phase !== previous.phase) return next.phase === 'rest' ? 'rest' : 'go';
+  if (next.round !== previous.round && next.phaseRemaining !== null) return 'go';
+
+  const remaining = next.phaseRemaining !== null ? Math.ceil(next.phaseRemaining) : null;
+  const before = previous.phaseRemaining !== null ? Math.ceil(previous.phaseRemaining) : null;
+  if (remaining !== null && remaining !== before && remaining >= 1 && remaining <= 3) return 'countdown';
+  return null;
+};
+
+/**
+ * Result as the client would say it, e.g. "5 rounds + 7 reps"
+ */
+export const formatBlockResult = (type: WorkoutBlockType, params: WorkoutBlockParameters, result: BlockResultData) => {
+  const rounds = result.roundsCompleted ?? 0;
+  switch (type) {
+    case 'amrap':
+      return `${rounds} round${rounds === 1 ? '' : 's'}${result.extraReps ? ` + ${result.extraReps} reps` : ''}`;
+    case 'for_time':
+      return result.timeCapped
+        ? `Time capped at ${rounds}/${params.rounds ?? 1} rounds`
+        : formatClock(result.completionTime ?? 0);
+    case 'circuit':
+      return `${rounds} round${rounds === 1 ? '' : 's'}${result.completionTime ? ` in ${formatClock(result.completionTime)}` : ''}`;
+    default:
+      return `${rounds}/${params.rounds ?? 1} rounds`;
+  }
+};
+
+/**
+ * Collapses the exercises of each block into a single player step, placed at the block's position.
+ * The step keeps the first exercise's fields and carries the block and all of its exercises.
+ */
+export const groupBlockExercises = <T extends { block_id?: number | null; order_index: number }>(
+  exercises: T[],
+  blocks: WorkoutBlock[]
+): Array<T & { block?: WorkoutBlock; block_exercises?: T[] }> => {
+  const steps: Array<T & { block?: WorkoutBlock; block_exercises?: T[] }> = exercises.filter(
+    exercise => !exercise.block_id || !blocks.some(block => block.id === exercise.block_id)
+  );
+
+  for (const block of blocks) {
+    const blockExercises = exercises
+      .filter(exercise => exercise.block_id === block.id)
+      .sort((a, b) => a.order_index - b.order_index);
+    if (blockExercises.length === 0) continue;
+    steps.push({ ...blockExercises[0], order_index: block.order_index, block, block_exercises: blockExercises });
+  }
+
+  return steps.sort((a, b) => a.order_index - b.order_index);
+};
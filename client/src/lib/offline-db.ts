@@ -0,0 +1,124 @@
+/**
+ * IndexedDB storage for offline workouts
+ * Holds pre-cached assigned workouts, the queue of actions logged while offline,
+ * and the mapping from locally created sessions to their server ids.
+ */
+
+const DB_NAME = 'snp-workouts';
+const DB_VERSION = 1;
+
+export const STORES = {
+  workouts: 'workouts',
+  queue: 'queue',
+  sessions: 'sessions'
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+export interface CachedWorkout {
+  assignmentId: number;
+  // workout_assignments row with the nested workout, exercises and media metadata
+  assignment: any;
+  // workouts.updated_at when cached, sent with replayed sets for conflict checks
+  version: string | null;
+  cachedAt: string;
+}
+
+export type QueuedActionType = 'start-session' | 'log-set' | 'log-block-result' | 'session-state' | 'complete-session';
+
+export interface QueuedAction {
+  // Also the idempotency key sent to the server
+  id: string;
+  type: QueuedActionType;
+  // Local id of the session the action belongs to
+  clientSessionId: string;
+  payload: Record<string, any>;
+  createdAt: string;
+  // Replay order; strictly increasing even for actions queued in the same millisecond
+  sequence: number;
+  attempts: number;
+}
+
+export interface SessionMapping {
+  clientSessionId: string;
+  serverId: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.workouts)) {
+          db.createObjectStore(STORES.workouts, { keyPath: 'assignmentId' });
+        }
+        if (!db.objectStoreNames.contains(STORES.queue)) {
+          db.createObjectStore(STORES.queue, { keyPath: 'id' }).createIndex('sequence', 'sequence');
+        }
+        if (!db.objectStoreNames.contains(STORES.sessions)) {
+          db.createObjectStore(STORES.sessions, { keyPath: 'clientSessionId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Whether offline storage can be used in this browser
+ */
+export const isOfflineStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+export const cacheWorkout = (workout: CachedWorkout) =>
+  run<IDBValidKey>(STORES.workouts, 'readwrite', store => store.put(workout));
+
+export const getCachedWorkout = (assignmentId: number) =>
+  run<CachedWorkout | undefined>(STORES.workouts, 'readonly', store => store.get(assignmentId));
+
+export const getCachedWorkouts = () =>
+  run<CachedWorkout[]>(STORES.workouts, 'readonly', store => store.getAll());
+
+export const removeCachedWorkout = (assignmentId: number) =>
+  run<undefined>(STORES.workouts, 'readwrite', store => store.delete(assignmentId));
+
+let lastSequence = 0;
+
+export const enqueueAction = (action: Omit<QueuedAction, 'sequence'>) => {
+  lastSequence = Math.max(Date.now(), lastSequence + 1);
+  return run<IDBValidKey>(STORES.queue, 'readwrite', store => store.put({ ...action, sequence: lastSequence }));
+};
+
+export const updateQueuedAction = (action: QueuedAction) =>
+  run<IDBValidKey>(STORES.queue, 'readwrite', store => store.put(action));
+
+/**
+ * Queued actions in the order they were logged
+ */
+export const getQueuedActions = () =>
+  run<QueuedAction[]>(STORES.queue, 'readonly', store => store.index('sequence').getAll());
+
+export const removeQueuedAction = (id: string) =>
+  run<undefined>(STORES.queue, 'readwrite', store => store.delete(id));
+
+export const saveSessionMapping = (mapping: SessionMapping) =>
+  run<IDBValidKey>(STORES.sessions, 'readwrite', store => store.put(mapping));
+
+export const getSessionMapping = (clientSessionId: string) =>
+  run<SessionMapping | undefined>(STORES.sessions, 'readonly', store => store.get(clientSessionId));
@@ -0,0 +1,334 @@
+/**
+ * Offline workout sync
+ * Assigned workouts are cached in IndexedDB ahead of time so the player can open
+ * them without a connection. Whatever the player can't send while offline is
+ * queued and replayed in order once it's back online. Replays are idempotent on
+ * the client-generated session and set ids, so retrying after a dropped response
+ * never logs a set twice.
+ */
+
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { apiRequest } from './queryClient';
+import {
+  cacheWorkout,
+  getCachedWorkout,
+  getCachedWorkouts,
+  removeCachedWorkout,
+  enqueueAction,
+  getQueuedActions,
+  updateQueuedAction,
+  removeQueuedAction,
+  saveSessionMapping,
+  getSessionMapping,
+  isOfflineStorageAvailable,
+  type CachedWorkout,
+  type QueuedAction,
+  type QueuedActionType
+} from './offline-db';
+
+// Assignment with the full workout, exercises and media metadata the player needs
+export const ASSIGNMENT_WORKOUT_SELECT = `
+  id,
+  workout_id,
+  scheduled_date,
+  status,
+  notes,
+  workouts!inner (
+    id,
+    name,
+    description,
+    estimated_duration,
+    difficulty_rating,
+    workout_type,
+    instructions,
+    updated_at,
+    workout_blocks (
+      id,
+      block_type,
+      name,
+      order_index,
+      parameters,
+      notes
+    ),
+    workout_exercises (
+      id,
+      block_id,
+      order_index,
+      sets,
+      reps,
+      weight,
+      rest_seconds,
+      notes,
+      rpe_target,
+      tempo,
+      is_superset,
+      superset_group,
+      progression_model,
+      progression_increment,
+      warmup_scheme,
+      cardio_target,
+      exercises (
+        id,
+        name,
+        description,
+        instructions,
+        muscle_groups,
+        equipment,
+        video_url,
+        thumbnail_url,
+        category,
+        exercise_type,
+        calories_per_minute
+      )
+    )
+  )
+`;
+
+// Fired on window whenever the queue changes so pending counts stay current
+export const QUEUE_CHANGED_EVENT = 'offline-queue-changed';
+
+export interface LoadedWorkout extends CachedWorkout {
+  fromCache: boolean;
+}
+
+export interface SyncConflict {
+  action: QueuedAction;
+  message: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  // Actions still queued because the connection dropped again mid-sync
+  pending: number;
+  conflicts: SyncConflict[];
+  // The coach edited a synced workout; cached copies should be refreshed
+  workoutChanged: boolean;
+}
+
+export const createClientId = (): string => crypto.randomUUID();
+
+const notifyQueueChanged = () => window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+
+/**
+ * Whether a failed request never reached the server (as opposed to being rejected by it)
+ */
+export const isNetworkError = (error: unknown) =>
+  !navigator.onLine ||
+  error instanceof TypeError ||
+  (error instanceof Error && error.message.startsWith('Request timeout'));
+
+// apiRequest errors read "<status>: <response body>"
+const getErrorStatus = (error: unknown) => {
+  const match = error instanceof Error ? error.message.match(/^(\d{3}): /) : null;
+  return match ? Number(match[1]) : null;
+};
+
+const getErrorMessage = (error: unknown) => {
+  const message = error instanceof Error ? error.message.replace(/^\d{3}: /, '') : String(error);
+  try {
+    return JSON.parse(message).message || message;
+  } catch {
+    return message;
+  }
+};
+
+// Retrying won't change the answer, so the action is dropped and reported
+const isRejected = (status: number | null) =>
+  status !== null && status >= 400 && status < 500 && ![401, 408, 429].includes(status);
+
+/**
+ * Fetches an assignment with its full workout and caches it for offline use
+ */
+export const fetchAssignmentWorkout = async (assignmentId: number, userId: string): Promise<CachedWorkout> => {
+  const { data, error } = await supabase
+    .from('workout_assignments')
+    .select(ASSIGNMENT_WORKOUT_SELECT)
+    .eq('id', assignmentId)
+    .eq('client_id', userId)
+    .single();
+
+  if (error) throw error;
+
+  const assignment = data as any;
+  const cached: CachedWorkout = {
+    assignmentId,
+    assignment,
+    version: assignment.workouts?.updated_at ?? null,
+    cachedAt: new Date().toISOString()
+  };
+
+  if (isOfflineStorageAvailable()) {
+    await cacheWorkout(cached).catch(cacheError => console.error('Error caching workout:', cacheError));
+  }
+  return cached;
+};
+
+/**
+ * Loads an assignment from the network, falling back to the cached copy when offline
+ */
+export const loadAssignmentWorkout = async (assignmentId: number, userId: string): Promise<LoadedWorkout> => {
+  try {
+    return { ...(await fetchAssignmentWorkout(assignmentId, userId)), fromCache: false };
+  } catch (error) {
+    const cached = isOfflineStorageAvailable() ? await getCachedWorkout(assignmentId).catch(() => undefined) : undefined;
+    if (cached) return { ...cached, fromCache: true };
+    throw error;
+  }
+};
+
+/**
+ * Caches upcoming assignments and warms the service worker's image cache with their
+ * thumbnails. Cached workouts no longer assigned are removed.
+ */
+export const precacheAssignments = async (assignmentIds: number[], userId: string) => {
+  if (!isOfflineStorageAvailable() || !navigator.onLine) return;
+
+  for (const assignmentId of assignmentIds) {
+    try {
+      const { assignment } = await fetchAssignmentWorkout(assignmentId, userId);
+      const thumbnails: string[] = (assignment.workouts?.workout_exercises || [])
+        .map((workoutExercise: any) => workoutExercise.exercises?.thumbnail_url)
+        .filter(Boolean);
+      // Opaque responses are enough for the runtime cache to serve them offline
+      await Promise.all(thumbnails.map(url => fetch(url, { mode: 'no-cors' }).catch(() => null)));
+    } catch (error) {
+      console.error(`Error caching workout assignment ${assignmentId}:`, error);
+    }
+  }
+
+  const cached = await getCachedWorkouts();
+  await Promise.all(
+    cached
+      .filter(workout => !assignmentIds.includes(workout.assignmentId))
+      .map(workout => removeCachedWorkout(workout.assignmentId))
+  );
+};
+
+/**
+ * Queues an action for the next sync
+ * @param id Idempotency key; pass the id already sent with a request that may have reached the server
+ */
+export const queueAction = async (
+  type: QueuedActionType,
+  clientSessionId: string,
+  payload: Record<string, any>,
+  id = createClientId()
+) => {
+  const action = { id, type, clientSessionId, payload, createdAt: new Date().toISOString(), attempts: 0 };
+  await enqueueAction(action);
+  notifyQueueChanged();
+  return action;
+};
+
+/**
+ * Records the server id of a session so queued actions can be replayed against it
+ */
+export const rememberSession = async (clientSessionId: string, serverId: number) => {
+  if (isOfflineStorageAvailable()) await saveSessionMapping({ clientSessionId, serverId });
+};
+
+export const getServerSessionId = async (clientSessionId: string) =>
+  isOfflineStorageAvailable() ? (await getSessionMapping(clientSessionId))?.serverId : undefined;
+
+export const getPendingActionCount = async () =>
+  isOfflineStorageAvailable() ? (await getQueuedActions()).length : 0;
+
+interface ReplayOutcome {
+  workoutChanged: boolean;
+  conflict?: string;
+}
+
+const replayAction = async (action: QueuedAction, session: Session | null): Promise<ReplayOutcome> => {
+  if (action.type === 'start-session') {
+    const response = await apiRequest('POST', '/api/workout-sessions', {
+      ...action.payload,
+      clientSessionId: action.clientSessionId
+    }, session);
+    const created = await response.json();
+    await rememberSession(action.clientSessionId, created.id);
+    return { workoutChanged: false };
+  }
+
+  const sessionId = await getServerSessionId(action.clientSessionId);
+  if (!sessionId) {
+    // Its start-session action was rejected, so there's nothing to replay against
+    return { workoutChanged: false, conflict: 'The workout session for this action was never synced' };
+  }
+
+  switch (action.type) {
+    case 'log-set': {
+      const response = await apiRequest('POST', `/api/workout-sessions/${sessionId}/sets`, {
+        ...action.payload,
+        clientSetId: action.id,
+        loggedOffline: true
+      }, session);
+      const { workoutChanged } = await response.json();
+      return { workoutChanged: !!workoutChanged };
+    }
+    case 'log-block-result':
+      await apiRequest('POST', `/api/workout-sessions/${sessionId}/block-results`, {
+        ...action.payload,
+        clientResultId: action.id,
+        loggedOffline: true
+      }, session);
+      return { workoutChanged: false };
+    case 'session-state':
+      await apiRequest('PATCH', `/api/workout-sessions/${sessionId}/state`, action.payload, session);
+      return { workoutChanged: false };
+    case 'complete-session':
+      await apiRequest('POST', `/api/workout-sessions/${sessionId}/complete`, action.payload, session);
+      return { workoutChanged: false };
+  }
+};
+
+const replayQueue = async (session: Session | null): Promise<SyncResult> => {
+  const result: SyncResult = { synced: 0, pending: 0, conflicts: [], workoutChanged: false };
+  const actions = await getQueuedActions();
+
+  for (let i = 0; i < actions.length; i++) {
+    const action = actions[i];
+    try {
+      const { workoutChanged, conflict } = await replayAction(action, session);
+      if (conflict) {
+        result.conflicts.push({ action, message: conflict });
+      } else {
+        result.workoutChanged ||= workoutChanged;
+        result.synced++;
+      }
+      await removeQueuedAction(action.id);
+    } catch (error) {
+      if (isRejected(getErrorStatus(error))) {
+        result.conflicts.push({ action, message: getErrorMessage(error) });
+        await removeQueuedAction(action.id);
+        continue;
+      }
+
+      // Still offline or the server is struggling; keep order and try again next sync
+      console.error('Error syncing offline workout action:', error);
+      await updateQueuedAction({ ...action, attempts: action.attempts + 1 });
+      result.pending = actions.length - i;
+      break;
+    }
+  }
+
+  return result;
+};
+
+let activeSync: Promise<SyncResult> | null = null;
+
+/**
+ * Replays queued actions in the order they were logged. Concurrent calls share one run.
+ */
+export const syncOfflineQueue = (session: Session | null): Promise<SyncResult> => {
+  if (!isOfflineStorageAvailable()) {
+    return Promise.resolve({ synced: 0, pending: 0, conflicts: [], workoutChanged: false });
+  }
+  if (!activeSync) {
+    activeSync = replayQueue(session).finally(() => {
+      activeSync = null;
+      notifyQueueChanged();
+    });
+  }
+  return activeSync;
+};
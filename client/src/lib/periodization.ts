@@ -0,0 +1,123 @@
+/**
+ * Program periodization
+ * Per-week intensity and volume multipliers for a program, generated from a
+ * linear, undulating or block model (or edited by hand), with every Nth week
+ * a deload. Copying a week applies the target week's multipliers relative to
+ * the source week: intensity scales the weight, volume scales sets × reps.
+ */
+
+import type { PeriodizationModel, ProgramPeriodization } from '@shared/schema';
+
+export type { PeriodizationModel, ProgramPeriodization };
+
+export type PeriodizationWeek = ProgramPeriodization['weeks'][number];
+
+export interface PrescribedExercise {
+  sets: number;
+  reps: string;
+  weight: string;
+}
+
+export const PERIODIZATION_MODELS: { value: PeriodizationModel; label: string; description: string }[] = [
+  { value: 'linear', label: 'Linear', description: 'Load climbs each week while volume tapers' },
+  { value: 'undulating', label: 'Undulating', description: 'Base, heavy and volume weeks in rotation' },
+  { value: 'block', label: 'Block', description: 'Accumulation, intensification, then realization' },
+  { value: 'custom', label: 'Custom', description: 'Set every week by hand' }
+];
+
+// Deload weeks keep most of the load and halve the work
+export const DELOAD_MULTIPLIERS = { intensity: 0.9, volume: 0.5 };
+
+const UNDULATING_CYCLE = [
+  { intensity: 1, volume: 1 },
+  { intensity: 1.05, volume: 0.85 },
+  { intensity: 0.95, volume: 1.1 }
+];
+
+const BLOCK_PHASES = [
+  { intensity: 0.95, volume: 1.1 },
+  { intensity: 1.05, volume: 0.9 },
+  { intensity: 1.1, volume: 0.7 }
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Multipliers for every week of a program. Custom programs keep the values
+ * already set for weeks that still exist and start new weeks at 100%.
+ */
+export function buildPeriodizationWeeks(
+  model: PeriodizationModel,
+  durationWeeks: number,
+  deloadEvery: number | null,
+  previous: PeriodizationWeek[] = []
+): PeriodizationWeek[] {
+  const isDeload = (week: number) => !!deloadEvery && week % deloadEvery === 0;
+  const trainingWeeks = Array.from({ length: durationWeeks }, (_, i) => i + 1).filter(week => !isDeload(week)).length;
+
+  let trainingIndex = 0;
+  return Array.from({ length: durationWeeks }, (_, i) => {
+    const week = i + 1;
+    if (isDeload(week)) {
+      return { week, ...DELOAD_MULTIPLIERS, deload: true };
+    }
+
+    const index = trainingIndex++;
+    switch (model) {
+      case 'linear':
+        return { week, intensity: round(1 + 0.025 * index), volume: round(Math.max(0.6, 1 - 0.03 * index)), deload: false };
+      case 'undulating':
+        return { week, ...UNDULATING_CYCLE[index % UNDULATING_CYCLE.length], deload: false };
+      case 'block':
+        return { week, ...BLOCK_PHASES[Math.min(BLOCK_PHASES.length - 1, Math.floor((index * BLOCK_PHASES.length) / trainingWeeks))], deload: false };
+      default: {
+        const existing = previous.find(entry => entry.week === week && !entry.deload);
+        return { week, intensity: existing?.intensity ?? 1, volume: existing?.volume ?? 1, deload: false };
+      }
+    }
+  });
+}
+
+export function getWeekMultipliers(periodization: ProgramPeriodization | null, week: number): PeriodizationWeek {
+  return periodization?.weeks.find(entry => entry.week === week) ?? { week, intensity: 1, volume: 1, deload: false };
+}
+
+// Scale every number in a prescription string, e.g. "8-12" or "70%"
+function scaleNumbers(value: string, factor: number, roundTo: (scaled: number) => number): string {
+  return value.replace(/\d+(\.\d+)?/g, match => String(roundTo(parseFloat(match) * factor)));
+}
+
+/**
+ * Apply intensity and volume multipliers to one exercise. Volume goes to sets
+ * first; whatever rounding to whole sets leaves over is applied to the reps.
+ */
+export function scaleExercise<T extends PrescribedExercise>(exercise: T, intensity: number, volume: number): T {
+  const targetSets = exercise.sets * volume;
+  const sets = Math.max(1, Math.round(targetSets));
+  const repsFactor = targetSets / sets;
+  const isPercent = exercise.weight.includes('%');
+
+  return {
+    ...exercise,
+    sets,
+    reps: Math.abs(repsFactor - 1) < 0.01
+      ? exercise.reps
+      : scaleNumbers(exercise.reps, repsFactor, reps => Math.max(1, Math.round(reps))),
+    weight: intensity === 1
+      ? exercise.weight
+      : scaleNumbers(exercise.weight, intensity, load => isPercent ? Math.round(load) : Math.round(load / 2.5) * 2.5)
+  };
+}
+
+/**
+ * Multipliers that take a copy of `fromWeek` to `toWeek`
+ */
+export function getRelativeMultipliers(
+  periodization: ProgramPeriodization | null,
+  fromWeek: number,
+  toWeek: number
+): { intensity: number; volume: number } {
+  const from = getWeekMultipliers(periodization, fromWeek);
+  const to = getWeekMultipliers(periodization, toWeek);
+  return { intensity: to.intensity / from.intensity, volume: to.volume / from.volume };
+}
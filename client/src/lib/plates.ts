@@ -0,0 +1,109 @@
+/**
+ * Barbell plate math
+ * Works out the plates per side for a target load from the client's bar and
+ * plate inventory (set by their coach), and rounds targets to loads that
+ * inventory can actually build.
+ */
+
+import type { WeightUnit } from '@shared/weight-units';
+
+export interface PlateInventoryItem {
+  weight: number;
+  // Total plates of this weight; loading is symmetrical so pairs are what count
+  count: number;
+}
+
+export interface PlateSetup {
+  unit: WeightUnit;
+  barWeight: number;
+  plates: PlateInventoryItem[];
+}
+
+export interface PlateLoad {
+  // Plates on each side, heaviest first
+  perSide: number[];
+  // Bar plus plates, in the setup's unit
+  total: number;
+  exact: boolean;
+}
+
+export const DEFAULT_PLATE_SETUPS: Record<WeightUnit, Omit<PlateSetup, 'unit'>> = {
+  lbs: {
+    barWeight: 45,
+    plates: [45, 35, 25, 10, 5, 2.5].map(weight => ({ weight, count: weight >= 25 ? 8 : 4 }))
+  },
+  kg: {
+    barWeight: 20,
+    plates: [25, 20, 15, 10, 5, 2.5, 1.25].map(weight => ({ weight, count: weight >= 10 ? 8 : 4 }))
+  }
+};
+
+// Load tables are keyed in hundredths to keep 1.25 kg plates exact
+const toUnits = (weight: number) => Math.round(weight * 100);
+
+/**
+ * Builds a client's plate setup from client_workout_preferences, falling back to standard plates
+ */
+export const getPlateSetup = (
+  metricSystem?: boolean | null,
+  barWeight?: number | string | null,
+  plateInventory?: PlateInventoryItem[] | null
+): PlateSetup => {
+  const unit: WeightUnit = metricSystem ? 'kg' : 'lbs';
+  const defaults = DEFAULT_PLATE_SETUPS[unit];
+  const bar = barWeight === null || barWeight === undefined || barWeight === '' ? NaN : Number(barWeight);
+  return {
+    unit,
+    barWeight: Number.isNaN(bar) ? defaults.barWeight : bar,
+    plates: plateInventory?.length ? plateInventory : defaults.plates
+  };
+};
+
+/**
+ * Every per-side load the inventory can build, mapped to one way of building it
+ */
+export const buildLoadTable = (setup: PlateSetup): Map<number, number[]> => {
+  const table = new Map<number, number[]>([[0, []]]);
+  const plates = [...setup.plates].filter(plate => plate.weight > 0).sort((a, b) => b.weight - a.weight);
+
+  for (const plate of plates) {
+    const pairs = Math.floor(plate.count / 2);
+    for (const [load, combination] of Array.from(table.entries())) {
+      for (let n = 1; n <= pairs; n++) {
+        const next = load + toUnits(plate.weight) * n;
+        // Keep the way of building each load with the fewest plates
+        if ((table.get(next)?.length ?? Infinity) > combination.length + n) {
+          table.set(next, [...combination, ...Array(n).fill(plate.weight)]);
+        }
+      }
+    }
+  }
+
+  return table;
+};
+
+/**
+ * Plates per side for a target load, using the nearest load the inventory can build
+ * @param target Target load in the setup's unit
+ */
+export const calculatePlates = (target: number, setup: PlateSetup, table = buildLoadTable(setup)): PlateLoad => {
+  const side = toUnits(Math.max(0, target - setup.barWeight) / 2);
+
+  let best = 0;
+  for (const load of Array.from(table.keys())) {
+    const distance = Math.abs(load - side);
+    const bestDistance = Math.abs(best - side);
+    // Ties go to the lighter load
+    if (distance < bestDistance || (distance === bestDistance && load < best)) best = load;
+  }
+
+  const perSide = [...(table.get(best) || [])].sort((a, b) => b - a);
+  const total = setup.barWeight + (best * 2) / 100;
+  return { perSide, total, exact: Math.abs(total - target) < 0.01 };
+};
+
+/**
+ * Rounds a target load to the nearest one the inventory can build
+ */
+export const roundToLoadable = (target: number, setup: PlateSetup, table = buildLoadTable(setup)): number =>
+  calculatePlates(target, setup, table).total;
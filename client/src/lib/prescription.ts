@@ -0,0 +1,157 @@
+/**
+ * Load prescriptions
+ * Parses the free-text workout_exercises.weight column ("75%", "RPE 8", "BW+10kg",
+ * "135-155 lbs") and resolves it to a working load in the client's unit from
+ * their estimated 1RM or latest bodyweight. Loads written without a unit are lbs.
+ */
+
+import { convertWeight, type WeightUnit } from '@shared/weight-units';
+
+export type PrescriptionKind = 'fixed' | 'percent_1rm' | 'rpe' | 'bodyweight' | 'none';
+
+export interface ParsedPrescription {
+  kind: PrescriptionKind;
+  // Lower/upper bound: load for fixed, percent for percent_1rm, RPE for rpe
+  min: number;
+  max: number;
+  // External load on top of bodyweight (negative for assisted)
+  added: number;
+  raw: string;
+}
+
+export interface TrainingContext {
+  // Unit of the 1RM and bodyweight below, and of the resolved load; lbs by default
+  unit?: WeightUnit;
+  // Estimated 1RM for this exercise, if known
+  oneRepMax?: number | null;
+  // Latest bodyweight, if logged
+  bodyweight?: number | null;
+  // Reps used to convert an RPE target into a load
+  reps?: number | null;
+}
+
+export interface ResolvedLoad {
+  prescription: ParsedPrescription;
+  // Load to log; null when it can't be computed from what we know
+  weight: number | null;
+  maxWeight: number | null;
+  unit: WeightUnit;
+  // Short explanation of where the load came from
+  detail: string;
+}
+
+const toUnit = (value: number, written: string | undefined, unit: WeightUnit) =>
+  convertWeight(value, /kg/i.test(written || '') ? 'kg' : 'lbs', unit);
+
+const roundToPlate = (weight: number) => Math.max(0, Math.round(weight / 2.5) * 2.5);
+
+const formatLoad = (weight: number, unit: WeightUnit) => `${Number.isInteger(weight) ? weight : weight.toFixed(1)} ${unit}`;
+
+const parseRange = (text: string): [number, number] | null => {
+  const match = text.match(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?/i);
+  if (!match) return null;
+  const min = parseFloat(match[1]);
+  const max = match[2] ? parseFloat(match[2]) : min;
+  return [Math.min(min, max), Math.max(min, max)];
+};
+
+/**
+ * Parses a weight prescription
+ * Understands fixed loads ("135", "60kg", "135-155 lbs"), percentages ("75%", "70-75% 1RM"),
+ * RPE targets ("RPE 8", "@7-8") and bodyweight ("BW", "bodyweight +10kg", "-20 lbs")
+ * @param unit Unit the loads are returned in
+ */
+export const parsePrescription = (weight: string | null | undefined, unit: WeightUnit = 'lbs'): ParsedPrescription => {
+  const raw = (weight || '').trim();
+  const none: ParsedPrescription = { kind: 'none', min: 0, max: 0, added: 0, raw };
+  if (!raw) return none;
+
+  const range = parseRange(raw);
+
+  if (raw.includes('%')) {
+    return range ? { kind: 'percent_1rm', min: range[0], max: range[1], added: 0, raw } : none;
+  }
+
+  if (/\brpe\b|^@/i.test(raw)) {
+    return range ? { kind: 'rpe', min: range[0], max: range[1], added: 0, raw } : none;
+  }
+
+  // "BW", "bodyweight", or a signed load meaning added/assisted on top of bodyweight
+  const signed = raw.match(/([+-])\s*(\d+(?:\.\d+)?)\s*(kg|lbs?)?/i);
+  if (/\b(bw|body\s*weight)\b/i.test(raw) || /^[+-]/.test(raw)) {
+    const added = signed ? toUnit(parseFloat(signed[2]), signed[3], unit) * (signed[1] === '-' ? -1 : 1) : 0;
+    return { kind: 'bodyweight', min: 0, max: 0, added, raw };
+  }
+
+  if (range) {
+    return { kind: 'fixed', min: toUnit(range[0], raw, unit), max: toUnit(range[1], raw, unit), added: 0, raw };
+  }
+
+  return none;
+};
+
+/**
+ * Resolves a prescription to a working load for this client
+ * @param weight The workout_exercises.weight text
+ * @param context The client's estimated 1RM, bodyweight and the prescribed reps
+ */
+export const resolvePrescription = (weight: string | null | undefined, context: TrainingContext = {}): ResolvedLoad => {
+  const unit = context.unit ?? 'lbs';
+  const prescription = parsePrescription(weight, unit);
+  const oneRepMax = context.oneRepMax && context.oneRepMax > 0 ? context.oneRepMax : null;
+  const formatWeight = (load: number) => formatLoad(load, unit);
+  const unresolved = (detail: string): ResolvedLoad => ({ prescription, weight: null, maxWeight: null, unit, detail });
+
+  switch (prescription.kind) {
+    case 'fixed': {
+      const min = roundToPlate(prescription.min);
+      const max = roundToPlate(prescription.max);
+      return { prescription, weight: min, maxWeight: max, unit, detail: 'Prescribed load' };
+    }
+
+    case 'percent_1rm': {
+      if (!oneRepMax) return unresolved('Log this exercise to calculate your load');
+      const min = roundToPlate(oneRepMax * prescription.min / 100);
+      const max = roundToPlate(oneRepMax * prescription.max / 100);
+      const percent = prescription.min === prescription.max ? prescription.min : `${prescription.min}-${prescription.max}`;
+      return { prescription, weight: min, maxWeight: max, unit, detail: `${percent}% of ${formatWeight(roundToPlate(oneRepMax))} est. 1RM` };
+    }
+
+    case 'rpe': {
+      if (!oneRepMax || !context.reps) return unresolved('Pick a load you could lift for the target RPE');
+      // Reps in reserve at the target RPE, then invert Epley for that many total reps
+      const loadFor = (rpe: number) => roundToPlate(oneRepMax / (1 + (context.reps! + Math.max(0, 10 - rpe)) / 30));
+      return { prescription, weight: loadFor(prescription.min), maxWeight: loadFor(prescription.max), unit, detail: `for ${context.reps} reps from ${formatWeight(roundToPlate(oneRepMax))} est. 1RM` };
+    }
+
+    case 'bodyweight': {
+      const added = roundToPlate(Math.abs(prescription.added)) * Math.sign(prescription.added);
+      const total = context.bodyweight ? Math.round(context.bodyweight + added) : null;
+      const addedText = added > 0 ? `+${formatWeight(added)} added` : added < 0 ? `${formatWeight(-added)} assisted` : 'Bodyweight';
+      return {
+        prescription,
+        weight: Math.max(0, added),
+        maxWeight: Math.max(0, added),
+        unit,
+        detail: total ? `${addedText} (≈ ${formatWeight(total)} total)` : addedText
+      };
+    }
+
+    default:
+      return unresolved('');
+  }
+};
+
+/**
+ * Formats a resolved load for display, e.g. "185 lbs" or "80 – 85 kg"
+ */
+export const formatResolvedLoad = (load: ResolvedLoad): string | null => {
+  if (load.weight === null) return null;
+  const formatWeight = (weight: number) => formatLoad(weight, load.unit);
+  if (load.prescription.kind === 'bodyweight') {
+    return load.weight > 0 ? `+${formatWeight(load.weight)}` : 'BW';
+  }
+  return load.maxWeight !== null && load.maxWeight !== load.weight
+    ? `${load.weight} – ${formatWeight(load.maxWeight)}`
+    : formatWeight(load.weight);
+};
@@ -0,0 +1,174 @@
+/**
+ * Progressive overload suggestions
+ * Turns a client's last performance of an exercise into the next set target,
+ * using the progression model the coach picked on the workout_exercises row.
+ */
+
+import { convertWeight, type WeightUnit } from '@shared/weight-units';
+import { parsePrescription } from './prescription';
+
+export type ProgressionModel = 'none' | 'linear' | 'double' | 'rpe';
+
+export const PROGRESSION_MODELS: { value: ProgressionModel; label: string; description: string }[] = [
+  { value: 'none', label: 'None', description: 'Use the prescribed reps and weight' },
+  { value: 'linear', label: 'Linear', description: 'Add load once every set hits its reps' },
+  { value: 'double', label: 'Double progression', description: 'Build reps to the top of the range, then add load' },
+  { value: 'rpe', label: 'RPE-based', description: 'Adjust load towards the target RPE' }
+];
+
+// Default load step in lbs when the coach hasn't set one
+export const DEFAULT_PROGRESSION_INCREMENT = 5;
+
+// Smallest load change per unit; coach increments (in lbs) are rounded to it for metric clients
+const SMALLEST_PLATE_PAIR: Record<WeightUnit, number> = { lbs: 2.5, kg: 1.25 };
+
+// Approximate load change per RPE point (~1 rep in reserve)
+const LOAD_PER_RPE_POINT = 0.03;
+
+export interface PerformedSet {
+  set_number: number;
+  actual_reps: number;
+  actual_weight: number;
+  rpe: number;
+}
+
+export interface ProgressionPrescription {
+  reps: string;
+  weight: string;
+  rpe_target?: number;
+  progression_model?: ProgressionModel | null;
+  progression_increment?: number | string | null;
+}
+
+export interface SetSuggestion {
+  reps: number;
+  weight: number;
+  reason: string;
+}
+
+/**
+ * Parses a prescribed rep scheme ("8", "8-12", "AMRAP") into a range
+ * @returns { min, max } or null when the scheme has no fixed rep count
+ */
+export const parseRepRange = (reps: string): { min: number; max: number } | null => {
+  const match = reps.trim().match(/^(\d+)\s*(?:-|–|to)\s*(\d+)$/i);
+  if (match) {
+    const [min, max] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+    return { min: Math.min(min, max), max: Math.max(min, max) };
+  }
+  const fixed = parseInt(reps, 10);
+  return Number.isNaN(fixed) ? null : { min: fixed, max: fixed };
+};
+
+/**
+ * Reads a fixed load from a prescription such as "135 lbs"; %1RM, RPE and bodyweight return 0
+ */
+export const parsePrescribedWeight = (weight: string, unit: WeightUnit = 'lbs'): number => {
+  const prescription = parsePrescription(weight, unit);
+  return prescription.kind === 'fixed' ? prescription.min : 0;
+};
+
+const roundToStep = (weight: number, step: number) => {
+  const plate = step >= 5 ? 2.5 : step > 0 ? step : 2.5;
+  return Math.max(0, Math.round(weight / plate) * plate);
+};
+
+const toIncrement = (lbs: number, unit: WeightUnit) => {
+  if (unit === 'lbs') return lbs;
+  const step = SMALLEST_PLATE_PAIR[unit];
+  return Math.max(step, Math.round(convertWeight(lbs, 'lbs', unit) / step) * step);
+};
+
+/**
+ * Suggests the next target for one set from the client's last session of the same exercise
+ * @param prescription The workout_exercises row being performed
+ * @param setNumber The set about to be logged
+ * @param lastSession Sets from the most recent previous session of this exercise
+ * @param previousSet The set just logged in this session, if any
+ * @param isBodyweight Progress reps instead of load
+ * @param unit Unit of the performed and suggested loads
+ * @returns A suggestion, or null when there is nothing to base one on
+ */
+export const suggestNextSet = (
+  prescription: ProgressionPrescription,
+  setNumber: number,
+  lastSession: PerformedSet[],
+  previousSet?: PerformedSet,
+  isBodyweight = false,
+  unit: WeightUnit = 'lbs'
+): SetSuggestion | null => {
+  const model = prescription.progression_model || 'none';
+  const range = parseRepRange(prescription.reps);
+  const increment = toIncrement(Number(prescription.progression_increment) || DEFAULT_PROGRESSION_INCREMENT, unit);
+  const formatWeight = (weight: number) => `${Number.isInteger(weight) ? weight : weight.toFixed(1)} ${unit}`;
+
+  // RPE autoregulation reacts to the set just done in this session first
+  if (model === 'rpe' && previousSet && prescription.rpe_target && previousSet.actual_weight > 0 && !isBodyweight) {
+    const gap = prescription.rpe_target - previousSet.rpe;
+    if (gap === 0) {
+      return { reps: previousSet.actual_reps, weight: previousSet.actual_weight, reason: `Last set was on target at RPE ${previousSet.rpe}` };
+    }
+    const weight = roundToStep(previousSet.actual_weight * (1 + gap * LOAD_PER_RPE_POINT), increment);
+    return {
+      reps: range?.min ?? previousSet.actual_reps,
+      weight,
+      reason: `Last set was RPE ${previousSet.rpe} vs target ${prescription.rpe_target} – ${gap > 0 ? 'add' : 'drop'} ~${Math.round(Math.abs(gap) * LOAD_PER_RPE_POINT * 100)}%`
+    };
+  }
+
+  if (model === 'none' || lastSession.length === 0) return null;
+
+  // Compare against the same set last time, falling back to the last set performed
+  const sorted = [...lastSession].sort((a, b) => a.set_number - b.set_number);
+  const reference = sorted.find(set => set.set_number === setNumber) || sorted[sorted.length - 1];
+  const topSet = sorted.reduce((best, set) => set.actual_weight > best.actual_weight ? set : best, sorted[0]);
+
+  switch (model) {
+    case 'linear': {
+      const targetReps = range?.max ?? reference.actual_reps;
+      const hitAll = sorted.every(set => set.actual_reps >= targetReps);
+      if (isBodyweight) {
+        return hitAll
+          ? { reps: reference.actual_reps + 1, weight: 0, reason: `All sets hit ${targetReps} reps last time – add a rep` }
+          : { reps: targetReps, weight: 0, reason: `Missed ${targetReps} reps last time – repeat` };
+      }
+      return hitAll
+        ? { reps: targetReps, weight: roundToStep(topSet.actual_weight + increment, increment), reason: `All sets hit ${targetReps} reps at ${formatWeight(topSet.actual_weight)} – add ${formatWeight(increment)}` }
+        : { reps: targetReps, weight: topSet.actual_weight, reason: `Missed ${targetReps} reps last time – repeat ${formatWeight(topSet.actual_weight)}` };
+    }
+
+    case 'double': {
+      if (!range) return null;
+      const hitTop = sorted.every(set => set.actual_reps >= range.max);
+      if (hitTop && !isBodyweight) {
+        return {
+          reps: range.min,
+          weight: roundToStep(topSet.actual_weight + increment, increment),
+          reason: `Hit ${range.max} reps on every set – add ${formatWeight(increment)} and restart at ${range.min}`
+        };
+      }
+      const reps = Math.min(range.max, Math.max(range.min, reference.actual_reps + 1));
+      return {
+        reps,
+        weight: reference.actual_weight,
+        reason: `Last time ${reference.actual_reps} reps${reference.actual_weight > 0 ? ` at ${formatWeight(reference.actual_weight)}` : ''} – aim for ${reps} of ${range.min}-${range.max}`
+      };
+    }
+
+    case 'rpe': {
+      if (!prescription.rpe_target || isBodyweight || reference.actual_weight <= 0) return null;
+      const gap = prescription.rpe_target - reference.rpe;
+      const weight = roundToStep(reference.actual_weight * (1 + gap * LOAD_PER_RPE_POINT), increment);
+      return {
+        reps: range?.min ?? reference.actual_reps,
+        weight,
+        reason: gap === 0
+          ? `Last time ${formatWeight(reference.actual_weight)} was on target at RPE ${reference.rpe}`
+          : `Last time ${formatWeight(reference.actual_weight)} felt RPE ${reference.rpe} vs target ${prescription.rpe_target}`
+      };
+    }
+
+    default:
+      return null;
+  }
+};
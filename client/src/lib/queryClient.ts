@@ -4,7 +4,7 @@ import type { Session } from '@supabase/supabase-js';
 
 // Dev-only URL rewrite to bypass Vite proxy issue
 const DEV_ALIAS = '/internal-api';
-const rewriteApiUrl = (url: string) => 
+export const rewriteApiUrl = (url: string) => 
   import.meta.env.DEV && url.startsWith('/api') ? url.replace('/api', DEV_ALIAS) : url;
 
 async function throwIfResNotOk(res: Response) {
@@ -8,8 +8,10 @@ interface SocketEvents {
   
   // Workout events
   'workout-start': (data: { workoutLogId: number; clientId: number }) => void
-  'workout-progress': (data: { workoutLogId: number; exerciseId: number; progress: any }) => void
+  'workout-progress': (data: { workoutLogId: number; exerciseId?: number; clientId?: number; progress: any }) => void
   'workout-complete': (data: { workoutLogId: number; clientId: number; summary: any }) => void
+  'personal-record': (data: { workoutSessionId: number; records: any[] }) => void
+  'form-review-completed': (data: { formReviewId: number; exerciseSetId: number; workoutSessionId: number; exerciseName: string; formRating: number }) => void
   
   // Progress events
   'progress-update': (data: { clientId: number; type: string; data: any }) => void
@@ -17,7 +19,8 @@ interface SocketEvents {
   
   // Coach events
   'client-online': (data: { clientId: number; status: 'online' | 'offline' }) => void
-  'assignment-created': (data: { clientId: number; type: 'workout' | 'meal_plan'; assignmentId: number }) => void
+  'assignment-created': (data: { clientId: number; type: 'workout' | 'meal_plan' | 'program'; assignmentId: number }) => void
+  'room-error': (data: { room: string; message: string }) => void
 }
 
 class SocketService {
@@ -25,12 +28,18 @@ class SocketService {
   private reconnectAttempts = 0
   private maxReconnectAttempts = 5
   private reconnectDelay = 1000
+  private joinedRooms = new Set<string>()
+  // Listeners outlive the socket so components can subscribe before sign-in finishes connecting
+  private listeners = new Map<string, Set<(...args: any[]) => void>>()
 
-  connect(userId: string, userRole: 'client' | 'admin'): Promise<void> {
+  // The gateway shares the API server's origin and verifies the Supabase access token on handshake
+  connect(userId: string, userRole: 'client' | 'admin', accessToken: string): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.socket = io(process.env.NODE_ENV === 'development' ? 'http://localhost:3001' : '', {
+        if (this.socket) this.socket.disconnect()
+        this.socket = io({
           auth: {
+            token: accessToken,
             userId,
             userRole
           },
@@ -41,15 +50,17 @@ class SocketService {
           reconnectionDelay: this.reconnectDelay
         })
 
+        this.listeners.forEach((callbacks, event) => {
+          callbacks.forEach(callback => this.socket?.on(event, callback))
+        })
+
         this.socket.on('connect', () => {
           console.log('Socket connected:', this.socket?.id)
           this.reconnectAttempts = 0
           
-          // Join user-specific room
-          this.socket?.emit('join-room', `user-${userId}`)
-          
-          // Join role-specific room
-          this.socket?.emit('join-room', `${userRole}s`)
+          // The server places each user in their own `user-<id>` room;
+          // coaches call joinRoom(`user-<clientUserId>`) to follow a client
+          this.joinedRooms.forEach(room => this.socket?.emit('join-room', room))
           
           resolve()
         })
@@ -78,7 +89,15 @@ class SocketService {
     })
   }
 
+  // Supabase rotates access tokens; reconnects must present the current one
+  updateToken(accessToken: string): void {
+    if (this.socket) {
+      this.socket.auth = { ...(this.socket.auth as Record<string, unknown>), token: accessToken }
+    }
+  }
+
   disconnect(): void {
+    this.joinedRooms.clear()
     if (this.socket) {
       this.socket.disconnect()
       this.socket = null
@@ -96,6 +115,8 @@ class SocketService {
 
   // Generic event listening
   on<K extends keyof SocketEvents>(event: K, callback: SocketEvents[K]): void {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set())
+    this.listeners.get(event)!.add(callback as any)
     if (this.socket) {
       this.socket.on(event, callback as any)
     }
@@ -103,13 +124,16 @@ class SocketService {
 
   // Remove event listener
   off<K extends keyof SocketEvents>(event: K, callback?: SocketEvents[K]): void {
+    if (callback) this.listeners.get(event)?.delete(callback as any)
+    else this.listeners.delete(event)
     if (this.socket) {
       this.socket.off(event, callback as any)
     }
   }
 
-  // Join a specific room (e.g., coach-client conversation)
+  // Join a specific room (coaches: `user-<clientUserId>` for one of their clients)
   joinRoom(room: string): void {
+    this.joinedRooms.add(room)
     if (this.socket?.connected) {
       this.socket.emit('join-room', room)
     }
@@ -117,6 +141,7 @@ class SocketService {
 
   // Leave a specific room
   leaveRoom(room: string): void {
+    this.joinedRooms.delete(room)
     if (this.socket?.connected) {
       this.socket.emit('leave-room', room)
     }
@@ -1,97 +1,135 @@
-// Cloudflare R2 integration for file uploads
-// This will be used for exercise videos, progress photos, and other media
+// Exercise media uploads through the backend's /api/upload endpoint, and
+// clients' set clips for form review through /api/exercise-sets/:id/form-review.
+// The server stores files with its configured driver (local disk or S3-compatible)
+// and returns /media URLs that stream with range requests.
+
+import { supabase } from './supabase'
+import { rewriteApiUrl } from './queryClient'
+import type { FormReviewDetail } from './form-review'
 
 interface UploadConfig {
   maxFileSize: number // in bytes
   allowedTypes: string[]
   generateThumbnail?: boolean
+  onProgress?: (percent: number) => void
+}
+
+export interface UploadResult {
+  url: string
+  thumbnailUrl?: string
 }
 
+// Matches the server's per-folder limits
 const defaultConfig: UploadConfig = {
-  maxFileSize: 50 * 1024 * 1024, // 50MB
-  allowedTypes: ['image/jpeg', 'image/png', 'image/webp', 'video/mp4', 'video/webm'],
+  maxFileSize: 5 * 1024 * 1024, // 5MB
+  allowedTypes: ['image/jpeg', 'image/png', 'image/webp'],
   generateThumbnail: false
 }
 
 export class StorageService {
   private baseUrl: string
-  
+
   constructor() {
     this.baseUrl = '/api/upload' // Our backend upload endpoint
   }
 
   async uploadFile(
-    file: File, 
-    folder: string = 'general',
+    file: File,
+    folder: string,
     config: Partial<UploadConfig> = {}
-  ): Promise<{ url: string; thumbnailUrl?: string }> {
+  ): Promise<UploadResult> {
     const finalConfig = { ...defaultConfig, ...config }
-    
+
     // Validate file
     this.validateFile(file, finalConfig)
-    
+
     // Create form data
     const formData = new FormData()
-    formData.append('file', file)
     formData.append('folder', folder)
     formData.append('generateThumbnail', finalConfig.generateThumbnail?.toString() || 'false')
-    
-    try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      })
-      
-      if (!response.ok) {
-        throw new Error(`Upload failed: ${response.statusText}`)
-      }
-      
-      const result = await response.json()
-      return {
-        url: result.url,
-        thumbnailUrl: result.thumbnailUrl
-      }
-    } catch (error) {
-      console.error('Upload error:', error)
-      throw new Error('Failed to upload file')
-    }
+    formData.append('file', file)
+
+    const result = await this.post<UploadResult>(this.baseUrl, formData, finalConfig.onProgress)
+    return { url: result.url, thumbnailUrl: result.thumbnailUrl }
   }
 
-  async uploadExerciseVideo(file: File): Promise<{ url: string; thumbnailUrl?: string }> {
+  async uploadExerciseVideo(file: File, onProgress?: (percent: number) => void): Promise<UploadResult> {
     return this.uploadFile(file, 'exercise-videos', {
       maxFileSize: 100 * 1024 * 1024, // 100MB for videos
-      allowedTypes: ['video/mp4', 'video/webm', 'video/mov'],
-      generateThumbnail: true
+      allowedTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
+      generateThumbnail: true,
+      onProgress
     })
   }
 
-  async uploadProgressPhoto(file: File, clientId: number): Promise<{ url: string }> {
-    return this.uploadFile(file, `progress-photos/${clientId}`, {
-      maxFileSize: 10 * 1024 * 1024, // 10MB for photos
-      allowedTypes: ['image/jpeg', 'image/png', 'image/webp']
+  async uploadExerciseThumbnail(file: File, onProgress?: (percent: number) => void): Promise<UploadResult> {
+    return this.uploadFile(file, 'exercise-thumbnails', {
+      maxFileSize: 5 * 1024 * 1024, // 5MB for thumbnails
+      allowedTypes: ['image/jpeg', 'image/png', 'image/webp'],
+      onProgress
     })
   }
 
-  async uploadAvatar(file: File, userId: string): Promise<{ url: string }> {
-    return this.uploadFile(file, `avatars/${userId}`, {
-      maxFileSize: 5 * 1024 * 1024, // 5MB for avatars
-      allowedTypes: ['image/jpeg', 'image/png', 'image/webp']
+  // A clip of a logged set for the client's coach to review; replaces one not yet reviewed
+  async uploadFormVideo(
+    exerciseSetId: number,
+    file: File,
+    clientNote?: string,
+    onProgress?: (percent: number) => void
+  ): Promise<FormReviewDetail> {
+    this.validateFile(file, {
+      maxFileSize: 50 * 1024 * 1024, // 50MB for set clips
+      allowedTypes: ['video/mp4', 'video/webm', 'video/quicktime']
     })
+
+    const formData = new FormData()
+    if (clientNote) formData.append('clientNote', clientNote)
+    formData.append('file', file)
+
+    return this.post<FormReviewDetail>(`/api/exercise-sets/${exerciseSetId}/form-review`, formData, onProgress)
   }
 
-  async uploadMealPhoto(file: File): Promise<{ url: string }> {
-    return this.uploadFile(file, 'meal-photos', {
-      maxFileSize: 10 * 1024 * 1024, // 10MB for meal photos
-      allowedTypes: ['image/jpeg', 'image/png', 'image/webp']
+  private async post<T>(url: string, formData: FormData, onProgress?: (percent: number) => void): Promise<T> {
+    const { data: { session } } = await supabase.auth.getSession()
+
+    // XMLHttpRequest rather than fetch so upload progress can be reported
+    return new Promise((resolve, reject) => {
+      const request = new XMLHttpRequest()
+      request.open('POST', rewriteApiUrl(url))
+      if (session?.access_token) {
+        request.setRequestHeader('Authorization', `Bearer ${session.access_token}`)
+      }
+
+      request.upload.onprogress = (event) => {
+        if (event.lengthComputable) onProgress?.(Math.round((event.loaded / event.total) * 100))
+      }
+      request.onload = () => {
+        let result: any = null
+        try {
+          result = JSON.parse(request.responseText)
+        } catch {
+          // Non-JSON error pages fall through to the status text
+        }
+        if (request.status >= 200 && request.status < 300 && result) {
+          resolve(result)
+        } else {
+          reject(new Error(result?.message || `Upload failed: ${request.statusText}`))
+        }
+      }
+      request.onerror = () => {
+        console.error('Upload error:', request.statusText)
+        reject(new Error('Failed to upload file'))
+      }
+
+      request.send(formData)
     })
   }
 
-  private validateFile(file: File, config: UploadConfig): void {
+  private validateFile(file: File, config: Pick<UploadConfig, 'maxFileSize' | 'allowedTypes'>): void {
     if (file.size > config.maxFileSize) {
       throw new Error(`File too large. Maximum size: ${this.formatFileSize(config.maxFileSize)}`)
     }
-    
+
     if (!config.allowedTypes.includes(file.type)) {
       throw new Error(`File type not allowed. Allowed types: ${config.allowedTypes.join(', ')}`)
     }
@@ -101,36 +139,13 @@ export class StorageService {
     const units = ['B', 'KB', 'MB', 'GB']
     let size = bytes
     let unitIndex = 0
-    
+
     while (size >= 1024 && unitIndex < units.length - 1) {
       size /= 1024
       unitIndex++
     }
-    
-    return `${size.toFixed(1)} ${units[unitIndex]}`
-  }
 
-  // Helper to generate presigned URLs for direct uploads (future enhancement)
-  async getUploadUrl(fileName: string, fileType: string, folder: string): Promise<string> {
-    const response = await fetch('/api/upload/presigned', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        fileName,
-        fileType,
-        folder
-      }),
-      credentials: 'include'
-    })
-    
-    if (!response.ok) {
-      throw new Error('Failed to get upload URL')
-    }
-    
-    const { uploadUrl } = await response.json()
-    return uploadUrl
+    return `${size.toFixed(1)} ${units[unitIndex]}`
   }
 }
 
@@ -0,0 +1,109 @@
+/**
+ * Supersets and giant sets
+ * Exercises sharing a superset_group are performed back to back, one set of each
+ * per round (A1 → A2 → A3), with rest only once the round is done. Exercises with
+ * fewer sets than the rest of their group drop out of the later rounds.
+ */
+
+export interface SupersetExercise {
+  sets: number;
+  superset_group?: number | null;
+  // Timed block steps are never part of a superset
+  block?: unknown;
+}
+
+export interface PlayerPosition {
+  index: number;
+  set: number;
+}
+
+export interface NextPosition extends PlayerPosition {
+  // Rest before it; only taken at the end of a round
+  rest: boolean;
+}
+
+// Superset groups the builder offers, labelled A-F
+export const SUPERSET_GROUPS = [1, 2, 3, 4, 5, 6];
+
+const groupOf = (exercise: SupersetExercise) => (exercise.block ? null : exercise.superset_group ?? null);
+
+export const getSupersetLetter = (group: number) =>
+  group >= 1 && group <= 26 ? String.fromCharCode(64 + group) : String(group);
+
+/**
+ * Moves the members of each superset up behind its first member, so a group plays
+ * as one run whatever order it was built in
+ */
+export const orderSupersets = <T extends SupersetExercise>(exercises: T[]): T[] => {
+  const ordered: T[] = [];
+  for (const exercise of exercises) {
+    if (ordered.includes(exercise)) continue;
+    const group = groupOf(exercise);
+    ordered.push(...(group === null ? [exercise] : exercises.filter(other => groupOf(other) === group)));
+  }
+  return ordered;
+};
+
+/**
+ * Splits exercises into the runs they play in: one per superset, one per straight exercise
+ */
+export const groupSupersets = <T extends SupersetExercise>(exercises: T[]): T[][] => {
+  const runs: T[][] = [];
+  for (const exercise of orderSupersets(exercises)) {
+    const previous = runs[runs.length - 1];
+    const group = groupOf(exercise);
+    if (previous && group !== null && groupOf(previous[0]) === group) {
+      previous.push(exercise);
+    } else {
+      runs.push([exercise]);
+    }
+  }
+  return runs;
+};
+
+/**
+ * Indices of the superset the exercise at `index` belongs to; just [index] for straight sets
+ */
+export const getSupersetIndices = (exercises: SupersetExercise[], index: number): number[] => {
+  const group = groupOf(exercises[index]);
+  if (group === null) return [index];
+
+  let start = index;
+  let end = index;
+  while (start > 0 && groupOf(exercises[start - 1]) === group) start--;
+  while (end < exercises.length - 1 && groupOf(exercises[end + 1]) === group) end++;
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+};
+
+export const isInSuperset = (exercises: SupersetExercise[], index: number) =>
+  getSupersetIndices(exercises, index).length > 1;
+
+/**
+ * Label like "A2", or null for straight sets
+ */
+export const getSupersetLabel = (exercises: SupersetExercise[], index: number) => {
+  const indices = getSupersetIndices(exercises, index);
+  if (indices.length < 2) return null;
+  return `${getSupersetLetter(groupOf(exercises[index])!)}${indices.indexOf(index) + 1}`;
+};
+
+export const getSupersetRounds = (exercises: SupersetExercise[], index: number) =>
+  Math.max(...getSupersetIndices(exercises, index).map(i => exercises[i].sets));
+
+/**
+ * Where the player goes once the set at `position` is logged: the next exercise of the
+ * round, else the first exercise of the next round, else whatever follows the group.
+ * Null after the last set of the workout.
+ */
+export const getNextPosition = (exercises: SupersetExercise[], { index, set }: PlayerPosition): NextPosition | null => {
+  const indices = getSupersetIndices(exercises, index);
+
+  const sameRound = indices.find(i => i > index && exercises[i].sets >= set);
+  if (sameRound !== undefined) return { index: sameRound, set, rest: false };
+
+  const nextRound = indices.find(i => exercises[i].sets > set);
+  if (nextRound !== undefined) return { index: nextRound, set: set + 1, rest: true };
+
+  const after = indices[indices.length - 1] + 1;
+  return after < exercises.length ? { index: after, set: 1, rest: false } : null;
+};
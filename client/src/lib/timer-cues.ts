@@ -0,0 +1,79 @@
+/**
+ * Audio and vibration cues for workout timers
+ * Follows the client's timer_sounds and vibration_alerts workout preferences.
+ */
+
+export interface TimerCuePreferences {
+  sounds: boolean;
+  vibration: boolean;
+}
+
+// countdown: 3-2-1 before a phase change; warning: rest running low
+export type TimerCue = 'countdown' | 'warning' | 'go' | 'rest' | 'finish';
+
+export const DEFAULT_TIMER_CUES: TimerCuePreferences = { sounds: true, vibration: true };
+
+const TONES: Record<TimerCue, { frequency: number; duration: number; repeat?: number }> = {
+  countdown: { frequency: 660, duration: 0.15 },
+  warning: { frequency: 800, duration: 0.2 },
+  go: { frequency: 1200, duration: 0.4 },
+  rest: { frequency: 440, duration: 0.4 },
+  finish: { frequency: 1200, duration: 0.3, repeat: 3 }
+};
+
+const VIBRATIONS: Record<TimerCue, number | number[]> = {
+  countdown: 50,
+  warning: 100,
+  go: 300,
+  rest: [100, 100, 100],
+  finish: [200, 100, 200, 100, 400]
+};
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = () => {
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return null;
+    audioContext = new AudioContextClass();
+  }
+  // Browsers start contexts suspended until there has been a user gesture
+  if (audioContext.state === 'suspended') audioContext.resume();
+  return audioContext;
+};
+
+const beep = (context: AudioContext, frequency: number, duration: number, startAt: number) => {
+  const oscillator = context.createOscillator();
+  const gainNode = context.createGain();
+
+  oscillator.connect(gainNode);
+  gainNode.connect(context.destination);
+
+  oscillator.frequency.value = frequency;
+  oscillator.type = 'sine';
+
+  gainNode.gain.setValueAtTime(0.3, startAt);
+  gainNode.gain.exponentialRampToValueAtTime(0.01, startAt + duration);
+
+  oscillator.start(startAt);
+  oscillator.stop(startAt + duration);
+};
+
+/**
+ * Plays a cue as a beep and/or vibration, depending on the client's preferences
+ */
+export const playTimerCue = (cue: TimerCue, preferences: TimerCuePreferences = DEFAULT_TIMER_CUES) => {
+  if (preferences.sounds) {
+    const context = getAudioContext();
+    if (context) {
+      const { frequency, duration, repeat = 1 } = TONES[cue];
+      for (let i = 0; i < repeat; i++) {
+        beep(context, frequency, duration, context.currentTime + i * (duration + 0.1));
+      }
+    }
+  }
+
+  if (preferences.vibration && 'vibrate' in navigator) {
+    navigator.vibrate(VIBRATIONS[cue]);
+  }
+};
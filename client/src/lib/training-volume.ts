@@ -0,0 +1,62 @@
+/**
+ * Weekly training volume
+ * Hard sets per muscle group compared with a coach's weekly target ranges.
+ * Logged volume comes from /api/clients/:id/training-volume; planned volume
+ * is counted here from a program week's prescribed sets, with every muscle
+ * group on an exercise getting the full set count, matching the server.
+ */
+
+import type { MuscleVolumeTarget } from '@shared/schema';
+
+export type { MuscleVolumeTarget };
+
+export type VolumeStatus = 'under' | 'within' | 'over';
+
+export interface PlannedExercise {
+  muscle_groups?: string[] | null;
+  sets: number;
+}
+
+export interface PlannedVolumeWarning {
+  muscleGroup: string;
+  plannedSets: number;
+  target: MuscleVolumeTarget;
+  status: Exclude<VolumeStatus, 'within'>;
+}
+
+export function getVolumeStatus(hardSets: number, target: MuscleVolumeTarget): VolumeStatus {
+  if (hardSets < target.minSets) return 'under';
+  if (hardSets > target.maxSets) return 'over';
+  return 'within';
+}
+
+/**
+ * Planned sets per muscle group across a week's workouts
+ */
+export function getPlannedWeekVolume(workouts: { exercises: PlannedExercise[] }[]): Map<string, number> {
+  const volume = new Map<string, number>();
+  for (const workout of workouts) {
+    for (const exercise of workout.exercises) {
+      const muscleGroups = new Set((exercise.muscle_groups ?? []).map(group => group.trim().toLowerCase()).filter(Boolean));
+      muscleGroups.forEach(group => {
+        volume.set(group, (volume.get(group) ?? 0) + (exercise.sets || 0));
+      });
+    }
+  }
+  return volume;
+}
+
+/**
+ * Targeted muscle groups a planned week falls short of or goes past
+ */
+export function getPlannedVolumeWarnings(
+  plannedVolume: Map<string, number>,
+  targets: MuscleVolumeTarget[]
+): PlannedVolumeWarning[] {
+  return targets
+    .map(target => {
+      const plannedSets = plannedVolume.get(target.muscleGroup) ?? 0;
+      return { muscleGroup: target.muscleGroup, plannedSets, target, status: getVolumeStatus(plannedSets, target) };
+    })
+    .filter((warning): warning is PlannedVolumeWarning => warning.status !== 'within');
+}
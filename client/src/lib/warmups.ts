@@ -0,0 +1,102 @@
+/**
+ * Warm-up ramps
+ * Builds warm-up sets from an exercise's working load using the scheme the coach
+ * picked on the workout_exercises row, e.g. empty bar ×10, 40% ×5, 60% ×3, 80% ×1.
+ * Loads are in the client's unit like the rest of the player, rounded to what
+ * their plates can build for barbell lifts.
+ */
+
+import { convertWeight, type WeightUnit } from '@shared/weight-units';
+import { roundToLoadable, type PlateSetup } from './plates';
+
+export type WarmupScheme = 'none' | 'standard' | 'short' | 'heavy';
+
+export interface WarmupStep {
+  // Share of the working load; null for the empty bar
+  percent: number | null;
+  reps: number;
+}
+
+export interface WarmupSet {
+  label: string;
+  reps: number;
+  weight: number;
+}
+
+export const WARMUP_SCHEMES: { value: WarmupScheme; label: string; description: string; steps: WarmupStep[] }[] = [
+  { value: 'none', label: 'None', description: 'No warm-up sets', steps: [] },
+  {
+    value: 'standard',
+    label: 'Standard',
+    description: 'Bar ×10, 40% ×5, 60% ×3, 80% ×1',
+    steps: [
+      { percent: null, reps: 10 },
+      { percent: 40, reps: 5 },
+      { percent: 60, reps: 3 },
+      { percent: 80, reps: 1 }
+    ]
+  },
+  {
+    value: 'short',
+    label: 'Short',
+    description: '50% ×5, 75% ×3 for accessory lifts',
+    steps: [
+      { percent: 50, reps: 5 },
+      { percent: 75, reps: 3 }
+    ]
+  },
+  {
+    value: 'heavy',
+    label: 'Heavy',
+    description: 'Bar ×10, 40% ×5, 55% ×3, 70% ×2, 80% ×1, 90% ×1',
+    steps: [
+      { percent: null, reps: 10 },
+      { percent: 40, reps: 5 },
+      { percent: 55, reps: 3 },
+      { percent: 70, reps: 2 },
+      { percent: 80, reps: 1 },
+      { percent: 90, reps: 1 }
+    ]
+  }
+];
+
+// Smallest jump between dumbbell and machine loads
+const LOAD_STEP: Record<WeightUnit, number> = { lbs: 5, kg: 2.5 };
+
+/**
+ * Warm-up sets for a working load. Steps that would land on the bar or at the working
+ * load once rounded are dropped; without a working load there's nothing to ramp to.
+ * @param plateSetup Client's bar and plates; only used for barbell lifts
+ * @param unit Unit of the working load and the warm-up loads
+ */
+export const generateWarmupSets = (
+  scheme: WarmupScheme | string | null | undefined,
+  workingWeight: number | null | undefined,
+  plateSetup?: PlateSetup,
+  unit: WeightUnit = 'lbs'
+): WarmupSet[] => {
+  const steps = WARMUP_SCHEMES.find(option => option.value === scheme)?.steps ?? [];
+  if (steps.length === 0 || !workingWeight || workingWeight <= 0) return [];
+
+  const barWeight = plateSetup ? convertWeight(plateSetup.barWeight, plateSetup.unit, unit) : null;
+  const roundLoad = (weight: number) => {
+    if (!plateSetup) return Math.round(weight / LOAD_STEP[unit]) * LOAD_STEP[unit];
+    const loadable = roundToLoadable(convertWeight(weight, unit, plateSetup.unit), plateSetup);
+    return Math.round(convertWeight(loadable, plateSetup.unit, unit) * 10) / 10;
+  };
+
+  const sets: WarmupSet[] = [];
+  for (const step of steps) {
+    if (step.percent === null) {
+      // Only barbell lifts have an empty bar to start from
+      if (barWeight !== null && barWeight < workingWeight) sets.push({ label: 'Empty bar', reps: step.reps, weight: barWeight });
+      continue;
+    }
+
+    const weight = roundLoad(workingWeight * step.percent / 100);
+    const previous = sets[sets.length - 1]?.weight ?? (barWeight ?? 0);
+    if (weight <= previous || weight >= workingWeight) continue;
+    sets.push({ label: `${step.percent}%`, reps: step.reps, weight });
+  }
+  return sets;
+};
@@ -11,6 +11,9 @@ import ProgressPhotos from "@/components/dashboard/ProgressPhotos";
 import UpcomingCheckins from "@/components/dashboard/UpcomingCheckins";
 import NutritionPlan from "@/components/dashboard/NutritionPlan";
 import AssignedWorkouts from "@/components/client/dashboard/AssignedWorkouts";
+import TrainingCalendar from "@/components/client/dashboard/TrainingCalendar";
+import MyEquipment from "@/components/client/dashboard/MyEquipment";
+import FormReviews from "@/components/client/dashboard/FormReviews";
 import { useSupabaseAuth } from "@/hooks/useSupabaseAuth";
 import { format } from "date-fns";
 
@@ -201,6 +204,15 @@ export default function Dashboard() {
       {/* Assigned Workouts Section */}
       <AssignedWorkouts />
 
+      {/* Program Calendar */}
+      <TrainingCalendar />
+
+      {/* Equipment Profiles */}
+      <MyEquipment />
+
+      {/* Coach Form Reviews */}
+      <FormReviews />
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Weight Chart Section */}
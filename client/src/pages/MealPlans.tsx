@@ -14,6 +14,7 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import NutritionLogForm from '@/components/dashboard/NutritionLogForm';
 import { apiRequest } from '@/lib/queryClient';
 import { NutritionPlan, FormattedNutritionPlan, MacroTarget } from '@/types';
 import { cn } from '@/lib/utils';
@@ -295,7 +296,7 @@ export default function MealPlans() {
       
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Nutrition Macros Summary */}
-        <div className="lg:col-span-1">
+        <div className="lg:col-span-1 space-y-6">
           <Card>
             <CardHeader>
               <CardTitle>{currentMealPlan.title}</CardTitle>
@@ -343,6 +344,8 @@ export default function MealPlans() {
               </div>
             </CardContent>
           </Card>
+
+          <NutritionLogForm nutritionPlanId={currentPlan?.id} />
         </div>
         
         {/* Meal Plan Details */}
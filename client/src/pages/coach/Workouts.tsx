@@ -3,13 +3,27 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Plus, Dumbbell, Library, Zap, Users, Calendar } from 'lucide-react'
+import { Plus, Dumbbell, Library, Zap, Users, Calendar, LayoutTemplate, Video } from 'lucide-react'
 import ExerciseLibrary from '@/components/coach/workouts/ExerciseLibrary'
 import WorkoutBuilder from '@/components/coach/workouts/WorkoutBuilder'
 import ProgramBuilder from '@/components/coach/programs/ProgramBuilder'
+import ProgramLibrary from '@/components/coach/programs/ProgramLibrary'
+import TemplateLibrary from '@/components/coach/programs/TemplateLibrary'
+import FormReviewQueue from '@/components/coach/workouts/FormReviewQueue'
 
 export default function CoachWorkouts() {
   const [activeTab, setActiveTab] = useState('exercises')
+  const [editingProgramId, setEditingProgramId] = useState<number | null>(null)
+
+  const startNewProgram = () => {
+    setEditingProgramId(null)
+    setActiveTab('programs')
+  }
+
+  const editProgram = (programId: number) => {
+    setEditingProgramId(programId)
+    setActiveTab('programs')
+  }
 
   return (
     <div className="space-y-8 animate-fade-in">
@@ -28,7 +42,7 @@ export default function CoachWorkouts() {
             <Calendar className="w-4 h-4" />
             Schedule Workouts
           </Button>
-          <Button className="bg-gradient-to-r from-primary to-accent text-white gap-2">
+          <Button onClick={startNewProgram} className="bg-gradient-to-r from-primary to-accent text-white gap-2">
             <Plus className="w-4 h-4" />
             New Program
           </Button>
@@ -96,7 +110,7 @@ export default function CoachWorkouts() {
 
       {/* Main Content Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="exercises" className="gap-2">
             <Library className="w-4 h-4" />
             Exercise Library
@@ -109,6 +123,14 @@ export default function CoachWorkouts() {
             <Calendar className="w-4 h-4" />
             Programs
           </TabsTrigger>
+          <TabsTrigger value="templates" className="gap-2">
+            <LayoutTemplate className="w-4 h-4" />
+            Templates
+          </TabsTrigger>
+          <TabsTrigger value="form-reviews" className="gap-2">
+            <Video className="w-4 h-4" />
+            Form Reviews
+          </TabsTrigger>
           <TabsTrigger value="assignments" className="gap-2">
             <Users className="w-4 h-4" />
             Assignments
@@ -123,8 +145,21 @@ export default function CoachWorkouts() {
           <WorkoutBuilder />
         </TabsContent>
 
-        <TabsContent value="programs" className="mt-8">
-          <ProgramBuilder />
+        <TabsContent value="programs" className="mt-8 space-y-8">
+          <ProgramLibrary onEdit={setEditingProgramId} />
+          <ProgramBuilder
+            key={editingProgramId ?? 'new'}
+            programId={editingProgramId}
+            onSaved={setEditingProgramId}
+          />
+        </TabsContent>
+
+        <TabsContent value="templates" className="mt-8">
+          <TemplateLibrary onUse={editProgram} />
+        </TabsContent>
+
+        <TabsContent value="form-reviews" className="mt-8">
+          <FormReviewQueue />
         </TabsContent>
 
         <TabsContent value="assignments" className="mt-8">
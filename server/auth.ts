@@ -0,0 +1,49 @@
+import { createClient } from '@supabase/supabase-js';
+import { SUPABASE_ANON_KEY, SUPABASE_URL } from "./config";
+
+// Supabase client setup for JWT verification (fallback values handled in config)
+const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  role: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+// Strip quotes and reject the "null"/"undefined" strings some clients send
+export function normalizeToken(rawToken: string | undefined | null): string | null {
+  if (!rawToken) return null;
+  const token = rawToken.trim().replace(/^"|"$/g, '');
+  if (!token || token === 'null' || token === 'undefined') return null;
+  return token;
+}
+
+/**
+ * Verify a Supabase JWT and map it to the user shape attached to requests.
+ * Shared by the REST auth middleware and the Socket.IO handshake so both
+ * accept exactly the same tokens.
+ */
+export async function verifySupabaseToken(token: string): Promise<AuthenticatedUser | null> {
+  try {
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+
+    if (error) {
+      console.log('❌ Supabase auth error:', error.message);
+      return null;
+    }
+    if (!user) return null;
+
+    return {
+      id: user.id,
+      email: user.email,
+      role: user.user_metadata?.role || 'client',
+      firstName: user.user_metadata?.first_name,
+      lastName: user.user_metadata?.last_name
+    };
+  } catch (supabaseError) {
+    console.log('❌ Supabase verification failed:', (supabaseError as any).message);
+    return null;
+  }
+}
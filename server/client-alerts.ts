@@ -0,0 +1,256 @@
+import type { IStorage } from "./storage";
+import type { AlertSettings, Client, User } from "@shared/schema";
+import { convertWeight, preferredWeightUnit, type WeightUnit } from "@shared/weight-units";
+
+/**
+ * AT-RISK CLIENT ALERTS
+ *
+ * Rules run against each active client of a coach, using the coach's
+ * alert_settings thresholds (or the defaults below; a threshold of 0 turns
+ * the rule off):
+ * - inactivity: no completed workout in `inactivityDays`
+ * - missed_checkins: at least `missedCheckins` cancelled or no-show check-ins
+ *   in the last `checkinLookbackDays`
+ * - unanswered_messages: the coach's last message has had no reply for
+ *   `unansweredMessageHours`
+ * - weight_trend: weight moved `weightTrendThreshold` kg further from
+ *   clients.goalWeight over the last `weightTrendDays`
+ * Alerts are computed on every request. client_alerts only stores what the
+ * coach did with one (acknowledged or snoozed); an evaluation run with
+ * clearStale set forgets dismissals whose rule has stopped firing, so the
+ * same signal coming back later alerts again.
+ */
+
+export type AlertRule = 'inactivity' | 'missed_checkins' | 'unanswered_messages' | 'weight_trend';
+
+export const ALERT_RULES: AlertRule[] = ['inactivity', 'missed_checkins', 'unanswered_messages', 'weight_trend'];
+
+export type AlertThresholds = Pick<
+  AlertSettings,
+  'inactivityDays' | 'missedCheckins' | 'checkinLookbackDays' | 'unansweredMessageHours' | 'weightTrendDays' | 'weightTrendThreshold'
+>;
+
+export const DEFAULT_ALERT_SETTINGS: AlertThresholds = {
+  inactivityDays: 7,
+  missedCheckins: 2,
+  checkinLookbackDays: 30,
+  unansweredMessageHours: 48,
+  weightTrendDays: 14,
+  weightTrendThreshold: '1.0'
+};
+
+export type AlertStatus = 'open' | 'acknowledged' | 'snoozed';
+
+export interface AtRiskAlert {
+  id: string;
+  clientId: number;
+  clientName: string;
+  clientAvatar: string | null;
+  rule: AlertRule;
+  message: string;
+  since: string | null;
+  status: AlertStatus;
+  snoozedUntil: string | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Inactivity is reported against the last workout within this many days at most
+const INACTIVITY_HISTORY_DAYS = 90;
+
+const alertKey = (clientId: number, rule: AlertRule) => `${clientId}:${rule}`;
+
+const displayName = (user?: User) => {
+  if (!user) return 'Client';
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || user.username || user.email;
+};
+
+export async function getAlertSettingsForCoach(storage: IStorage, coachUserId: string): Promise<AlertThresholds> {
+  const settings = await storage.getAlertSettings(coachUserId);
+  return settings ?? DEFAULT_ALERT_SETTINGS;
+}
+
+// Weight drift is kept in kg until the client's unit is known
+type Signal = { rule: AlertRule; message: string; since: Date | null; weightDrift?: { drift: number; goal: number } };
+
+const describeWeightDrift = ({ drift, goal }: { drift: number; goal: number }, unit: WeightUnit, days: number) => {
+  const shown = (kg: number) => Math.round(convertWeight(kg, 'kg', unit) * 10) / 10;
+  return `Weight moved ${shown(drift).toFixed(1)}${unit} further from goal (${shown(goal)}${unit}) in ${days} days`;
+};
+
+/**
+ * Evaluate every rule for the coach's active clients. Only open alerts are
+ * returned unless includeDismissed is set; nothing is written unless
+ * clearStale is set.
+ */
+export async function getCoachAlerts(
+  storage: IStorage,
+  coachUserId: string,
+  options: { includeDismissed?: boolean; clearStale?: boolean } = {}
+): Promise<AtRiskAlert[]> {
+  const now = new Date();
+  const relationships = await storage.getCoachClientsByCoachId(coachUserId, 'active');
+  const clientUserIds = relationships.map(relationship => relationship.clientId);
+
+  const [clients, users, settings] = await Promise.all([
+    storage.getClientsByUserIds(clientUserIds),
+    storage.getUsersByIds(clientUserIds),
+    getAlertSettingsForCoach(storage, coachUserId)
+  ]);
+  const clientIds = clients.map(client => client.id);
+  const since = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+  const [workoutLogs, checkins, weightLogs, messages, states] = await Promise.all([
+    settings.inactivityDays > 0
+      ? storage.getWorkoutLogsByClientIdsAndDateRange(clientIds, since(Math.max(settings.inactivityDays, INACTIVITY_HISTORY_DAYS)), now)
+      : Promise.resolve([]),
+    settings.missedCheckins > 0
+      ? storage.getCheckinsByClientIdsAndDateRange(clientIds, since(settings.checkinLookbackDays), now)
+      : Promise.resolve([]),
+    settings.weightTrendDays > 0
+      ? storage.getWeightLogsByClientIdsAndDateRange(clientIds, since(settings.weightTrendDays), now)
+      : Promise.resolve([]),
+    settings.unansweredMessageHours > 0 ? storage.getMessagesByUserId(coachUserId) : Promise.resolve([]),
+    storage.getClientAlertsByCoachId(coachUserId)
+  ]);
+
+  const startDateByUserId = new Map(relationships.map(relationship => [relationship.clientId, String(relationship.startDate)]));
+  const signalsFor = (client: Client): Signal[] => {
+    const signals: Signal[] = [];
+
+    // Inactivity: skip clients who joined too recently to have missed anything
+    const joined = Date.parse(startDateByUserId.get(client.userId) || '');
+    if (settings.inactivityDays > 0 && !(joined > since(settings.inactivityDays).getTime())) {
+      const lastWorkout = workoutLogs
+        .filter(log => log.clientId === client.id && log.status === 'completed')
+        .map(log => new Date(log.endTime || log.date))
+        .sort((a, b) => b.getTime() - a.getTime())[0];
+      const idleDays = lastWorkout ? Math.floor((now.getTime() - lastWorkout.getTime()) / DAY_MS) : null;
+      if (idleDays === null || idleDays >= settings.inactivityDays) {
+        signals.push({
+          rule: 'inactivity',
+          message: idleDays === null
+            ? `No workout logged in over ${Math.max(settings.inactivityDays, INACTIVITY_HISTORY_DAYS)} days`
+            : `No workout logged in ${idleDays} days`,
+          since: lastWorkout ?? null
+        });
+      }
+    }
+
+    // Missed check-ins: cancelled, or past without being completed
+    if (settings.missedCheckins > 0) {
+      const missed = checkins.filter(checkin =>
+        checkin.clientId === client.id &&
+        (checkin.status === 'cancelled' || (checkin.status !== 'completed' && new Date(checkin.endTime) < now))
+      );
+      if (missed.length >= settings.missedCheckins) {
+        signals.push({
+          rule: 'missed_checkins',
+          message: `Missed ${missed.length} check-ins in the last ${settings.checkinLookbackDays} days`,
+          since: new Date(Math.min(...missed.map(checkin => new Date(checkin.startTime).getTime())))
+        });
+      }
+    }
+
+    // Unanswered messages: the coach spoke last and has been waiting too long
+    if (settings.unansweredMessageHours > 0) {
+      const conversation = messages
+        .filter(message =>
+          (message.senderId === coachUserId && message.receiverId === client.userId) ||
+          (message.senderId === client.userId && message.receiverId === coachUserId)
+        )
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      const latest = conversation[0];
+      if (latest && latest.senderId === coachUserId) {
+        const sentAt = new Date(latest.createdAt);
+        const waitingHours = Math.floor((now.getTime() - sentAt.getTime()) / HOUR_MS);
+        if (waitingHours >= settings.unansweredMessageHours) {
+          signals.push({
+            rule: 'unanswered_messages',
+            message: waitingHours >= 48
+              ? `No reply to your message for ${Math.floor(waitingHours / 24)} days`
+              : `No reply to your message for ${waitingHours} hours`,
+            since: sentAt
+          });
+        }
+      }
+    }
+
+    // Weight trend: compare the first and last log in the window against the goal
+    const threshold = parseFloat(settings.weightTrendThreshold);
+    const goal = client.goalWeight ? parseFloat(client.goalWeight) : NaN;
+    if (settings.weightTrendDays > 0 && threshold > 0 && !Number.isNaN(goal)) {
+      const logs = weightLogs
+        .filter(log => log.clientId === client.id)
+        .sort((a, b) => String(a.date).localeCompare(String(b.date)));
+      if (logs.length >= 2) {
+        const first = Number(logs[0].weight);
+        const last = Number(logs[logs.length - 1].weight);
+        const drift = Math.abs(last - goal) - Math.abs(first - goal);
+        if (drift >= threshold) {
+          signals.push({
+            rule: 'weight_trend',
+            message: '',
+            since: new Date(String(logs[0].date)),
+            weightDrift: { drift, goal }
+          });
+        }
+      }
+    }
+
+    return signals;
+  };
+
+  const userById = new Map(users.map(user => [user.id, user]));
+  const stateByKey = new Map(states.map(state => [alertKey(state.clientId, state.rule as AlertRule), state]));
+  const firing = new Set<string>();
+  const alerts: AtRiskAlert[] = [];
+
+  // Weight alerts are worded in the client's preferred unit
+  const signalsByClient = clients.map(client => ({ client, signals: signalsFor(client) }));
+  const weightUnitByUserId = new Map(await Promise.all(signalsByClient
+    .filter(({ signals }) => signals.some(signal => signal.weightDrift))
+    .map(async ({ client }) =>
+      [client.userId, preferredWeightUnit(await storage.getClientWorkoutPreferences(client.userId))] as const
+    )));
+
+  for (const { client, signals } of signalsByClient) {
+    const user = userById.get(client.userId);
+    for (const signal of signals) {
+      const key = alertKey(client.id, signal.rule);
+      firing.add(key);
+
+      const state = stateByKey.get(key);
+      const snoozed = state?.status === 'snoozed' && state.snoozedUntil && new Date(state.snoozedUntil) > now;
+      const status: AlertStatus = state?.status === 'acknowledged' ? 'acknowledged' : snoozed ? 'snoozed' : 'open';
+      if (status !== 'open' && !options.includeDismissed) continue;
+
+      alerts.push({
+        id: key,
+        clientId: client.id,
+        clientName: displayName(user),
+        clientAvatar: user?.avatar || null,
+        rule: signal.rule,
+        message: signal.weightDrift
+          ? describeWeightDrift(signal.weightDrift, weightUnitByUserId.get(client.userId) ?? 'kg', settings.weightTrendDays)
+          : signal.message,
+        since: signal.since ? signal.since.toISOString() : null,
+        status,
+        snoozedUntil: snoozed && state?.snoozedUntil ? new Date(state.snoozedUntil).toISOString() : null
+      });
+    }
+  }
+
+  // Forget dismissals for rules that have stopped firing
+  if (options.clearStale) {
+    await Promise.all(states
+      .filter(state => !firing.has(alertKey(state.clientId, state.rule as AlertRule)))
+      .map(state => storage.deleteClientAlert(state.id)));
+  }
+
+  return alerts.sort((a, b) =>
+    a.clientName.localeCompare(b.clientName) || ALERT_RULES.indexOf(a.rule) - ALERT_RULES.indexOf(b.rule)
+  );
+}
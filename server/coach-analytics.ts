@@ -0,0 +1,265 @@
+import type { IStorage } from "./storage";
+import type { CoachClient, User } from "@shared/schema";
+import { convertWeight, preferredWeightUnit, type WeightUnit } from "@shared/weight-units";
+import { getClientCompliance, getComplianceSettingsForCoach } from "./compliance";
+
+/**
+ * COACH OVERVIEW ANALYTICS
+ *
+ * Computes the coach dashboard metrics and activity feed from the coach's
+ * client roster (coach_clients) and their logged data. All reads go through
+ * the storage passed in, so RLS applies when called with an RLS-aware storage.
+ */
+
+export type OverviewRange = 'week' | 'month' | 'quarter';
+
+export const OVERVIEW_RANGES: OverviewRange[] = ['week', 'month', 'quarter'];
+
+const RANGE_DAYS: Record<OverviewRange, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90
+};
+
+export type ActivityType = 'workout_completed' | 'progress_photo' | 'weight_logged' | 'message_sent';
+
+export interface CoachActivity {
+  id: string;
+  type: ActivityType;
+  clientId: number;
+  clientName: string;
+  clientAvatar: string | null;
+  description: string;
+  timestamp: string;
+}
+
+export interface CoachOverview {
+  range: OverviewRange;
+  periodStart: string;
+  periodEnd: string;
+  stats: {
+    totalClients: number;
+    activeClients: number;
+    newClients: number;
+    retentionRate: number | null;
+    retentionRateChange: number | null;
+    averageCompliance: number | null;
+    monthlyRevenue: number;
+    compliance: {
+      workout: number | null;
+      nutrition: number | null;
+      checkins: number | null;
+    };
+  };
+  activity: {
+    items: CoachActivity[];
+    page: number;
+    pageSize: number;
+    total: number;
+    hasMore: boolean;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const percent = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 100) : null;
+
+// Normalise a relationship's rate to a monthly amount based on its billing cycle
+function toMonthlyRate(rate: string | null, billingCycle: string | null): number {
+  const amount = rate ? parseFloat(rate) : 0;
+  if (!amount || Number.isNaN(amount)) return 0;
+
+  switch ((billingCycle || 'monthly').toLowerCase()) {
+    case 'weekly':
+      return amount * 52 / 12;
+    case 'biweekly':
+    case 'fortnightly':
+      return amount * 26 / 12;
+    case 'quarterly':
+      return amount / 3;
+    case 'yearly':
+    case 'annual':
+    case 'annually':
+      return amount / 12;
+    default:
+      return amount;
+  }
+}
+
+// Relationships that were running on the given day
+function onRosterAt(relationships: CoachClient[], day: string) {
+  return relationships.filter(relationship =>
+    String(relationship.startDate) <= day &&
+    (!relationship.endDate || String(relationship.endDate) > day)
+  );
+}
+
+// Share of the roster at `start` that was still on the roster at `end`
+function retentionBetween(relationships: CoachClient[], start: string, end: string): number | null {
+  const cohort = onRosterAt(relationships, start);
+  const retained = cohort.filter(relationship =>
+    relationship.status !== 'ended' || (relationship.endDate && String(relationship.endDate) > end)
+  );
+  return percent(retained.length, cohort.length);
+}
+
+const displayName = (user?: User) => {
+  if (!user) return 'Client';
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || user.username || user.email;
+};
+
+export async function getCoachOverview(
+  storage: IStorage,
+  coachUserId: string,
+  range: OverviewRange,
+  pagination: { page: number; pageSize: number }
+): Promise<CoachOverview> {
+  const periodEnd = new Date();
+  const periodStart = new Date(periodEnd.getTime() - RANGE_DAYS[range] * DAY_MS);
+  const previousStart = new Date(periodStart.getTime() - RANGE_DAYS[range] * DAY_MS);
+  const startDay = toDateString(periodStart);
+  const endDay = toDateString(periodEnd);
+
+  const relationships = await storage.getCoachClientsByCoachId(coachUserId);
+  const current = relationships.filter(relationship => relationship.status !== 'ended');
+  const active = relationships.filter(relationship => relationship.status === 'active');
+
+  const clientUserIds = Array.from(new Set(relationships.map(relationship => relationship.clientId)));
+  const [clients, users] = await Promise.all([
+    storage.getClientsByUserIds(clientUserIds),
+    storage.getUsersByIds(clientUserIds)
+  ]);
+  const clientByUserId = new Map(clients.map(client => [client.userId, client]));
+  const userById = new Map(users.map(user => [user.id, user]));
+  const clientIds = clients.map(client => client.id);
+  const activeClients = active
+    .map(relationship => clientByUserId.get(relationship.clientId))
+    .filter((client): client is NonNullable<typeof client> => client !== undefined);
+
+  const [workoutLogs, weightLogs, progressPhotos, messages, complianceSettings] = await Promise.all([
+    storage.getWorkoutLogsByClientIdsAndDateRange(clientIds, periodStart, periodEnd),
+    storage.getWeightLogsByClientIdsAndDateRange(clientIds, periodStart, periodEnd),
+    storage.getProgressPhotosByClientIdsAndDateRange(clientIds, periodStart, periodEnd),
+    storage.getMessagesByUserId(coachUserId),
+    getComplianceSettingsForCoach(storage, coachUserId)
+  ]);
+
+  // Compliance over the selected range, averaged across active clients
+  const compliance = Array.from((await getClientCompliance(
+    storage,
+    activeClients,
+    complianceSettings,
+    { start: periodStart, end: periodEnd }
+  )).values());
+  const average = (key: 'workout' | 'nutrition' | 'checkins' | 'overall') => {
+    const values = compliance.map(score => score[key]).filter((value): value is number => value !== null);
+    return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+  };
+
+  const retentionRate = retentionBetween(relationships, startDay, endDay);
+  const previousRetention = retentionBetween(relationships, toDateString(previousStart), startDay);
+
+  // Activity feed across all data sources, newest first
+  const clientById = new Map(clients.map(client => [client.id, client]));
+  const activityFor = (clientId: number) => {
+    const user = userById.get(clientById.get(clientId)?.userId || '');
+    return { clientId, clientName: displayName(user), clientAvatar: user?.avatar || null };
+  };
+
+  const feed: (CoachActivity & { workoutId?: number; weight?: number })[] = [
+    ...workoutLogs
+      .filter(log => log.status === 'completed')
+      .map(log => ({
+        id: `workout-${log.id}`,
+        type: 'workout_completed' as const,
+        ...activityFor(log.clientId),
+        description: 'Completed a workout',
+        timestamp: new Date(log.endTime || log.updatedAt || log.date).toISOString(),
+        workoutId: log.workoutId
+      })),
+    ...progressPhotos.map(photo => ({
+      id: `photo-${photo.id}`,
+      type: 'progress_photo' as const,
+      ...activityFor(photo.clientId),
+      description: photo.category ? `Uploaded a ${photo.category} progress photo` : 'Uploaded a new progress photo',
+      timestamp: new Date(photo.createdAt || photo.date).toISOString()
+    })),
+    ...weightLogs.map(log => ({
+      id: `weight-${log.id}`,
+      type: 'weight_logged' as const,
+      ...activityFor(log.clientId),
+      description: `Logged weight: ${Number(log.weight)}`,
+      timestamp: new Date(log.createdAt || log.date).toISOString(),
+      weight: Number(log.weight)
+    })),
+    ...messages
+      .filter(message =>
+        message.receiverId === coachUserId &&
+        clientByUserId.has(message.senderId) &&
+        new Date(message.createdAt) >= periodStart
+      )
+      .map(message => ({
+        id: `message-${message.id}`,
+        type: 'message_sent' as const,
+        ...activityFor(clientByUserId.get(message.senderId)!.id),
+        description: 'Sent you a message',
+        timestamp: new Date(message.createdAt).toISOString()
+      }))
+  ].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  const { page, pageSize } = pagination;
+  const pageItems = feed.slice((page - 1) * pageSize, page * pageSize);
+
+  // Only resolve workout names and weight units for the page being returned;
+  // weight logs are in kg and shown in the client's preferred unit
+  const unitByClientId = new Map<number, Promise<WeightUnit>>();
+  const unitFor = (clientId: number) => {
+    if (!unitByClientId.has(clientId)) {
+      unitByClientId.set(clientId, storage.getClientWorkoutPreferences(clientById.get(clientId)?.userId || '')
+        .then(preferredWeightUnit));
+    }
+    return unitByClientId.get(clientId)!;
+  };
+
+  const items = await Promise.all(pageItems.map(async ({ workoutId, weight, ...item }) => {
+    if (weight !== undefined) {
+      const unit = await unitFor(item.clientId);
+      const shown = Math.round(convertWeight(weight, 'kg', unit) * 10) / 10;
+      return { ...item, description: `Logged weight: ${shown} ${unit}` };
+    }
+    if (!workoutId) return item;
+    const workout = await storage.getWorkout(workoutId);
+    return workout ? { ...item, description: `Completed ${workout.name}` } : item;
+  }));
+
+  return {
+    range,
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    stats: {
+      totalClients: current.length,
+      activeClients: active.length,
+      newClients: relationships.filter(relationship => String(relationship.startDate) >= startDay).length,
+      retentionRate,
+      retentionRateChange: retentionRate !== null && previousRetention !== null ? retentionRate - previousRetention : null,
+      averageCompliance: average('overall'),
+      monthlyRevenue: Math.round(active.reduce((sum, relationship) =>
+        sum + toMonthlyRate(relationship.rate, relationship.billingCycle), 0)),
+      compliance: {
+        workout: average('workout'),
+        nutrition: average('nutrition'),
+        checkins: average('checkins')
+      }
+    },
+    activity: {
+      items,
+      page,
+      pageSize,
+      total: feed.length,
+      hasMore: page * pageSize < feed.length
+    }
+  };
+}
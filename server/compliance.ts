@@ -0,0 +1,148 @@
+import type { IStorage } from "./storage";
+import type { Client, ComplianceSettings } from "@shared/schema";
+
+/**
+ * CLIENT COMPLIANCE SCORING
+ *
+ * Scores each client over a rolling window:
+ * - workout: completed vs. planned sessions (workout_logs and workout_assignments,
+ *   de-duplicated by workout and day)
+ * - nutrition: days with a nutrition log vs. days covered by a nutrition plan
+ * - checkins: completed vs. past check-ins (cancelled and no-shows count as missed)
+ * The overall score is a weighted average of whichever components apply,
+ * using the coach's compliance_settings (or the defaults below).
+ */
+
+export type ComplianceWeights = Pick<ComplianceSettings, 'workoutWeight' | 'nutritionWeight' | 'checkinWeight' | 'windowDays'>;
+
+export const DEFAULT_COMPLIANCE_SETTINGS: ComplianceWeights = {
+  workoutWeight: 50,
+  nutritionWeight: 30,
+  checkinWeight: 20,
+  windowDays: 28
+};
+
+export interface ComplianceScore {
+  workout: number | null;
+  nutrition: number | null;
+  checkins: number | null;
+  overall: number | null;
+  periodStart: string;
+  periodEnd: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const percent = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 100) : null;
+
+// Every calendar day between two YYYY-MM-DD strings, inclusive
+function daysBetween(start: string, end: string): string[] {
+  const days: string[] = [];
+  for (let time = Date.parse(start); time <= Date.parse(end); time += DAY_MS) {
+    days.push(toDateString(new Date(time)));
+  }
+  return days;
+}
+
+export async function getComplianceSettingsForCoach(storage: IStorage, coachUserId: string): Promise<ComplianceWeights> {
+  const settings = await storage.getComplianceSettings(coachUserId);
+  return settings ?? DEFAULT_COMPLIANCE_SETTINGS;
+}
+
+export function weightedOverall(
+  scores: Pick<ComplianceScore, 'workout' | 'nutrition' | 'checkins'>,
+  weights: ComplianceWeights
+): number | null {
+  const parts = [
+    { score: scores.workout, weight: weights.workoutWeight },
+    { score: scores.nutrition, weight: weights.nutritionWeight },
+    { score: scores.checkins, weight: weights.checkinWeight }
+  ].filter((part): part is { score: number; weight: number } => part.score !== null && part.weight > 0);
+
+  const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+  if (totalWeight === 0) return null;
+  return Math.round(parts.reduce((sum, part) => sum + part.score * part.weight, 0) / totalWeight);
+}
+
+/**
+ * Score a batch of clients in one pass. The window ends today unless a period
+ * is given; future-dated plans and check-ins inside the window are ignored.
+ */
+export async function getClientCompliance(
+  storage: IStorage,
+  clients: Client[],
+  weights: ComplianceWeights,
+  period?: { start: Date; end: Date }
+): Promise<Map<number, ComplianceScore>> {
+  const periodEnd = period?.end ?? new Date();
+  const periodStart = period?.start ?? new Date(periodEnd.getTime() - (weights.windowDays - 1) * DAY_MS);
+  const startDay = toDateString(periodStart);
+  const endDay = toDateString(periodEnd);
+
+  const clientIds = clients.map(client => client.id);
+  const [workoutLogs, assignments, nutritionPlans, nutritionLogs, checkins] = await Promise.all([
+    storage.getWorkoutLogsByClientIdsAndDateRange(clientIds, periodStart, periodEnd),
+    storage.getWorkoutAssignmentsByClientIdsAndDateRange(clients.map(client => client.userId), periodStart, periodEnd),
+    storage.getNutritionPlansByClientIds(clientIds),
+    storage.getNutritionLogsByClientIdsAndDateRange(clientIds, periodStart, periodEnd),
+    storage.getCheckinsByClientIdsAndDateRange(clientIds, periodStart, periodEnd)
+  ]);
+
+  const scores = new Map<number, ComplianceScore>();
+  for (const client of clients) {
+    // Workout: one planned slot per workout per day, completed if either source says so
+    const planned = new Set<string>();
+    const completed = new Set<string>();
+    for (const log of workoutLogs) {
+      if (log.clientId !== client.id || String(log.date) > endDay) continue;
+      const key = `${log.workoutId}:${log.date}`;
+      planned.add(key);
+      if (log.status === 'completed') completed.add(key);
+    }
+    for (const assignment of assignments) {
+      if (assignment.clientId !== client.userId || assignment.status === 'cancelled') continue;
+      if (String(assignment.scheduledDate) > endDay) continue;
+      const key = `${assignment.workoutId}:${assignment.scheduledDate}`;
+      planned.add(key);
+      if (assignment.status === 'completed') completed.add(key);
+    }
+
+    // Nutrition: days covered by any plan vs. days with at least one log
+    const planDays = new Set<string>();
+    for (const plan of nutritionPlans) {
+      // Open-ended plans only count while active
+      if (plan.clientId !== client.id || (!plan.endDate && !plan.isActive)) continue;
+      const from = String(plan.startDate) > startDay ? String(plan.startDate) : startDay;
+      const to = plan.endDate && String(plan.endDate) < endDay ? String(plan.endDate) : endDay;
+      daysBetween(from, to).forEach(day => planDays.add(day));
+    }
+    const loggedDays = new Set(
+      nutritionLogs
+        .filter(log => log.clientId === client.id && planDays.has(String(log.date)))
+        .map(log => String(log.date))
+    );
+
+    // Check-ins: anything already past counts; only completed ones were attended
+    const pastCheckins = checkins.filter(checkin =>
+      checkin.clientId === client.id && new Date(checkin.endTime) <= periodEnd
+    );
+    const attended = pastCheckins.filter(checkin => checkin.status === 'completed');
+
+    const components = {
+      workout: percent(completed.size, planned.size),
+      nutrition: percent(loggedDays.size, planDays.size),
+      checkins: percent(attended.length, pastCheckins.length)
+    };
+
+    scores.set(client.id, {
+      ...components,
+      overall: weightedOverall(components, weights),
+      periodStart: startDay,
+      periodEnd: endDay
+    });
+  }
+
+  return scores;
+}
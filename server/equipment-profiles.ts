@@ -0,0 +1,102 @@
+import type { IStorage } from "./storage";
+import type { EquipmentProfile, User, WorkoutExercise } from "@shared/schema";
+import { getAllowedSubstitutes, hasEquipment, type SubstituteCandidate } from "./exercise-substitutions";
+
+/**
+ * EQUIPMENT PROFILES
+ *
+ * Clients keep a profile of the equipment they have for each place they train
+ * (home, gym, travel) and switch the active one before a session. An exercise
+ * can be done with a profile when it has every item the exercise's equipment
+ * names; bodyweight exercises always can. Exercises in a session's workout the
+ * active profile can't do get substitutes proposed, limited to the profile's
+ * equipment and what the coach allows. Without an active profile nothing is
+ * filtered.
+ */
+
+export interface EquipmentProposal {
+  workoutExerciseId: number;
+  exerciseId: number;
+  exerciseName: string;
+  equipment: string | null;
+  substitutes: SubstituteCandidate[];
+}
+
+export interface ClientEquipmentProfile extends EquipmentProfile {
+  clientName: string;
+}
+
+export interface EquipmentCheck {
+  profile: EquipmentProfile | null;
+  proposals: EquipmentProposal[];
+}
+
+// Substitutes proposed per exercise the client can't do
+export const PROPOSED_SUBSTITUTES = 3;
+
+const displayName = (user?: User) => {
+  if (!user) return 'Client';
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || user.username || user.email;
+};
+
+/**
+ * The client's active equipment profile, if they have one
+ */
+export async function getActiveEquipmentProfile(
+  storage: IStorage,
+  clientUserId: string
+): Promise<EquipmentProfile | null> {
+  const profileId = (await storage.getClientWorkoutPreferences(clientUserId))?.activeEquipmentProfileId;
+  if (!profileId) return null;
+  const profile = await storage.getEquipmentProfile(profileId);
+  return profile?.clientId === clientUserId ? profile : null;
+}
+
+/**
+ * Exercises of a workout a profile can't do, each with substitutes it can
+ */
+export async function checkWorkoutEquipment(
+  storage: IStorage,
+  workoutId: number,
+  profile: EquipmentProfile | null
+): Promise<EquipmentCheck> {
+  if (!profile) return { profile: null, proposals: [] };
+
+  const workoutExercises: WorkoutExercise[] = await storage.getWorkoutExercisesByWorkoutId(workoutId);
+  const proposals: EquipmentProposal[] = [];
+  for (const workoutExercise of workoutExercises) {
+    const exercise = await storage.getExercise(workoutExercise.exerciseId);
+    if (!exercise || hasEquipment(exercise.equipment, profile.equipment)) continue;
+    proposals.push({
+      workoutExerciseId: workoutExercise.id,
+      exerciseId: exercise.id,
+      exerciseName: exercise.name,
+      equipment: exercise.equipment,
+      substitutes: await getAllowedSubstitutes(storage, workoutExercise, {
+        availableEquipment: profile.equipment,
+        limit: PROPOSED_SUBSTITUTES
+      })
+    });
+  }
+  return { profile, proposals };
+}
+
+/**
+ * Equipment profiles of a coach's active clients, for filtering the exercise library
+ */
+export async function getCoachClientEquipmentProfiles(
+  storage: IStorage,
+  coachUserId: string
+): Promise<ClientEquipmentProfile[]> {
+  const relationships = await storage.getCoachClientsByCoachId(coachUserId, 'active');
+  const clientUserIds = relationships.map(relationship => relationship.clientId);
+  const [profiles, users] = await Promise.all([
+    storage.getEquipmentProfilesByClientIds(clientUserIds),
+    storage.getUsersByIds(clientUserIds)
+  ]);
+
+  return profiles
+    .map(profile => ({ ...profile, clientName: displayName(users.find(user => user.id === profile.clientId)) }))
+    .sort((a, b) => a.clientName.localeCompare(b.clientName) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,169 @@
+import type { IStorage } from "./storage";
+import type { Client } from "@shared/schema";
+import { weightIn } from "./personal-records";
+import { estimateOneRepMax, type OneRepMaxFormula } from "@shared/one-rep-max";
+
+/**
+ * EXERCISE HISTORY
+ *
+ * Per-session performance of one exercise for one client, from both sources:
+ * - exercise_sets logged by the workout player, grouped by workout session
+ * - exercise_logs recorded against workout_logs (the older manual logging)
+ * Each session reports its top set (heaviest load, most reps at that load),
+ * estimated 1RM, total volume and the best reps achieved at each load.
+ * Loads are converted to the client's preferred unit; exercise_logs carry no
+ * unit and are read as lbs, which is what the player has always defaulted to.
+ * Warm-up sets are left out.
+ */
+
+export interface LoadReps {
+  weight: number;
+  reps: number;
+}
+
+export interface ExerciseHistorySession {
+  source: 'session' | 'log';
+  // workout_sessions.id or workout_logs.id, depending on source
+  id: number;
+  date: string;
+  sets: number;
+  totalReps: number;
+  totalVolume: number;
+  topSet: LoadReps | null;
+  estimatedOneRepMax: number | null;
+  // Most reps at each load, heaviest first
+  bestRepsByLoad: LoadReps[];
+  // Cardio bouts
+  durationSeconds: number | null;
+  distanceMeters: number | null;
+}
+
+export interface ExerciseHistory {
+  exerciseId: number;
+  unit: 'kg' | 'lbs';
+  formula: OneRepMaxFormula;
+  periodStart: string | null;
+  periodEnd: string | null;
+  // Oldest first
+  sessions: ExerciseHistorySession[];
+  // Rep maxes across the whole period, heaviest first
+  bestRepsByLoad: LoadReps[];
+}
+
+interface HistorySet {
+  weight: number;
+  reps: number;
+  durationSeconds?: number | null;
+  distanceMeters?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KG_PER_LB = 0.45359237;
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function bestRepsByLoad(sets: HistorySet[]): LoadReps[] {
+  const best = new Map<number, number>();
+  for (const set of sets) {
+    if (set.reps <= 0) continue;
+    best.set(set.weight, Math.max(best.get(set.weight) ?? 0, set.reps));
+  }
+  return Array.from(best, ([weight, reps]) => ({ weight, reps })).sort((a, b) => b.weight - a.weight);
+}
+
+function summarize(sets: HistorySet[], formula: OneRepMaxFormula) {
+  const working = sets.filter(set => set.reps > 0);
+  const topSet = working.reduce<LoadReps | null>((top, set) =>
+    !top || set.weight > top.weight || (set.weight === top.weight && set.reps > top.reps)
+      ? { weight: set.weight, reps: set.reps }
+      : top, null);
+  const estimates = working
+    .map(set => estimateOneRepMax(set.weight, set.reps, formula))
+    .filter((estimate): estimate is number => estimate !== null);
+  const duration = sets.reduce((total, set) => total + (set.durationSeconds || 0), 0);
+  const distance = sets.reduce((total, set) => total + (set.distanceMeters || 0), 0);
+
+  return {
+    sets: sets.length,
+    totalReps: working.reduce((total, set) => total + set.reps, 0),
+    totalVolume: round(working.reduce((total, set) => total + set.weight * set.reps, 0)),
+    topSet,
+    estimatedOneRepMax: estimates.length > 0 ? round(Math.max(...estimates)) : null,
+    bestRepsByLoad: bestRepsByLoad(working),
+    durationSeconds: duration > 0 ? duration : null,
+    distanceMeters: distance > 0 ? round(distance) : null
+  };
+}
+
+/**
+ * History of one exercise, optionally limited to a period (whole days, inclusive)
+ */
+export async function getExerciseHistory(
+  storage: IStorage,
+  client: Client,
+  exerciseId: number,
+  period?: { start: Date; end: Date }
+): Promise<ExerciseHistory> {
+  const preferences = await storage.getClientWorkoutPreferences(client.userId);
+  const unit = preferences?.metricSystem ? 'kg' : 'lbs';
+  const formula: OneRepMaxFormula = preferences?.oneRmFormula === 'brzycki' ? 'brzycki' : 'epley';
+
+  // completed_at is a timestamp, so the last day runs to its end
+  const periodEnd = period ? new Date(Date.parse(toDateString(period.end)) + DAY_MS - 1) : undefined;
+  const [exerciseSets, workoutLogs] = await Promise.all([
+    period
+      ? storage.getExerciseSetsByClientIdAndExerciseIdAndDateRange(client.userId, exerciseId, period.start, periodEnd!)
+      : storage.getExerciseSetsByClientIdAndExerciseId(client.userId, exerciseId),
+    period
+      ? storage.getWorkoutLogsByClientIdsAndDateRange([client.id], period.start, period.end)
+      : storage.getWorkoutLogsByClientId(client.id)
+  ]);
+  const exerciseLogs = (await storage.getExerciseLogsByWorkoutLogIds(workoutLogs.map(log => log.id)))
+    .filter(log => log.exerciseId === exerciseId);
+
+  const sessions: ExerciseHistorySession[] = [];
+  const allSets: HistorySet[] = [];
+
+  const bySession = new Map<number, typeof exerciseSets>();
+  for (const set of exerciseSets) {
+    if (set.isWarmup) continue;
+    bySession.set(set.workoutSessionId, [...(bySession.get(set.workoutSessionId) ?? []), set]);
+  }
+  bySession.forEach((sessionSets, sessionId) => {
+    const sets = sessionSets.map(set => ({
+      weight: round(weightIn(set, unit)),
+      reps: set.actualReps || 0,
+      durationSeconds: set.durationSeconds,
+      distanceMeters: set.distanceMeters !== null ? Number(set.distanceMeters) : null
+    }));
+    const firstCompleted = Math.min(...sessionSets.map(set => new Date(set.completedAt).getTime()));
+    allSets.push(...sets);
+    sessions.push({ source: 'session', id: sessionId, date: toDateString(new Date(firstCompleted)), ...summarize(sets, formula) });
+  });
+
+  for (const log of exerciseLogs) {
+    const workoutLog = workoutLogs.find(workout => workout.id === log.workoutLogId)!;
+    const reps = log.repsCompleted ?? [];
+    const sets = reps.map((setReps, index) => {
+      const pounds = Number(log.weightUsed?.[index]) || 0;
+      return { weight: round(unit === 'kg' ? pounds * KG_PER_LB : pounds), reps: setReps || 0 };
+    });
+    if (sets.length === 0) continue;
+    allSets.push(...sets);
+    sessions.push({ source: 'log', id: workoutLog.id, date: String(workoutLog.date), ...summarize(sets, formula) });
+  }
+
+  sessions.sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    exerciseId,
+    unit,
+    formula,
+    periodStart: period ? toDateString(period.start) : null,
+    periodEnd: period ? toDateString(period.end) : null,
+    sessions,
+    bestRepsByLoad: bestRepsByLoad(allSets)
+  };
+}
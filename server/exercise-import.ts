@@ -0,0 +1,252 @@
+import type { IStorage } from "./storage";
+import { insertExerciseSchema, type Exercise, type ExerciseCategory, type InsertExercise } from "@shared/schema";
+
+/**
+ * EXERCISE IMPORT
+ *
+ * Coaches bring an existing exercise catalogue in from a CSV or JSON file.
+ * - CSV: a header row naming the columns (name, description, instructions,
+ *   muscle_groups, equipment, difficulty_level, category, video_url,
+ *   thumbnail_url, tags, calories_per_minute, exercise_type, is_public);
+ *   header case, spaces and underscores don't matter, and list columns
+ *   separate items with ";", "|" or ","
+ * - JSON: an array of exercises, or { "exercises": [...] }, with the same
+ *   fields in either naming style
+ * A category is matched by name (ignoring case) or given as category_id.
+ * Rows named like one of the coach's exercises or an earlier row are skipped,
+ * invalid rows are reported with their errors, and the rest are imported as
+ * the coach's own. Row 1 is the first exercise (the row after a CSV header).
+ */
+
+export type ImportFormat = 'csv' | 'json';
+
+export interface ImportRowIssue {
+  row: number;
+  name: string | null;
+  reasons: string[];
+}
+
+export interface ExerciseImportResult {
+  imported: Exercise[];
+  skipped: ImportRowIssue[];
+  invalid: ImportRowIssue[];
+}
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Rows inserted per statement
+const IMPORT_BATCH_SIZE = 100;
+
+// Column names with case, spaces, dashes and underscores removed
+const FIELD_ALIASES: Record<string, keyof InsertExercise | 'category'> = {
+  name: 'name',
+  description: 'description',
+  instructions: 'instructions',
+  musclegroups: 'muscleGroups',
+  muscles: 'muscleGroups',
+  equipment: 'equipment',
+  difficultylevel: 'difficultyLevel',
+  difficulty: 'difficultyLevel',
+  category: 'category',
+  categoryname: 'category',
+  categoryid: 'categoryId',
+  videourl: 'videoUrl',
+  thumbnailurl: 'thumbnailUrl',
+  tags: 'tags',
+  caloriesperminute: 'caloriesPerMinute',
+  exercisetype: 'exerciseType',
+  type: 'exerciseType',
+  ispublic: 'isPublic',
+  public: 'isPublic'
+};
+
+const normalizeColumn = (column: string) => column.toLowerCase().replace(/[\s_-]/g, '');
+
+/**
+ * Rows of a CSV document: quoted fields may hold commas, line breaks and doubled quotes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error('CSV has an unclosed quoted field');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines aren't rows
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Exercise records of an import file; throws with a readable message when the file can't be read
+ */
+export function parseImportFile(content: string, format: ImportFormat): Record<string, unknown>[] {
+  let records: unknown[];
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { exercises?: unknown })?.exercises;
+    if (!Array.isArray(list)) throw new Error('JSON must be an array of exercises or { "exercises": [...] }');
+    records = list;
+  } else {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) throw new Error('CSV is empty');
+    records = rows.map(cells => Object.fromEntries(header.map((column, index) => [column, cells[index] ?? ''])));
+  }
+
+  if (records.length === 0) throw new Error('File has no exercises');
+  if (records.length > MAX_IMPORT_ROWS) throw new Error(`Import at most ${MAX_IMPORT_ROWS} exercises at a time`);
+  return records.map(record => (record && typeof record === 'object' && !Array.isArray(record) ? record : {}) as Record<string, unknown>);
+}
+
+const asText = (value: unknown): string | undefined => {
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim();
+  return text === '' ? undefined : text;
+};
+
+const asList = (value: unknown): string[] | undefined => {
+  const items = Array.isArray(value)
+    ? value.map(item => String(item).trim())
+    : asText(value)?.split(/[;|,]/).map(item => item.trim());
+  return items?.filter(Boolean);
+};
+
+const asBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  const text = asText(value)?.toLowerCase();
+  if (text === undefined) return undefined;
+  return ['true', 'yes', 'y', '1'].includes(text);
+};
+
+const asNumber = (value: unknown): number | undefined => {
+  const text = asText(value);
+  return text === undefined ? undefined : Number(text);
+};
+
+/**
+ * The exercise a record describes, before validation
+ */
+function toExerciseInput(
+  record: Record<string, unknown>,
+  categories: ExerciseCategory[]
+): { input: Record<string, unknown>; problems: string[] } {
+  const fields: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(record)) {
+    const field = FIELD_ALIASES[normalizeColumn(column)];
+    if (field) fields[field] = value;
+  }
+
+  const problems: string[] = [];
+  let categoryId = asNumber(fields.categoryId);
+  const categoryName = asText(fields.category);
+  if (categoryId === undefined && categoryName) {
+    categoryId = categories.find(category => category.name.toLowerCase() === categoryName.toLowerCase())?.id;
+    if (categoryId === undefined) problems.push(`category: no category named "${categoryName}"`);
+  } else if (categoryId !== undefined && !categories.some(category => category.id === categoryId)) {
+    problems.push(`categoryId: no category with id ${fields.categoryId}`);
+  }
+
+  const input: Record<string, unknown> = {
+    name: asText(fields.name),
+    description: asText(fields.description),
+    instructions: asText(fields.instructions),
+    muscleGroups: asList(fields.muscleGroups)?.map(group => group.toLowerCase()),
+    equipment: asText(fields.equipment),
+    difficultyLevel: asText(fields.difficultyLevel)?.toLowerCase(),
+    categoryId,
+    videoUrl: asText(fields.videoUrl),
+    thumbnailUrl: asText(fields.thumbnailUrl),
+    tags: asList(fields.tags),
+    caloriesPerMinute: asNumber(fields.caloriesPerMinute),
+    exerciseType: asText(fields.exerciseType)?.toLowerCase(),
+    isPublic: asBoolean(fields.isPublic)
+  };
+  // Missing values fall back to the column defaults
+  Object.keys(input).forEach(key => input[key] === undefined && delete input[key]);
+  return { input, problems };
+}
+
+/**
+ * Validates every record and creates the new, valid ones as the coach's exercises
+ */
+export async function importExercises(
+  storage: IStorage,
+  userId: string,
+  records: Record<string, unknown>[]
+): Promise<ExerciseImportResult> {
+  const [categories, visible] = await Promise.all([
+    storage.getExerciseCategories(),
+    storage.getVisibleExercises(userId)
+  ]);
+  const takenNames = new Set(visible.filter(exercise => exercise.createdBy === userId).map(exercise => exercise.name.trim().toLowerCase()));
+
+  const toCreate: InsertExercise[] = [];
+  const skipped: ImportRowIssue[] = [];
+  const invalid: ImportRowIssue[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const { input, problems } = toExerciseInput(record, categories);
+    const name = typeof input.name === 'string' ? input.name : null;
+
+    const parsed = insertExerciseSchema.safeParse({ ...input, createdBy: userId });
+    const reasons = [
+      ...problems,
+      ...(parsed.success ? [] : parsed.error.errors.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`))
+    ];
+    if (!parsed.success || reasons.length > 0) {
+      invalid.push({ row, name, reasons });
+      return;
+    }
+
+    const key = parsed.data.name.trim().toLowerCase();
+    if (takenNames.has(key)) {
+      skipped.push({ row, name, reasons: ['An exercise with this name already exists'] });
+      return;
+    }
+    takenNames.add(key);
+    toCreate.push(parsed.data);
+  });
+
+  const imported: Exercise[] = [];
+  for (let start = 0; start < toCreate.length; start += IMPORT_BATCH_SIZE) {
+    imported.push(...await storage.createExercises(toCreate.slice(start, start + IMPORT_BATCH_SIZE)));
+  }
+  return { imported, skipped, invalid };
+}
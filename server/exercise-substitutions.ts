@@ -0,0 +1,235 @@
+import type { IStorage } from "./storage";
+import type {
+  AllowedSubstitutions,
+  Exercise,
+  ExerciseSubstitution,
+  ExerciseVariation,
+  WorkoutExercise,
+  WorkoutSession
+} from "@shared/schema";
+
+/**
+ * EXERCISE SUBSTITUTION
+ *
+ * Proposes alternatives for an exercise a client can't do as written:
+ * - the exercise's exercise_variations, performed as the base exercise
+ *   (sets are logged against it) with a different equipment or difficulty
+ * - other library exercises of the same type sharing a muscle group
+ * Candidates score up to 100: muscle-group overlap (60), closeness in
+ * difficulty (25) and same equipment (15). Anything using equipment the client
+ * doesn't have (a list of missing items, or their equipment profile's list of
+ * what's there) is left out. An exercise's equipment can name several items
+ * ("barbell, bench"); matching ignores case and a plural "s". A coach can
+ * restrict a workout exercise to a list of substitutes
+ * (workout_exercises.substitutions); listed substitutes are offered even
+ * without a shared muscle group. Swaps are recorded in
+ * exercise_substitutions for the coach's session summary.
+ */
+
+export interface SubstituteCandidate {
+  kind: 'variation' | 'exercise';
+  exerciseId: number; // exercise the sets are logged against
+  variationId: number | null;
+  name: string;
+  equipment: string | null;
+  difficulty: number; // 1 = beginner ... 3 = advanced
+  muscleGroups: string[];
+  score: number;
+}
+
+export interface SubstituteOptions {
+  unavailableEquipment?: string[];
+  // Everything the client has; null or undefined: no limit
+  availableEquipment?: string[] | null;
+  // null or undefined: any candidate
+  allowed?: AllowedSubstitutions | null;
+  limit?: number;
+}
+
+export interface SubstitutionRecord extends ExerciseSubstitution {
+  originalName: string;
+  substituteName: string;
+  substituteEquipment: string | null;
+}
+
+export const DEFAULT_SUBSTITUTE_LIMIT = 10;
+
+const DIFFICULTY_LEVELS: Record<string, number> = { beginner: 1, intermediate: 2, advanced: 3 };
+
+// Equipment that every client has
+const NO_EQUIPMENT = ['', 'none', 'bodyweight', 'body weight'];
+
+const normalize = (value: string | null | undefined) => (value ?? '').trim().toLowerCase();
+
+const normalizeEquipment = (value: string) => normalize(value).replace(/s$/, '');
+
+/**
+ * Items of equipment an exercise needs, normalized; empty for bodyweight exercises
+ */
+export function equipmentItems(equipment: string | null | undefined): string[] {
+  return (equipment ?? '')
+    .split(/,|\/|&|\+|\band\b/)
+    .map(normalizeEquipment)
+    .filter(item => !NO_EQUIPMENT.includes(item));
+}
+
+/**
+ * Whether everything an exercise needs is in the available equipment
+ */
+export function hasEquipment(equipment: string | null | undefined, available: string[]): boolean {
+  const have = new Set(available.map(normalizeEquipment));
+  return equipmentItems(equipment).every(item => have.has(item));
+}
+
+const difficultyOf = (exercise: Exercise) => DIFFICULTY_LEVELS[exercise.difficultyLevel ?? ''] ?? 2;
+
+// Each step of a variation's difficulty_modifier is half a level
+const variationDifficulty = (base: Exercise, variation: ExerciseVariation) =>
+  Math.min(3, Math.max(1, difficultyOf(base) + (variation.difficultyModifier ?? 0) / 2));
+
+function muscleOverlap(a: string[] | null, b: string[] | null): number {
+  const first = new Set((a ?? []).map(normalize));
+  const second = new Set((b ?? []).map(normalize));
+  const union = new Set([...Array.from(first), ...Array.from(second)]);
+  if (union.size === 0) return 0;
+  return Array.from(first).filter(group => second.has(group)).length / union.size;
+}
+
+function scoreCandidate(original: Exercise, overlap: number, difficulty: number, equipment: string | null): number {
+  const difficultyScore = Math.max(0, 1 - Math.abs(difficulty - difficultyOf(original)) / 2);
+  const sameEquipment = normalize(equipment) === normalize(original.equipment);
+  return Math.round(overlap * 60 + difficultyScore * 25 + (sameEquipment ? 15 : 0));
+}
+
+function isAvailable(equipment: string | null, unavailable: Set<string>): boolean {
+  return !equipmentItems(equipment).some(item => unavailable.has(item));
+}
+
+/**
+ * Substitutes for an exercise, best first
+ */
+export async function findSubstitutes(
+  storage: IStorage,
+  original: Exercise,
+  options: SubstituteOptions = {}
+): Promise<SubstituteCandidate[]> {
+  const unavailable = new Set((options.unavailableEquipment ?? []).map(normalizeEquipment));
+  const available = options.availableEquipment ?? null;
+  const allowed = options.allowed ?? null;
+
+  const [library, variations] = await Promise.all([
+    storage.getExercises(),
+    storage.getExerciseVariationsByExerciseId(original.id)
+  ]);
+
+  // Coach-listed variations of other exercises are performed as their own base exercise
+  const listedVariations = allowed
+    ? (await Promise.all(allowed.variationIds
+        .filter(id => !variations.some(variation => variation.id === id))
+        .map(id => storage.getExerciseVariation(id))))
+        .filter((variation): variation is ExerciseVariation => !!variation)
+    : [];
+
+  const candidates: SubstituteCandidate[] = [];
+
+  for (const variation of [...variations, ...listedVariations]) {
+    if (allowed && !allowed.variationIds.includes(variation.id)) continue;
+    const base = variation.baseExerciseId === original.id
+      ? original
+      : library.find(exercise => exercise.id === variation.baseExerciseId);
+    if (!base) continue;
+    const equipment = variation.equipmentVariant ?? base.equipment;
+    const difficulty = variationDifficulty(base, variation);
+    const overlap = base.id === original.id ? 1 : muscleOverlap(original.muscleGroups, base.muscleGroups);
+    candidates.push({
+      kind: 'variation',
+      exerciseId: base.id,
+      variationId: variation.id,
+      name: variation.name,
+      equipment,
+      difficulty,
+      muscleGroups: base.muscleGroups ?? [],
+      score: scoreCandidate(original, overlap, difficulty, equipment)
+    });
+  }
+
+  for (const exercise of library) {
+    if (exercise.id === original.id) continue;
+    if (allowed) {
+      if (!allowed.exerciseIds.includes(exercise.id)) continue;
+    } else if (exercise.exerciseType !== original.exerciseType) {
+      continue;
+    }
+    const overlap = muscleOverlap(original.muscleGroups, exercise.muscleGroups);
+    if (!allowed && overlap === 0) continue;
+    candidates.push({
+      kind: 'exercise',
+      exerciseId: exercise.id,
+      variationId: null,
+      name: exercise.name,
+      equipment: exercise.equipment,
+      difficulty: difficultyOf(exercise),
+      muscleGroups: exercise.muscleGroups ?? [],
+      score: scoreCandidate(original, overlap, difficultyOf(exercise), exercise.equipment)
+    });
+  }
+
+  return candidates
+    .filter(candidate => isAvailable(candidate.equipment, unavailable))
+    .filter(candidate => !available || hasEquipment(candidate.equipment, available))
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, options.limit ?? DEFAULT_SUBSTITUTE_LIMIT);
+}
+
+/**
+ * The workout exercise a session is playing, if it's still in the workout
+ */
+export async function getSessionWorkoutExercise(
+  storage: IStorage,
+  session: WorkoutSession,
+  workoutExerciseId: number
+): Promise<WorkoutExercise | undefined> {
+  if (!session.workoutId) return undefined;
+  const workoutExercises: WorkoutExercise[] = await storage.getWorkoutExercisesByWorkoutId(session.workoutId);
+  return workoutExercises.find(workoutExercise => workoutExercise.id === workoutExerciseId);
+}
+
+/**
+ * Substitutes the client may swap a workout exercise for, within the coach's list
+ */
+export async function getAllowedSubstitutes(
+  storage: IStorage,
+  workoutExercise: WorkoutExercise,
+  options: Omit<SubstituteOptions, 'allowed'> = {}
+): Promise<SubstituteCandidate[]> {
+  const original = await storage.getExercise(workoutExercise.exerciseId);
+  if (!original) return [];
+  return findSubstitutes(storage, original, { ...options, allowed: workoutExercise.substitutions });
+}
+
+/**
+ * A session's swaps with exercise and variation names, oldest first
+ */
+export async function getSessionSubstitutions(storage: IStorage, workoutSessionId: number): Promise<SubstitutionRecord[]> {
+  const substitutions = await storage.getExerciseSubstitutionsByWorkoutSessionId(workoutSessionId);
+  const exerciseIds = Array.from(new Set(substitutions.flatMap(substitution => [substitution.originalExerciseId, substitution.substituteExerciseId])));
+  const variationIds = Array.from(new Set(substitutions.map(substitution => substitution.variationId).filter((id): id is number => id !== null)));
+
+  const [exercises, variations] = await Promise.all([
+    Promise.all(exerciseIds.map(id => storage.getExercise(id))),
+    Promise.all(variationIds.map(id => storage.getExerciseVariation(id)))
+  ]);
+  const findExercise = (id: number) => exercises.find(exercise => exercise?.id === id);
+  const exerciseName = (id: number) => findExercise(id)?.name ?? `Exercise #${id}`;
+
+  return substitutions.map(substitution => {
+    const variation = variations.find(variation => variation && variation.id === substitution.variationId);
+    const substitute = findExercise(substitution.substituteExerciseId);
+    return {
+      ...substitution,
+      originalName: exerciseName(substitution.originalExerciseId),
+      substituteName: variation?.name ?? exerciseName(substitution.substituteExerciseId),
+      substituteEquipment: variation?.equipmentVariant ?? substitute?.equipment ?? null
+    };
+  });
+}
@@ -0,0 +1,136 @@
+import type { IStorage } from "./storage";
+import { signMediaUrl } from "./media-storage";
+import type {
+  Exercise,
+  FormReview,
+  FormReviewComment,
+  FormReviewCompletion,
+  FormReviewStatus,
+  User
+} from "@shared/schema";
+
+/**
+ * FORM REVIEWS
+ *
+ * A client attaches a short clip to one logged set; a new clip replaces the
+ * old one until the coach has reviewed it. The client's active coaches see
+ * clips waiting for review in a queue, oldest first, leave comments at
+ * moments in the clip (optionally drawn over that frame) and finish the
+ * review with a 1-5 form rating and a summary. The rating is written to
+ * exercise_sets.form_rating. The client is told in real time, and the review
+ * stays flagged as new, linked to its set, until they open it.
+ */
+
+export const FORM_VIDEO_FOLDER = 'set-videos';
+
+export interface FormReviewSummary extends FormReview {
+  clientName: string;
+  exerciseId: number;
+  exerciseName: string;
+  workoutSessionId: number;
+  setNumber: number;
+  actualReps: number | null;
+  actualWeight: string | null;
+  weightUnit: string | null;
+  formRating: number | null;
+  completedAt: Date;
+}
+
+export interface FormReviewDetail extends FormReviewSummary {
+  comments: FormReviewComment[];
+}
+
+const displayName = (user?: User) => {
+  if (!user) return 'Client';
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || user.username || user.email;
+};
+
+/**
+ * Whether a coach has the review's client as an active client
+ */
+export async function isReviewingCoach(storage: IStorage, coachUserId: string, review: FormReview): Promise<boolean> {
+  const relationships = await storage.getCoachClientsByCoachId(coachUserId, 'active');
+  return relationships.some(relationship => relationship.clientId === review.clientId);
+}
+
+/**
+ * Reviews with the set they show and who filmed it; reviews of deleted sets are left out
+ */
+export async function summarizeFormReviews(storage: IStorage, reviews: FormReview[]): Promise<FormReviewSummary[]> {
+  const [sets, users] = await Promise.all([
+    storage.getExerciseSetsByIds(reviews.map(review => review.exerciseSetId)),
+    storage.getUsersByIds(Array.from(new Set(reviews.map(review => review.clientId))))
+  ]);
+
+  const exercises = new Map<number, Exercise | undefined>();
+  for (const exerciseId of Array.from(new Set(sets.map(set => set.exerciseId)))) {
+    exercises.set(exerciseId, await storage.getExercise(exerciseId));
+  }
+
+  const summaries: FormReviewSummary[] = [];
+  for (const review of reviews) {
+    const set = sets.find(candidate => candidate.id === review.exerciseSetId);
+    if (!set) continue;
+    summaries.push({
+      ...review,
+      // Clips are private; callers have already checked the requester may see this review
+      videoUrl: signMediaUrl(review.videoUrl),
+      clientName: displayName(users.find(user => user.id === review.clientId)),
+      exerciseId: set.exerciseId,
+      exerciseName: exercises.get(set.exerciseId)?.name ?? 'Exercise',
+      workoutSessionId: set.workoutSessionId,
+      setNumber: set.setNumber,
+      actualReps: set.actualReps,
+      actualWeight: set.actualWeight,
+      weightUnit: set.weightUnit,
+      formRating: set.formRating,
+      completedAt: set.completedAt
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Clips from a coach's active clients; waiting clips oldest first, reviewed ones newest first
+ */
+export async function getCoachFormReviewQueue(
+  storage: IStorage,
+  coachUserId: string,
+  status: FormReviewStatus
+): Promise<FormReviewSummary[]> {
+  const relationships = await storage.getCoachClientsByCoachId(coachUserId, 'active');
+  const reviews = await storage.getFormReviewsByClientIds(relationships.map(relationship => relationship.clientId), status);
+  return summarizeFormReviews(storage, status === 'pending' ? reviews.reverse() : reviews);
+}
+
+/**
+ * A review with its comments in clip order
+ */
+export async function getFormReviewDetail(storage: IStorage, review: FormReview): Promise<FormReviewDetail | null> {
+  const [[summary], comments] = await Promise.all([
+    summarizeFormReviews(storage, [review]),
+    storage.getFormReviewComments(review.id)
+  ]);
+  return summary ? { ...summary, comments } : null;
+}
+
+/**
+ * Records the coach's rating on the set and marks the review done; reviewing again updates both
+ */
+export async function completeFormReview(
+  storage: IStorage,
+  review: FormReview,
+  coachUserId: string,
+  completion: FormReviewCompletion
+): Promise<FormReview> {
+  await storage.updateExerciseSet(review.exerciseSetId, { formRating: completion.formRating });
+  return storage.updateFormReview(review.id, {
+    coachId: coachUserId,
+    status: 'reviewed',
+    summary: completion.summary ?? null,
+    reviewedAt: new Date(),
+    // A changed review is new to the client again
+    seenAt: null
+  });
+}
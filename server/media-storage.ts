@@ -0,0 +1,268 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { MEDIA_STORAGE_DIR, MEDIA_STORAGE_DRIVER, MEDIA_URL_SECRET, S3_CONFIG } from "./config";
+
+/**
+ * MEDIA STORAGE
+ *
+ * Uploaded exercise media is stored behind a driver so the backing store can
+ * change without touching routes:
+ * - local: files under MEDIA_STORAGE_DIR
+ * - s3: any S3-compatible bucket (AWS S3, MinIO), path-style addressing and
+ *   SigV4-signed requests
+ * Objects are addressed by key ("exercise-videos/<user id>/<file>") and served
+ * from /media/<key>, with byte ranges so videos can be streamed and seeked.
+ */
+
+export interface MediaObject {
+  size: number;
+  contentType: string;
+}
+
+// Inclusive, as in a Content-Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export type RangeRequest =
+  | { kind: 'full' }
+  | { kind: 'partial'; range: ByteRange }
+  | { kind: 'unsatisfiable' };
+
+export interface MediaStorageDriver {
+  put(key: string, filePath: string, contentType: string): Promise<void>;
+  stat(key: string): Promise<MediaObject | null>;
+  read(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif'
+};
+
+// Keys are generated on upload: a folder, then path segments without dot-only names
+const MEDIA_KEY = /^[a-z0-9-]+(\/[A-Za-z0-9_-][A-Za-z0-9._-]*)+$/;
+
+export const isMediaKey = (key: string) => MEDIA_KEY.test(key);
+
+export const contentTypeOf = (key: string) =>
+  CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+
+export const mediaUrl = (key: string) => `/media/${key}`;
+
+// Key of a URL from mediaUrl; null for anything else
+export const mediaKeyOf = (url: string) => {
+  const key = url.startsWith('/media/') ? url.slice('/media/'.length) : '';
+  return isMediaKey(key) ? key : null;
+};
+
+// Signed links change once per period and stay valid for one to two periods, so a
+// refetched review keeps the same video URL and the player doesn't reload
+export const SIGNED_MEDIA_URL_SECONDS = 60 * 60;
+
+const mediaSignature = (key: string, expires: number) =>
+  crypto.createHmac('sha256', MEDIA_URL_SECRET).update(`${key}:${expires}`).digest('hex');
+
+/**
+ * A time-limited link to private media; anything that isn't a media URL is returned as is
+ */
+export function signMediaUrl(url: string, now = Date.now()): string {
+  const key = mediaKeyOf(url);
+  if (!key) return url;
+  const expires = (Math.floor(now / 1000 / SIGNED_MEDIA_URL_SECONDS) + 2) * SIGNED_MEDIA_URL_SECONDS;
+  return `${url}?expires=${expires}&signature=${mediaSignature(key, expires)}`;
+}
+
+/**
+ * Seconds left on a signed media link; null when it is missing, forged or expired
+ */
+export function verifyMediaSignature(key: string, expires: unknown, signature: unknown, now = Date.now()): number | null {
+  if (typeof expires !== 'string' || typeof signature !== 'string') return null;
+  const expiresAt = parseInt(expires, 10);
+  const remaining = expiresAt - Math.floor(now / 1000);
+  if (Number.isNaN(expiresAt) || remaining <= 0) return null;
+  const expected = Buffer.from(mediaSignature(key, expiresAt));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected) ? remaining : null;
+}
+
+/**
+ * The part of an object a Range header asks for; several ranges get the whole object
+ */
+export function parseRange(header: string | undefined, size: number): RangeRequest {
+  const match = /^bytes=(\d*)-(\d*)$/.exec((header ?? '').trim());
+  if (!match || (!match[1] && !match[2])) return { kind: 'full' };
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - parseInt(match[2], 10));
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return { kind: 'unsatisfiable' };
+  return { kind: 'partial', range: { start, end } };
+}
+
+export class LocalMediaStorage implements MediaStorageDriver {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!isMediaKey(key) || !filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, filePath: string): Promise<void> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.copyFile(filePath, target);
+  }
+
+  async stat(key: string): Promise<MediaObject | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile() ? { size: stats.size, contentType: contentTypeOf(key) } : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    return fs.createReadStream(this.resolve(key), range);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256 = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+export class S3MediaStorage implements MediaStorageDriver {
+  private config: S3Config;
+
+  constructor(config: S3Config) {
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new Error('S3 media storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    this.config = config;
+  }
+
+  private objectUrl(key: string): URL {
+    if (!isMediaKey(key)) throw new Error(`Invalid media key: ${key}`);
+    const endpoint = this.config.endpoint.replace(/\/+$/, '');
+    return new URL(`${endpoint}/${encodeURIComponent(this.config.bucket)}/${key.split('/').map(encodeURIComponent).join('/')}`);
+  }
+
+  // AWS Signature Version 4; the payload is left unsigned so uploads aren't hashed twice
+  private sign(method: string, url: URL, headers: Record<string, string>): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const signed: Record<string, string> = {
+      ...headers,
+      host: url.host,
+      'x-amz-content-sha256': 'UNSIGNED-PAYLOAD',
+      'x-amz-date': amzDate
+    };
+
+    const names = Object.keys(signed).map(name => name.toLowerCase()).sort();
+    const values = Object.fromEntries(Object.entries(signed).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      names.map(name => `${name}:${values[name]}\n`).join(''),
+      signedHeaders,
+      'UNSIGNED-PAYLOAD'
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region), 's3'), 'aws4_request');
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    // fetch sets Host itself from the URL
+    const { host, ...rest } = signed;
+    return {
+      ...rest,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    };
+  }
+
+  private async request(method: string, key: string, headers: Record<string, string> = {}, body?: Buffer): Promise<Response> {
+    const url = this.objectUrl(key);
+    return fetch(url, { method, headers: this.sign(method, url, headers), body });
+  }
+
+  async put(key: string, filePath: string, contentType: string): Promise<void> {
+    const body = await fs.promises.readFile(filePath);
+    const response = await this.request('PUT', key, { 'content-type': contentType }, body);
+    if (!response.ok) {
+      throw new Error(`S3 upload of ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async stat(key: string): Promise<MediaObject | null> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`S3 lookup of ${key} failed: ${response.status}`);
+    return {
+      size: parseInt(response.headers.get('content-length') ?? '0', 10),
+      contentType: response.headers.get('content-type') ?? contentTypeOf(key)
+    };
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.request('GET', key, range ? { range: `bytes=${range.start}-${range.end}` } : {});
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 download of ${key} failed: ${response.status}`);
+    }
+    return Readable.fromWeb(response.body as any);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete of ${key} failed: ${response.status}`);
+    }
+  }
+}
+
+export function createMediaStorage(): MediaStorageDriver {
+  return MEDIA_STORAGE_DRIVER === 's3'
+    ? new S3MediaStorage(S3_CONFIG)
+    : new LocalMediaStorage(MEDIA_STORAGE_DIR);
+}
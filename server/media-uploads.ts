@@ -0,0 +1,181 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawn } from "child_process";
+import { FFMPEG_PATH } from "./config";
+import { mediaUrl, type MediaStorageDriver } from "./media-storage";
+
+/**
+ * MEDIA UPLOADS
+ *
+ * Coaches upload exercise videos and thumbnails through POST /api/upload;
+ * clients upload clips of a logged set for form review through
+ * POST /api/exercise-sets/:id/form-review. Each folder has its own size limit
+ * and accepted content types; the type is read from the file's leading bytes,
+ * not the one the client declared. Files are stored
+ * under "<folder>/<user id>/<random name>" so keys can't collide or be chosen
+ * by the client. Clients' clips are private: /media only serves them through
+ * signed links that expire. Videos can have a poster thumbnail pulled from a
+ * representative early frame with ffmpeg; when ffmpeg isn't installed the
+ * upload still succeeds without one.
+ */
+
+export interface MediaFolderRule {
+  maxBytes: number;
+  contentTypes: string[];
+  // Only served through signed links handed out by the API
+  private?: boolean;
+}
+
+export const MEDIA_FOLDERS: Record<string, MediaFolderRule> = {
+  'exercise-videos': {
+    maxBytes: 100 * 1024 * 1024,
+    contentTypes: ['video/mp4', 'video/webm', 'video/quicktime']
+  },
+  'exercise-thumbnails': {
+    maxBytes: 5 * 1024 * 1024,
+    contentTypes: ['image/jpeg', 'image/png', 'image/webp']
+  },
+  'set-videos': {
+    maxBytes: 50 * 1024 * 1024,
+    contentTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
+    private: true
+  }
+};
+
+export const isPrivateMediaKey = (key: string) => MEDIA_FOLDERS[key.split('/')[0]]?.private === true;
+
+// Folders coaches upload exercise library media to; private folders have their own upload routes
+export const EXERCISE_MEDIA_FOLDERS = Object.keys(MEDIA_FOLDERS).filter(folder => !MEDIA_FOLDERS[folder].private);
+
+// Largest file any folder accepts; multer stops reading past it
+export const MAX_MEDIA_UPLOAD_BYTES = Math.max(...Object.values(MEDIA_FOLDERS).map(rule => rule.maxBytes));
+
+const EXTENSIONS: Record<string, string> = {
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'video/quicktime': '.mov',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp'
+};
+
+// Bytes read from the start of a file to recognise its format
+const SNIFF_BYTES = 16;
+
+// Seconds ffmpeg gets to produce a poster before the upload goes ahead without one
+const POSTER_TIMEOUT_SECONDS = 30;
+
+export interface MediaUpload {
+  folder: string;
+  userId: string;
+  filePath: string;
+  contentType: string;
+  generateThumbnail?: boolean;
+}
+
+export interface StoredMedia {
+  key: string;
+  url: string;
+  thumbnailUrl?: string;
+}
+
+/**
+ * Content type of an uploaded file from its magic bytes, or null when it isn't
+ * one of the media formats we store
+ */
+export async function sniffContentType(filePath: string): Promise<string | null> {
+  const handle = await fs.promises.open(filePath, 'r');
+  const header = Buffer.alloc(SNIFF_BYTES);
+  try {
+    await handle.read(header, 0, SNIFF_BYTES, 0);
+  } finally {
+    await handle.close();
+  }
+
+  const ascii = (start: number, end: number) => header.toString('latin1', start, end);
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) return 'image/jpeg';
+  if (header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (header.readUInt32BE(0) === 0x1a45dfa3) return 'video/webm';
+  // ISO base media: an ftyp box whose brand tells QuickTime from MP4
+  if (ascii(4, 8) === 'ftyp') return ascii(8, 12) === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+  // Older QuickTime files start straight with a movie or data atom
+  if (['moov', 'mdat', 'wide', 'free'].includes(ascii(4, 8))) return 'video/quicktime';
+  return null;
+}
+
+/**
+ * Why an upload can't go in its folder, or null when it can
+ * @param contentType Type sniffed from the file; null when it wasn't recognised
+ */
+export function validateMediaUpload(folder: string, contentType: string | null, size: number): string | null {
+  const rule = MEDIA_FOLDERS[folder];
+  if (!rule) {
+    return `Unknown upload folder. Allowed folders: ${Object.keys(MEDIA_FOLDERS).join(', ')}`;
+  }
+  if (!contentType || !rule.contentTypes.includes(contentType)) {
+    return `File type not allowed in ${folder}. Allowed types: ${rule.contentTypes.join(', ')}`;
+  }
+  if (size > rule.maxBytes) {
+    return `File too large for ${folder}. Maximum size: ${Math.round(rule.maxBytes / (1024 * 1024))}MB`;
+  }
+  return null;
+}
+
+const mediaKey = (folder: string, userId: string, name: string, contentType: string) =>
+  `${folder}/${userId}/${name}${EXTENSIONS[contentType] ?? ''}`;
+
+/**
+ * Writes a JPEG poster frame of a video to a temporary file; null if ffmpeg couldn't
+ */
+export function extractPosterFrame(videoPath: string): Promise<string | null> {
+  const posterPath = path.join(os.tmpdir(), `poster-${crypto.randomUUID()}.jpg`);
+
+  return new Promise(resolve => {
+    const ffmpeg = spawn(FFMPEG_PATH, [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', videoPath,
+      '-vf', 'thumbnail,scale=640:-2',
+      '-frames:v', '1',
+      '-y', posterPath
+    ]);
+    const timeout = setTimeout(() => ffmpeg.kill('SIGKILL'), POSTER_TIMEOUT_SECONDS * 1000);
+
+    ffmpeg.on('error', error => {
+      clearTimeout(timeout);
+      console.warn('Poster thumbnail skipped, ffmpeg unavailable:', error.message);
+      resolve(null);
+    });
+    ffmpeg.on('close', code => {
+      clearTimeout(timeout);
+      resolve(code === 0 && fs.existsSync(posterPath) ? posterPath : null);
+    });
+  });
+}
+
+/**
+ * Stores an uploaded file, and a poster for videos when asked
+ */
+export async function storeMediaUpload(driver: MediaStorageDriver, upload: MediaUpload): Promise<StoredMedia> {
+  const name = crypto.randomUUID();
+  const key = mediaKey(upload.folder, upload.userId, name, upload.contentType);
+  await driver.put(key, upload.filePath, upload.contentType);
+
+  const stored: StoredMedia = { key, url: mediaUrl(key) };
+  if (!upload.generateThumbnail || !upload.contentType.startsWith('video/')) return stored;
+
+  const posterPath = await extractPosterFrame(upload.filePath);
+  if (!posterPath) return stored;
+  try {
+    const posterKey = mediaKey('exercise-thumbnails', upload.userId, name, 'image/jpeg');
+    await driver.put(posterKey, posterPath, 'image/jpeg');
+    stored.thumbnailUrl = mediaUrl(posterKey);
+  } catch (error) {
+    console.error('Error storing poster thumbnail:', error);
+  } finally {
+    await fs.promises.rm(posterPath, { force: true });
+  }
+  return stored;
+}
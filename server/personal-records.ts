@@ -0,0 +1,100 @@
+import type { IStorage } from "./storage";
+import type { ExerciseSet, PersonalRecord } from "@shared/schema";
+import { estimateOneRepMax, type OneRepMaxFormula } from "@shared/one-rep-max";
+
+/**
+ * PERSONAL RECORD DETECTION
+ *
+ * Runs after a set is saved from the workout player. The set is compared with
+ * every earlier set the client logged for the same exercise:
+ * - 1rm: estimated one-rep max (Epley or Brzycki, per client preference)
+ * - max_reps: most reps at this weight or heavier
+ * - max_volume: weight × reps in a single set
+ * Each record beaten is written to personal_records with the previous best
+ * and the improvement. The first time an exercise is logged sets the baseline
+ * and never counts as a PR. Warm-up sets never set or count towards a record.
+ */
+
+export type RecordType = '1rm' | 'max_reps' | 'max_volume';
+
+const KG_PER_LB = 0.45359237;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Load of a set in the given unit
+export function weightIn(set: ExerciseSet, unit: string): number {
+  const weight = Number(set.actualWeight) || 0;
+  const setUnit = set.weightUnit || 'lbs';
+  if (setUnit === unit) return weight;
+  return unit === 'kg' ? weight * KG_PER_LB : weight / KG_PER_LB;
+}
+
+export async function detectPersonalRecords(
+  storage: IStorage,
+  clientId: string,
+  exerciseSet: ExerciseSet,
+  options: { formula?: OneRepMaxFormula; dateAchieved?: string } = {}
+): Promise<PersonalRecord[]> {
+  const reps = exerciseSet.actualReps || 0;
+  if (reps <= 0 || exerciseSet.isWarmup) return [];
+
+  const formula = options.formula || 'epley';
+  const unit = exerciseSet.weightUnit || 'lbs';
+  const weight = Number(exerciseSet.actualWeight) || 0;
+
+  const history = (await storage.getExerciseSetsByClientIdAndExerciseId(clientId, exerciseSet.exerciseId))
+    .filter(set => set.id !== exerciseSet.id && !set.isWarmup && (set.actualReps || 0) > 0);
+  if (history.length === 0) return [];
+
+  const best = (values: (number | null)[]) =>
+    values.reduce<number | null>((max, value) => value !== null && (max === null || value > max) ? value : max, null);
+
+  const candidates: { recordType: RecordType; value: number | null; previous: number | null; unit: string }[] = [
+    {
+      recordType: '1rm',
+      value: estimateOneRepMax(weight, reps, formula),
+      previous: best(history.map(set => estimateOneRepMax(weightIn(set, unit), set.actualReps || 0, formula))),
+      unit
+    },
+    {
+      recordType: 'max_reps',
+      value: reps,
+      previous: best(history.filter(set => weightIn(set, unit) >= weight).map(set => set.actualReps || 0)),
+      unit: 'reps'
+    },
+    {
+      recordType: 'max_volume',
+      value: weight > 0 ? weight * reps : null,
+      previous: best(history.map(set => weightIn(set, unit) * (set.actualReps || 0) || null)),
+      unit
+    }
+  ];
+
+  const dateAchieved = options.dateAchieved || new Date(exerciseSet.completedAt).toISOString().split('T')[0];
+  const records: PersonalRecord[] = [];
+  for (const candidate of candidates) {
+    // A record needs something to beat, and must beat it after rounding
+    if (candidate.value === null || candidate.previous === null) continue;
+    const value = round(candidate.value);
+    const previous = round(candidate.previous);
+    if (value <= previous) continue;
+
+    records.push(await storage.createPersonalRecord({
+      clientId,
+      exerciseId: exerciseSet.exerciseId,
+      recordType: candidate.recordType,
+      value: String(value),
+      unit: candidate.unit,
+      dateAchieved,
+      workoutSessionId: exerciseSet.workoutSessionId,
+      previousRecord: String(previous),
+      improvement: String(round(value - previous))
+    }));
+  }
+
+  if (records.length > 0) {
+    await storage.updateExerciseSet(exerciseSet.id, { personalRecord: true });
+  }
+
+  return records;
+}
@@ -0,0 +1,274 @@
+import type { IStorage } from "./storage";
+import type { ClientProgram, MissedWorkoutPolicy, Workout, WorkoutAssignment } from "@shared/schema";
+
+/**
+ * PROGRAM SCHEDULING
+ *
+ * Assigning a program turns its workouts into dated workout_assignments,
+ * linked to the client_program and keeping the workout's week and day:
+ * - without training days, week w day d falls on start + (w - 1) * 7 + (d - 1)
+ * - with the client's training days (ISO weekdays), each week's workouts take
+ *   the next training days from the start of that week, in day order, one per day
+ * Reconciling (on calendar reads and finished sessions) applies the client
+ * program's policy to workouts whose date passed without being started:
+ * - shift: the missed workout moves to the first free day and everything
+ *   after it slides back by the same amount
+ * - skip: the missed workout is marked skipped
+ * - stack: the missed workout is moved to today, on top of today's plan
+ * and keeps current_week on the week of the next workout still to do,
+ * completing the client program once nothing is left.
+ */
+
+export interface CalendarEntry extends WorkoutAssignment {
+  workoutName: string;
+  programName: string | null;
+}
+
+export interface ClientCalendar {
+  programs: (ClientProgram & { programName: string })[];
+  entries: CalendarEntry[];
+}
+
+type Slot = Pick<WorkoutAssignment, 'weekNumber' | 'dayNumber'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (date: string, days: number) => toDateString(new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS));
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+// ISO weekday, 1 = Monday ... 7 = Sunday
+const isoWeekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay() || 7;
+
+const compareSlots = (a: Slot, b: Slot) =>
+  (a.weekNumber ?? 1) - (b.weekNumber ?? 1) || (a.dayNumber ?? 1) - (b.dayNumber ?? 1);
+
+// Workouts on the same week and day are done on the same date
+const slotKey = (slot: Slot) => `${slot.weekNumber ?? 1}:${slot.dayNumber ?? 1}`;
+
+const isPending = (assignment: WorkoutAssignment) => assignment.status === 'scheduled';
+
+const isOpen = (assignment: WorkoutAssignment) => assignment.status === 'scheduled' || assignment.status === 'in_progress';
+
+/**
+ * Dates for slots sorted by week and day, starting the program on startDate.
+ * No date is earlier than notBefore.
+ */
+export function planScheduleDates(
+  slots: Slot[],
+  startDate: string,
+  trainingDays: number[] | null,
+  notBefore?: string
+): string[] {
+  const days = trainingDays?.length ? trainingDays : null;
+  let previous: { key: string; date: string } | null = null;
+
+  return slots.map(slot => {
+    const key = slotKey(slot);
+    if (previous?.key === key) return previous.date;
+
+    const week = slot.weekNumber ?? 1;
+    let date = addDays(startDate, (week - 1) * 7 + (days ? 0 : (slot.dayNumber ?? 1) - 1));
+    if (notBefore && date < notBefore) date = notBefore;
+    if (days) {
+      if (previous && date <= previous.date) date = addDays(previous.date, 1);
+      while (!days.includes(isoWeekday(date))) date = addDays(date, 1);
+    }
+
+    previous = { key, date };
+    return date;
+  });
+}
+
+/**
+ * Plan slots from the program's start, sliding the whole plan back if its
+ * first slot would fall before earliest
+ */
+function replanFrom(slots: Slot[], startDate: string, trainingDays: number[] | null, earliest: string): string[] {
+  if (slots.length === 0) return [];
+  const planned = planScheduleDates(slots, startDate, trainingDays);
+  const delay = daysBetween(planned[0], earliest);
+  return delay > 0 ? planScheduleDates(slots, addDays(startDate, delay), trainingDays, earliest) : planned;
+}
+
+async function getTrainingDays(storage: IStorage, clientUserId: string): Promise<number[] | null> {
+  return (await storage.getClientWorkoutPreferences(clientUserId))?.trainingDays ?? null;
+}
+
+async function createAssignments(
+  storage: IStorage,
+  clientProgram: ClientProgram,
+  clientUserId: string,
+  workouts: Workout[],
+  dates: string[]
+): Promise<WorkoutAssignment[]> {
+  const created: WorkoutAssignment[] = [];
+  for (let index = 0; index < workouts.length; index++) {
+    const workout = workouts[index];
+    created.push(await storage.createWorkoutAssignment({
+      clientId: clientUserId,
+      workoutId: workout.id,
+      assignedBy: clientProgram.assignedBy,
+      scheduledDate: dates[index],
+      status: 'scheduled',
+      clientProgramId: clientProgram.id,
+      weekNumber: workout.weekNumber ?? 1,
+      dayNumber: workout.dayNumber ?? 1
+    }));
+  }
+  return created;
+}
+
+async function getProgramWorkouts(storage: IStorage, programId: number): Promise<Workout[]> {
+  const workouts = await storage.getWorkoutsByProgramId(programId);
+  return workouts.sort((a, b) => compareSlots(a, b) || a.id - b.id);
+}
+
+/**
+ * Materialise a newly assigned client program as dated workout assignments
+ */
+export async function scheduleClientProgram(
+  storage: IStorage,
+  clientProgram: ClientProgram,
+  clientUserId: string
+): Promise<WorkoutAssignment[]> {
+  const [workouts, trainingDays] = await Promise.all([
+    getProgramWorkouts(storage, clientProgram.programId),
+    getTrainingDays(storage, clientUserId)
+  ]);
+  const dates = planScheduleDates(workouts, clientProgram.startDate, trainingDays);
+  return createAssignments(storage, clientProgram, clientUserId, workouts, dates);
+}
+
+/**
+ * Re-plan the workouts a client has not started yet, from today on. Used when
+ * the client's training days change or the client program moves to another
+ * version, whose workouts replace the old version's for the weeks and days
+ * still to do.
+ */
+export async function rescheduleClientProgram(
+  storage: IStorage,
+  clientProgram: ClientProgram,
+  clientUserId: string,
+  today = toDateString(new Date())
+): Promise<WorkoutAssignment[]> {
+  const [assignments, workouts, trainingDays] = await Promise.all([
+    storage.getWorkoutAssignmentsByClientProgramId(clientProgram.id),
+    getProgramWorkouts(storage, clientProgram.programId),
+    getTrainingDays(storage, clientUserId)
+  ]);
+  if (assignments.length === 0) return [];
+
+  // Each started, done or skipped assignment accounts for one workout of its week and day
+  const done = new Map<string, number>();
+  for (const assignment of assignments.filter(assignment => !isPending(assignment))) {
+    done.set(slotKey(assignment), (done.get(slotKey(assignment)) ?? 0) + 1);
+  }
+  const remaining = workouts.filter(workout => {
+    const count = done.get(slotKey(workout)) ?? 0;
+    if (count === 0) return true;
+    done.set(slotKey(workout), count - 1);
+    return false;
+  });
+
+  for (const assignment of assignments.filter(isPending)) {
+    await storage.deleteWorkoutAssignment(assignment.id);
+  }
+  const dates = replanFrom(remaining, clientProgram.startDate, trainingDays, today);
+  return createAssignments(storage, clientProgram, clientUserId, remaining, dates);
+}
+
+/**
+ * Apply the missed-workout policy and bring current_week and status up to date
+ */
+export async function reconcileClientProgram(
+  storage: IStorage,
+  clientProgram: ClientProgram,
+  clientUserId: string,
+  today = toDateString(new Date())
+): Promise<ClientProgram> {
+  if (clientProgram.status !== 'active') return clientProgram;
+
+  let assignments = await storage.getWorkoutAssignmentsByClientProgramId(clientProgram.id);
+  // Programs assigned before scheduling existed have nothing to reconcile
+  if (assignments.length === 0) return clientProgram;
+
+  const pending = assignments.filter(isPending).sort((a, b) => compareSlots(a, b) || a.id - b.id);
+  const missed = pending.filter(assignment => assignment.scheduledDate < today);
+  if (missed.length > 0) {
+    switch ((clientProgram.missedPolicy ?? 'shift') as MissedWorkoutPolicy) {
+      case 'skip':
+        for (const assignment of missed) {
+          await storage.updateWorkoutAssignment(assignment.id, { status: 'skipped' });
+        }
+        break;
+      case 'stack':
+        for (const assignment of missed) {
+          await storage.updateWorkoutAssignment(assignment.id, { scheduledDate: today });
+        }
+        break;
+      default: {
+        const trainingDays = await getTrainingDays(storage, clientUserId);
+        const dates = replanFrom(pending, clientProgram.startDate, trainingDays, today);
+        for (let index = 0; index < pending.length; index++) {
+          if (dates[index] !== pending[index].scheduledDate) {
+            await storage.updateWorkoutAssignment(pending[index].id, { scheduledDate: dates[index] });
+          }
+        }
+      }
+    }
+    assignments = await storage.getWorkoutAssignmentsByClientProgramId(clientProgram.id);
+  }
+
+  const next = assignments.filter(isOpen).sort((a, b) => compareSlots(a, b) || a.id - b.id)[0];
+  if (!next) {
+    return storage.updateClientProgram(clientProgram.id, { status: 'completed', endDate: today });
+  }
+  const currentWeek = next.weekNumber ?? 1;
+  return currentWeek === clientProgram.currentWeek
+    ? clientProgram
+    : storage.updateClientProgram(clientProgram.id, { currentWeek });
+}
+
+/**
+ * A client's programs and dated workouts between two days, with the client's
+ * active programs reconciled first
+ */
+export async function getClientCalendar(
+  storage: IStorage,
+  clientId: number,
+  clientUserId: string,
+  from: string,
+  to: string
+): Promise<ClientCalendar> {
+  const clientPrograms: ClientProgram[] = [];
+  for (const clientProgram of await storage.getClientPrograms(clientId)) {
+    clientPrograms.push(await reconcileClientProgram(storage, clientProgram, clientUserId));
+  }
+
+  const assignments = await storage.getWorkoutAssignmentsByClientIdsAndDateRange(
+    [clientUserId],
+    new Date(`${from}T00:00:00Z`),
+    new Date(`${to}T00:00:00Z`)
+  );
+  const [workouts, programs] = await Promise.all([
+    Promise.all(Array.from(new Set(assignments.map(assignment => assignment.workoutId))).map(id => storage.getWorkout(id))),
+    Promise.all(Array.from(new Set(clientPrograms.map(clientProgram => clientProgram.programId))).map(id => storage.getProgram(id)))
+  ]);
+  const programName = (programId: number) => programs.find(program => program?.id === programId)?.name ?? 'Program';
+
+  return {
+    programs: clientPrograms.map(clientProgram => ({ ...clientProgram, programName: programName(clientProgram.programId) })),
+    entries: assignments.map(assignment => {
+      const clientProgram = clientPrograms.find(clientProgram => clientProgram.id === assignment.clientProgramId);
+      return {
+        ...assignment,
+        workoutName: workouts.find(workout => workout?.id === assignment.workoutId)?.name ?? 'Workout',
+        programName: clientProgram ? programName(clientProgram.programId) : null
+      };
+    })
+  };
+}
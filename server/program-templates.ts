@@ -0,0 +1,170 @@
+import type { IStorage } from "./storage";
+import type { InsertProgramTemplate, Program, ProgramTemplate, User } from "@shared/schema";
+import { cloneProgram } from "./program-versions";
+
+/**
+ * PROGRAM TEMPLATE LIBRARY
+ *
+ * Coaches publish their programs as program_templates. Public templates are
+ * listed for every coach; private ones only for the coach who published them.
+ * - a template points at the first version of its program, and previews and
+ *   copies always use the program's latest version
+ * - using a template deep-copies that version into the coach's own programs,
+ *   with programs.template_id set; a database trigger counts the use
+ * - coaches rate templates they have used (1-5); another trigger keeps the
+ *   template's average rating and rating count
+ */
+
+export type TemplateSort = 'rating' | 'usage' | 'newest' | 'name';
+
+export interface TemplateFilters {
+  search?: string;
+  programType?: string;
+  difficultyLevel?: string;
+  category?: string;
+  minWeeks?: number;
+  maxWeeks?: number;
+  sort: TemplateSort;
+}
+
+export interface TemplateListing extends ProgramTemplate {
+  authorName: string;
+  programType: Program['programType'];
+  difficultyLevel: Program['difficultyLevel'];
+  durationWeeks: number | null;
+  version: number;
+  isOwn: boolean;
+  usedByMe: boolean;
+  myRating: number | null;
+}
+
+export const TEMPLATE_SORTS: TemplateSort[] = ['rating', 'usage', 'newest', 'name'];
+
+const displayName = (user?: User) => {
+  if (!user) return 'Coach';
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || user.username || user.email;
+};
+
+// Every version of a published program shares the template
+const rootIdOf = (program: Program) => program.rootProgramId ?? program.id;
+
+async function setTemplateFlag(storage: IStorage, rootProgramId: number, isTemplate: boolean): Promise<void> {
+  for (const version of await storage.getProgramsByRootProgramId(rootProgramId)) {
+    await storage.updateProgram(version.id, { isTemplate });
+  }
+}
+
+/**
+ * The version of a template's program that previews and copies use
+ */
+export async function getTemplateProgram(storage: IStorage, template: ProgramTemplate): Promise<Program | undefined> {
+  const versions = await storage.getProgramsByRootProgramId(template.programId);
+  return versions[versions.length - 1];
+}
+
+export async function hasUsedTemplate(storage: IStorage, coachId: number, templateId: number): Promise<boolean> {
+  const programs = await storage.getProgramsByCoachId(coachId);
+  return programs.some(program => program.templateId === templateId);
+}
+
+/**
+ * Templates the coach can see, with their program's details, filtered and sorted
+ */
+export async function getTemplateLibrary(
+  storage: IStorage,
+  userId: string,
+  coachId: number,
+  filters: TemplateFilters
+): Promise<TemplateListing[]> {
+  const [templates, myPrograms, myRatings] = await Promise.all([
+    storage.getProgramTemplates(userId),
+    storage.getProgramsByCoachId(coachId),
+    storage.getProgramTemplateRatingsByUserId(userId)
+  ]);
+  const [authors, programs] = await Promise.all([
+    storage.getUsersByIds(Array.from(new Set(templates.map(template => template.createdBy)))),
+    Promise.all(templates.map(template => getTemplateProgram(storage, template)))
+  ]);
+
+  const listings: TemplateListing[] = templates.flatMap((template, index) => {
+    const program = programs[index];
+    if (!program) return [];
+    return [{
+      ...template,
+      authorName: displayName(authors.find(author => author.id === template.createdBy)),
+      programType: program.programType,
+      difficultyLevel: program.difficultyLevel,
+      durationWeeks: program.durationWeeks,
+      version: program.version,
+      isOwn: template.createdBy === userId,
+      usedByMe: myPrograms.some(mine => mine.templateId === template.id),
+      myRating: myRatings.find(rating => rating.templateId === template.id)?.rating ?? null
+    }];
+  });
+
+  const search = filters.search?.trim().toLowerCase();
+  const matches = listings.filter(listing => {
+    if (search && ![listing.name, listing.description, listing.category, listing.authorName]
+      .some(value => value?.toLowerCase().includes(search))) return false;
+    if (filters.programType && listing.programType !== filters.programType) return false;
+    if (filters.difficultyLevel && listing.difficultyLevel !== filters.difficultyLevel) return false;
+    if (filters.category && listing.category?.toLowerCase() !== filters.category.toLowerCase()) return false;
+    if (filters.minWeeks !== undefined && (listing.durationWeeks ?? 0) < filters.minWeeks) return false;
+    if (filters.maxWeeks !== undefined && (listing.durationWeeks ?? 0) > filters.maxWeeks) return false;
+    return true;
+  });
+
+  const rating = (listing: TemplateListing) => parseFloat(listing.rating ?? '0');
+  return matches.sort((a, b) => {
+    switch (filters.sort) {
+      case 'rating':
+        return rating(b) - rating(a) || b.ratingCount - a.ratingCount || a.name.localeCompare(b.name);
+      case 'usage':
+        return (b.usageCount ?? 0) - (a.usageCount ?? 0) || a.name.localeCompare(b.name);
+      case 'newest':
+        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+      default:
+        return a.name.localeCompare(b.name);
+    }
+  });
+}
+
+/**
+ * Publish a program (any of its versions) as a template of the coach
+ */
+export async function publishProgramTemplate(
+  storage: IStorage,
+  program: Program,
+  userId: string,
+  fields: Partial<Pick<InsertProgramTemplate, 'name' | 'description' | 'category' | 'isPublic'>>
+): Promise<ProgramTemplate> {
+  const template = await storage.createProgramTemplate({
+    programId: rootIdOf(program),
+    name: fields.name || program.name,
+    description: fields.description ?? program.description,
+    category: fields.category ?? null,
+    isPublic: fields.isPublic ?? true,
+    createdBy: userId
+  });
+  await setTemplateFlag(storage, rootIdOf(program), true);
+  return template;
+}
+
+export async function unpublishProgramTemplate(storage: IStorage, template: ProgramTemplate): Promise<void> {
+  await storage.deleteProgramTemplate(template.id);
+  await setTemplateFlag(storage, template.programId, false);
+}
+
+/**
+ * Copy a template's program into a new program of the coach
+ */
+export async function instantiateProgramTemplate(
+  storage: IStorage,
+  template: ProgramTemplate,
+  program: Program,
+  coachId: number,
+  name?: string
+): Promise<Program> {
+  return cloneProgram(storage, program, { name: name || template.name, coachId, templateId: template.id });
+}
@@ -0,0 +1,333 @@
+import type { IStorage } from "./storage";
+import {
+  insertWorkoutSchema,
+  insertWorkoutBlockSchema,
+  insertWorkoutExerciseSchema,
+  type Program,
+  type InsertProgram,
+  type ClientProgram,
+  type User,
+  type Workout,
+  type InsertWorkout,
+  type WorkoutBlock,
+  type InsertWorkoutBlock,
+  type WorkoutExercise,
+  type InsertWorkoutExercise
+} from "@shared/schema";
+
+/**
+ * PROGRAM CLONING AND VERSIONING
+ *
+ * A program tree is a program with its workouts, and each workout's timed
+ * blocks and workout_exercises.
+ * - cloning copies the tree into a new, unassigned program
+ * - editing a program that client_programs rows point at saves the edited
+ *   tree as a new version instead of changing it in place, so clients keep
+ *   the workouts they started with; unassigned programs are edited in place
+ * Versions share root_program_id (the first version's id) and only the latest
+ * version can be edited. Clients move to a newer version when their coach
+ * migrates them, after reviewing diffProgramTrees.
+ */
+
+export interface WorkoutTree {
+  workout: Workout;
+  blocks: WorkoutBlock[];
+  exercises: WorkoutExercise[];
+}
+
+export interface ProgramTree {
+  program: Program;
+  workouts: WorkoutTree[];
+}
+
+// Request body shape shared with POST /api/workouts
+export interface WorkoutTreeInput {
+  workout: unknown;
+  blocks?: unknown[];
+  // Each exercise may join a block through its index in `blocks`
+  exercises?: unknown[];
+}
+
+export interface ParsedWorkoutTree {
+  workout: InsertWorkout;
+  blocks: InsertWorkoutBlock[];
+  exercises: { exercise: InsertWorkoutExercise; blockIndex: number | null }[];
+}
+
+export interface ProgramVersion extends Program {
+  assignments: (ClientProgram & { clientName: string })[];
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ProgramChange {
+  scope: 'program' | 'workout' | 'exercise';
+  kind: 'added' | 'removed' | 'changed';
+  weekNumber: number | null;
+  dayNumber: number | null;
+  workoutName: string | null;
+  exerciseId: number | null;
+  fields: FieldChange[];
+}
+
+// Placeholder until the parent workout exists
+const PENDING_ID = 0;
+
+const PROGRAM_FIELDS: (keyof Program)[] = ['name', 'description', 'durationWeeks', 'difficultyLevel', 'programType', 'isTemplate', 'periodization'];
+const WORKOUT_FIELDS: (keyof Workout)[] = ['name', 'description', 'estimatedDuration', 'instructions'];
+const EXERCISE_FIELDS: (keyof WorkoutExercise)[] = [
+  'sets', 'reps', 'weight', 'restSeconds', 'notes', 'supersetGroup',
+  'progressionModel', 'progressionIncrement', 'warmupScheme', 'cardioTarget', 'substitutions'
+];
+
+/**
+ * Validate a workout tree before anything is written
+ */
+export function parseWorkoutTree(input: WorkoutTreeInput): ParsedWorkoutTree {
+  const workout = insertWorkoutSchema.parse(input.workout);
+  const blocks = (Array.isArray(input.blocks) ? input.blocks : []).map(block =>
+    insertWorkoutBlockSchema.parse({ ...(block as object), workoutId: PENDING_ID })
+  );
+  const exercises = (Array.isArray(input.exercises) ? input.exercises : []).map(entry => {
+    const { blockIndex, ...exercise } = entry as { blockIndex?: unknown };
+    return {
+      exercise: insertWorkoutExerciseSchema.parse({ ...exercise, workoutId: PENDING_ID, blockId: null }),
+      blockIndex: typeof blockIndex === 'number' ? blockIndex : null
+    };
+  });
+  return { workout, blocks, exercises };
+}
+
+export async function createWorkoutTree(storage: IStorage, tree: ParsedWorkoutTree, programId?: number): Promise<Workout> {
+  const created = await storage.createWorkout(programId === undefined ? tree.workout : { ...tree.workout, programId });
+
+  const blockIds: number[] = [];
+  for (const block of tree.blocks) {
+    const createdBlock = await storage.createWorkoutBlock({ ...block, workoutId: created.id });
+    blockIds.push(createdBlock.id);
+  }
+
+  for (const { exercise, blockIndex } of tree.exercises) {
+    await storage.createWorkoutExercise({
+      ...exercise,
+      workoutId: created.id,
+      blockId: blockIndex !== null ? blockIds[blockIndex] ?? null : null
+    });
+  }
+  return created;
+}
+
+export async function getProgramTree(storage: IStorage, program: Program): Promise<ProgramTree> {
+  const workouts = await storage.getWorkoutsByProgramId(program.id);
+  const trees = await Promise.all(workouts.map(async workout => {
+    const [blocks, exercises] = await Promise.all([
+      storage.getWorkoutBlocksByWorkoutId(workout.id),
+      storage.getWorkoutExercisesByWorkoutId(workout.id)
+    ]);
+    return { workout, blocks, exercises: exercises as WorkoutExercise[] };
+  }));
+  trees.sort((a, b) =>
+    (a.workout.weekNumber ?? 0) - (b.workout.weekNumber ?? 0) || (a.workout.dayNumber ?? 0) - (b.workout.dayNumber ?? 0)
+  );
+  return { program, workouts: trees };
+}
+
+// A stored workout as a tree ready to be created again elsewhere
+export function copyWorkoutTree({ workout, blocks, exercises }: WorkoutTree): ParsedWorkoutTree {
+  const { id, createdAt, updatedAt, ...workoutFields } = workout;
+  return {
+    workout: workoutFields,
+    blocks: blocks.map(({ id, createdAt, ...block }) => block),
+    exercises: exercises.map(({ id, blockId, ...exercise }) => {
+      const blockIndex = blockId ? blocks.findIndex(block => block.id === blockId) : -1;
+      return { exercise: { ...exercise, blockId: null }, blockIndex: blockIndex >= 0 ? blockIndex : null };
+    })
+  };
+}
+
+function programFields(program: Program): InsertProgram {
+  const { id, createdAt, updatedAt, ...fields } = program;
+  return fields;
+}
+
+const displayName = (user?: User) => {
+  if (!user) return 'Client';
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || user.username || user.email;
+};
+
+/**
+ * Every version of a program, oldest first, with the client assignments pinned to each
+ */
+export async function getProgramVersions(storage: IStorage, program: Program): Promise<ProgramVersion[]> {
+  const versions = await storage.getProgramsByRootProgramId(program.rootProgramId ?? program.id);
+  const assignments = await storage.getClientProgramsByProgramIds(versions.map(version => version.id));
+
+  const clientIds = Array.from(new Set(assignments.map(assignment => assignment.clientId)));
+  const clients = await Promise.all(clientIds.map(clientId => storage.getClient(clientId)));
+  const users = await storage.getUsersByIds(clients.flatMap(client => client ? [client.userId] : []));
+  const names = new Map(clients.flatMap(client =>
+    client ? [[client.id, displayName(users.find(user => user.id === client.userId))] as const] : []
+  ));
+
+  return versions.map(version => ({
+    ...version,
+    assignments: assignments
+      .filter(assignment => assignment.programId === version.id)
+      .map(assignment => ({ ...assignment, clientName: names.get(assignment.clientId) ?? 'Client' }))
+  }));
+}
+
+export async function isLatestVersion(storage: IStorage, program: Program): Promise<boolean> {
+  const versions = await storage.getProgramsByRootProgramId(program.rootProgramId ?? program.id);
+  return versions.every(version => version.version <= program.version);
+}
+
+/**
+ * Deep-copy a program into a new, unversioned and unpublished program, by
+ * default for the same coach; `fields` overrides the copied program fields
+ */
+export async function cloneProgram(storage: IStorage, program: Program, fields: Partial<InsertProgram> = {}): Promise<Program> {
+  const tree = await getProgramTree(storage, program);
+  const clone = await storage.createProgram({
+    ...programFields(program),
+    isTemplate: false,
+    templateId: null,
+    ...fields,
+    name: fields.name || `${program.name} (Copy)`,
+    rootProgramId: null,
+    version: 1,
+    clonedFromId: program.id
+  });
+  for (const workout of tree.workouts) {
+    await createWorkoutTree(storage, copyWorkoutTree(workout), clone.id);
+  }
+  return clone;
+}
+
+/**
+ * Apply program changes and, optionally, a replacement set of workouts.
+ * Assigned programs get a new version; the edited program is left untouched.
+ */
+export async function saveProgramEdit(
+  storage: IStorage,
+  program: Program,
+  updates: Partial<InsertProgram>,
+  workouts?: ParsedWorkoutTree[]
+): Promise<{ program: Program; versioned: boolean }> {
+  const assignments = await storage.getClientProgramsByProgramIds([program.id]);
+
+  if (assignments.length === 0) {
+    const updated = await storage.updateProgram(program.id, updates);
+    if (workouts) {
+      for (const workout of await storage.getWorkoutsByProgramId(program.id)) {
+        await storage.deleteWorkoutExercisesByWorkoutId(workout.id);
+        await storage.deleteWorkoutBlocksByWorkoutId(workout.id);
+        await storage.deleteWorkout(workout.id);
+      }
+      for (const workout of workouts) {
+        await createWorkoutTree(storage, workout, program.id);
+      }
+    }
+    return { program: updated, versioned: false };
+  }
+
+  const rootProgramId = program.rootProgramId ?? program.id;
+  const versions = await storage.getProgramsByRootProgramId(rootProgramId);
+  const tree = workouts ?? (await getProgramTree(storage, program)).workouts.map(copyWorkoutTree);
+  const next = await storage.createProgram({
+    ...programFields(program),
+    ...updates,
+    rootProgramId,
+    version: Math.max(...versions.map(version => version.version)) + 1
+  });
+  for (const workout of tree) {
+    await createWorkoutTree(storage, workout, next.id);
+  }
+  return { program: next, versioned: true };
+}
+
+// null and undefined both mean "not set"; objects (periodization, cardio targets) compare by value
+function compareFields<T extends object>(from: T, to: T, fields: (keyof T)[]): FieldChange[] {
+  return fields
+    .filter(field => JSON.stringify(from[field] ?? null) !== JSON.stringify(to[field] ?? null))
+    .map(field => ({ field: String(field), from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+// Key items by a natural key plus how many times that key has come up, so repeats pair in order
+function keyByOccurrence<T>(items: T[], keyOf: (item: T) => string): Map<string, T> {
+  const seen = new Map<string, number>();
+  const keyed = new Map<string, T>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    keyed.set(`${key}#${occurrence}`, item);
+  }
+  return keyed;
+}
+
+const blockSummary = (blocks: WorkoutBlock[]) =>
+  blocks.map(({ blockType, name, parameters }) => ({ blockType, name, parameters }));
+
+/**
+ * What changes for a client moving from one version of a program to another.
+ * Workouts are paired by week and day, exercises by exercise within a workout.
+ */
+export function diffProgramTrees(from: ProgramTree, to: ProgramTree): ProgramChange[] {
+  const changes: ProgramChange[] = [];
+  const base = { weekNumber: null, dayNumber: null, workoutName: null, exerciseId: null };
+
+  const programFieldChanges = compareFields(from.program, to.program, PROGRAM_FIELDS);
+  if (programFieldChanges.length > 0) {
+    changes.push({ ...base, scope: 'program', kind: 'changed', fields: programFieldChanges });
+  }
+
+  const workoutKey = (tree: WorkoutTree) => `${tree.workout.weekNumber ?? 0}:${tree.workout.dayNumber ?? 0}`;
+  const fromWorkouts = keyByOccurrence(from.workouts, workoutKey);
+  const toWorkouts = keyByOccurrence(to.workouts, workoutKey);
+  const keys = Array.from(new Set([...Array.from(fromWorkouts.keys()), ...Array.from(toWorkouts.keys())]));
+
+  for (const key of keys) {
+    const before = fromWorkouts.get(key);
+    const after = toWorkouts.get(key);
+    const workout = (after ?? before)!.workout;
+    const location = { weekNumber: workout.weekNumber, dayNumber: workout.dayNumber, workoutName: workout.name };
+
+    if (!before || !after) {
+      changes.push({ ...base, ...location, scope: 'workout', kind: before ? 'removed' : 'added', fields: [] });
+      continue;
+    }
+
+    const workoutFieldChanges = compareFields(before.workout, after.workout, WORKOUT_FIELDS);
+    if (JSON.stringify(blockSummary(before.blocks)) !== JSON.stringify(blockSummary(after.blocks))) {
+      workoutFieldChanges.push({ field: 'blocks', from: blockSummary(before.blocks), to: blockSummary(after.blocks) });
+    }
+    if (workoutFieldChanges.length > 0) {
+      changes.push({ ...base, ...location, scope: 'workout', kind: 'changed', fields: workoutFieldChanges });
+    }
+
+    const fromExercises = keyByOccurrence(before.exercises, exercise => String(exercise.exerciseId));
+    const toExercises = keyByOccurrence(after.exercises, exercise => String(exercise.exerciseId));
+    const exerciseKeys = Array.from(new Set([...Array.from(fromExercises.keys()), ...Array.from(toExercises.keys())]));
+    for (const exerciseKey of exerciseKeys) {
+      const previous = fromExercises.get(exerciseKey);
+      const next = toExercises.get(exerciseKey);
+      const exerciseId = (next ?? previous)!.exerciseId;
+      if (!previous || !next) {
+        changes.push({ ...location, exerciseId, scope: 'exercise', kind: previous ? 'removed' : 'added', fields: [] });
+        continue;
+      }
+      const exerciseFieldChanges = compareFields(previous, next, EXERCISE_FIELDS);
+      if (exerciseFieldChanges.length > 0) {
+        changes.push({ ...location, exerciseId, scope: 'exercise', kind: 'changed', fields: exerciseFieldChanges });
+      }
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,154 @@
+import type { Server } from "http";
+import { Server as SocketIOServer, type Socket } from "socket.io";
+import { SupabaseStorage } from "./supabase-storage";
+import { ALLOWED_ORIGINS } from "./config";
+import { normalizeToken, verifySupabaseToken, type AuthenticatedUser } from "./auth";
+import type { PersonalRecord } from "@shared/schema";
+
+/**
+ * REAL-TIME GATEWAY
+ *
+ * Socket.IO server sharing the HTTP server created in registerRoutes.
+ * Every user is placed in their own `user-<id>` room on connect; coaches may
+ * additionally join the rooms of their active clients to follow their activity.
+ * REST routes push events through emitToUser once a write has succeeded.
+ */
+
+// Events pushed from the server, mirroring SocketEvents in client/src/lib/socket.ts
+export interface ServerToClientEvents {
+  'receive-message': (data: any) => void;
+  'workout-progress': (data: { workoutLogId: number; clientId: number; progress: any }) => void;
+  'weight-logged': (data: { clientId: number; weight: number; date: string }) => void;
+  'client-online': (data: { clientId: number; status: 'online' | 'offline' }) => void;
+  'assignment-created': (data: { clientId: number; type: 'workout' | 'meal_plan' | 'program'; assignmentId: number }) => void;
+  'room-error': (data: { room: string; message: string }) => void;
+  'personal-record': (data: { workoutSessionId: number; records: PersonalRecord[] }) => void;
+  'form-review-completed': (data: { formReviewId: number; exerciseSetId: number; workoutSessionId: number; exerciseName: string; formRating: number }) => void;
+}
+
+interface ClientToServerEvents {
+  'join-room': (room: string) => void;
+  'leave-room': (room: string) => void;
+}
+
+interface SocketData {
+  user: AuthenticatedUser;
+  token: string;
+}
+
+type RealtimeSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+let io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData> | null = null;
+
+// Open socket count per user, so presence only flips on first connect / last disconnect
+const connectionCounts = new Map<string, number>();
+
+export const userRoom = (userId: string) => `user-${userId}`;
+
+// A client may only be in its own room; a coach may also join rooms of its active clients
+async function canJoinRoom(socket: RealtimeSocket, room: string): Promise<boolean> {
+  const { user, token } = socket.data;
+  if (room === userRoom(user.id)) return true;
+  if (user.role !== 'admin' || !room.startsWith('user-')) return false;
+
+  const clientUserId = room.slice('user-'.length);
+  const relationships = await SupabaseStorage.withUserToken(token).getCoachClientsByCoachId(user.id, 'active');
+  return relationships.some(relationship => relationship.clientId === clientUserId);
+}
+
+async function broadcastPresence(socket: RealtimeSocket, status: 'online' | 'offline') {
+  const { user, token } = socket.data;
+  if (user.role === 'admin') return;
+
+  const client = await SupabaseStorage.withUserToken(token).getClientByUserId(user.id);
+  if (!client) return;
+
+  // Coaches following this client are in its room; skip the client's own sockets
+  socket.to(userRoom(user.id)).emit('client-online', { clientId: client.id, status });
+}
+
+export function attachRealtime(httpServer: Server) {
+  io = new SocketIOServer(httpServer, {
+    cors: {
+      origin: ALLOWED_ORIGINS,
+      credentials: true
+    }
+  });
+
+  // Authenticate the handshake with the same Supabase JWT check as the REST API
+  io.use(async (socket, next) => {
+    const token = normalizeToken(socket.handshake.auth?.token);
+    if (!token) {
+      return next(new Error('Unauthorized - No valid authentication'));
+    }
+
+    const user = await verifySupabaseToken(token);
+    if (!user) {
+      return next(new Error('Unauthorized - Invalid token'));
+    }
+
+    socket.data.user = user;
+    socket.data.token = token;
+    next();
+  });
+
+  io.on('connection', (socket) => {
+    const { user } = socket.data;
+    socket.join(userRoom(user.id));
+
+    const openSockets = (connectionCounts.get(user.id) || 0) + 1;
+    connectionCounts.set(user.id, openSockets);
+    if (openSockets === 1) {
+      broadcastPresence(socket, 'online').catch(error => {
+        console.error('Realtime presence error:', error);
+      });
+    }
+
+    socket.on('join-room', async (room) => {
+      try {
+        if (typeof room === 'string' && await canJoinRoom(socket, room)) {
+          socket.join(room);
+        } else {
+          socket.emit('room-error', { room, message: 'Not allowed to join this room' });
+        }
+      } catch (error) {
+        console.error('Realtime join-room error:', error);
+        socket.emit('room-error', { room, message: 'Unable to join room' });
+      }
+    });
+
+    socket.on('leave-room', (room) => {
+      // Users always stay in their own room
+      if (room !== userRoom(user.id)) {
+        socket.leave(room);
+      }
+    });
+
+    socket.on('disconnect', () => {
+      const remaining = (connectionCounts.get(user.id) || 1) - 1;
+      if (remaining > 0) {
+        connectionCounts.set(user.id, remaining);
+        return;
+      }
+
+      connectionCounts.delete(user.id);
+      broadcastPresence(socket, 'offline').catch(error => {
+        console.error('Realtime presence error:', error);
+      });
+    });
+  });
+
+  return io;
+}
+
+// Push an event to users' rooms (and any coach following them); no-op until the gateway is attached
+export function emitToUser<K extends keyof ServerToClientEvents>(
+  userIds: string | string[],
+  event: K,
+  ...args: Parameters<ServerToClientEvents[K]>
+) {
+  if (!io) return;
+  // Socket.IO de-duplicates sockets that sit in several of the target rooms
+  const rooms = (Array.isArray(userIds) ? userIds : [userIds]).map(userRoom);
+  io.to(rooms).emit(event, ...args);
+}
@@ -16,11 +16,23 @@ import {
   insertExerciseSchema,
   insertExerciseCategorySchema,
   insertProgramSchema,
-  insertWorkoutSchema,
-  insertWorkoutExerciseSchema,
+  insertProgramTemplateSchema,
+  insertProgramTemplateRatingSchema,
   insertClientProgramSchema,
   insertWorkoutLogSchema,
   insertExerciseLogSchema,
+  insertNutritionLogSchema,
+  insertComplianceSettingsSchema,
+  insertAlertSettingsSchema,
+  insertClientAlertSchema,
+  insertVolumeTargetSettingsSchema,
+  insertExerciseSetSchema, plateSetupSchema, heartRateSettingsSchema, trainingDaysSchema, workoutSessionStateSchema,
+  insertWorkoutSessionSchema, workoutSessionCompletionSchema,
+  insertBlockResultSchema,
+  insertExerciseVariationSchema, insertExerciseSubstitutionSchema,
+  insertEquipmentProfileSchema, activeEquipmentProfileSchema,
+  insertFormReviewSchema, formReviewCompletionSchema, insertFormReviewCommentSchema, FORM_REVIEW_STATUSES,
+  exerciseSearchSchema,
   users
 } from "@shared/schema";
 import { eq } from "drizzle-orm";
@@ -29,11 +41,55 @@ import { ZodError } from "zod";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import os from "os";
 import rateLimit from "express-rate-limit";
-import { createClient } from '@supabase/supabase-js';
 import bcrypt from 'bcryptjs';
 import passport from 'passport';
-import { SUPABASE_ANON_KEY, SUPABASE_URL } from "./config";
+import { ALLOWED_ORIGINS } from "./config";
+import { normalizeToken, verifySupabaseToken } from "./auth";
+import { attachRealtime, emitToUser, type ServerToClientEvents } from "./realtime";
+import { getCoachOverview, OVERVIEW_RANGES, type OverviewRange } from "./coach-analytics";
+import { getClientCompliance, getComplianceSettingsForCoach, DEFAULT_COMPLIANCE_SETTINGS } from "./compliance";
+import { detectPersonalRecords } from "./personal-records";
+import { ONE_RM_FORMULAS, type OneRepMaxFormula } from "@shared/one-rep-max";
+import { getExerciseHistory } from "./exercise-history";
+import {
+  parseWorkoutTree,
+  createWorkoutTree,
+  getProgramTree,
+  cloneProgram,
+  saveProgramEdit,
+  diffProgramTrees,
+  isLatestVersion,
+  getProgramVersions
+} from "./program-versions";
+import {
+  getTemplateLibrary,
+  getTemplateProgram,
+  hasUsedTemplate,
+  publishProgramTemplate,
+  unpublishProgramTemplate,
+  instantiateProgramTemplate,
+  TEMPLATE_SORTS,
+  type TemplateSort
+} from "./program-templates";
+import { getClientCalendar, reconcileClientProgram, rescheduleClientProgram, scheduleClientProgram } from "./program-schedule";
+import { getClientTrainingVolume, getVolumeTargetsForCoach, DEFAULT_VOLUME_TARGETS, MAX_VOLUME_WEEKS } from "./training-volume";
+import { getResumableSession, checkWorkoutVersion } from "./workout-sessions";
+import { findSubstitutes, getAllowedSubstitutes, getSessionSubstitutions, getSessionWorkoutExercise } from "./exercise-substitutions";
+import { checkWorkoutEquipment, getActiveEquipmentProfile, getCoachClientEquipmentProfiles } from "./equipment-profiles";
+import { createMediaStorage, isMediaKey, mediaKeyOf, parseRange, verifyMediaSignature } from "./media-storage";
+import { EXERCISE_MEDIA_FOLDERS, MAX_MEDIA_UPLOAD_BYTES, isPrivateMediaKey, sniffContentType, storeMediaUpload, validateMediaUpload } from "./media-uploads";
+import { importExercises, parseImportFile } from "./exercise-import";
+import {
+  completeFormReview,
+  getCoachFormReviewQueue,
+  getFormReviewDetail,
+  isReviewingCoach,
+  summarizeFormReviews,
+  FORM_VIDEO_FOLDER
+} from "./form-reviews";
+import { getCoachAlerts, getAlertSettingsForCoach, ALERT_RULES, type AlertRule } from "./client-alerts";
 
 // Configure multer for file uploads
 const uploadDir = path.join(process.cwd(), "uploads");
@@ -75,8 +131,19 @@ const upload = multer({
   }
 });
 
-// Supabase client setup for JWT verification (fallback values handled in config)
-const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+// Exercise media lands in a temp file first; size and type are checked per folder once the form is read
+const mediaUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: MAX_MEDIA_UPLOAD_BYTES }
+});
+
+const mediaStorage = createMediaStorage();
+
+// Exercise import files are parsed straight from memory
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 } // 5MB limit
+});
 
 // Rate limiting configuration
 const authRateLimit = rateLimit({
@@ -98,13 +165,8 @@ const generalRateLimit = rateLimit({
 export async function registerRoutes(app: Express): Promise<Server> {
   // Add CORS headers with secure allowlist
   app.use((req, res, next) => {
-    const allowedOrigins = [
-      'http://localhost:3000',
-      'http://localhost:5000', 
-      'https://your-app-domain.replit.app' // Replace with actual domain
-    ];
     const origin = req.headers.origin;
-    if (origin && allowedOrigins.includes(origin)) {
+    if (origin && ALLOWED_ORIGINS.includes(origin)) {
       res.header('Access-Control-Allow-Origin', origin);
     }
     res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
@@ -132,6 +194,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return SupabaseStorage.withUserToken(token);
   };
 
+  // Resolve a client profile to its user and push a realtime event - never fails the request
+  const emitToClient = <K extends keyof ServerToClientEvents>(
+    rlsStorage: SupabaseStorage,
+    clientId: number,
+    event: K,
+    ...args: Parameters<ServerToClientEvents[K]>
+  ) => {
+    rlsStorage.getClient(clientId)
+      .then(client => {
+        if (client) emitToUser(client.userId, event, ...args);
+      })
+      .catch(error => console.error('Realtime emit error:', error));
+  };
+
+  // A program belonging to the signed-in coach, or undefined
+  const getCoachProgram = async (rlsStorage: SupabaseStorage, userId: string, programId: number) => {
+    const [coach, program] = await Promise.all([rlsStorage.getCoachByUserId(userId), rlsStorage.getProgram(programId)]);
+    return coach && program && program.coachId === coach.id ? program : undefined;
+  };
+
+  // Whether the signed-in user is a coach with the client (a user id) as an active client
+  const isActiveCoachOf = async (rlsStorage: SupabaseStorage, user: any, clientUserId: string) => {
+    if (user.role !== 'admin') return false;
+    const relationships = await rlsStorage.getCoachClientsByCoachId(user.id, 'active');
+    return relationships.some(relationship => relationship.clientId === clientUserId);
+  };
+
   // No session setup needed - using Supabase JWT tokens
 
   // Create API router
@@ -152,40 +241,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if ((scheme || '').toLowerCase() === 'bearer') {
           const rawToken = rest.join(' ').trim();
-          // Strip quotes and handle null/undefined
-          const token = rawToken.replace(/^"|"$/g, '');
+          const token = normalizeToken(rawToken);
           
-          console.log('🔍 Token extracted:', !!token && token !== 'null' && token !== 'undefined');
+          console.log('🔍 Token extracted:', !!token);
           
-          if (token && token !== 'null' && token !== 'undefined') {
+          if (token) {
             console.log('🔍 Token length:', token.length);
             
-            try {
-              // Verify the JWT token with Supabase
-              const { data: { user }, error } = await supabase.auth.getUser(token);
-              
-              if (error) {
-                console.log('❌ Supabase auth error:', error.message);
-              } else if (user) {
-                // Attach user info to request
-                (req as any).user = {
-                  id: user.id,
-                  email: user.email,
-                  role: user.user_metadata?.role || 'client',
-                  firstName: user.user_metadata?.first_name,
-                  lastName: user.user_metadata?.last_name
-                };
-
-                console.log('✅ User authenticated via JWT:', { 
-                  id: user.id, 
-                  email: user.email, 
-                  role: user.user_metadata?.role 
-                });
-
-                return next();
-              }
-            } catch (supabaseError) {
-              console.log('❌ Supabase verification failed:', (supabaseError as any).message);
+            // Verify the JWT token with Supabase
+            const user = await verifySupabaseToken(token);
+            if (user) {
+              // Attach user info to request
+              (req as any).user = user;
+
+              console.log('✅ User authenticated via JWT:', { 
+                id: user.id, 
+                email: user.email, 
+                role: user.role 
+              });
+
+              return next();
             }
           } else {
             console.log('❌ Invalid token value:', rawToken);
@@ -688,6 +763,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const weightLog = await rlsStorage.createWeightLog(weightLogData);
+      emitToClient(rlsStorage, weightLog.clientId, 'weight-logged', {
+        clientId: weightLog.clientId,
+        weight: Number(weightLog.weight),
+        date: String(weightLog.date)
+      });
       res.status(201).json(weightLog);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -942,6 +1022,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const rlsStorage = getRlsStorage(req);
       const message = await rlsStorage.createMessage(messageData);
+      emitToUser([message.receiverId, message.senderId], 'receive-message', message);
       res.status(201).json(message);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -1041,6 +1122,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Nutrition log routes
+  apiRouter.post('/nutrition-logs', isAuthenticated, async (req, res) => {
+    try {
+      const rlsStorage = getRlsStorage(req);
+      const clientId = req.body.clientId || (await rlsStorage.getClientByUserId((req.user as any).id))?.id;
+      if (!clientId) {
+        return res.status(400).json({ message: 'Client profile not found' });
+      }
+
+      const nutritionLogData = insertNutritionLogSchema.parse({
+        ...req.body,
+        clientId
+      });
+
+      const nutritionLog = await rlsStorage.createNutritionLog(nutritionLogData);
+      res.status(201).json(nutritionLog);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Server error creating nutrition log' });
+    }
+  });
+
+  apiRouter.get('/nutrition-logs', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const rlsStorage = getRlsStorage(req);
+      const clientId = parseInt(req.query.clientId as string) || (await rlsStorage.getClientByUserId(user.id))?.id;
+
+      if (!clientId) {
+        return res.status(400).json({ message: 'Client profile not found' });
+      }
+
+      // RLS will handle authorization checks, but we still do explicit checks for transparency
+      if (user.role !== 'admin' && (await rlsStorage.getClientByUserId(user.id))?.id !== clientId) {
+        return res.status(403).json({ message: 'Unauthorized to access these nutrition logs' });
+      }
+
+      const nutritionLogs = await rlsStorage.getNutritionLogsByClientId(clientId);
+      res.json(nutritionLogs);
+    } catch (error) {
+      res.status(500).json({ message: 'Server error fetching nutrition logs' });
+    }
+  });
+
   // Device integration routes
   apiRouter.get('/integrations', isAuthenticated, async (req, res) => {
     try {
@@ -1158,14 +1285,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Exercise management routes
   apiRouter.get('/exercises', isAuthenticated, async (req, res) => {
     try {
+      const user = req.user as any;
       const rlsStorage = getRlsStorage(req);
-      const exercises = await rlsStorage.getExercises();
+      const exercises = await rlsStorage.getVisibleExercises(user.id);
       res.json(exercises);
     } catch (error) {
       res.status(500).json({ message: 'Server error fetching exercises' });
     }
   });
 
+  // Paged library search; scope narrows to the caller's own or public exercises
+  apiRouter.get('/exercises/search', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const search = exerciseSearchSchema.parse(req.query);
+      const rlsStorage = getRlsStorage(req);
+      res.json(await rlsStorage.searchExercises(user.id, search));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid search', errors: error.errors });
+      }
+      console.error('Error searching exercises:', error);
+      res.status(500).json({ message: 'Server error searching exercises' });
+    }
+  });
+
+  // Bulk import from a CSV or JSON file; the format comes from the form, the file extension or its type
+  apiRouter.post('/exercises/import', isAuthenticated, (req, res, next) => {
+    importUpload.single('file')(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ message: 'Import file too large' });
+      }
+      next(error);
+    });
+  }, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can import exercises' });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+
+      const requested = typeof req.body.format === 'string' ? req.body.format.toLowerCase() : '';
+      if (requested && requested !== 'json' && requested !== 'csv') {
+        return res.status(400).json({ message: 'Format must be csv or json' });
+      }
+      const isJson = requested
+        ? requested === 'json'
+        : path.extname(req.file.originalname).toLowerCase() === '.json' || req.file.mimetype === 'application/json';
+
+      let records: Record<string, unknown>[];
+      try {
+        records = parseImportFile(req.file.buffer.toString('utf8'), isJson ? 'json' : 'csv');
+      } catch (error) {
+        return res.status(400).json({ message: (error as Error).message });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const result = await importExercises(rlsStorage, user.id, records);
+      res.status(201).json(result);
+    } catch (error) {
+      console.error('Error importing exercises:', error);
+      res.status(500).json({ message: 'Server error importing exercises' });
+    }
+  });
+
+  apiRouter.get('/exercises/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const exerciseId = parseInt(req.params.id, 10);
+      if (Number.isNaN(exerciseId)) {
+        return res.status(400).json({ message: 'Invalid exercise id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const exercise = await rlsStorage.getExercise(exerciseId);
+      // Private exercises are only visible to the coach who created them
+      if (!exercise || (!exercise.isPublic && exercise.createdBy !== user.id)) {
+        return res.status(404).json({ message: 'Exercise not found' });
+      }
+      res.json(exercise);
+    } catch (error) {
+      console.error('Error fetching exercise:', error);
+      res.status(500).json({ message: 'Server error fetching exercise' });
+    }
+  });
+
   apiRouter.post('/exercises', isAuthenticated, async (req, res) => {
     try {
       const user = req.user as any;
@@ -1189,6 +1396,167 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Only the coach who created an exercise can edit or delete it
+  apiRouter.patch('/exercises/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const exerciseId = parseInt(req.params.id, 10);
+      if (Number.isNaN(exerciseId)) {
+        return res.status(400).json({ message: 'Invalid exercise id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const exercise = await rlsStorage.getExercise(exerciseId);
+      if (!exercise || (!exercise.isPublic && exercise.createdBy !== user.id)) {
+        return res.status(404).json({ message: 'Exercise not found' });
+      }
+      if (exercise.createdBy !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to edit this exercise' });
+      }
+
+      const exerciseData = insertExerciseSchema.omit({ createdBy: true }).partial().parse(req.body);
+      const updated = await rlsStorage.updateExercise(exerciseId, exerciseData);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating exercise:', error);
+      res.status(500).json({ message: 'Server error updating exercise' });
+    }
+  });
+
+  apiRouter.delete('/exercises/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const exerciseId = parseInt(req.params.id, 10);
+      if (Number.isNaN(exerciseId)) {
+        return res.status(400).json({ message: 'Invalid exercise id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const exercise = await rlsStorage.getExercise(exerciseId);
+      if (!exercise || (!exercise.isPublic && exercise.createdBy !== user.id)) {
+        return res.status(404).json({ message: 'Exercise not found' });
+      }
+      if (exercise.createdBy !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to delete this exercise' });
+      }
+
+      await rlsStorage.deleteExercise(exerciseId);
+      res.status(204).send();
+    } catch (error) {
+      // Foreign key violation: workouts, logs or variations still point at it
+      if ((error as any)?.code === '23503') {
+        return res.status(409).json({ message: 'Exercise is used in workouts or logs and cannot be deleted' });
+      }
+      console.error('Error deleting exercise:', error);
+      res.status(500).json({ message: 'Server error deleting exercise' });
+    }
+  });
+
+  // Suggested substitutes for an exercise; unavailableEquipment is a comma-separated list
+  apiRouter.get('/exercises/:id/substitutes', isAuthenticated, async (req, res) => {
+    try {
+      const exerciseId = parseInt(req.params.id, 10);
+      if (Number.isNaN(exerciseId)) {
+        return res.status(400).json({ message: 'Invalid exercise id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const exercise = await rlsStorage.getExercise(exerciseId);
+      if (!exercise) {
+        return res.status(404).json({ message: 'Exercise not found' });
+      }
+
+      const unavailableEquipment = typeof req.query.unavailableEquipment === 'string'
+        ? req.query.unavailableEquipment.split(',').filter(Boolean)
+        : [];
+      res.json(await findSubstitutes(rlsStorage, exercise, { unavailableEquipment }));
+    } catch (error) {
+      console.error('Error fetching exercise substitutes:', error);
+      res.status(500).json({ message: 'Server error fetching exercise substitutes' });
+    }
+  });
+
+  apiRouter.get('/exercises/:id/variations', isAuthenticated, async (req, res) => {
+    try {
+      const exerciseId = parseInt(req.params.id, 10);
+      if (Number.isNaN(exerciseId)) {
+        return res.status(400).json({ message: 'Invalid exercise id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const variations = await rlsStorage.getExerciseVariationsByExerciseId(exerciseId);
+      res.json(variations);
+    } catch (error) {
+      console.error('Error fetching exercise variations:', error);
+      res.status(500).json({ message: 'Server error fetching exercise variations' });
+    }
+  });
+
+  // Coaches add variations to the exercises they created
+  apiRouter.post('/exercises/:id/variations', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can add exercise variations' });
+      }
+      const exerciseId = parseInt(req.params.id, 10);
+      if (Number.isNaN(exerciseId)) {
+        return res.status(400).json({ message: 'Invalid exercise id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const exercise = await rlsStorage.getExercise(exerciseId);
+      if (!exercise) {
+        return res.status(404).json({ message: 'Exercise not found' });
+      }
+      if (exercise.createdBy !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to add variations to this exercise' });
+      }
+
+      const variationData = insertExerciseVariationSchema.parse({
+        ...req.body,
+        baseExerciseId: exerciseId
+      });
+      const variation = await rlsStorage.createExerciseVariation(variationData);
+      res.status(201).json(variation);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error creating exercise variation:', error);
+      res.status(500).json({ message: 'Server error creating exercise variation' });
+    }
+  });
+
+  apiRouter.delete('/exercise-variations/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const variationId = parseInt(req.params.id, 10);
+      if (Number.isNaN(variationId)) {
+        return res.status(400).json({ message: 'Invalid exercise variation id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const variation = await rlsStorage.getExerciseVariation(variationId);
+      if (!variation) {
+        return res.status(404).json({ message: 'Exercise variation not found' });
+      }
+      const exercise = await rlsStorage.getExercise(variation.baseExerciseId);
+      if (user.role !== 'admin' || exercise?.createdBy !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to delete this exercise variation' });
+      }
+
+      await rlsStorage.deleteExerciseVariation(variationId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting exercise variation:', error);
+      res.status(500).json({ message: 'Server error deleting exercise variation' });
+    }
+  });
+
   // Exercise categories routes
   apiRouter.get('/exercise-categories', isAuthenticated, async (req, res) => {
     try {
@@ -1232,8 +1600,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: 'Coach profile not found' });
         }
 
+        // Older versions stay behind their latest version
         const programs = await rlsStorage.getProgramsByCoachId(coach.id);
-        return res.json(programs);
+        const latestVersions = programs.filter(program => !programs.some(other =>
+          (other.rootProgramId ?? other.id) === (program.rootProgramId ?? program.id) && other.version > program.version
+        ));
+        return res.json(latestVersions);
       }
 
       const programs = await rlsStorage.getPrograms();
@@ -1258,7 +1630,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const programData = insertProgramSchema.parse({
         ...req.body,
-        coachId: coach.id
+        coachId: coach.id,
+        rootProgramId: null,
+        version: 1,
+        clonedFromId: null
       });
 
       const program = await rlsStorage.createProgram(programData);
@@ -1271,236 +1646,1967 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Program assignment routes
-  apiRouter.post('/programs/:id/assign', isAuthenticated, async (req, res) => {
+  // Program with its workouts, blocks and exercises
+  apiRouter.get('/programs/:id/tree', isAuthenticated, async (req, res) => {
     try {
       const user = req.user as any;
       if (user.role !== 'admin') {
-        return res.status(403).json({ message: 'Only coaches can assign programs' });
+        return res.status(403).json({ message: 'Only coaches can view program details' });
       }
 
       const programId = parseInt(req.params.id, 10);
       if (Number.isNaN(programId)) {
         return res.status(400).json({ message: 'Invalid program id' });
       }
-      const { clientIds, startDate, notes } = req.body;
 
-      if (!clientIds || !Array.isArray(clientIds) || clientIds.length === 0) {
-        return res.status(400).json({ message: 'Client IDs are required' });
+      const rlsStorage = getRlsStorage(req);
+      const program = await getCoachProgram(rlsStorage, user.id, programId);
+      if (!program) {
+        return res.status(404).json({ message: 'Program not found' });
       }
 
-      const rlsStorage = getRlsStorage(req);
-      const assignments = [];
-      for (const clientId of clientIds) {
-        const numericClientId = typeof clientId === 'string' ? parseInt(clientId, 10) : clientId;
-        if (Number.isNaN(numericClientId)) {
-          return res.status(400).json({ message: 'Invalid client id supplied' });
-        }
+      res.json(await getProgramTree(rlsStorage, program));
+    } catch (error) {
+      console.error('Error fetching program tree:', error);
+      res.status(500).json({ message: 'Server error fetching program' });
+    }
+  });
 
-        const assignmentData = insertClientProgramSchema.parse({
-          clientId: numericClientId,
-          programId,
-          assignedBy: user.id,
-          startDate,
-          notes
-        });
+  // Edit a program; assigned programs are saved as a new version
+  apiRouter.put('/programs/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can edit programs' });
+      }
 
-        const assignment = await rlsStorage.assignProgramToClient(assignmentData);
-        assignments.push(assignment);
+      const programId = parseInt(req.params.id, 10);
+      if (Number.isNaN(programId)) {
+        return res.status(400).json({ message: 'Invalid program id' });
       }
 
-      res.status(201).json(assignments);
+      const rlsStorage = getRlsStorage(req);
+      const program = await getCoachProgram(rlsStorage, user.id, programId);
+      if (!program) {
+        return res.status(404).json({ message: 'Program not found' });
+      }
+      if (!(await isLatestVersion(rlsStorage, program))) {
+        return res.status(409).json({ message: 'Only the latest version of a program can be edited' });
+      }
+
+      const updates = insertProgramSchema
+        .omit({ coachId: true, rootProgramId: true, version: true, clonedFromId: true })
+        .partial()
+        .parse(req.body.program ?? {});
+      const workouts = Array.isArray(req.body.workouts)
+        ? req.body.workouts.map((workout: any) => parseWorkoutTree(workout))
+        : undefined;
+
+      const result = await saveProgramEdit(rlsStorage, program, updates, workouts);
+      res.json(result);
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: 'Invalid data', errors: error.errors });
       }
-      res.status(500).json({ message: 'Server error assigning program' });
+      console.error('Error editing program:', error);
+      res.status(500).json({ message: 'Server error editing program' });
     }
   });
 
-  // Workout management routes
-  apiRouter.get('/workouts', isAuthenticated, async (req, res) => {
+  apiRouter.post('/programs/:id/clone', isAuthenticated, async (req, res) => {
     try {
-      const programId = req.query.programId as string;
-      let workouts;
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can clone programs' });
+      }
+
+      const programId = parseInt(req.params.id, 10);
+      if (Number.isNaN(programId)) {
+        return res.status(400).json({ message: 'Invalid program id' });
+      }
 
       const rlsStorage = getRlsStorage(req);
-      if (programId) {
-        workouts = await rlsStorage.getWorkoutsByProgramId(parseInt(programId));
-      } else {
-        workouts = await rlsStorage.getWorkouts();
+      const program = await getCoachProgram(rlsStorage, user.id, programId);
+      if (!program) {
+        return res.status(404).json({ message: 'Program not found' });
       }
 
-      res.json(workouts);
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : undefined;
+      const clone = await cloneProgram(rlsStorage, program, { name });
+      res.status(201).json(clone);
     } catch (error) {
-      res.status(500).json({ message: 'Server error fetching workouts' });
+      console.error('Error cloning program:', error);
+      res.status(500).json({ message: 'Server error cloning program' });
     }
   });
 
-  apiRouter.post('/workouts', isAuthenticated, async (req, res) => {
+  // Every version of a program with the client assignments pinned to it
+  apiRouter.get('/programs/:id/versions', isAuthenticated, async (req, res) => {
     try {
       const user = req.user as any;
       if (user.role !== 'admin') {
-        return res.status(403).json({ message: 'Only coaches can create workouts' });
+        return res.status(403).json({ message: 'Only coaches can view program versions' });
       }
 
-      const { workout, exercises } = req.body;
+      const programId = parseInt(req.params.id, 10);
+      if (Number.isNaN(programId)) {
+        return res.status(400).json({ message: 'Invalid program id' });
+      }
 
       const rlsStorage = getRlsStorage(req);
-      const workoutData = insertWorkoutSchema.parse(workout);
-      const createdWorkout = await rlsStorage.createWorkout(workoutData);
-
-      // Add exercises to the workout
-      if (exercises && Array.isArray(exercises)) {
-        for (const exercise of exercises) {
-          const exerciseData = insertWorkoutExerciseSchema.parse({
-            ...exercise,
-            workoutId: createdWorkout.id
-          });
-          await rlsStorage.createWorkoutExercise(exerciseData);
-        }
+      const program = await getCoachProgram(rlsStorage, user.id, programId);
+      if (!program) {
+        return res.status(404).json({ message: 'Program not found' });
       }
 
-      res.status(201).json(createdWorkout);
+      res.json(await getProgramVersions(rlsStorage, program));
     } catch (error) {
-      if (error instanceof ZodError) {
-        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
-      }
-      res.status(500).json({ message: 'Server error creating workout' });
+      console.error('Error fetching program versions:', error);
+      res.status(500).json({ message: 'Server error fetching program versions' });
     }
   });
 
-  // Client program assignments (for client view)
-  apiRouter.get('/client-programs', isAuthenticated, async (req, res) => {
+  // Changes a client would see moving from another version to this one
+  apiRouter.get('/programs/:id/diff', isAuthenticated, async (req, res) => {
     try {
       const user = req.user as any;
-      const rlsStorage = getRlsStorage(req);
-      if (user.role === 'admin') {
-        // Coach viewing all their assigned programs
-        const clientPrograms = await rlsStorage.getClientProgramsByCoachId(user.id);
-        return res.json(clientPrograms);
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can compare program versions' });
       }
 
-      const client = await rlsStorage.getClientByUserId(user.id);
-      if (!client) {
-        return res.status(404).json({ message: 'Client profile not found' });
+      const programId = parseInt(req.params.id, 10);
+      const fromId = parseInt(req.query.from as string, 10);
+      if (Number.isNaN(programId) || Number.isNaN(fromId)) {
+        return res.status(400).json({ message: 'Invalid program id' });
       }
 
-      const clientPrograms = await rlsStorage.getClientPrograms(client.id);
-      res.json(clientPrograms);
+      const rlsStorage = getRlsStorage(req);
+      const [program, fromProgram] = await Promise.all([
+        getCoachProgram(rlsStorage, user.id, programId),
+        getCoachProgram(rlsStorage, user.id, fromId)
+      ]);
+      if (!program || !fromProgram) {
+        return res.status(404).json({ message: 'Program not found' });
+      }
+      if ((program.rootProgramId ?? program.id) !== (fromProgram.rootProgramId ?? fromProgram.id)) {
+        return res.status(400).json({ message: 'Programs are not versions of the same program' });
+      }
+
+      const [toTree, fromTree, exercises] = await Promise.all([
+        getProgramTree(rlsStorage, program),
+        getProgramTree(rlsStorage, fromProgram),
+        rlsStorage.getExercises()
+      ]);
+      const exerciseNames = new Map(exercises.map(exercise => [exercise.id, exercise.name]));
+      const changes = diffProgramTrees(fromTree, toTree).map(change => ({
+        ...change,
+        exerciseName: change.exerciseId !== null ? exerciseNames.get(change.exerciseId) ?? null : null
+      }));
+
+      res.json({
+        from: { id: fromProgram.id, version: fromProgram.version },
+        to: { id: program.id, version: program.version },
+        changes
+      });
     } catch (error) {
-      res.status(500).json({ message: 'Server error fetching client programs' });
+      console.error('Error comparing program versions:', error);
+      res.status(500).json({ message: 'Server error comparing program versions' });
     }
   });
 
-  // Workout log management
-  apiRouter.post('/workout-logs', isAuthenticated, async (req, res) => {
+  // Move client assignments from older versions onto this version
+  apiRouter.post('/programs/:id/migrate', isAuthenticated, async (req, res) => {
     try {
       const user = req.user as any;
-      
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can migrate client programs' });
+      }
+
+      const programId = parseInt(req.params.id, 10);
+      if (Number.isNaN(programId)) {
+        return res.status(400).json({ message: 'Invalid program id' });
+      }
+      const { clientProgramIds } = req.body;
+      if (!Array.isArray(clientProgramIds) || clientProgramIds.length === 0 || clientProgramIds.some((id: unknown) => typeof id !== 'number')) {
+        return res.status(400).json({ message: 'Client program IDs are required' });
+      }
+
       const rlsStorage = getRlsStorage(req);
-      let targetClientId: number | null = null;
+      const program = await getCoachProgram(rlsStorage, user.id, programId);
+      if (!program) {
+        return res.status(404).json({ message: 'Program not found' });
+      }
 
-      if (user.role === 'admin') {
-        const rawClientId = req.body.clientId;
-        if (rawClientId === undefined || rawClientId === null) {
-          return res.status(400).json({ message: 'clientId is required when creating logs for a client' });
-        }
+      const versions = await rlsStorage.getProgramsByRootProgramId(program.rootProgramId ?? program.id);
+      const assignments = await rlsStorage.getClientProgramsByProgramIds(versions.map(version => version.id));
+      const selected = assignments.filter(assignment => clientProgramIds.includes(assignment.id));
+      if (selected.length !== clientProgramIds.length) {
+        return res.status(400).json({ message: 'Some client programs are not assigned a version of this program' });
+      }
 
-        const parsedClientId = typeof rawClientId === 'string' ? parseInt(rawClientId, 10) : rawClientId;
-        if (Number.isNaN(parsedClientId)) {
-          return res.status(400).json({ message: 'Invalid clientId provided' });
-        }
-        targetClientId = parsedClientId;
-      } else {
-        const client = await rlsStorage.getClientByUserId(user.id);
-        if (!client) {
-          return res.status(404).json({ message: 'Client profile not found' });
+      const migrated = [];
+      for (const assignment of selected) {
+        if (assignment.programId === program.id) {
+          migrated.push(assignment);
+          continue;
         }
-        targetClientId = client.id;
+        const updated = await rlsStorage.updateClientProgram(assignment.id, { programId: program.id });
+        // Upcoming workouts switch to the new version's
+        const client = await rlsStorage.getClient(updated.clientId);
+        if (client) await rescheduleClientProgram(rlsStorage, updated, client.userId);
+        migrated.push(updated);
       }
+      res.json(migrated);
+    } catch (error) {
+      console.error('Error migrating client programs:', error);
+      res.status(500).json({ message: 'Server error migrating client programs' });
+    }
+  });
 
-      const workoutLogData = insertWorkoutLogSchema.parse({
-        ...req.body,
-        clientId: targetClientId,
+  // Program template library
+  apiRouter.get('/program-templates', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can browse program templates' });
+      }
+
+      const sort = (req.query.sort as string) || 'rating';
+      if (!TEMPLATE_SORTS.includes(sort as TemplateSort)) {
+        return res.status(400).json({ message: `sort must be one of: ${TEMPLATE_SORTS.join(', ')}` });
+      }
+      const minWeeks = req.query.minWeeks ? parseInt(req.query.minWeeks as string, 10) : undefined;
+      const maxWeeks = req.query.maxWeeks ? parseInt(req.query.maxWeeks as string, 10) : undefined;
+      if ((minWeeks !== undefined && Number.isNaN(minWeeks)) || (maxWeeks !== undefined && Number.isNaN(maxWeeks))) {
+        return res.status(400).json({ message: 'minWeeks and maxWeeks must be numbers' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const coach = await rlsStorage.getCoachByUserId(user.id);
+      if (!coach) {
+        return res.status(404).json({ message: 'Coach profile not found' });
+      }
+
+      const templates = await getTemplateLibrary(rlsStorage, user.id, coach.id, {
+        search: req.query.search as string | undefined,
+        programType: req.query.programType as string | undefined,
+        difficultyLevel: req.query.difficultyLevel as string | undefined,
+        category: req.query.category as string | undefined,
+        minWeeks,
+        maxWeeks,
+        sort: sort as TemplateSort
       });
+      res.json(templates);
+    } catch (error) {
+      console.error('Error fetching program templates:', error);
+      res.status(500).json({ message: 'Server error fetching program templates' });
+    }
+  });
 
-      const workoutLog = await rlsStorage.createWorkoutLog(workoutLogData);
-      res.status(201).json(workoutLog);
+  apiRouter.post('/program-templates', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can publish program templates' });
+      }
+
+      const programId = parseInt(req.body.programId, 10);
+      if (Number.isNaN(programId)) {
+        return res.status(400).json({ message: 'Program ID is required' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const program = await getCoachProgram(rlsStorage, user.id, programId);
+      if (!program) {
+        return res.status(404).json({ message: 'Program not found' });
+      }
+      if (await rlsStorage.getProgramTemplateByProgramId(program.rootProgramId ?? program.id)) {
+        return res.status(409).json({ message: 'This program is already published as a template' });
+      }
+
+      const fields = insertProgramTemplateSchema
+        .pick({ name: true, description: true, category: true, isPublic: true })
+        .partial()
+        .parse(req.body);
+      const template = await publishProgramTemplate(rlsStorage, program, user.id, fields);
+      res.status(201).json(template);
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: 'Invalid data', errors: error.errors });
       }
-      res.status(500).json({ message: 'Server error creating workout log' });
+      console.error('Error publishing program template:', error);
+      res.status(500).json({ message: 'Server error publishing program template' });
     }
   });
 
-  apiRouter.get('/workout-logs', isAuthenticated, async (req, res) => {
+  apiRouter.patch('/program-templates/:id', isAuthenticated, async (req, res) => {
     try {
       const user = req.user as any;
+      const templateId = parseInt(req.params.id, 10);
+      if (Number.isNaN(templateId)) {
+        return res.status(400).json({ message: 'Invalid template id' });
+      }
+
       const rlsStorage = getRlsStorage(req);
+      const template = await rlsStorage.getProgramTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      if (template.createdBy !== user.id) {
+        return res.status(403).json({ message: 'Only the coach who published a template can change it' });
+      }
 
-      const rawClientId = req.query.clientId as string | undefined;
-      let clientIdForQuery: number;
+      const updates = insertProgramTemplateSchema
+        .pick({ name: true, description: true, category: true, isPublic: true })
+        .partial()
+        .parse(req.body);
+      const updated = await rlsStorage.updateProgramTemplate(templateId, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating program template:', error);
+      res.status(500).json({ message: 'Server error updating program template' });
+    }
+  });
 
-      if (user.role === 'admin') {
-        if (!rawClientId) {
-          return res.status(400).json({ message: 'clientId query parameter is required for coaches' });
-        }
+  apiRouter.delete('/program-templates/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const templateId = parseInt(req.params.id, 10);
+      if (Number.isNaN(templateId)) {
+        return res.status(400).json({ message: 'Invalid template id' });
+      }
 
-        const parsedClientId = parseInt(rawClientId, 10);
-        if (Number.isNaN(parsedClientId)) {
-          return res.status(400).json({ message: 'Invalid clientId provided' });
+      const rlsStorage = getRlsStorage(req);
+      const template = await rlsStorage.getProgramTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      if (template.createdBy !== user.id) {
+        return res.status(403).json({ message: 'Only the coach who published a template can remove it' });
+      }
+
+      // Programs already created from the template are the coaches' own and stay
+      await unpublishProgramTemplate(rlsStorage, template);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error removing program template:', error);
+      res.status(500).json({ message: 'Server error removing program template' });
+    }
+  });
+
+  // Template program with its workouts, for previews
+  apiRouter.get('/program-templates/:id/tree', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can preview program templates' });
+      }
+
+      const templateId = parseInt(req.params.id, 10);
+      if (Number.isNaN(templateId)) {
+        return res.status(400).json({ message: 'Invalid template id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const template = await rlsStorage.getProgramTemplate(templateId);
+      const program = template && await getTemplateProgram(rlsStorage, template);
+      if (!template || !program || (!template.isPublic && template.createdBy !== user.id)) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+
+      res.json(await getProgramTree(rlsStorage, program));
+    } catch (error) {
+      console.error('Error fetching program template:', error);
+      res.status(500).json({ message: 'Server error fetching program template' });
+    }
+  });
+
+  // Copy a template into a new program of the signed-in coach
+  apiRouter.post('/program-templates/:id/instantiate', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can use program templates' });
+      }
+
+      const templateId = parseInt(req.params.id, 10);
+      if (Number.isNaN(templateId)) {
+        return res.status(400).json({ message: 'Invalid template id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const [coach, template] = await Promise.all([
+        rlsStorage.getCoachByUserId(user.id),
+        rlsStorage.getProgramTemplate(templateId)
+      ]);
+      if (!coach) {
+        return res.status(404).json({ message: 'Coach profile not found' });
+      }
+      const program = template && await getTemplateProgram(rlsStorage, template);
+      if (!template || !program || (!template.isPublic && template.createdBy !== user.id)) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : undefined;
+      const created = await instantiateProgramTemplate(rlsStorage, template, program, coach.id, name);
+      res.status(201).json(created);
+    } catch (error) {
+      console.error('Error using program template:', error);
+      res.status(500).json({ message: 'Server error using program template' });
+    }
+  });
+
+  apiRouter.put('/program-templates/:id/rating', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can rate program templates' });
+      }
+
+      const templateId = parseInt(req.params.id, 10);
+      if (Number.isNaN(templateId)) {
+        return res.status(400).json({ message: 'Invalid template id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const [coach, template] = await Promise.all([
+        rlsStorage.getCoachByUserId(user.id),
+        rlsStorage.getProgramTemplate(templateId)
+      ]);
+      if (!coach) {
+        return res.status(404).json({ message: 'Coach profile not found' });
+      }
+      if (!template || (!template.isPublic && template.createdBy !== user.id)) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      if (template.createdBy === user.id) {
+        return res.status(400).json({ message: 'You cannot rate your own template' });
+      }
+      if (!(await hasUsedTemplate(rlsStorage, coach.id, template.id))) {
+        return res.status(403).json({ message: 'Use a template before rating it' });
+      }
+
+      const { rating } = insertProgramTemplateRatingSchema.parse({
+        templateId: template.id,
+        ratedBy: user.id,
+        rating: req.body.rating
+      });
+      await rlsStorage.upsertProgramTemplateRating({ templateId: template.id, ratedBy: user.id, rating });
+
+      // The rating trigger has refreshed the template's average by now
+      const updated = await rlsStorage.getProgramTemplate(template.id);
+      res.json({ ...updated, myRating: rating });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error rating program template:', error);
+      res.status(500).json({ message: 'Server error rating program template' });
+    }
+  });
+
+  // Program assignment routes
+  apiRouter.post('/programs/:id/assign', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can assign programs' });
+      }
+
+      const programId = parseInt(req.params.id, 10);
+      if (Number.isNaN(programId)) {
+        return res.status(400).json({ message: 'Invalid program id' });
+      }
+      const { clientIds, startDate, notes, missedPolicy } = req.body;
+
+      if (!clientIds || !Array.isArray(clientIds) || clientIds.length === 0) {
+        return res.status(400).json({ message: 'Client IDs are required' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const assignments = [];
+      for (const clientId of clientIds) {
+        const numericClientId = typeof clientId === 'string' ? parseInt(clientId, 10) : clientId;
+        if (Number.isNaN(numericClientId)) {
+          return res.status(400).json({ message: 'Invalid client id supplied' });
         }
-        clientIdForQuery = parsedClientId;
-      } else {
-        const client = await rlsStorage.getClientByUserId(user.id);
+
+        const client = await rlsStorage.getClient(numericClientId);
         if (!client) {
-          return res.status(404).json({ message: 'Client profile not found' });
+          return res.status(404).json({ message: 'Client not found' });
         }
 
-        clientIdForQuery = client.id;
+        const assignmentData = insertClientProgramSchema.parse({
+          clientId: numericClientId,
+          programId,
+          assignedBy: user.id,
+          startDate,
+          missedPolicy,
+          notes
+        });
 
-        if (rawClientId) {
-          const requestedId = parseInt(rawClientId, 10);
-          if (Number.isNaN(requestedId)) {
-            return res.status(400).json({ message: 'Invalid clientId provided' });
-          }
-          if (requestedId !== clientIdForQuery) {
-            return res.status(403).json({ message: 'Unauthorized to access these workout logs' });
-          }
-        }
+        const assignment = await rlsStorage.assignProgramToClient(assignmentData);
+        await scheduleClientProgram(rlsStorage, assignment, client.userId);
+        assignments.push(assignment);
+      }
+
+      for (const assignment of assignments) {
+        emitToClient(rlsStorage, assignment.clientId, 'assignment-created', {
+          clientId: assignment.clientId,
+          type: 'program',
+          assignmentId: assignment.id
+        });
+      }
+
+      res.status(201).json(assignments);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error assigning program:', error);
+      res.status(500).json({ message: 'Server error assigning program' });
+    }
+  });
+
+  // Workout management routes
+  apiRouter.get('/workouts', isAuthenticated, async (req, res) => {
+    try {
+      const programId = req.query.programId as string;
+      let workouts;
+
+      const rlsStorage = getRlsStorage(req);
+      if (programId) {
+        workouts = await rlsStorage.getWorkoutsByProgramId(parseInt(programId));
+      } else {
+        workouts = await rlsStorage.getWorkouts();
+      }
+
+      res.json(workouts);
+    } catch (error) {
+      res.status(500).json({ message: 'Server error fetching workouts' });
+    }
+  });
+
+  apiRouter.post('/workouts', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can create workouts' });
+      }
+
+      // Timed blocks (EMOM, AMRAP, ...); exercises join one through its index in `blocks`
+      const rlsStorage = getRlsStorage(req);
+      const tree = parseWorkoutTree(req.body);
+      const createdWorkout = await createWorkoutTree(rlsStorage, tree);
+
+      res.status(201).json(createdWorkout);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Server error creating workout' });
+    }
+  });
+
+  apiRouter.get('/workouts/:id/blocks', isAuthenticated, async (req, res) => {
+    try {
+      const workoutId = parseInt(req.params.id, 10);
+      if (Number.isNaN(workoutId)) {
+        return res.status(400).json({ message: 'Invalid workout id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const blocks = await rlsStorage.getWorkoutBlocksByWorkoutId(workoutId);
+      res.json(blocks);
+    } catch (error) {
+      console.error('Error fetching workout blocks:', error);
+      res.status(500).json({ message: 'Server error fetching workout blocks' });
+    }
+  });
+
+  // Client program assignments (for client view)
+  apiRouter.get('/client-programs', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const rlsStorage = getRlsStorage(req);
+      if (user.role === 'admin') {
+        // Coach viewing all their assigned programs
+        const clientPrograms = await rlsStorage.getClientProgramsByCoachId(user.id);
+        return res.json(clientPrograms);
+      }
+
+      const client = await rlsStorage.getClientByUserId(user.id);
+      if (!client) {
+        return res.status(404).json({ message: 'Client profile not found' });
+      }
+
+      const clientPrograms = await rlsStorage.getClientPrograms(client.id);
+      res.json(clientPrograms);
+    } catch (error) {
+      res.status(500).json({ message: 'Server error fetching client programs' });
+    }
+  });
+
+  // Workout log management
+  apiRouter.post('/workout-logs', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      
+      const rlsStorage = getRlsStorage(req);
+      let targetClientId: number | null = null;
+
+      if (user.role === 'admin') {
+        const rawClientId = req.body.clientId;
+        if (rawClientId === undefined || rawClientId === null) {
+          return res.status(400).json({ message: 'clientId is required when creating logs for a client' });
+        }
+
+        const parsedClientId = typeof rawClientId === 'string' ? parseInt(rawClientId, 10) : rawClientId;
+        if (Number.isNaN(parsedClientId)) {
+          return res.status(400).json({ message: 'Invalid clientId provided' });
+        }
+        targetClientId = parsedClientId;
+      } else {
+        const client = await rlsStorage.getClientByUserId(user.id);
+        if (!client) {
+          return res.status(404).json({ message: 'Client profile not found' });
+        }
+        targetClientId = client.id;
+      }
+
+      const workoutLogData = insertWorkoutLogSchema.parse({
+        ...req.body,
+        clientId: targetClientId,
+      });
+
+      const workoutLog = await rlsStorage.createWorkoutLog(workoutLogData);
+      emitToClient(rlsStorage, workoutLog.clientId, 'workout-progress', {
+        workoutLogId: workoutLog.id,
+        clientId: workoutLog.clientId,
+        progress: workoutLog
+      });
+      res.status(201).json(workoutLog);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Server error creating workout log' });
+    }
+  });
+
+  apiRouter.get('/workout-logs', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const rlsStorage = getRlsStorage(req);
+
+      const rawClientId = req.query.clientId as string | undefined;
+      let clientIdForQuery: number;
+
+      if (user.role === 'admin') {
+        if (!rawClientId) {
+          return res.status(400).json({ message: 'clientId query parameter is required for coaches' });
+        }
+
+        const parsedClientId = parseInt(rawClientId, 10);
+        if (Number.isNaN(parsedClientId)) {
+          return res.status(400).json({ message: 'Invalid clientId provided' });
+        }
+        clientIdForQuery = parsedClientId;
+      } else {
+        const client = await rlsStorage.getClientByUserId(user.id);
+        if (!client) {
+          return res.status(404).json({ message: 'Client profile not found' });
+        }
+
+        clientIdForQuery = client.id;
+
+        if (rawClientId) {
+          const requestedId = parseInt(rawClientId, 10);
+          if (Number.isNaN(requestedId)) {
+            return res.status(400).json({ message: 'Invalid clientId provided' });
+          }
+          if (requestedId !== clientIdForQuery) {
+            return res.status(403).json({ message: 'Unauthorized to access these workout logs' });
+          }
+        }
+      }
+
+      const workoutLogs = await rlsStorage.getWorkoutLogsByClientId(clientIdForQuery);
+      
+      // Enhance workout logs with full workout details
+      const enhancedLogs = await Promise.all(workoutLogs.map(async (log) => {
+        const workout = await rlsStorage.getWorkout(log.workoutId);
+        const workoutExercises = await rlsStorage.getWorkoutExercisesByWorkoutId(log.workoutId);
+        
+        // Get exercise details for each workout exercise
+        const enhancedExercises = await Promise.all(workoutExercises.map(async (we) => {
+          const exercise = await rlsStorage.getExercise(we.exerciseId);
+          return {
+            ...we,
+            exercise
+          };
+        }));
+
+        return {
+          ...log,
+          workout: {
+            ...workout,
+            workout_exercises: enhancedExercises
+          }
+        };
+      }));
+
+      res.json(enhancedLogs);
+    } catch (error) {
+      console.error('Error fetching workout logs:', error);
+      res.status(500).json({ message: 'Server error fetching workout logs' });
+    }
+  });
+
+  // Starts a workout session; idempotent on clientSessionId so sessions started offline sync once
+  apiRouter.post('/workout-sessions', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const rlsStorage = getRlsStorage(req);
+
+      const sessionData = insertWorkoutSessionSchema.parse({
+        ...req.body,
+        clientId: user.id,
+        status: 'in_progress',
+        lastActivityAt: new Date()
+      });
+
+      if (sessionData.clientSessionId) {
+        const existing = await rlsStorage.getWorkoutSessionByClientSessionId(sessionData.clientSessionId);
+        if (existing) {
+          return res.json(existing);
+        }
+      }
+
+      const workoutSession = await rlsStorage.createWorkoutSession({
+        ...sessionData,
+        startTime: sessionData.startTime || new Date()
+      });
+      res.status(201).json(workoutSession);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error starting workout session:', error);
+      res.status(500).json({ message: 'Server error starting workout session' });
+    }
+  });
+
+  // Resumable workout sessions: the open session for a workout assignment, after abandoning stale ones
+  apiRouter.get('/workout-sessions/resumable', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const workoutAssignmentId = parseInt(req.query.workoutAssignmentId as string, 10);
+      if (Number.isNaN(workoutAssignmentId)) {
+        return res.status(400).json({ message: 'workoutAssignmentId is required' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const resumable = await getResumableSession(rlsStorage, user.id, workoutAssignmentId);
+      res.json(resumable ?? { session: null, exerciseSets: [] });
+    } catch (error) {
+      console.error('Error fetching resumable workout session:', error);
+      res.status(500).json({ message: 'Server error fetching workout session' });
+    }
+  });
+
+  apiRouter.patch('/workout-sessions/:id/state', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const sessionId = parseInt(req.params.id, 10);
+      if (Number.isNaN(sessionId)) {
+        return res.status(400).json({ message: 'Invalid workout session id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const session = await rlsStorage.getWorkoutSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: 'Workout session not found' });
+      }
+      if (session.clientId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to update this workout session' });
+      }
+      if (session.status === 'completed' || session.status === 'abandoned') {
+        return res.status(409).json({ message: `Workout session is already ${session.status}` });
+      }
+
+      const state = workoutSessionStateSchema.parse(req.body);
+      const updated = await rlsStorage.updateWorkoutSession(sessionId, {
+        ...state,
+        ...(state.status === 'abandoned' ? { endTime: new Date() } : {}),
+        lastActivityAt: new Date()
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating workout session state:', error);
+      res.status(500).json({ message: 'Server error updating workout session' });
+    }
+  });
+
+  // Set logging from the workout player; detects personal records as sets are saved
+  apiRouter.post('/workout-sessions/:id/sets', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const sessionId = parseInt(req.params.id, 10);
+      if (Number.isNaN(sessionId)) {
+        return res.status(400).json({ message: 'Invalid workout session id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const session = await rlsStorage.getWorkoutSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: 'Workout session not found' });
+      }
+      if (session.clientId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to log sets for this workout session' });
+      }
+
+      // Sets replayed from the offline queue may reopen a session abandoned for inactivity
+      const loggedOffline = req.body.loggedOffline === true;
+      if (session.status === 'completed' || (session.status === 'abandoned' && !loggedOffline)) {
+        return res.status(409).json({ message: `Workout session is already ${session.status}` });
+      }
+
+      const setData = insertExerciseSetSchema.parse({
+        ...req.body,
+        workoutSessionId: sessionId,
+        synced: !loggedOffline
+      });
+      const sessionState = workoutSessionStateSchema.parse(req.body.sessionState ?? {});
+
+      // Replays are idempotent: a set already stored under this key is returned as-is
+      if (setData.clientSetId) {
+        const existing = await rlsStorage.getExerciseSetByClientSetId(setData.clientSetId);
+        if (existing) {
+          return res.json({ exerciseSet: existing, personalRecords: [], duplicate: true });
+        }
+      }
+
+      const versionCheck = typeof req.body.workoutVersion === 'string'
+        ? await checkWorkoutVersion(rlsStorage, session, setData.workoutExerciseId, req.body.workoutVersion)
+        : { conflict: null, workoutChanged: false };
+      if (versionCheck.conflict) {
+        return res.status(409).json({
+          message: 'This exercise was removed from the workout while you were offline',
+          conflict: versionCheck.conflict
+        });
+      }
+
+      const exerciseSet = await rlsStorage.createExerciseSet(setData);
+
+      // Snapshot the player's position with every set so the session can be resumed
+      await rlsStorage.updateWorkoutSession(sessionId, {
+        ...sessionState,
+        status: 'in_progress',
+        lastActivityAt: new Date()
+      });
+
+      // An explicit formula wins over the client's saved preference
+      const requestedFormula = req.body.oneRmFormula as OneRepMaxFormula | undefined;
+      const formula = requestedFormula && ONE_RM_FORMULAS.includes(requestedFormula)
+        ? requestedFormula
+        : (await rlsStorage.getClientWorkoutPreferences(user.id))?.oneRmFormula as OneRepMaxFormula | undefined;
+
+      const personalRecords = await detectPersonalRecords(rlsStorage, user.id, exerciseSet, { formula });
+      if (personalRecords.length > 0) {
+        emitToUser(user.id, 'personal-record', { workoutSessionId: sessionId, records: personalRecords });
+      }
+
+      res.status(201).json({
+        exerciseSet: personalRecords.length > 0 ? { ...exerciseSet, personalRecord: true } : exerciseSet,
+        personalRecords,
+        workoutChanged: versionCheck.workoutChanged
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error logging exercise set:', error);
+      res.status(500).json({ message: 'Server error logging exercise set' });
+    }
+  });
+
+  // Result of a timed block (rounds + reps, completion time, ...); idempotent on clientResultId
+  apiRouter.post('/workout-sessions/:id/block-results', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const sessionId = parseInt(req.params.id, 10);
+      if (Number.isNaN(sessionId)) {
+        return res.status(400).json({ message: 'Invalid workout session id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const session = await rlsStorage.getWorkoutSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: 'Workout session not found' });
+      }
+      if (session.clientId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to log results for this workout session' });
+      }
+
+      const loggedOffline = req.body.loggedOffline === true;
+      if (session.status === 'completed' || (session.status === 'abandoned' && !loggedOffline)) {
+        return res.status(409).json({ message: `Workout session is already ${session.status}` });
+      }
+
+      const resultData = insertBlockResultSchema.parse({
+        ...req.body,
+        workoutSessionId: sessionId
+      });
+      const sessionState = workoutSessionStateSchema.parse(req.body.sessionState ?? {});
+
+      if (resultData.clientResultId) {
+        const existing = await rlsStorage.getBlockResultByClientResultId(resultData.clientResultId);
+        if (existing) {
+          return res.json({ blockResult: existing, duplicate: true });
+        }
+      }
+
+      const block = await rlsStorage.getWorkoutBlock(resultData.blockId);
+      if (!block || block.workoutId !== session.workoutId) {
+        return res.status(409).json({
+          message: 'This block was removed from the workout while you were offline',
+          conflict: 'block_removed'
+        });
+      }
+
+      const blockResult = await rlsStorage.createBlockResult(resultData);
+
+      await rlsStorage.updateWorkoutSession(sessionId, {
+        ...sessionState,
+        status: 'in_progress',
+        lastActivityAt: new Date()
+      });
+
+      res.status(201).json({ blockResult });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error logging block result:', error);
+      res.status(500).json({ message: 'Server error logging block result' });
+    }
+  });
+
+  // Substitutes the client may swap a workout exercise for mid-session, within the coach's list
+  apiRouter.get('/workout-sessions/:id/substitutes', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const sessionId = parseInt(req.params.id, 10);
+      const workoutExerciseId = parseInt(req.query.workoutExerciseId as string, 10);
+      if (Number.isNaN(sessionId) || Number.isNaN(workoutExerciseId)) {
+        return res.status(400).json({ message: 'Invalid workout session or workout exercise id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const session = await rlsStorage.getWorkoutSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: 'Workout session not found' });
+      }
+      if (session.clientId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to access this workout session' });
+      }
+
+      const workoutExercise = await getSessionWorkoutExercise(rlsStorage, session, workoutExerciseId);
+      if (!workoutExercise) {
+        return res.status(404).json({ message: 'Exercise is not part of this workout' });
+      }
+
+      const unavailableEquipment = typeof req.query.unavailableEquipment === 'string'
+        ? req.query.unavailableEquipment.split(',').filter(Boolean)
+        : [];
+      res.json(await getAllowedSubstitutes(rlsStorage, workoutExercise, { unavailableEquipment }));
+    } catch (error) {
+      console.error('Error fetching session substitutes:', error);
+      res.status(500).json({ message: 'Server error fetching substitutes' });
+    }
+  });
+
+  // Exercises the client's active equipment profile can't do, with proposed substitutes
+  apiRouter.get('/workout-sessions/:id/equipment-check', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const sessionId = parseInt(req.params.id, 10);
+      if (Number.isNaN(sessionId)) {
+        return res.status(400).json({ message: 'Invalid workout session id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const session = await rlsStorage.getWorkoutSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: 'Workout session not found' });
+      }
+      if (session.clientId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to access this workout session' });
+      }
+      if (!session.workoutId) {
+        return res.json({ profile: null, proposals: [] });
+      }
+
+      const profile = await getActiveEquipmentProfile(rlsStorage, user.id);
+      res.json(await checkWorkoutEquipment(rlsStorage, session.workoutId, profile));
+    } catch (error) {
+      console.error('Error checking workout equipment:', error);
+      res.status(500).json({ message: 'Server error checking workout equipment' });
+    }
+  });
+
+  // Swaps a workout exercise for one of its allowed substitutes and records it for the coach
+  apiRouter.post('/workout-sessions/:id/substitutions', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const sessionId = parseInt(req.params.id, 10);
+      if (Number.isNaN(sessionId)) {
+        return res.status(400).json({ message: 'Invalid workout session id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const session = await rlsStorage.getWorkoutSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: 'Workout session not found' });
+      }
+      if (session.clientId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to swap exercises in this workout session' });
+      }
+      if (session.status === 'completed' || session.status === 'abandoned') {
+        return res.status(409).json({ message: `Workout session is already ${session.status}` });
+      }
+
+      const workoutExercise = await getSessionWorkoutExercise(rlsStorage, session, Number(req.body.workoutExerciseId));
+      if (!workoutExercise) {
+        return res.status(404).json({ message: 'Exercise is not part of this workout' });
+      }
+
+      const substitutionData = insertExerciseSubstitutionSchema.parse({
+        workoutSessionId: sessionId,
+        workoutExerciseId: workoutExercise.id,
+        originalExerciseId: workoutExercise.exerciseId,
+        substituteExerciseId: req.body.exerciseId,
+        variationId: req.body.variationId ?? null,
+        reason: req.body.reason || null
+      });
+
+      const candidates = await getAllowedSubstitutes(rlsStorage, workoutExercise, { limit: Number.MAX_SAFE_INTEGER });
+      const candidate = candidates.find(candidate =>
+        candidate.exerciseId === substitutionData.substituteExerciseId &&
+        candidate.variationId === (substitutionData.variationId ?? null));
+      if (!candidate) {
+        return res.status(422).json({ message: 'This exercise is not an allowed substitute' });
+      }
+
+      const substitution = await rlsStorage.createExerciseSubstitution(substitutionData);
+      await rlsStorage.updateWorkoutSession(sessionId, { lastActivityAt: new Date() });
+      res.status(201).json({ substitution, substitute: candidate });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error substituting exercise:', error);
+      res.status(500).json({ message: 'Server error substituting exercise' });
+    }
+  });
+
+  // A session's swaps; the client and their coaches can see them
+  apiRouter.get('/workout-sessions/:id/substitutions', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const sessionId = parseInt(req.params.id, 10);
+      if (Number.isNaN(sessionId)) {
+        return res.status(400).json({ message: 'Invalid workout session id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const session = await rlsStorage.getWorkoutSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: 'Workout session not found' });
+      }
+      if (session.clientId !== user.id && !(await isActiveCoachOf(rlsStorage, user, session.clientId))) {
+        return res.status(403).json({ message: 'Unauthorized to access this workout session' });
+      }
+
+      res.json(await getSessionSubstitutions(rlsStorage, sessionId));
+    } catch (error) {
+      console.error('Error fetching exercise substitutions:', error);
+      res.status(500).json({ message: 'Server error fetching exercise substitutions' });
+    }
+  });
+
+  // Client attaches a clip to one of their logged sets for form review; a new clip replaces one not yet reviewed
+  apiRouter.post('/exercise-sets/:id/form-review', isAuthenticated, (req, res, next) => {
+    mediaUpload.single('file')(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ message: 'File too large' });
+      }
+      next(error);
+    });
+  }, async (req, res) => {
+    const file = req.file;
+    try {
+      const user = req.user as any;
+      const setId = parseInt(req.params.id, 10);
+      if (Number.isNaN(setId)) {
+        return res.status(400).json({ message: 'Invalid exercise set id' });
+      }
+      if (!file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+      const contentType = await sniffContentType(file.path);
+      const invalid = validateMediaUpload(FORM_VIDEO_FOLDER, contentType, file.size);
+      if (invalid || !contentType) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const exerciseSet = await rlsStorage.getExerciseSet(setId);
+      const session = exerciseSet && await rlsStorage.getWorkoutSession(exerciseSet.workoutSessionId);
+      if (!exerciseSet || !session) {
+        return res.status(404).json({ message: 'Exercise set not found' });
+      }
+      if (session.clientId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to add a video to this set' });
+      }
+      const existing = await rlsStorage.getFormReviewByExerciseSetId(setId);
+      if (existing?.status === 'reviewed') {
+        return res.status(409).json({ message: 'This set has already been reviewed' });
+      }
+
+      const { clientNote } = insertFormReviewSchema.pick({ clientNote: true }).parse({
+        clientNote: typeof req.body.clientNote === 'string' && req.body.clientNote.trim() ? req.body.clientNote : null
+      });
+      const stored = await storeMediaUpload(mediaStorage, {
+        folder: FORM_VIDEO_FOLDER,
+        userId: user.id,
+        filePath: file.path,
+        contentType
+      });
+
+      let review;
+      if (existing) {
+        review = await rlsStorage.updateFormReview(existing.id, { videoUrl: stored.url, clientNote });
+        const replacedKey = mediaKeyOf(existing.videoUrl);
+        if (replacedKey) {
+          mediaStorage.delete(replacedKey).catch(error => console.error('Error removing replaced form video:', error));
+        }
+      } else {
+        review = await rlsStorage.createFormReview({ exerciseSetId: setId, clientId: user.id, videoUrl: stored.url, clientNote });
+      }
+      res.status(existing ? 200 : 201).json(await getFormReviewDetail(rlsStorage, review));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error uploading form video:', error);
+      res.status(500).json({ message: 'Server error uploading form video' });
+    } finally {
+      if (file) fs.promises.rm(file.path, { force: true }).catch(() => {});
+    }
+  });
+
+  apiRouter.get('/exercise-sets/:id/form-review', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const setId = parseInt(req.params.id, 10);
+      if (Number.isNaN(setId)) {
+        return res.status(400).json({ message: 'Invalid exercise set id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const review = await rlsStorage.getFormReviewByExerciseSetId(setId);
+      if (!review) {
+        return res.status(404).json({ message: 'Form review not found' });
+      }
+      if (review.clientId !== user.id && !(user.role === 'admin' && await isReviewingCoach(rlsStorage, user.id, review))) {
+        return res.status(403).json({ message: 'Unauthorized to view this form review' });
+      }
+
+      const detail = await getFormReviewDetail(rlsStorage, review);
+      if (!detail) {
+        return res.status(404).json({ message: 'Form review not found' });
+      }
+      res.json(detail);
+    } catch (error) {
+      console.error('Error fetching form review:', error);
+      res.status(500).json({ message: 'Server error fetching form review' });
+    }
+  });
+
+  // The signed-in client's clips; reviewed ones without seenAt are their unread notifications
+  apiRouter.get('/form-reviews', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const rlsStorage = getRlsStorage(req);
+      const reviews = await rlsStorage.getFormReviewsByClientIds([user.id]);
+      res.json(await summarizeFormReviews(rlsStorage, reviews));
+    } catch (error) {
+      console.error('Error fetching form reviews:', error);
+      res.status(500).json({ message: 'Server error fetching form reviews' });
+    }
+  });
+
+  // Coach review queue; status=pending (default) or reviewed
+  apiRouter.get('/coach/form-reviews', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can review form videos' });
+      }
+      const status = typeof req.query.status === 'string' ? req.query.status : 'pending';
+      if (!FORM_REVIEW_STATUSES.includes(status as any)) {
+        return res.status(400).json({ message: `Status must be one of: ${FORM_REVIEW_STATUSES.join(', ')}` });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      res.json(await getCoachFormReviewQueue(rlsStorage, user.id, status as typeof FORM_REVIEW_STATUSES[number]));
+    } catch (error) {
+      console.error('Error fetching form review queue:', error);
+      res.status(500).json({ message: 'Server error fetching form review queue' });
+    }
+  });
+
+  apiRouter.get('/form-reviews/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const reviewId = parseInt(req.params.id, 10);
+      if (Number.isNaN(reviewId)) {
+        return res.status(400).json({ message: 'Invalid form review id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const review = await rlsStorage.getFormReview(reviewId);
+      if (!review) {
+        return res.status(404).json({ message: 'Form review not found' });
+      }
+      if (review.clientId !== user.id && !(user.role === 'admin' && await isReviewingCoach(rlsStorage, user.id, review))) {
+        return res.status(403).json({ message: 'Unauthorized to view this form review' });
+      }
+
+      const detail = await getFormReviewDetail(rlsStorage, review);
+      if (!detail) {
+        return res.status(404).json({ message: 'Form review not found' });
+      }
+      res.json(detail);
+    } catch (error) {
+      console.error('Error fetching form review:', error);
+      res.status(500).json({ message: 'Server error fetching form review' });
+    }
+  });
+
+  // Coach comment at a moment in the clip, with an optional drawing over that frame
+  apiRouter.post('/form-reviews/:id/comments', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can comment on form videos' });
+      }
+      const reviewId = parseInt(req.params.id, 10);
+      if (Number.isNaN(reviewId)) {
+        return res.status(400).json({ message: 'Invalid form review id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const review = await rlsStorage.getFormReview(reviewId);
+      if (!review) {
+        return res.status(404).json({ message: 'Form review not found' });
+      }
+      if (!await isReviewingCoach(rlsStorage, user.id, review)) {
+        return res.status(403).json({ message: 'Unauthorized to comment on this form review' });
+      }
+
+      const commentData = insertFormReviewCommentSchema.parse({
+        ...req.body,
+        formReviewId: reviewId,
+        authorId: user.id
+      });
+      const comment = await rlsStorage.createFormReviewComment(commentData);
+      res.status(201).json(comment);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error adding form review comment:', error);
+      res.status(500).json({ message: 'Server error adding form review comment' });
+    }
+  });
+
+  apiRouter.delete('/form-review-comments/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const commentId = parseInt(req.params.id, 10);
+      if (Number.isNaN(commentId)) {
+        return res.status(400).json({ message: 'Invalid comment id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const comment = await rlsStorage.getFormReviewComment(commentId);
+      if (!comment) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+      if (comment.authorId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to delete this comment' });
+      }
+
+      await rlsStorage.deleteFormReviewComment(commentId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting form review comment:', error);
+      res.status(500).json({ message: 'Server error deleting form review comment' });
+    }
+  });
+
+  // Coach finishes a review: rates the set's form and notifies the client
+  apiRouter.put('/form-reviews/:id/review', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can review form videos' });
+      }
+      const reviewId = parseInt(req.params.id, 10);
+      if (Number.isNaN(reviewId)) {
+        return res.status(400).json({ message: 'Invalid form review id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const review = await rlsStorage.getFormReview(reviewId);
+      if (!review) {
+        return res.status(404).json({ message: 'Form review not found' });
+      }
+      if (!await isReviewingCoach(rlsStorage, user.id, review)) {
+        return res.status(403).json({ message: 'Unauthorized to review this form video' });
+      }
+
+      const completion = formReviewCompletionSchema.parse(req.body);
+      const updated = await completeFormReview(rlsStorage, review, user.id, completion);
+      const detail = await getFormReviewDetail(rlsStorage, updated);
+      if (detail) {
+        emitToUser(review.clientId, 'form-review-completed', {
+          formReviewId: detail.id,
+          exerciseSetId: detail.exerciseSetId,
+          workoutSessionId: detail.workoutSessionId,
+          exerciseName: detail.exerciseName,
+          formRating: completion.formRating
+        });
+      }
+      res.json(detail ?? updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error completing form review:', error);
+      res.status(500).json({ message: 'Server error completing form review' });
+    }
+  });
+
+  // Client opened a finished review; clears its notification
+  apiRouter.put('/form-reviews/:id/seen', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const reviewId = parseInt(req.params.id, 10);
+      if (Number.isNaN(reviewId)) {
+        return res.status(400).json({ message: 'Invalid form review id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const review = await rlsStorage.getFormReview(reviewId);
+      if (!review) {
+        return res.status(404).json({ message: 'Form review not found' });
+      }
+      if (review.clientId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to update this form review' });
+      }
+
+      const updated = review.status === 'reviewed' && !review.seenAt
+        ? await rlsStorage.updateFormReview(reviewId, { seenAt: new Date() })
+        : review;
+      res.json(updated);
+    } catch (error) {
+      console.error('Error marking form review seen:', error);
+      res.status(500).json({ message: 'Server error updating form review' });
+    }
+  });
+
+  // Finishes a session and its assignment; safe to replay from the offline queue
+  apiRouter.post('/workout-sessions/:id/complete', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const sessionId = parseInt(req.params.id, 10);
+      if (Number.isNaN(sessionId)) {
+        return res.status(400).json({ message: 'Invalid workout session id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const session = await rlsStorage.getWorkoutSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: 'Workout session not found' });
+      }
+      if (session.clientId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to complete this workout session' });
+      }
+      if (session.status === 'completed') {
+        return res.json(session);
+      }
+
+      const completion = workoutSessionCompletionSchema.parse(req.body);
+      const endTime = completion.endTime || new Date();
+      const completed = await rlsStorage.updateWorkoutSession(sessionId, {
+        status: 'completed',
+        endTime,
+        totalDuration: completion.totalDuration ?? null,
+        exercisesCompleted: completion.exercisesCompleted ?? session.totalExercises,
+        restEndsAt: null,
+        lastActivityAt: new Date()
+      });
+
+      if (session.workoutAssignmentId) {
+        const assignment = await rlsStorage.updateWorkoutAssignment(session.workoutAssignmentId, { status: 'completed', completedAt: endTime });
+        // Moves the client's program on to its next week, or completes it
+        const clientProgram = assignment.clientProgramId ? await rlsStorage.getClientProgram(assignment.clientProgramId) : undefined;
+        if (clientProgram) {
+          await reconcileClientProgram(rlsStorage, clientProgram, user.id);
+        }
+      }
+
+      res.json(completed);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error completing workout session:', error);
+      res.status(500).json({ message: 'Server error completing workout session' });
+    }
+  });
+
+  // Personal records for a client (clients.id); coaches see their clients', clients their own
+  apiRouter.get('/clients/:id/personal-records', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (user.role !== 'admin' && client.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to access these personal records' });
+      }
+
+      const personalRecords = await rlsStorage.getPersonalRecordsByClientId(client.userId);
+      res.json(personalRecords);
+    } catch (error) {
+      console.error('Error fetching personal records:', error);
+      res.status(500).json({ message: 'Server error fetching personal records' });
+    }
+  });
+
+  // Per-session history of one exercise; startDate/endDate (YYYY-MM-DD) limit it to a period
+  apiRouter.get('/clients/:id/exercises/:exerciseId/history', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      const exerciseId = parseInt(req.params.exerciseId, 10);
+      if (Number.isNaN(clientId) || Number.isNaN(exerciseId)) {
+        return res.status(400).json({ message: 'Invalid client or exercise id' });
+      }
+
+      let period: { start: Date; end: Date } | undefined;
+      if (req.query.startDate && req.query.endDate) {
+        period = { start: new Date(req.query.startDate as string), end: new Date(req.query.endDate as string) };
+        if (Number.isNaN(period.start.getTime()) || Number.isNaN(period.end.getTime()) || period.start > period.end) {
+          return res.status(400).json({ message: 'Invalid date range' });
+        }
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (user.role !== 'admin' && client.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to access this exercise history' });
+      }
+
+      const history = await getExerciseHistory(rlsStorage, client, exerciseId, period);
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching exercise history:', error);
+      res.status(500).json({ message: 'Server error fetching exercise history' });
+    }
+  });
+
+  apiRouter.patch('/personal-records/:id/verify', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can verify personal records' });
+      }
+
+      const recordId = parseInt(req.params.id, 10);
+      if (Number.isNaN(recordId)) {
+        return res.status(400).json({ message: 'Invalid personal record id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const record = await rlsStorage.getPersonalRecord(recordId);
+      if (!record) {
+        return res.status(404).json({ message: 'Personal record not found' });
+      }
+
+      if (!(await isActiveCoachOf(rlsStorage, user, record.clientId))) {
+        return res.status(403).json({ message: 'Unauthorized to verify this personal record' });
+      }
+
+      const verified = req.body?.verified !== false;
+      const updated = await rlsStorage.updatePersonalRecord(recordId, { verifiedByCoach: verified });
+      res.json(updated);
+    } catch (error) {
+      console.error('Error verifying personal record:', error);
+      res.status(500).json({ message: 'Server error verifying personal record' });
+    }
+  });
+
+  // Plate calculator setup, editable by the client's coach or the client
+  apiRouter.get('/clients/:id/plate-setup', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (user.role !== 'admin' && client.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to access this plate setup' });
+      }
+
+      const preferences = await rlsStorage.getClientWorkoutPreferences(client.userId);
+      res.json({
+        metricSystem: preferences?.metricSystem ?? false,
+        barWeight: preferences?.barWeight ?? null,
+        plateInventory: preferences?.plateInventory ?? null
+      });
+    } catch (error) {
+      console.error('Error fetching plate setup:', error);
+      res.status(500).json({ message: 'Server error fetching plate setup' });
+    }
+  });
+
+  apiRouter.put('/clients/:id/plate-setup', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (client.userId !== user.id && !(await isActiveCoachOf(rlsStorage, user, client.userId))) {
+        return res.status(403).json({ message: 'Unauthorized to update this plate setup' });
+      }
+
+      const plateSetup = plateSetupSchema.parse(req.body);
+      const preferences = await rlsStorage.upsertClientWorkoutPreferences(client.userId, plateSetup);
+      res.json({
+        metricSystem: preferences.metricSystem ?? false,
+        barWeight: preferences.barWeight,
+        plateInventory: preferences.plateInventory
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating plate setup:', error);
+      res.status(500).json({ message: 'Server error updating plate setup' });
+    }
+  });
+
+  // Max heart rate for cardio zones; without a measured value the player estimates it from date of birth
+  apiRouter.get('/clients/:id/heart-rate', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (user.role !== 'admin' && client.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to access these heart-rate settings' });
+      }
+
+      const preferences = await rlsStorage.getClientWorkoutPreferences(client.userId);
+      res.json({
+        dateOfBirth: client.dateOfBirth ?? null,
+        maxHeartRate: preferences?.maxHeartRate ?? null
+      });
+    } catch (error) {
+      console.error('Error fetching heart-rate settings:', error);
+      res.status(500).json({ message: 'Server error fetching heart-rate settings' });
+    }
+  });
+
+  apiRouter.put('/clients/:id/heart-rate', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (client.userId !== user.id && !(await isActiveCoachOf(rlsStorage, user, client.userId))) {
+        return res.status(403).json({ message: 'Unauthorized to update these heart-rate settings' });
+      }
+
+      const settings = heartRateSettingsSchema.parse(req.body);
+      const preferences = await rlsStorage.upsertClientWorkoutPreferences(client.userId, settings);
+      res.json({
+        dateOfBirth: client.dateOfBirth ?? null,
+        maxHeartRate: preferences.maxHeartRate ?? null
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating heart-rate settings:', error);
+      res.status(500).json({ message: 'Server error updating heart-rate settings' });
+    }
+  });
+
+  // Session summary of a scheduled workout: its latest session, sets logged and exercise swaps
+  apiRouter.get('/workout-assignments/:id/summary', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const assignmentId = parseInt(req.params.id, 10);
+      if (Number.isNaN(assignmentId)) {
+        return res.status(400).json({ message: 'Invalid workout assignment id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const assignment = await rlsStorage.getWorkoutAssignment(assignmentId);
+      if (!assignment) {
+        return res.status(404).json({ message: 'Workout assignment not found' });
+      }
+      if (assignment.clientId !== user.id && !(await isActiveCoachOf(rlsStorage, user, assignment.clientId))) {
+        return res.status(403).json({ message: 'Unauthorized to access this workout' });
+      }
+
+      const sessions = await rlsStorage.getWorkoutSessionsByWorkoutAssignmentId(assignmentId);
+      const session = sessions.find(session => session.status === 'completed') ?? sessions[0];
+      if (!session) {
+        return res.json({ assignment, session: null, setsLogged: 0, substitutions: [] });
+      }
+
+      const [exerciseSets, substitutions] = await Promise.all([
+        rlsStorage.getExerciseSetsByWorkoutSessionId(session.id),
+        getSessionSubstitutions(rlsStorage, session.id)
+      ]);
+      res.json({ assignment, session, setsLogged: exerciseSets.length, substitutions });
+    } catch (error) {
+      console.error('Error fetching workout summary:', error);
+      res.status(500).json({ message: 'Server error fetching workout summary' });
+    }
+  });
+
+  // Dated workouts from the client's programs; coaches see their clients', clients their own
+  apiRouter.get('/clients/:id/calendar', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+      const from = req.query.from as string;
+      const to = req.query.to as string;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(from ?? '') || !/^\d{4}-\d{2}-\d{2}$/.test(to ?? '') || from > to) {
+        return res.status(400).json({ message: 'from and to must be dates (YYYY-MM-DD), from no later than to' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (user.role !== 'admin' && client.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to access this calendar' });
+      }
+
+      res.json(await getClientCalendar(rlsStorage, client.id, client.userId, from, to));
+    } catch (error) {
+      console.error('Error fetching client calendar:', error);
+      res.status(500).json({ message: 'Server error fetching client calendar' });
+    }
+  });
+
+  // Days of the week the client trains on; saving them re-plans upcoming program workouts
+  apiRouter.get('/clients/:id/training-days', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (user.role !== 'admin' && client.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to access these training days' });
+      }
+
+      const preferences = await rlsStorage.getClientWorkoutPreferences(client.userId);
+      res.json({ trainingDays: preferences?.trainingDays ?? null });
+    } catch (error) {
+      console.error('Error fetching training days:', error);
+      res.status(500).json({ message: 'Server error fetching training days' });
+    }
+  });
+
+  apiRouter.put('/clients/:id/training-days', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (client.userId !== user.id && !(await isActiveCoachOf(rlsStorage, user, client.userId))) {
+        return res.status(403).json({ message: 'Unauthorized to update these training days' });
+      }
+
+      const settings = trainingDaysSchema.parse(req.body);
+      const preferences = await rlsStorage.upsertClientWorkoutPreferences(client.userId, settings);
+      for (const clientProgram of await rlsStorage.getClientPrograms(client.id)) {
+        if (clientProgram.status === 'active') {
+          await rescheduleClientProgram(rlsStorage, clientProgram, client.userId);
+        }
+      }
+      res.json({ trainingDays: preferences.trainingDays ?? null });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating training days:', error);
+      res.status(500).json({ message: 'Server error updating training days' });
+    }
+  });
+
+  // Equipment profiles: what a client has at home, at the gym or when travelling
+  apiRouter.get('/clients/:id/equipment-profiles', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (user.role !== 'admin' && client.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to access these equipment profiles' });
+      }
+
+      const [profiles, activeProfile] = await Promise.all([
+        rlsStorage.getEquipmentProfilesByClientIds([client.userId]),
+        getActiveEquipmentProfile(rlsStorage, client.userId)
+      ]);
+      res.json({ profiles, activeProfileId: activeProfile?.id ?? null });
+    } catch (error) {
+      console.error('Error fetching equipment profiles:', error);
+      res.status(500).json({ message: 'Server error fetching equipment profiles' });
+    }
+  });
+
+  apiRouter.post('/clients/:id/equipment-profiles', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (client.userId !== user.id && !(await isActiveCoachOf(rlsStorage, user, client.userId))) {
+        return res.status(403).json({ message: 'Unauthorized to update these equipment profiles' });
+      }
+
+      const profileData = insertEquipmentProfileSchema.parse({ ...req.body, clientId: client.userId });
+      const profile = await rlsStorage.createEquipmentProfile(profileData);
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error creating equipment profile:', error);
+      res.status(500).json({ message: 'Server error creating equipment profile' });
+    }
+  });
+
+  // Switches the profile workouts are checked against, e.g. to "travel" before a session away
+  apiRouter.put('/clients/:id/equipment-profiles/active', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (client.userId !== user.id && !(await isActiveCoachOf(rlsStorage, user, client.userId))) {
+        return res.status(403).json({ message: 'Unauthorized to update these equipment profiles' });
+      }
+
+      const settings = activeEquipmentProfileSchema.parse(req.body);
+      if (settings.activeEquipmentProfileId !== null) {
+        const profile = await rlsStorage.getEquipmentProfile(settings.activeEquipmentProfileId);
+        if (!profile || profile.clientId !== client.userId) {
+          return res.status(404).json({ message: 'Equipment profile not found' });
+        }
+      }
+
+      const preferences = await rlsStorage.upsertClientWorkoutPreferences(client.userId, settings);
+      res.json({ activeProfileId: preferences.activeEquipmentProfileId ?? null });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error switching equipment profile:', error);
+      res.status(500).json({ message: 'Server error switching equipment profile' });
+    }
+  });
+
+  apiRouter.put('/equipment-profiles/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const profileId = parseInt(req.params.id, 10);
+      if (Number.isNaN(profileId)) {
+        return res.status(400).json({ message: 'Invalid equipment profile id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const profile = await rlsStorage.getEquipmentProfile(profileId);
+      if (!profile) {
+        return res.status(404).json({ message: 'Equipment profile not found' });
+      }
+      if (profile.clientId !== user.id && !(await isActiveCoachOf(rlsStorage, user, profile.clientId))) {
+        return res.status(403).json({ message: 'Unauthorized to update this equipment profile' });
+      }
+
+      const updates = insertEquipmentProfileSchema.omit({ clientId: true }).partial().parse(req.body);
+      const updated = await rlsStorage.updateEquipmentProfile(profileId, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating equipment profile:', error);
+      res.status(500).json({ message: 'Server error updating equipment profile' });
+    }
+  });
+
+  apiRouter.delete('/equipment-profiles/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const profileId = parseInt(req.params.id, 10);
+      if (Number.isNaN(profileId)) {
+        return res.status(400).json({ message: 'Invalid equipment profile id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const profile = await rlsStorage.getEquipmentProfile(profileId);
+      if (!profile) {
+        return res.status(404).json({ message: 'Equipment profile not found' });
+      }
+      if (profile.clientId !== user.id && !(await isActiveCoachOf(rlsStorage, user, profile.clientId))) {
+        return res.status(403).json({ message: 'Unauthorized to delete this equipment profile' });
+      }
+
+      const preferences = await rlsStorage.getClientWorkoutPreferences(profile.clientId);
+      if (preferences?.activeEquipmentProfileId === profileId) {
+        await rlsStorage.upsertClientWorkoutPreferences(profile.clientId, { activeEquipmentProfileId: null });
+      }
+      await rlsStorage.deleteEquipmentProfile(profileId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting equipment profile:', error);
+      res.status(500).json({ message: 'Server error deleting equipment profile' });
+    }
+  });
+
+  // Coaches choose what happens to a client program's missed workouts
+  apiRouter.patch('/client-programs/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can update client programs' });
       }
 
-      const workoutLogs = await rlsStorage.getWorkoutLogsByClientId(clientIdForQuery);
-      
-      // Enhance workout logs with full workout details
-      const enhancedLogs = await Promise.all(workoutLogs.map(async (log) => {
-        const workout = await rlsStorage.getWorkout(log.workoutId);
-        const workoutExercises = await rlsStorage.getWorkoutExercisesByWorkoutId(log.workoutId);
-        
-        // Get exercise details for each workout exercise
-        const enhancedExercises = await Promise.all(workoutExercises.map(async (we) => {
-          const exercise = await rlsStorage.getExercise(we.exerciseId);
-          return {
-            ...we,
-            exercise
-          };
-        }));
+      const clientProgramId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientProgramId)) {
+        return res.status(400).json({ message: 'Invalid client program id' });
+      }
 
-        return {
-          ...log,
-          workout: {
-            ...workout,
-            workout_exercises: enhancedExercises
-          }
-        };
-      }));
+      const rlsStorage = getRlsStorage(req);
+      const clientProgram = await rlsStorage.getClientProgram(clientProgramId);
+      if (!clientProgram || clientProgram.assignedBy !== user.id) {
+        return res.status(404).json({ message: 'Client program not found' });
+      }
 
-      res.json(enhancedLogs);
+      const changes = insertClientProgramSchema.pick({ missedPolicy: true }).parse(req.body);
+      res.json(await rlsStorage.updateClientProgram(clientProgramId, changes));
     } catch (error) {
-      console.error('Error fetching workout logs:', error);
-      res.status(500).json({ message: 'Server error fetching workout logs' });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating client program:', error);
+      res.status(500).json({ message: 'Server error updating client program' });
     }
   });
 
@@ -1616,13 +3722,396 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Use RLS-aware storage with JWT token
       const rlsStorage = SupabaseStorage.withUserToken(token);
       const clients = await rlsStorage.getAllClients();
-      res.json(clients);
+
+      // Attach compliance so the client table can sort by it
+      const settings = await getComplianceSettingsForCoach(rlsStorage, user.id);
+      const compliance = await getClientCompliance(rlsStorage, clients, settings);
+      res.json(clients.map(client => ({ ...client, compliance: compliance.get(client.id) ?? null })));
     } catch (error) {
       console.error('Error fetching clients:', error);
       res.status(500).json({ message: 'Server error fetching clients' });
     }
   });
 
+  apiRouter.get('/clients/:id/compliance', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (client.userId !== user.id && !(await isActiveCoachOf(rlsStorage, user, client.userId))) {
+        return res.status(403).json({ message: 'Unauthorized to access this client\'s compliance' });
+      }
+
+      // Clients are scored with their coach's weighting
+      let coachUserId: string | undefined = user.role === 'admin' ? user.id : undefined;
+      if (!coachUserId) {
+        const relationships = await rlsStorage.getCoachClientsByClientId(client.userId);
+        coachUserId = relationships.find(relationship => relationship.status === 'active')?.coachId;
+      }
+      const settings = coachUserId
+        ? await getComplianceSettingsForCoach(rlsStorage, coachUserId)
+        : DEFAULT_COMPLIANCE_SETTINGS;
+
+      const compliance = await getClientCompliance(rlsStorage, [client], settings);
+      res.json({ clientId, settings, ...compliance.get(clientId) });
+    } catch (error) {
+      console.error('Error computing client compliance:', error);
+      res.status(500).json({ message: 'Server error computing compliance' });
+    }
+  });
+
+  // Compliance weighting, configurable per coach
+  apiRouter.get('/coach/compliance-settings', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can view compliance settings' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const settings = await getComplianceSettingsForCoach(rlsStorage, user.id);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: 'Server error fetching compliance settings' });
+    }
+  });
+
+  apiRouter.put('/coach/compliance-settings', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can update compliance settings' });
+      }
+
+      // Fields left out keep their saved values
+      const rlsStorage = getRlsStorage(req);
+      const current = await getComplianceSettingsForCoach(rlsStorage, user.id);
+      const settingsData = insertComplianceSettingsSchema.parse({
+        ...current,
+        ...req.body,
+        coachId: user.id
+      });
+      if (settingsData.workoutWeight + settingsData.nutritionWeight + settingsData.checkinWeight === 0) {
+        return res.status(400).json({ message: 'At least one compliance weight must be greater than zero' });
+      }
+
+      const settings = await rlsStorage.upsertComplianceSettings(settingsData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Server error updating compliance settings' });
+    }
+  });
+
+  // At-risk client alerts
+  apiRouter.get('/coach/alerts', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can view client alerts' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const alerts = await getCoachAlerts(rlsStorage, user.id, {
+        includeDismissed: req.query.includeDismissed === 'true'
+      });
+      res.json(alerts);
+    } catch (error) {
+      console.error('Error evaluating client alerts:', error);
+      res.status(500).json({ message: 'Server error fetching client alerts' });
+    }
+  });
+
+  // Same as the GET, but also forgets dismissals whose rule has stopped firing
+  apiRouter.post('/coach/alerts/evaluate', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can evaluate client alerts' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const alerts = await getCoachAlerts(rlsStorage, user.id, {
+        includeDismissed: req.query.includeDismissed === 'true',
+        clearStale: true
+      });
+      res.json(alerts);
+    } catch (error) {
+      console.error('Error evaluating client alerts:', error);
+      res.status(500).json({ message: 'Server error evaluating client alerts' });
+    }
+  });
+
+  apiRouter.post('/coach/alerts/:clientId/:rule/:action', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can update client alerts' });
+      }
+
+      const clientId = parseInt(req.params.clientId, 10);
+      const rule = req.params.rule as AlertRule;
+      const { action } = req.params;
+      if (Number.isNaN(clientId) || !ALERT_RULES.includes(rule)) {
+        return res.status(400).json({ message: 'Invalid alert' });
+      }
+      if (action !== 'acknowledge' && action !== 'snooze') {
+        return res.status(400).json({ message: 'Alert action must be acknowledge or snooze' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (!(await isActiveCoachOf(rlsStorage, user, client.userId))) {
+        return res.status(403).json({ message: 'Unauthorized to update alerts for this client' });
+      }
+
+      // Snoozes default to three days
+      const snoozeDays = action === 'snooze' ? Number(req.body?.days ?? 3) : 0;
+      if (action === 'snooze' && (!Number.isInteger(snoozeDays) || snoozeDays < 1 || snoozeDays > 30)) {
+        return res.status(400).json({ message: 'Snooze days must be between 1 and 30' });
+      }
+
+      const alertData = insertClientAlertSchema.parse({
+        coachId: user.id,
+        clientId,
+        rule,
+        status: action === 'snooze' ? 'snoozed' : 'acknowledged',
+        snoozedUntil: action === 'snooze' ? new Date(Date.now() + snoozeDays * 24 * 60 * 60 * 1000) : null
+      });
+      const alert = await rlsStorage.upsertClientAlert(alertData);
+      res.json(alert);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating client alert:', error);
+      res.status(500).json({ message: 'Server error updating client alert' });
+    }
+  });
+
+  // Alert thresholds, configurable per coach
+  apiRouter.get('/coach/alert-settings', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can view alert settings' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const settings = await getAlertSettingsForCoach(rlsStorage, user.id);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: 'Server error fetching alert settings' });
+    }
+  });
+
+  apiRouter.put('/coach/alert-settings', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can update alert settings' });
+      }
+
+      // Fields left out keep their saved values
+      const rlsStorage = getRlsStorage(req);
+      const current = await getAlertSettingsForCoach(rlsStorage, user.id);
+      const settingsData = insertAlertSettingsSchema.parse({
+        ...current,
+        ...req.body,
+        coachId: user.id
+      });
+
+      const settings = await rlsStorage.upsertAlertSettings(settingsData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Server error updating alert settings' });
+    }
+  });
+
+  // Weekly training volume by muscle group
+  apiRouter.get('/clients/:id/training-volume', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const clientId = parseInt(req.params.id, 10);
+      if (Number.isNaN(clientId)) {
+        return res.status(400).json({ message: 'Invalid client id' });
+      }
+
+      const weeks = req.query.weeks ? parseInt(req.query.weeks as string, 10) : 8;
+      if (Number.isNaN(weeks) || weeks < 1 || weeks > MAX_VOLUME_WEEKS) {
+        return res.status(400).json({ message: `weeks must be between 1 and ${MAX_VOLUME_WEEKS}` });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const client = await rlsStorage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      if (user.role !== 'admin' && client.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized to access this client\'s training volume' });
+      }
+
+      // Clients are measured against their coach's targets
+      let coachUserId: string | undefined = user.role === 'admin' ? user.id : undefined;
+      if (!coachUserId) {
+        const relationships = await rlsStorage.getCoachClientsByClientId(client.userId);
+        coachUserId = relationships.find(relationship => relationship.status === 'active')?.coachId;
+      }
+      const targets = coachUserId
+        ? await getVolumeTargetsForCoach(rlsStorage, coachUserId)
+        : DEFAULT_VOLUME_TARGETS;
+
+      const volume = await getClientTrainingVolume(rlsStorage, client, targets, weeks);
+      res.json({ clientId, ...volume });
+    } catch (error) {
+      console.error('Error computing training volume:', error);
+      res.status(500).json({ message: 'Server error computing training volume' });
+    }
+  });
+
+  apiRouter.get('/coach/volume-targets', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can view volume targets' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const targets = await getVolumeTargetsForCoach(rlsStorage, user.id);
+      res.json({ targets });
+    } catch (error) {
+      res.status(500).json({ message: 'Server error fetching volume targets' });
+    }
+  });
+
+  apiRouter.put('/coach/volume-targets', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can update volume targets' });
+      }
+
+      const settingsData = insertVolumeTargetSettingsSchema.parse({
+        targets: req.body.targets,
+        coachId: user.id
+      });
+
+      const rlsStorage = getRlsStorage(req);
+      const settings = await rlsStorage.upsertVolumeTargetSettings(settingsData);
+      res.json({ targets: settings.targets });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Server error updating volume targets' });
+    }
+  });
+
+  // Active clients' equipment profiles, for filtering the exercise library while building workouts
+  apiRouter.get('/coach/equipment-profiles', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can view client equipment profiles' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      res.json(await getCoachClientEquipmentProfiles(rlsStorage, user.id));
+    } catch (error) {
+      console.error('Error fetching client equipment profiles:', error);
+      res.status(500).json({ message: 'Server error fetching equipment profiles' });
+    }
+  });
+
+  // Coach dashboard analytics
+  apiRouter.get('/coach/overview', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can view the coach overview' });
+      }
+
+      const range = (req.query.range as string | undefined) || 'month';
+      if (!OVERVIEW_RANGES.includes(range as OverviewRange)) {
+        return res.status(400).json({ message: 'range must be one of week, month or quarter' });
+      }
+
+      const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+      const pageSize = req.query.pageSize ? parseInt(req.query.pageSize as string, 10) : 10;
+      if (Number.isNaN(page) || page < 1 || Number.isNaN(pageSize) || pageSize < 1 || pageSize > 50) {
+        return res.status(400).json({ message: 'Invalid pagination parameters' });
+      }
+
+      const rlsStorage = getRlsStorage(req);
+      const overview = await getCoachOverview(rlsStorage, user.id, range as OverviewRange, { page, pageSize });
+      res.json(overview);
+    } catch (error) {
+      console.error('Error building coach overview:', error);
+      res.status(500).json({ message: 'Server error fetching coach overview' });
+    }
+  });
+
+  // Exercise media upload (videos and thumbnails)
+  apiRouter.post('/upload', isAuthenticated, (req, res, next) => {
+    mediaUpload.single('file')(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ message: 'File too large' });
+      }
+      next(error);
+    });
+  }, async (req, res) => {
+    const file = req.file;
+    try {
+      const user = req.user as any;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only coaches can upload exercise media' });
+      }
+      if (!file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+
+      const folder = typeof req.body.folder === 'string' ? req.body.folder : '';
+      if (!EXERCISE_MEDIA_FOLDERS.includes(folder)) {
+        return res.status(400).json({ message: `Unknown upload folder. Allowed folders: ${EXERCISE_MEDIA_FOLDERS.join(', ')}` });
+      }
+      const contentType = await sniffContentType(file.path);
+      const invalid = validateMediaUpload(folder, contentType, file.size);
+      if (invalid || !contentType) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const stored = await storeMediaUpload(mediaStorage, {
+        folder,
+        userId: user.id,
+        filePath: file.path,
+        contentType,
+        generateThumbnail: req.body.generateThumbnail === 'true'
+      });
+      res.status(201).json(stored);
+    } catch (error) {
+      console.error('Media upload error:', error);
+      res.status(500).json({ message: 'Server error uploading media' });
+    } finally {
+      if (file) fs.promises.rm(file.path, { force: true }).catch(() => {});
+    }
+  });
+
   // Avatar upload route
   apiRouter.post('/users/avatar', isAuthenticated, upload.single('avatar'), async (req, res) => {
     try {
@@ -1666,6 +4155,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Serve uploaded files
   app.use('/uploads', express.static(uploadDir));
 
+  // Serve exercise media from the storage driver; byte ranges let the player stream and seek videos.
+  // Private media (clients' form-check clips) needs a signed link from the API that returned it.
+  app.get('/media/*', async (req, res) => {
+    try {
+      const key = (req.params as Record<string, string>)[0];
+      const isPrivate = isMediaKey(key) && isPrivateMediaKey(key);
+      const remaining = isPrivate ? verifyMediaSignature(key, req.query.expires, req.query.signature) : null;
+      if (isPrivate && remaining === null) {
+        return res.status(403).json({ message: 'Media link is invalid or has expired' });
+      }
+
+      const object = isMediaKey(key) ? await mediaStorage.stat(key) : null;
+      if (!object) {
+        return res.status(404).json({ message: 'Media not found' });
+      }
+
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('Content-Type', object.contentType);
+      // Keys are never reused, so public media can be cached for good; private media
+      // stays out of shared caches and only for as long as its link is valid
+      res.setHeader('Cache-Control', isPrivate
+        ? `private, max-age=${remaining}`
+        : 'public, max-age=31536000, immutable');
+
+      const range = parseRange(req.headers.range, object.size);
+      if (range.kind === 'unsatisfiable') {
+        res.setHeader('Content-Range', `bytes */${object.size}`);
+        return res.status(416).end();
+      }
+      if (range.kind === 'partial') {
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${range.range.start}-${range.range.end}/${object.size}`);
+        res.setHeader('Content-Length', range.range.end - range.range.start + 1);
+      } else {
+        res.setHeader('Content-Length', object.size);
+      }
+      if (req.method === 'HEAD') {
+        return res.end();
+      }
+
+      const stream = await mediaStorage.read(key, range.kind === 'partial' ? range.range : undefined);
+      stream.on('error', error => {
+        console.error('Error streaming media:', error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error('Error serving media:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: 'Server error serving media' });
+      }
+    }
+  });
+
   const httpServer = createServer(app);
+  attachRealtime(httpServer);
   return httpServer;
 }
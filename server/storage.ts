@@ -8,17 +8,37 @@ import {
   messages, type Message, type InsertMessage,
   nutritionPlans, type NutritionPlan, type InsertNutritionPlan,
   deviceIntegrations, type DeviceIntegration, type InsertDeviceIntegration,
-  exercises, type Exercise, type InsertExercise,
+  exercises, type Exercise, type InsertExercise, type ExerciseSearch, type ExerciseSearchResult,
   exerciseCategories, type ExerciseCategory, type InsertExerciseCategory,
+  exerciseVariations, type ExerciseVariation, type InsertExerciseVariation,
+  exerciseSubstitutions, type ExerciseSubstitution, type InsertExerciseSubstitution,
   programs, type Program, type InsertProgram,
+  programTemplates, type ProgramTemplate, type InsertProgramTemplate,
+  programTemplateRatings, type ProgramTemplateRating, type InsertProgramTemplateRating,
   workouts, type Workout, type InsertWorkout,
   workoutExercises, type InsertWorkoutExercise,
+  workoutBlocks, type WorkoutBlock, type InsertWorkoutBlock,
   clientPrograms, type ClientProgram, type InsertClientProgram,
   workoutLogs, type WorkoutLog, type InsertWorkoutLog,
-  exerciseLogs, type ExerciseLog, type InsertExerciseLog
+  exerciseLogs, type ExerciseLog, type InsertExerciseLog,
+  coachClients, type CoachClient,
+  workoutAssignments, type WorkoutAssignment, type InsertWorkoutAssignment,
+  workoutSessions, type WorkoutSession, type InsertWorkoutSession,
+  exerciseSets, type ExerciseSet, type InsertExerciseSet,
+  blockResults, type BlockResult, type InsertBlockResult,
+  personalRecords, type PersonalRecord, type InsertPersonalRecord,
+  clientWorkoutPreferences, type ClientWorkoutPreferences,
+  equipmentProfiles, type EquipmentProfile, type InsertEquipmentProfile,
+  formReviews, type FormReview, type InsertFormReview,
+  formReviewComments, type FormReviewComment, type InsertFormReviewComment,
+  nutritionLogs, type NutritionLog, type InsertNutritionLog,
+  complianceSettings, type ComplianceSettings, type InsertComplianceSettings,
+  alertSettings, type AlertSettings, type InsertAlertSettings,
+  clientAlerts, type ClientAlert, type InsertClientAlert,
+  volumeTargetSettings, type VolumeTargetSettings, type InsertVolumeTargetSettings
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, gte, lte, sql } from "drizzle-orm";
+import { eq, and, or, desc, gte, lte, sql, inArray, ilike, type SQL } from "drizzle-orm";
 import { alias } from "drizzle-orm/pg-core";
 
 // Modify the interface with all the required CRUD methods
@@ -28,32 +48,41 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsersByIds(ids: string[]): Promise<User[]>;
   
   // Client operations
   getClient(id: number): Promise<Client | undefined>; // Keep number for client.id (serial)
   getClientByUserId(userId: string): Promise<Client | undefined>; // Fixed: Changed to string for user UUID
   getAllClients(): Promise<any[]>; // Added missing method
   createClient(client: InsertClient): Promise<Client>;
+  getClientsByUserIds(userIds: string[]): Promise<Client[]>;
   
   // Coach operations
   getCoach(id: number): Promise<Coach | undefined>; // Keep number for coach.id (serial)
   getCoachByUserId(userId: string): Promise<Coach | undefined>; // Fixed: Changed to string for user UUID
   createCoach(coach: InsertCoach): Promise<Coach>;
+
+  // Coach-client relationship operations
+  getCoachClientsByCoachId(coachId: string, status?: 'active' | 'paused' | 'ended'): Promise<CoachClient[]>; // All statuses unless filtered
+  getCoachClientsByClientId(clientId: string): Promise<CoachClient[]>;
   
   // Weight log operations
   createWeightLog(weightLog: InsertWeightLog): Promise<WeightLog>;
   getWeightLogsByClientId(clientId: number): Promise<WeightLog[]>;
   getWeightLogsByClientIdAndDateRange(clientId: number, startDate: Date, endDate: Date): Promise<WeightLog[]>;
+  getWeightLogsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<WeightLog[]>;
   
   // Progress photo operations
   createProgressPhoto(progressPhoto: InsertProgressPhoto): Promise<ProgressPhoto>;
   getProgressPhotosByClientId(clientId: number): Promise<ProgressPhoto[]>;
+  getProgressPhotosByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<ProgressPhoto[]>;
   
   // Check-in operations
   createCheckin(checkin: InsertCheckin): Promise<Checkin>;
   getCheckinsByClientId(clientId: number): Promise<Checkin[]>;
   getUpcomingCheckinsByClientId(clientId: number): Promise<Checkin[]>;
   updateCheckinStatus(id: number, status: string): Promise<Checkin>;
+  getCheckinsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<Checkin[]>;
   
   // Message operations
   createMessage(message: InsertMessage): Promise<Message>;
@@ -65,6 +94,12 @@ export interface IStorage {
   createNutritionPlan(nutritionPlan: InsertNutritionPlan): Promise<NutritionPlan>;
   getNutritionPlansByClientId(clientId: number): Promise<NutritionPlan[]>;
   getCurrentNutritionPlan(clientId: number): Promise<NutritionPlan | undefined>;
+  getNutritionPlansByClientIds(clientIds: number[]): Promise<NutritionPlan[]>;
+
+  // Nutrition log operations
+  createNutritionLog(nutritionLog: InsertNutritionLog): Promise<NutritionLog>;
+  getNutritionLogsByClientId(clientId: number): Promise<NutritionLog[]>;
+  getNutritionLogsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<NutritionLog[]>;
 
   // Device integration operations
   createDeviceIntegration(integration: InsertDeviceIntegration): Promise<DeviceIntegration>;
@@ -81,11 +116,20 @@ export interface IStorage {
 
   // Exercise operations
   createExercise(exercise: InsertExercise): Promise<Exercise>;
+  createExercises(exercises: InsertExercise[]): Promise<Exercise[]>;
   getExercises(): Promise<Exercise[]>;
+  getVisibleExercises(userId: string): Promise<Exercise[]>; // public exercises and the user's own
+  searchExercises(userId: string, search: ExerciseSearch): Promise<ExerciseSearchResult>; // visible exercises, filtered and paged
   getExercise(id: number): Promise<Exercise | undefined>;
   updateExercise(id: number, exercise: Partial<InsertExercise>): Promise<Exercise>;
   deleteExercise(id: number): Promise<void>;
 
+  // Exercise variation operations
+  getExerciseVariationsByExerciseId(exerciseId: number): Promise<ExerciseVariation[]>;
+  getExerciseVariation(id: number): Promise<ExerciseVariation | undefined>;
+  createExerciseVariation(variation: InsertExerciseVariation): Promise<ExerciseVariation>;
+  deleteExerciseVariation(id: number): Promise<void>;
+
   // Exercise category operations
   createExerciseCategory(category: InsertExerciseCategory): Promise<ExerciseCategory>;
   getExerciseCategories(): Promise<ExerciseCategory[]>;
@@ -98,9 +142,20 @@ export interface IStorage {
   getPrograms(): Promise<Program[]>;
   getProgramsByCoachId(coachId: number): Promise<Program[]>;
   getProgram(id: number): Promise<Program | undefined>;
+  getProgramsByRootProgramId(rootProgramId: number): Promise<Program[]>;
   updateProgram(id: number, program: Partial<InsertProgram>): Promise<Program>;
   deleteProgram(id: number): Promise<void>;
 
+  // Program template operations
+  getProgramTemplates(userId: string): Promise<ProgramTemplate[]>; // public templates and the user's own
+  getProgramTemplate(id: number): Promise<ProgramTemplate | undefined>;
+  getProgramTemplateByProgramId(programId: number): Promise<ProgramTemplate | undefined>;
+  createProgramTemplate(template: InsertProgramTemplate): Promise<ProgramTemplate>;
+  updateProgramTemplate(id: number, template: Partial<InsertProgramTemplate>): Promise<ProgramTemplate>;
+  deleteProgramTemplate(id: number): Promise<void>;
+  getProgramTemplateRatingsByUserId(userId: string): Promise<ProgramTemplateRating[]>;
+  upsertProgramTemplateRating(rating: InsertProgramTemplateRating): Promise<ProgramTemplateRating>;
+
   // Workout operations
   createWorkout(workout: InsertWorkout): Promise<Workout>;
   getWorkouts(): Promise<Workout[]>;
@@ -114,20 +169,108 @@ export interface IStorage {
   getWorkoutExercisesByWorkoutId(workoutId: number): Promise<any[]>;
   deleteWorkoutExercisesByWorkoutId(workoutId: number): Promise<void>;
 
+  // Workout block operations
+  createWorkoutBlock(block: InsertWorkoutBlock): Promise<WorkoutBlock>;
+  getWorkoutBlock(id: number): Promise<WorkoutBlock | undefined>;
+  getWorkoutBlocksByWorkoutId(workoutId: number): Promise<WorkoutBlock[]>;
+  deleteWorkoutBlocksByWorkoutId(workoutId: number): Promise<void>;
+
   // Client program operations
   assignProgramToClient(clientProgram: InsertClientProgram): Promise<ClientProgram>;
+  getClientProgram(id: number): Promise<ClientProgram | undefined>;
   getClientPrograms(clientId: number): Promise<ClientProgram[]>;
   getClientProgramsByCoachId(coachId: string): Promise<ClientProgram[]>;
   updateClientProgramStatus(id: number, status: string): Promise<ClientProgram>;
+  getClientProgramsByProgramIds(programIds: number[]): Promise<ClientProgram[]>;
+  updateClientProgram(id: number, clientProgram: Partial<InsertClientProgram>): Promise<ClientProgram>;
 
   // Workout log operations
   createWorkoutLog(workoutLog: InsertWorkoutLog): Promise<WorkoutLog>;
   getWorkoutLogsByClientId(clientId: number): Promise<WorkoutLog[]>;
+  getWorkoutLogsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<WorkoutLog[]>;
   updateWorkoutLog(id: number, workoutLog: Partial<InsertWorkoutLog>): Promise<WorkoutLog>;
 
   // Exercise log operations
   createExerciseLog(exerciseLog: InsertExerciseLog): Promise<ExerciseLog>;
   getExerciseLogsByWorkoutLogId(workoutLogId: number): Promise<ExerciseLog[]>;
+  getExerciseLogsByWorkoutLogIds(workoutLogIds: number[]): Promise<ExerciseLog[]>;
+
+  // Workout assignment operations (client ids are user UUIDs)
+  getWorkoutAssignment(id: number): Promise<WorkoutAssignment | undefined>;
+  getWorkoutAssignmentsByClientIdsAndDateRange(clientIds: string[], startDate: Date, endDate: Date): Promise<WorkoutAssignment[]>;
+  getWorkoutAssignmentsByClientProgramId(clientProgramId: number): Promise<WorkoutAssignment[]>;
+  createWorkoutAssignment(assignment: InsertWorkoutAssignment): Promise<WorkoutAssignment>;
+  updateWorkoutAssignment(id: number, assignment: Partial<WorkoutAssignment>): Promise<WorkoutAssignment>;
+  deleteWorkoutAssignment(id: number): Promise<void>;
+
+  // Workout session operations
+  getWorkoutSession(id: number): Promise<WorkoutSession | undefined>;
+  getWorkoutSessionByClientSessionId(clientSessionId: string): Promise<WorkoutSession | undefined>;
+  createWorkoutSession(session: InsertWorkoutSession): Promise<WorkoutSession>;
+  getWorkoutSessionsByClientId(clientId: string, statuses?: string[]): Promise<WorkoutSession[]>;
+  getWorkoutSessionsByWorkoutAssignmentId(workoutAssignmentId: number): Promise<WorkoutSession[]>;
+  updateWorkoutSession(id: number, session: Partial<WorkoutSession>): Promise<WorkoutSession>;
+  getClientWorkoutPreferences(clientId: string): Promise<ClientWorkoutPreferences | undefined>;
+  upsertClientWorkoutPreferences(clientId: string, preferences: Partial<ClientWorkoutPreferences>): Promise<ClientWorkoutPreferences>;
+
+  // Equipment profile operations (client ids are user UUIDs)
+  getEquipmentProfile(id: number): Promise<EquipmentProfile | undefined>;
+  getEquipmentProfilesByClientIds(clientIds: string[]): Promise<EquipmentProfile[]>;
+  createEquipmentProfile(profile: InsertEquipmentProfile): Promise<EquipmentProfile>;
+  updateEquipmentProfile(id: number, profile: Partial<InsertEquipmentProfile>): Promise<EquipmentProfile>;
+  deleteEquipmentProfile(id: number): Promise<void>;
+
+  // Exercise set operations
+  getExerciseSet(id: number): Promise<ExerciseSet | undefined>;
+  getExerciseSetsByIds(ids: number[]): Promise<ExerciseSet[]>;
+  createExerciseSet(exerciseSet: InsertExerciseSet): Promise<ExerciseSet>;
+  updateExerciseSet(id: number, exerciseSet: Partial<ExerciseSet>): Promise<ExerciseSet>;
+  getExerciseSetsByClientIdAndExerciseId(clientId: string, exerciseId: number): Promise<ExerciseSet[]>;
+  getExerciseSetsByClientIdAndExerciseIdAndDateRange(clientId: string, exerciseId: number, startDate: Date, endDate: Date): Promise<ExerciseSet[]>;
+  getExerciseSetsByClientIdAndDateRange(clientId: string, startDate: Date, endDate: Date): Promise<ExerciseSet[]>;
+  getExerciseSetsByWorkoutSessionId(workoutSessionId: number): Promise<ExerciseSet[]>;
+  getExerciseSetByClientSetId(clientSetId: string): Promise<ExerciseSet | undefined>;
+
+  // Form review operations (client ids are user UUIDs)
+  getFormReview(id: number): Promise<FormReview | undefined>;
+  getFormReviewByExerciseSetId(exerciseSetId: number): Promise<FormReview | undefined>;
+  getFormReviewsByClientIds(clientIds: string[], status?: string): Promise<FormReview[]>; // newest first
+  createFormReview(review: InsertFormReview): Promise<FormReview>;
+  updateFormReview(id: number, review: Partial<FormReview>): Promise<FormReview>;
+  getFormReviewComment(id: number): Promise<FormReviewComment | undefined>;
+  getFormReviewComments(formReviewId: number): Promise<FormReviewComment[]>; // in clip order
+  createFormReviewComment(comment: InsertFormReviewComment): Promise<FormReviewComment>;
+  deleteFormReviewComment(id: number): Promise<void>;
+
+  // Block result operations
+  createBlockResult(result: InsertBlockResult): Promise<BlockResult>;
+  getBlockResultByClientResultId(clientResultId: string): Promise<BlockResult | undefined>;
+  getBlockResultsByWorkoutSessionId(workoutSessionId: number): Promise<BlockResult[]>;
+
+  // Exercise substitution operations
+  createExerciseSubstitution(substitution: InsertExerciseSubstitution): Promise<ExerciseSubstitution>;
+  getExerciseSubstitutionsByWorkoutSessionId(workoutSessionId: number): Promise<ExerciseSubstitution[]>;
+
+  // Personal record operations
+  getPersonalRecord(id: number): Promise<PersonalRecord | undefined>;
+  getPersonalRecordsByClientId(clientId: string): Promise<PersonalRecord[]>;
+  createPersonalRecord(record: InsertPersonalRecord): Promise<PersonalRecord>;
+  updatePersonalRecord(id: number, record: Partial<InsertPersonalRecord>): Promise<PersonalRecord>;
+
+  // Compliance settings operations
+  getComplianceSettings(coachId: string): Promise<ComplianceSettings | undefined>;
+  upsertComplianceSettings(settings: InsertComplianceSettings): Promise<ComplianceSettings>;
+
+  // At-risk alert operations
+  getAlertSettings(coachId: string): Promise<AlertSettings | undefined>;
+  upsertAlertSettings(settings: InsertAlertSettings): Promise<AlertSettings>;
+  getClientAlertsByCoachId(coachId: string): Promise<ClientAlert[]>;
+  upsertClientAlert(alert: InsertClientAlert): Promise<ClientAlert>;
+  deleteClientAlert(id: number): Promise<void>;
+
+  // Training volume operations
+  getVolumeTargetSettings(coachId: string): Promise<VolumeTargetSettings | undefined>;
+  upsertVolumeTargetSettings(settings: InsertVolumeTargetSettings): Promise<VolumeTargetSettings>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -155,6 +298,11 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUsersByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(users).where(inArray(users.id, ids));
+  }
+
   // Client operations
   async getClient(id: number): Promise<Client | undefined> {
     const [client] = await db.select().from(clients).where(eq(clients.id, id));
@@ -199,6 +347,11 @@ export class DatabaseStorage implements IStorage {
     return client;
   }
 
+  async getClientsByUserIds(userIds: string[]): Promise<Client[]> {
+    if (userIds.length === 0) return [];
+    return db.select().from(clients).where(inArray(clients.userId, userIds));
+  }
+
   // Coach operations
   async getCoach(id: number): Promise<Coach | undefined> {
     const [coach] = await db.select().from(coaches).where(eq(coaches.id, id));
@@ -218,6 +371,20 @@ export class DatabaseStorage implements IStorage {
     return coach;
   }
 
+  // Coach-client relationship operations
+  async getCoachClientsByCoachId(coachId: string, status?: 'active' | 'paused' | 'ended'): Promise<CoachClient[]> {
+    return db
+      .select()
+      .from(coachClients)
+      .where(status
+        ? and(eq(coachClients.coachId, coachId), eq(coachClients.status, status))
+        : eq(coachClients.coachId, coachId));
+  }
+
+  async getCoachClientsByClientId(clientId: string): Promise<CoachClient[]> {
+    return db.select().from(coachClients).where(eq(coachClients.clientId, clientId));
+  }
+
   // Weight log operations
   async createWeightLog(insertWeightLog: InsertWeightLog): Promise<WeightLog> {
     const [weightLog] = await db
@@ -249,6 +416,21 @@ export class DatabaseStorage implements IStorage {
       .orderBy(weightLogs.date);
   }
 
+  async getWeightLogsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<WeightLog[]> {
+    if (clientIds.length === 0) return [];
+    return db
+      .select()
+      .from(weightLogs)
+      .where(
+        and(
+          inArray(weightLogs.clientId, clientIds),
+          gte(weightLogs.date, startDate.toISOString().split('T')[0]),
+          lte(weightLogs.date, endDate.toISOString().split('T')[0])
+        )
+      )
+      .orderBy(weightLogs.date);
+  }
+
   // Progress photo operations
   async createProgressPhoto(insertProgressPhoto: InsertProgressPhoto): Promise<ProgressPhoto> {
     const [progressPhoto] = await db
@@ -266,6 +448,21 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(progressPhotos.date));
   }
 
+  async getProgressPhotosByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<ProgressPhoto[]> {
+    if (clientIds.length === 0) return [];
+    return db
+      .select()
+      .from(progressPhotos)
+      .where(
+        and(
+          inArray(progressPhotos.clientId, clientIds),
+          gte(progressPhotos.date, startDate.toISOString().split('T')[0]),
+          lte(progressPhotos.date, endDate.toISOString().split('T')[0])
+        )
+      )
+      .orderBy(desc(progressPhotos.date));
+  }
+
   // Check-in operations
   async createCheckin(insertCheckin: InsertCheckin): Promise<Checkin> {
     const [checkin] = await db
@@ -306,6 +503,21 @@ export class DatabaseStorage implements IStorage {
     return checkin;
   }
 
+  async getCheckinsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<Checkin[]> {
+    if (clientIds.length === 0) return [];
+    return db
+      .select()
+      .from(checkins)
+      .where(
+        and(
+          inArray(checkins.clientId, clientIds),
+          gte(checkins.date, startDate.toISOString().split('T')[0]),
+          lte(checkins.date, endDate.toISOString().split('T')[0])
+        )
+      )
+      .orderBy(checkins.date);
+  }
+
   // Message operations
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
     const [message] = await db
@@ -376,6 +588,40 @@ export class DatabaseStorage implements IStorage {
     return nutritionPlan;
   }
 
+  async getNutritionPlansByClientIds(clientIds: number[]): Promise<NutritionPlan[]> {
+    if (clientIds.length === 0) return [];
+    return db.select().from(nutritionPlans).where(inArray(nutritionPlans.clientId, clientIds));
+  }
+
+  // Nutrition log operations
+  async createNutritionLog(nutritionLog: InsertNutritionLog): Promise<NutritionLog> {
+    const [created] = await db.insert(nutritionLogs).values(nutritionLog).returning();
+    return created;
+  }
+
+  async getNutritionLogsByClientId(clientId: number): Promise<NutritionLog[]> {
+    return db
+      .select()
+      .from(nutritionLogs)
+      .where(eq(nutritionLogs.clientId, clientId))
+      .orderBy(desc(nutritionLogs.date));
+  }
+
+  async getNutritionLogsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<NutritionLog[]> {
+    if (clientIds.length === 0) return [];
+    return db
+      .select()
+      .from(nutritionLogs)
+      .where(
+        and(
+          inArray(nutritionLogs.clientId, clientIds),
+          gte(nutritionLogs.date, startDate.toISOString().split('T')[0]),
+          lte(nutritionLogs.date, endDate.toISOString().split('T')[0])
+        )
+      )
+      .orderBy(nutritionLogs.date);
+  }
+
   // Device integration operations
   async createDeviceIntegration(integration: InsertDeviceIntegration): Promise<DeviceIntegration> {
     const [createdIntegration] = await db
@@ -470,10 +716,59 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async createExercises(exerciseList: InsertExercise[]): Promise<Exercise[]> {
+    if (exerciseList.length === 0) return [];
+    return db.insert(exercises).values(exerciseList).returning();
+  }
+
   async getExercises(): Promise<Exercise[]> {
     return db.select().from(exercises).orderBy(exercises.name);
   }
 
+  async getVisibleExercises(userId: string): Promise<Exercise[]> {
+    return db
+      .select()
+      .from(exercises)
+      .where(or(eq(exercises.isPublic, true), eq(exercises.createdBy, userId)))
+      .orderBy(exercises.name);
+  }
+
+  async searchExercises(userId: string, search: ExerciseSearch): Promise<ExerciseSearchResult> {
+    // LIKE wildcards in the user's text are matched literally
+    const contains = (value: string) => `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+
+    const conditions: (SQL | undefined)[] = [
+      search.scope === 'mine' ? eq(exercises.createdBy, userId)
+        : search.scope === 'public' ? eq(exercises.isPublic, true)
+        : or(eq(exercises.isPublic, true), eq(exercises.createdBy, userId))
+    ];
+    if (search.search) {
+      conditions.push(or(
+        ilike(exercises.name, contains(search.search)),
+        sql`exists (select 1 from unnest(${exercises.tags}) as tag where tag ilike ${contains(search.search)})`
+      ));
+    }
+    if (search.muscleGroup) {
+      conditions.push(sql`exists (select 1 from unnest(${exercises.muscleGroups}) as muscle where lower(muscle) = ${search.muscleGroup.toLowerCase()})`);
+    }
+    if (search.equipment) conditions.push(ilike(exercises.equipment, contains(search.equipment)));
+    if (search.difficultyLevel) conditions.push(eq(exercises.difficultyLevel, search.difficultyLevel));
+    if (search.categoryId) conditions.push(eq(exercises.categoryId, search.categoryId));
+    const where = and(...conditions);
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(exercises)
+        .where(where)
+        .orderBy(exercises.name, exercises.id)
+        .limit(search.pageSize)
+        .offset((search.page - 1) * search.pageSize),
+      db.select({ total: sql<number>`count(*)::int` }).from(exercises).where(where)
+    ]);
+    return { exercises: rows, total, page: search.page, pageSize: search.pageSize };
+  }
+
   async getExercise(id: number): Promise<Exercise | undefined> {
     const [exercise] = await db.select().from(exercises).where(eq(exercises.id, id));
     return exercise;
@@ -492,6 +787,29 @@ export class DatabaseStorage implements IStorage {
     await db.delete(exercises).where(eq(exercises.id, id));
   }
 
+  // Exercise variation operations
+  async getExerciseVariationsByExerciseId(exerciseId: number): Promise<ExerciseVariation[]> {
+    return db
+      .select()
+      .from(exerciseVariations)
+      .where(eq(exerciseVariations.baseExerciseId, exerciseId))
+      .orderBy(exerciseVariations.difficultyModifier, exerciseVariations.name);
+  }
+
+  async getExerciseVariation(id: number): Promise<ExerciseVariation | undefined> {
+    const [variation] = await db.select().from(exerciseVariations).where(eq(exerciseVariations.id, id));
+    return variation;
+  }
+
+  async createExerciseVariation(variation: InsertExerciseVariation): Promise<ExerciseVariation> {
+    const [created] = await db.insert(exerciseVariations).values(variation).returning();
+    return created;
+  }
+
+  async deleteExerciseVariation(id: number): Promise<void> {
+    await db.delete(exerciseVariations).where(eq(exerciseVariations.id, id));
+  }
+
   // Exercise category operations
   async createExerciseCategory(category: InsertExerciseCategory): Promise<ExerciseCategory> {
     const [created] = await db.insert(exerciseCategories).values(category).returning();
@@ -539,6 +857,14 @@ export class DatabaseStorage implements IStorage {
     return program;
   }
 
+  async getProgramsByRootProgramId(rootProgramId: number): Promise<Program[]> {
+    return db
+      .select()
+      .from(programs)
+      .where(or(eq(programs.id, rootProgramId), eq(programs.rootProgramId, rootProgramId)))
+      .orderBy(programs.version);
+  }
+
   async updateProgram(id: number, program: Partial<InsertProgram>): Promise<Program> {
     const [updated] = await db
       .update(programs)
@@ -552,6 +878,59 @@ export class DatabaseStorage implements IStorage {
     await db.delete(programs).where(eq(programs.id, id));
   }
 
+  // Program template operations
+  async getProgramTemplates(userId: string): Promise<ProgramTemplate[]> {
+    return db
+      .select()
+      .from(programTemplates)
+      .where(or(eq(programTemplates.isPublic, true), eq(programTemplates.createdBy, userId)))
+      .orderBy(programTemplates.name);
+  }
+
+  async getProgramTemplate(id: number): Promise<ProgramTemplate | undefined> {
+    const [template] = await db.select().from(programTemplates).where(eq(programTemplates.id, id));
+    return template;
+  }
+
+  async getProgramTemplateByProgramId(programId: number): Promise<ProgramTemplate | undefined> {
+    const [template] = await db.select().from(programTemplates).where(eq(programTemplates.programId, programId));
+    return template;
+  }
+
+  async createProgramTemplate(template: InsertProgramTemplate): Promise<ProgramTemplate> {
+    const [created] = await db.insert(programTemplates).values(template).returning();
+    return created;
+  }
+
+  async updateProgramTemplate(id: number, template: Partial<InsertProgramTemplate>): Promise<ProgramTemplate> {
+    const [updated] = await db
+      .update(programTemplates)
+      .set({ ...template, updatedAt: new Date() })
+      .where(eq(programTemplates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteProgramTemplate(id: number): Promise<void> {
+    await db.delete(programTemplates).where(eq(programTemplates.id, id));
+  }
+
+  async getProgramTemplateRatingsByUserId(userId: string): Promise<ProgramTemplateRating[]> {
+    return db.select().from(programTemplateRatings).where(eq(programTemplateRatings.ratedBy, userId));
+  }
+
+  async upsertProgramTemplateRating(rating: InsertProgramTemplateRating): Promise<ProgramTemplateRating> {
+    const [saved] = await db
+      .insert(programTemplateRatings)
+      .values(rating)
+      .onConflictDoUpdate({
+        target: [programTemplateRatings.templateId, programTemplateRatings.ratedBy],
+        set: { rating: rating.rating, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
   // Workout operations
   async createWorkout(workout: InsertWorkout): Promise<Workout> {
     const [created] = await db.insert(workouts).values(workout).returning();
@@ -598,12 +977,36 @@ export class DatabaseStorage implements IStorage {
     await db.delete(workoutExercises).where(eq(workoutExercises.workoutId, workoutId));
   }
 
+  // Workout block operations
+  async createWorkoutBlock(block: InsertWorkoutBlock): Promise<WorkoutBlock> {
+    const [created] = await db.insert(workoutBlocks).values(block).returning();
+    return created;
+  }
+
+  async getWorkoutBlock(id: number): Promise<WorkoutBlock | undefined> {
+    const [block] = await db.select().from(workoutBlocks).where(eq(workoutBlocks.id, id));
+    return block;
+  }
+
+  async getWorkoutBlocksByWorkoutId(workoutId: number): Promise<WorkoutBlock[]> {
+    return db.select().from(workoutBlocks).where(eq(workoutBlocks.workoutId, workoutId)).orderBy(workoutBlocks.orderIndex);
+  }
+
+  async deleteWorkoutBlocksByWorkoutId(workoutId: number): Promise<void> {
+    await db.delete(workoutBlocks).where(eq(workoutBlocks.workoutId, workoutId));
+  }
+
   // Client program operations
   async assignProgramToClient(clientProgram: InsertClientProgram): Promise<ClientProgram> {
     const [created] = await db.insert(clientPrograms).values(clientProgram).returning();
     return created;
   }
 
+  async getClientProgram(id: number): Promise<ClientProgram | undefined> {
+    const [clientProgram] = await db.select().from(clientPrograms).where(eq(clientPrograms.id, id));
+    return clientProgram;
+  }
+
   async getClientPrograms(clientId: number): Promise<ClientProgram[]> {
     return db.select().from(clientPrograms).where(eq(clientPrograms.clientId, clientId)).orderBy(desc(clientPrograms.startDate));
   }
@@ -621,6 +1024,20 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getClientProgramsByProgramIds(programIds: number[]): Promise<ClientProgram[]> {
+    if (programIds.length === 0) return [];
+    return db.select().from(clientPrograms).where(inArray(clientPrograms.programId, programIds)).orderBy(desc(clientPrograms.startDate));
+  }
+
+  async updateClientProgram(id: number, clientProgram: Partial<InsertClientProgram>): Promise<ClientProgram> {
+    const [updated] = await db
+      .update(clientPrograms)
+      .set({ ...clientProgram, updatedAt: new Date() })
+      .where(eq(clientPrograms.id, id))
+      .returning();
+    return updated;
+  }
+
   // Workout log operations
   async createWorkoutLog(workoutLog: InsertWorkoutLog): Promise<WorkoutLog> {
     const [created] = await db.insert(workoutLogs).values(workoutLog).returning();
@@ -631,6 +1048,21 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(workoutLogs).where(eq(workoutLogs.clientId, clientId)).orderBy(desc(workoutLogs.date));
   }
 
+  async getWorkoutLogsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<WorkoutLog[]> {
+    if (clientIds.length === 0) return [];
+    return db
+      .select()
+      .from(workoutLogs)
+      .where(
+        and(
+          inArray(workoutLogs.clientId, clientIds),
+          gte(workoutLogs.date, startDate.toISOString().split('T')[0]),
+          lte(workoutLogs.date, endDate.toISOString().split('T')[0])
+        )
+      )
+      .orderBy(desc(workoutLogs.date));
+  }
+
   async updateWorkoutLog(id: number, workoutLog: Partial<InsertWorkoutLog>): Promise<WorkoutLog> {
     const [updated] = await db
       .update(workoutLogs)
@@ -649,6 +1081,423 @@ export class DatabaseStorage implements IStorage {
   async getExerciseLogsByWorkoutLogId(workoutLogId: number): Promise<ExerciseLog[]> {
     return db.select().from(exerciseLogs).where(eq(exerciseLogs.workoutLogId, workoutLogId)).orderBy(exerciseLogs.orderIndex);
   }
+
+  async getExerciseLogsByWorkoutLogIds(workoutLogIds: number[]): Promise<ExerciseLog[]> {
+    if (workoutLogIds.length === 0) return [];
+    return db.select().from(exerciseLogs).where(inArray(exerciseLogs.workoutLogId, workoutLogIds)).orderBy(exerciseLogs.orderIndex);
+  }
+
+  // Workout assignment operations
+  async getWorkoutAssignment(id: number): Promise<WorkoutAssignment | undefined> {
+    const [assignment] = await db.select().from(workoutAssignments).where(eq(workoutAssignments.id, id));
+    return assignment;
+  }
+
+  async getWorkoutAssignmentsByClientIdsAndDateRange(clientIds: string[], startDate: Date, endDate: Date): Promise<WorkoutAssignment[]> {
+    if (clientIds.length === 0) return [];
+    return db
+      .select()
+      .from(workoutAssignments)
+      .where(
+        and(
+          inArray(workoutAssignments.clientId, clientIds),
+          gte(workoutAssignments.scheduledDate, startDate.toISOString().split('T')[0]),
+          lte(workoutAssignments.scheduledDate, endDate.toISOString().split('T')[0])
+        )
+      )
+      .orderBy(workoutAssignments.scheduledDate);
+  }
+
+  async getWorkoutAssignmentsByClientProgramId(clientProgramId: number): Promise<WorkoutAssignment[]> {
+    return db
+      .select()
+      .from(workoutAssignments)
+      .where(eq(workoutAssignments.clientProgramId, clientProgramId))
+      .orderBy(workoutAssignments.scheduledDate, workoutAssignments.weekNumber, workoutAssignments.dayNumber);
+  }
+
+  async createWorkoutAssignment(assignment: InsertWorkoutAssignment): Promise<WorkoutAssignment> {
+    const [created] = await db.insert(workoutAssignments).values(assignment).returning();
+    return created;
+  }
+
+  async updateWorkoutAssignment(id: number, assignment: Partial<WorkoutAssignment>): Promise<WorkoutAssignment> {
+    const [updated] = await db
+      .update(workoutAssignments)
+      .set(assignment)
+      .where(eq(workoutAssignments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteWorkoutAssignment(id: number): Promise<void> {
+    await db.delete(workoutAssignments).where(eq(workoutAssignments.id, id));
+  }
+
+  // Workout session operations
+  async getWorkoutSession(id: number): Promise<WorkoutSession | undefined> {
+    const [session] = await db.select().from(workoutSessions).where(eq(workoutSessions.id, id));
+    return session;
+  }
+
+  async getWorkoutSessionByClientSessionId(clientSessionId: string): Promise<WorkoutSession | undefined> {
+    const [session] = await db.select().from(workoutSessions).where(eq(workoutSessions.clientSessionId, clientSessionId));
+    return session;
+  }
+
+  async createWorkoutSession(session: InsertWorkoutSession): Promise<WorkoutSession> {
+    const [created] = await db.insert(workoutSessions).values(session).returning();
+    return created;
+  }
+
+  async getWorkoutSessionsByClientId(clientId: string, statuses?: string[]): Promise<WorkoutSession[]> {
+    return await db
+      .select()
+      .from(workoutSessions)
+      .where(statuses?.length
+        ? and(eq(workoutSessions.clientId, clientId), inArray(workoutSessions.status, statuses))
+        : eq(workoutSessions.clientId, clientId))
+      .orderBy(desc(workoutSessions.createdAt));
+  }
+
+  async getWorkoutSessionsByWorkoutAssignmentId(workoutAssignmentId: number): Promise<WorkoutSession[]> {
+    return db
+      .select()
+      .from(workoutSessions)
+      .where(eq(workoutSessions.workoutAssignmentId, workoutAssignmentId))
+      .orderBy(desc(workoutSessions.createdAt));
+  }
+
+  async updateWorkoutSession(id: number, session: Partial<WorkoutSession>): Promise<WorkoutSession> {
+    const [updated] = await db
+      .update(workoutSessions)
+      .set({ ...session, updatedAt: new Date() })
+      .where(eq(workoutSessions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getClientWorkoutPreferences(clientId: string): Promise<ClientWorkoutPreferences | undefined> {
+    const [preferences] = await db.select().from(clientWorkoutPreferences).where(eq(clientWorkoutPreferences.clientId, clientId));
+    return preferences;
+  }
+
+  async upsertClientWorkoutPreferences(clientId: string, preferences: Partial<ClientWorkoutPreferences>): Promise<ClientWorkoutPreferences> {
+    const [saved] = await db
+      .insert(clientWorkoutPreferences)
+      .values({ ...preferences, clientId })
+      .onConflictDoUpdate({
+        target: clientWorkoutPreferences.clientId,
+        set: { ...preferences, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  // Equipment profile operations
+  async getEquipmentProfile(id: number): Promise<EquipmentProfile | undefined> {
+    const [profile] = await db.select().from(equipmentProfiles).where(eq(equipmentProfiles.id, id));
+    return profile;
+  }
+
+  async getEquipmentProfilesByClientIds(clientIds: string[]): Promise<EquipmentProfile[]> {
+    if (clientIds.length === 0) return [];
+    return db
+      .select()
+      .from(equipmentProfiles)
+      .where(inArray(equipmentProfiles.clientId, clientIds))
+      .orderBy(equipmentProfiles.name);
+  }
+
+  async createEquipmentProfile(profile: InsertEquipmentProfile): Promise<EquipmentProfile> {
+    const [created] = await db.insert(equipmentProfiles).values(profile).returning();
+    return created;
+  }
+
+  async updateEquipmentProfile(id: number, profile: Partial<InsertEquipmentProfile>): Promise<EquipmentProfile> {
+    const [updated] = await db
+      .update(equipmentProfiles)
+      .set({ ...profile, updatedAt: new Date() })
+      .where(eq(equipmentProfiles.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteEquipmentProfile(id: number): Promise<void> {
+    await db.delete(equipmentProfiles).where(eq(equipmentProfiles.id, id));
+  }
+
+  // Exercise set operations
+  async getExerciseSet(id: number): Promise<ExerciseSet | undefined> {
+    const [exerciseSet] = await db.select().from(exerciseSets).where(eq(exerciseSets.id, id));
+    return exerciseSet;
+  }
+
+  async getExerciseSetsByIds(ids: number[]): Promise<ExerciseSet[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(exerciseSets).where(inArray(exerciseSets.id, ids));
+  }
+
+  async createExerciseSet(exerciseSet: InsertExerciseSet): Promise<ExerciseSet> {
+    const [created] = await db.insert(exerciseSets).values(exerciseSet).returning();
+    return created;
+  }
+
+  async updateExerciseSet(id: number, exerciseSet: Partial<ExerciseSet>): Promise<ExerciseSet> {
+    const [updated] = await db
+      .update(exerciseSets)
+      .set(exerciseSet)
+      .where(eq(exerciseSets.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getExerciseSetsByClientIdAndExerciseId(clientId: string, exerciseId: number): Promise<ExerciseSet[]> {
+    const rows = await db
+      .select({ exerciseSet: exerciseSets })
+      .from(exerciseSets)
+      .innerJoin(workoutSessions, eq(exerciseSets.workoutSessionId, workoutSessions.id))
+      .where(and(eq(workoutSessions.clientId, clientId), eq(exerciseSets.exerciseId, exerciseId)))
+      .orderBy(desc(exerciseSets.completedAt));
+    return rows.map(row => row.exerciseSet);
+  }
+
+  async getExerciseSetsByClientIdAndExerciseIdAndDateRange(clientId: string, exerciseId: number, startDate: Date, endDate: Date): Promise<ExerciseSet[]> {
+    const rows = await db
+      .select({ exerciseSet: exerciseSets })
+      .from(exerciseSets)
+      .innerJoin(workoutSessions, eq(exerciseSets.workoutSessionId, workoutSessions.id))
+      .where(
+        and(
+          eq(workoutSessions.clientId, clientId),
+          eq(exerciseSets.exerciseId, exerciseId),
+          gte(exerciseSets.completedAt, startDate),
+          lte(exerciseSets.completedAt, endDate)
+        )
+      )
+      .orderBy(desc(exerciseSets.completedAt));
+    return rows.map(row => row.exerciseSet);
+  }
+
+  async getExerciseSetsByClientIdAndDateRange(clientId: string, startDate: Date, endDate: Date): Promise<ExerciseSet[]> {
+    const rows = await db
+      .select({ exerciseSet: exerciseSets })
+      .from(exerciseSets)
+      .innerJoin(workoutSessions, eq(exerciseSets.workoutSessionId, workoutSessions.id))
+      .where(
+        and(
+          eq(workoutSessions.clientId, clientId),
+          gte(exerciseSets.completedAt, startDate),
+          lte(exerciseSets.completedAt, endDate)
+        )
+      )
+      .orderBy(desc(exerciseSets.completedAt));
+    return rows.map(row => row.exerciseSet);
+  }
+
+  async getExerciseSetByClientSetId(clientSetId: string): Promise<ExerciseSet | undefined> {
+    const [exerciseSet] = await db.select().from(exerciseSets).where(eq(exerciseSets.clientSetId, clientSetId));
+    return exerciseSet;
+  }
+
+  async getExerciseSetsByWorkoutSessionId(workoutSessionId: number): Promise<ExerciseSet[]> {
+    return await db
+      .select()
+      .from(exerciseSets)
+      .where(eq(exerciseSets.workoutSessionId, workoutSessionId))
+      .orderBy(exerciseSets.completedAt);
+  }
+
+  // Form review operations
+  async getFormReview(id: number): Promise<FormReview | undefined> {
+    const [review] = await db.select().from(formReviews).where(eq(formReviews.id, id));
+    return review;
+  }
+
+  async getFormReviewByExerciseSetId(exerciseSetId: number): Promise<FormReview | undefined> {
+    const [review] = await db.select().from(formReviews).where(eq(formReviews.exerciseSetId, exerciseSetId));
+    return review;
+  }
+
+  async getFormReviewsByClientIds(clientIds: string[], status?: string): Promise<FormReview[]> {
+    if (clientIds.length === 0) return [];
+    return db
+      .select()
+      .from(formReviews)
+      .where(and(inArray(formReviews.clientId, clientIds), status ? eq(formReviews.status, status) : undefined))
+      .orderBy(desc(formReviews.createdAt));
+  }
+
+  async createFormReview(review: InsertFormReview): Promise<FormReview> {
+    const [created] = await db.insert(formReviews).values(review).returning();
+    return created;
+  }
+
+  async updateFormReview(id: number, review: Partial<FormReview>): Promise<FormReview> {
+    const [updated] = await db
+      .update(formReviews)
+      .set({ ...review, updatedAt: new Date() })
+      .where(eq(formReviews.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getFormReviewComment(id: number): Promise<FormReviewComment | undefined> {
+    const [comment] = await db.select().from(formReviewComments).where(eq(formReviewComments.id, id));
+    return comment;
+  }
+
+  async getFormReviewComments(formReviewId: number): Promise<FormReviewComment[]> {
+    return db
+      .select()
+      .from(formReviewComments)
+      .where(eq(formReviewComments.formReviewId, formReviewId))
+      .orderBy(formReviewComments.timestampMs, formReviewComments.id);
+  }
+
+  async createFormReviewComment(comment: InsertFormReviewComment): Promise<FormReviewComment> {
+    const [created] = await db.insert(formReviewComments).values(comment).returning();
+    return created;
+  }
+
+  async deleteFormReviewComment(id: number): Promise<void> {
+    await db.delete(formReviewComments).where(eq(formReviewComments.id, id));
+  }
+
+  // Block result operations
+  async createBlockResult(result: InsertBlockResult): Promise<BlockResult> {
+    const [created] = await db.insert(blockResults).values(result).returning();
+    return created;
+  }
+
+  async getBlockResultByClientResultId(clientResultId: string): Promise<BlockResult | undefined> {
+    const [result] = await db.select().from(blockResults).where(eq(blockResults.clientResultId, clientResultId));
+    return result;
+  }
+
+  async getBlockResultsByWorkoutSessionId(workoutSessionId: number): Promise<BlockResult[]> {
+    return await db
+      .select()
+      .from(blockResults)
+      .where(eq(blockResults.workoutSessionId, workoutSessionId))
+      .orderBy(blockResults.completedAt);
+  }
+
+  // Exercise substitution operations
+  async createExerciseSubstitution(substitution: InsertExerciseSubstitution): Promise<ExerciseSubstitution> {
+    const [created] = await db.insert(exerciseSubstitutions).values(substitution).returning();
+    return created;
+  }
+
+  async getExerciseSubstitutionsByWorkoutSessionId(workoutSessionId: number): Promise<ExerciseSubstitution[]> {
+    return db
+      .select()
+      .from(exerciseSubstitutions)
+      .where(eq(exerciseSubstitutions.workoutSessionId, workoutSessionId))
+      .orderBy(exerciseSubstitutions.createdAt);
+  }
+
+  // Personal record operations
+  async getPersonalRecord(id: number): Promise<PersonalRecord | undefined> {
+    const [record] = await db.select().from(personalRecords).where(eq(personalRecords.id, id));
+    return record;
+  }
+
+  async getPersonalRecordsByClientId(clientId: string): Promise<PersonalRecord[]> {
+    return db
+      .select()
+      .from(personalRecords)
+      .where(eq(personalRecords.clientId, clientId))
+      .orderBy(desc(personalRecords.dateAchieved), desc(personalRecords.createdAt));
+  }
+
+  async createPersonalRecord(record: InsertPersonalRecord): Promise<PersonalRecord> {
+    const [created] = await db.insert(personalRecords).values(record).returning();
+    return created;
+  }
+
+  async updatePersonalRecord(id: number, record: Partial<InsertPersonalRecord>): Promise<PersonalRecord> {
+    const [updated] = await db
+      .update(personalRecords)
+      .set(record)
+      .where(eq(personalRecords.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Compliance settings operations
+  async getComplianceSettings(coachId: string): Promise<ComplianceSettings | undefined> {
+    const [settings] = await db.select().from(complianceSettings).where(eq(complianceSettings.coachId, coachId));
+    return settings;
+  }
+
+  async upsertComplianceSettings(settings: InsertComplianceSettings): Promise<ComplianceSettings> {
+    const [saved] = await db
+      .insert(complianceSettings)
+      .values(settings)
+      .onConflictDoUpdate({
+        target: complianceSettings.coachId,
+        set: { ...settings, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  // At-risk alert operations
+  async getAlertSettings(coachId: string): Promise<AlertSettings | undefined> {
+    const [settings] = await db.select().from(alertSettings).where(eq(alertSettings.coachId, coachId));
+    return settings;
+  }
+
+  async upsertAlertSettings(settings: InsertAlertSettings): Promise<AlertSettings> {
+    const [saved] = await db
+      .insert(alertSettings)
+      .values(settings)
+      .onConflictDoUpdate({
+        target: alertSettings.coachId,
+        set: { ...settings, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getClientAlertsByCoachId(coachId: string): Promise<ClientAlert[]> {
+    return db.select().from(clientAlerts).where(eq(clientAlerts.coachId, coachId));
+  }
+
+  async upsertClientAlert(alert: InsertClientAlert): Promise<ClientAlert> {
+    const [saved] = await db
+      .insert(clientAlerts)
+      .values(alert)
+      .onConflictDoUpdate({
+        target: [clientAlerts.coachId, clientAlerts.clientId, clientAlerts.rule],
+        set: { status: alert.status, snoozedUntil: alert.snoozedUntil ?? null, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteClientAlert(id: number): Promise<void> {
+    await db.delete(clientAlerts).where(eq(clientAlerts.id, id));
+  }
+
+  // Training volume operations
+  async getVolumeTargetSettings(coachId: string): Promise<VolumeTargetSettings | undefined> {
+    const [settings] = await db.select().from(volumeTargetSettings).where(eq(volumeTargetSettings.coachId, coachId));
+    return settings;
+  }
+
+  async upsertVolumeTargetSettings(settings: InsertVolumeTargetSettings): Promise<VolumeTargetSettings> {
+    const [saved] = await db
+      .insert(volumeTargetSettings)
+      .values(settings)
+      .onConflictDoUpdate({
+        target: volumeTargetSettings.coachId,
+        set: { ...settings, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
 }
 
 export const storage = new DatabaseStorage();
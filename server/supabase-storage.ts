@@ -11,13 +11,34 @@ import {
   type Message, type InsertMessage,
   type NutritionPlan, type InsertNutritionPlan,
   type DeviceIntegration, type InsertDeviceIntegration,
-  type Exercise, type InsertExercise,
+  type Exercise, type InsertExercise, type ExerciseSearch, type ExerciseSearchResult,
   type ExerciseCategory, type InsertExerciseCategory,
+  type ExerciseVariation, type InsertExerciseVariation,
+  type ExerciseSubstitution, type InsertExerciseSubstitution,
   type Program, type InsertProgram,
+  type ProgramTemplate, type InsertProgramTemplate,
+  type ProgramTemplateRating, type InsertProgramTemplateRating,
   type Workout, type InsertWorkout,
   type ClientProgram, type InsertClientProgram,
   type WorkoutLog, type InsertWorkoutLog,
-  type ExerciseLog, type InsertExerciseLog
+  type ExerciseLog, type InsertExerciseLog,
+  type CoachClient,
+  type WorkoutAssignment,
+  type InsertWorkoutAssignment,
+  type WorkoutSession, type InsertWorkoutSession,
+  type ExerciseSet, type InsertExerciseSet,
+  type WorkoutBlock, type InsertWorkoutBlock,
+  type BlockResult, type InsertBlockResult,
+  type PersonalRecord, type InsertPersonalRecord,
+  type ClientWorkoutPreferences,
+  type EquipmentProfile, type InsertEquipmentProfile,
+  type FormReview, type InsertFormReview,
+  type FormReviewComment, type InsertFormReviewComment,
+  type NutritionLog, type InsertNutritionLog,
+  type ComplianceSettings, type InsertComplianceSettings,
+  type AlertSettings, type InsertAlertSettings,
+  type ClientAlert, type InsertClientAlert,
+  type VolumeTargetSettings, type InsertVolumeTargetSettings
 } from "@shared/schema";
 
 /**
@@ -169,6 +190,17 @@ export class SupabaseStorage implements IStorage {
     return this.fromDb<User>(data);
   }
 
+  async getUsersByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('*')
+      .in('id', ids);
+
+    if (error) throw error;
+    return data ? this.fromDbArray<User>(data) : [];
+  }
+
   // Client operations
   async getClient(id: number): Promise<Client | undefined> {
     const { data, error } = await this.supabase
@@ -229,6 +261,17 @@ export class SupabaseStorage implements IStorage {
     return this.fromDb<Client>(data);
   }
 
+  async getClientsByUserIds(userIds: string[]): Promise<Client[]> {
+    if (userIds.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('clients')
+      .select('*')
+      .in(this.k('userId'), userIds);
+
+    if (error) throw error;
+    return data ? this.fromDbArray<Client>(data) : [];
+  }
+
   // Coach operations
   async getCoach(id: number): Promise<Coach | undefined> {
     const { data, error } = await this.supabase
@@ -269,6 +312,32 @@ export class SupabaseStorage implements IStorage {
     return this.fromDb<Coach>(data);
   }
 
+  // Coach-client relationship operations
+  async getCoachClientsByCoachId(coachId: string, status?: 'active' | 'paused' | 'ended'): Promise<CoachClient[]> {
+    let query = this.supabase
+      .from('coach_clients')
+      .select('*')
+      .eq(this.k('coachId'), coachId);
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data ? this.fromDbArray<CoachClient>(data) : [];
+  }
+
+  async getCoachClientsByClientId(clientId: string): Promise<CoachClient[]> {
+    const { data, error } = await this.supabase
+      .from('coach_clients')
+      .select('*')
+      .eq(this.k('clientId'), clientId);
+
+    if (error) throw error;
+    return data ? this.fromDbArray<CoachClient>(data) : [];
+  }
+
   // Weight log operations with RLS enforcement
   async createWeightLog(weightLog: InsertWeightLog): Promise<WeightLog> {
     const { data, error } = await this.supabase
@@ -305,6 +374,20 @@ export class SupabaseStorage implements IStorage {
     return data ? this.fromDbArray<WeightLog>(data) : [];
   }
 
+  async getWeightLogsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<WeightLog[]> {
+    if (clientIds.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('weight_logs')
+      .select('*')
+      .in(this.k('clientId'), clientIds)
+      .gte('date', startDate.toISOString().split('T')[0])
+      .lte('date', endDate.toISOString().split('T')[0])
+      .order('date', { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<WeightLog>(data) : [];
+  }
+
   // Progress photo operations
   async createProgressPhoto(progressPhoto: InsertProgressPhoto): Promise<ProgressPhoto> {
     const { data, error } = await this.supabase
@@ -328,6 +411,20 @@ export class SupabaseStorage implements IStorage {
     return data ? this.fromDbArray<ProgressPhoto>(data) : [];
   }
 
+  async getProgressPhotosByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<ProgressPhoto[]> {
+    if (clientIds.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('progress_photos')
+      .select('*')
+      .in(this.k('clientId'), clientIds)
+      .gte('date', startDate.toISOString().split('T')[0])
+      .lte('date', endDate.toISOString().split('T')[0])
+      .order('date', { ascending: false });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ProgressPhoto>(data) : [];
+  }
+
   // Check-in operations
   async createCheckin(checkin: InsertCheckin): Promise<Checkin> {
     const { data, error } = await this.supabase
@@ -377,6 +474,20 @@ export class SupabaseStorage implements IStorage {
     return this.fromDb<Checkin>(data);
   }
 
+  async getCheckinsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<Checkin[]> {
+    if (clientIds.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('checkins')
+      .select('*')
+      .in(this.k('clientId'), clientIds)
+      .gte('date', startDate.toISOString().split('T')[0])
+      .lte('date', endDate.toISOString().split('T')[0])
+      .order('date', { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<Checkin>(data) : [];
+  }
+
   // Message operations
   async createMessage(message: InsertMessage): Promise<Message> {
     const { data, error } = await this.supabase
@@ -460,6 +571,54 @@ export class SupabaseStorage implements IStorage {
     return data ? this.fromDb<NutritionPlan>(data) : undefined;
   }
 
+  async getNutritionPlansByClientIds(clientIds: number[]): Promise<NutritionPlan[]> {
+    if (clientIds.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('nutrition_plans')
+      .select('*')
+      .in(this.k('clientId'), clientIds);
+
+    if (error) throw error;
+    return data ? this.fromDbArray<NutritionPlan>(data) : [];
+  }
+
+  // Nutrition log operations
+  async createNutritionLog(nutritionLog: InsertNutritionLog): Promise<NutritionLog> {
+    const { data, error } = await this.supabase
+      .from('nutrition_logs')
+      .insert(this.toDb(nutritionLog))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<NutritionLog>(data);
+  }
+
+  async getNutritionLogsByClientId(clientId: number): Promise<NutritionLog[]> {
+    const { data, error } = await this.supabase
+      .from('nutrition_logs')
+      .select('*')
+      .eq(this.k('clientId'), clientId)
+      .order('date', { ascending: false });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<NutritionLog>(data) : [];
+  }
+
+  async getNutritionLogsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<NutritionLog[]> {
+    if (clientIds.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('nutrition_logs')
+      .select('*')
+      .in(this.k('clientId'), clientIds)
+      .gte('date', startDate.toISOString().split('T')[0])
+      .lte('date', endDate.toISOString().split('T')[0])
+      .order('date', { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<NutritionLog>(data) : [];
+  }
+
   // Device integration operations
   async createDeviceIntegration(integration: InsertDeviceIntegration): Promise<DeviceIntegration> {
     const { data, error } = await this.supabase
@@ -575,6 +734,17 @@ export class SupabaseStorage implements IStorage {
     return this.fromDb<Exercise>(data);
   }
 
+  async createExercises(exercises: InsertExercise[]): Promise<Exercise[]> {
+    if (exercises.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('exercises')
+      .insert(exercises.map(exercise => this.toDb(exercise)))
+      .select();
+
+    if (error) throw error;
+    return data ? this.fromDbArray<Exercise>(data) : [];
+  }
+
   async getExercises(): Promise<Exercise[]> {
     const { data, error } = await this.supabase
       .from('exercises')
@@ -584,6 +754,57 @@ export class SupabaseStorage implements IStorage {
     return data ? this.fromDbArray<Exercise>(data) : [];
   }
 
+  async getVisibleExercises(userId: string): Promise<Exercise[]> {
+    const { data, error } = await this.supabase
+      .from('exercises')
+      .select('*')
+      .or(`${this.k('isPublic')}.eq.true,${this.k('createdBy')}.eq.${userId}`)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<Exercise>(data) : [];
+  }
+
+  async searchExercises(userId: string, search: ExerciseSearch): Promise<ExerciseSearchResult> {
+    // Characters that PostgREST filters or LIKE patterns treat specially are dropped from the user's text,
+    // as is the '|' that delimits entries in the exercise_*_search computed fields
+    const clean = (value?: string) => (value ?? '').replace(/[%_\\",(){}*|]/g, '').trim();
+    const from = (search.page - 1) * search.pageSize;
+
+    let query = this.supabase
+      .from('exercises')
+      .select('*', { count: 'exact' });
+    if (search.scope === 'mine') {
+      query = query.eq(this.k('createdBy'), userId);
+    } else if (search.scope === 'public') {
+      query = query.eq(this.k('isPublic'), true);
+    } else {
+      query = query.or(`${this.k('isPublic')}.eq.true,${this.k('createdBy')}.eq.${userId}`);
+    }
+
+    const text = clean(search.search);
+    // Same matching as the database storage: partial tags, whole muscle group, ignoring case
+    if (text) query = query.or(`name.ilike.%${text}%,exercise_tag_search.ilike.%${text}%`);
+    const muscleGroup = clean(search.muscleGroup);
+    if (muscleGroup) query = query.ilike('exercise_muscle_search', `%|${muscleGroup}|%`);
+    const equipment = clean(search.equipment);
+    if (equipment) query = query.ilike('equipment', `%${equipment}%`);
+    if (search.difficultyLevel) query = query.eq(this.k('difficultyLevel'), search.difficultyLevel);
+    if (search.categoryId) query = query.eq(this.k('categoryId'), search.categoryId);
+
+    const { data, error, count } = await query
+      .order('name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + search.pageSize - 1);
+
+    const empty = { exercises: [], total: count ?? 0, page: search.page, pageSize: search.pageSize };
+    if (error) {
+      if (error.code === 'PGRST103') return empty; // Page past the last result
+      throw error;
+    }
+    return { ...empty, exercises: data ? this.fromDbArray<Exercise>(data) : [] };
+  }
+
   async getExercise(id: number): Promise<Exercise | undefined> {
     const { data, error } = await this.supabase
       .from('exercises')
@@ -619,6 +840,53 @@ export class SupabaseStorage implements IStorage {
     if (error) throw error;
   }
 
+  // Exercise variation operations
+  async getExerciseVariationsByExerciseId(exerciseId: number): Promise<ExerciseVariation[]> {
+    const { data, error } = await this.supabase
+      .from('exercise_variations')
+      .select('*')
+      .eq(this.k('baseExerciseId'), exerciseId)
+      .order(this.k('difficultyModifier'), { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ExerciseVariation>(data) : [];
+  }
+
+  async getExerciseVariation(id: number): Promise<ExerciseVariation | undefined> {
+    const { data, error } = await this.supabase
+      .from('exercise_variations')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return this.fromDb<ExerciseVariation>(data);
+  }
+
+  async createExerciseVariation(variation: InsertExerciseVariation): Promise<ExerciseVariation> {
+    const { data, error } = await this.supabase
+      .from('exercise_variations')
+      .insert(this.toDb(variation))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ExerciseVariation>(data);
+  }
+
+  async deleteExerciseVariation(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('exercise_variations')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
   // Exercise category operations
   async createExerciseCategory(category: InsertExerciseCategory): Promise<ExerciseCategory> {
     const { data, error } = await this.supabase
@@ -722,6 +990,17 @@ export class SupabaseStorage implements IStorage {
     return data ? this.fromDb<Program>(data) : undefined;
   }
 
+  async getProgramsByRootProgramId(rootProgramId: number): Promise<Program[]> {
+    const { data, error } = await this.supabase
+      .from('programs')
+      .select('*')
+      .or(`id.eq.${rootProgramId},${this.k('rootProgramId')}.eq.${rootProgramId}`)
+      .order('version', { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<Program>(data) : [];
+  }
+
   async updateProgram(id: number, program: Partial<InsertProgram>): Promise<Program> {
     const { data, error } = await this.supabase
       .from('programs')
@@ -743,6 +1022,102 @@ export class SupabaseStorage implements IStorage {
     if (error) throw error;
   }
 
+  // Program template operations
+  async getProgramTemplates(userId: string): Promise<ProgramTemplate[]> {
+    const { data, error } = await this.supabase
+      .from('program_templates')
+      .select('*')
+      .or(`${this.k('isPublic')}.eq.true,${this.k('createdBy')}.eq.${userId}`)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ProgramTemplate>(data) : [];
+  }
+
+  async getProgramTemplate(id: number): Promise<ProgramTemplate | undefined> {
+    const { data, error } = await this.supabase
+      .from('program_templates')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<ProgramTemplate>(data) : undefined;
+  }
+
+  async getProgramTemplateByProgramId(programId: number): Promise<ProgramTemplate | undefined> {
+    const { data, error } = await this.supabase
+      .from('program_templates')
+      .select('*')
+      .eq(this.k('programId'), programId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<ProgramTemplate>(data) : undefined;
+  }
+
+  async createProgramTemplate(template: InsertProgramTemplate): Promise<ProgramTemplate> {
+    const { data, error } = await this.supabase
+      .from('program_templates')
+      .insert(this.toDb(template))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ProgramTemplate>(data);
+  }
+
+  async updateProgramTemplate(id: number, template: Partial<InsertProgramTemplate>): Promise<ProgramTemplate> {
+    const { data, error } = await this.supabase
+      .from('program_templates')
+      .update(this.toDb({ ...template, updatedAt: new Date() }))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ProgramTemplate>(data);
+  }
+
+  async deleteProgramTemplate(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('program_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async getProgramTemplateRatingsByUserId(userId: string): Promise<ProgramTemplateRating[]> {
+    const { data, error } = await this.supabase
+      .from('program_template_ratings')
+      .select('*')
+      .eq(this.k('ratedBy'), userId);
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ProgramTemplateRating>(data) : [];
+  }
+
+  async upsertProgramTemplateRating(rating: InsertProgramTemplateRating): Promise<ProgramTemplateRating> {
+    const { data, error } = await this.supabase
+      .from('program_template_ratings')
+      .upsert(
+        this.toDb({ ...rating, updatedAt: new Date() }),
+        { onConflict: [this.k('templateId'), this.k('ratedBy')].join(',') }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ProgramTemplateRating>(data);
+  }
+
   // Workout operations
   async createWorkout(workout: InsertWorkout): Promise<Workout> {
     const { data, error } = await this.supabase
@@ -840,43 +1215,57 @@ export class SupabaseStorage implements IStorage {
     if (error) throw error;
   }
 
-  // Client program operations
-  async assignProgramToClient(clientProgram: InsertClientProgram): Promise<ClientProgram> {
+  // Workout block operations
+  async createWorkoutBlock(block: InsertWorkoutBlock): Promise<WorkoutBlock> {
     const { data, error } = await this.supabase
-      .from('client_programs')
-      .insert(this.toDb(clientProgram))
+      .from('workout_blocks')
+      .insert(this.toDb(block))
       .select()
       .single();
 
     if (error) throw error;
-    return this.fromDb<ClientProgram>(data);
+    return this.fromDb<WorkoutBlock>(data);
   }
 
-  async getClientPrograms(clientId: number): Promise<ClientProgram[]> {
+  async getWorkoutBlock(id: number): Promise<WorkoutBlock | undefined> {
     const { data, error } = await this.supabase
-      .from('client_programs')
+      .from('workout_blocks')
       .select('*')
-      .eq(this.k('clientId'), clientId);
+      .eq('id', id)
+      .single();
 
-    if (error) throw error;
-    return data ? this.fromDbArray<ClientProgram>(data) : [];
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<WorkoutBlock>(data) : undefined;
   }
 
-  async getClientProgramsByCoachId(coachId: string): Promise<ClientProgram[]> {
+  async getWorkoutBlocksByWorkoutId(workoutId: number): Promise<WorkoutBlock[]> {
     const { data, error } = await this.supabase
-      .from('client_programs')
+      .from('workout_blocks')
       .select('*')
-      .eq(this.k('assignedBy'), coachId);
+      .eq(this.k('workoutId'), workoutId)
+      .order(this.k('orderIndex'), { ascending: true });
 
     if (error) throw error;
-    return data ? this.fromDbArray<ClientProgram>(data) : [];
+    return data ? this.fromDbArray<WorkoutBlock>(data) : [];
   }
 
-  async updateClientProgramStatus(id: number, status: string): Promise<ClientProgram> {
+  async deleteWorkoutBlocksByWorkoutId(workoutId: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('workout_blocks')
+      .delete()
+      .eq(this.k('workoutId'), workoutId);
+
+    if (error) throw error;
+  }
+
+  // Client program operations
+  async assignProgramToClient(clientProgram: InsertClientProgram): Promise<ClientProgram> {
     const { data, error } = await this.supabase
       .from('client_programs')
-      .update(this.toDb({ status }))
-      .eq('id', id)
+      .insert(this.toDb(clientProgram))
       .select()
       .single();
 
@@ -884,11 +1273,81 @@ export class SupabaseStorage implements IStorage {
     return this.fromDb<ClientProgram>(data);
   }
 
-  // Workout log operations
-  async createWorkoutLog(workoutLog: InsertWorkoutLog): Promise<WorkoutLog> {
+  async getClientProgram(id: number): Promise<ClientProgram | undefined> {
     const { data, error } = await this.supabase
-      .from('workout_logs')
-      .insert(this.toDb(workoutLog))
+      .from('client_programs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return this.fromDb<ClientProgram>(data);
+  }
+
+  async getClientPrograms(clientId: number): Promise<ClientProgram[]> {
+    const { data, error } = await this.supabase
+      .from('client_programs')
+      .select('*')
+      .eq(this.k('clientId'), clientId);
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ClientProgram>(data) : [];
+  }
+
+  async getClientProgramsByCoachId(coachId: string): Promise<ClientProgram[]> {
+    const { data, error } = await this.supabase
+      .from('client_programs')
+      .select('*')
+      .eq(this.k('assignedBy'), coachId);
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ClientProgram>(data) : [];
+  }
+
+  async updateClientProgramStatus(id: number, status: string): Promise<ClientProgram> {
+    const { data, error } = await this.supabase
+      .from('client_programs')
+      .update(this.toDb({ status }))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ClientProgram>(data);
+  }
+
+  async getClientProgramsByProgramIds(programIds: number[]): Promise<ClientProgram[]> {
+    if (programIds.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('client_programs')
+      .select('*')
+      .in(this.k('programId'), programIds)
+      .order(this.k('startDate'), { ascending: false });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ClientProgram>(data) : [];
+  }
+
+  async updateClientProgram(id: number, clientProgram: Partial<InsertClientProgram>): Promise<ClientProgram> {
+    const { data, error } = await this.supabase
+      .from('client_programs')
+      .update(this.toDb({ ...clientProgram, updatedAt: new Date() }))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ClientProgram>(data);
+  }
+
+  // Workout log operations
+  async createWorkoutLog(workoutLog: InsertWorkoutLog): Promise<WorkoutLog> {
+    const { data, error } = await this.supabase
+      .from('workout_logs')
+      .insert(this.toDb(workoutLog))
       .select()
       .single();
 
@@ -906,6 +1365,20 @@ export class SupabaseStorage implements IStorage {
     return data ? this.fromDbArray<WorkoutLog>(data) : [];
   }
 
+  async getWorkoutLogsByClientIdsAndDateRange(clientIds: number[], startDate: Date, endDate: Date): Promise<WorkoutLog[]> {
+    if (clientIds.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('workout_logs')
+      .select('*')
+      .in(this.k('clientId'), clientIds)
+      .gte('date', startDate.toISOString().split('T')[0])
+      .lte('date', endDate.toISOString().split('T')[0])
+      .order('date', { ascending: false });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<WorkoutLog>(data) : [];
+  }
+
   async updateWorkoutLog(id: number, workoutLog: Partial<InsertWorkoutLog>): Promise<WorkoutLog> {
     const { data, error } = await this.supabase
       .from('workout_logs')
@@ -939,4 +1412,699 @@ export class SupabaseStorage implements IStorage {
     if (error) throw error;
     return data ? this.fromDbArray<ExerciseLog>(data) : [];
   }
+
+  async getExerciseLogsByWorkoutLogIds(workoutLogIds: number[]): Promise<ExerciseLog[]> {
+    if (workoutLogIds.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('exercise_logs')
+      .select('*')
+      .in(this.k('workoutLogId'), workoutLogIds)
+      .order(this.k('orderIndex'), { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ExerciseLog>(data) : [];
+  }
+
+  // Workout assignment operations
+  async getWorkoutAssignment(id: number): Promise<WorkoutAssignment | undefined> {
+    const { data, error } = await this.supabase
+      .from('workout_assignments')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<WorkoutAssignment>(data) : undefined;
+  }
+
+  async getWorkoutAssignmentsByClientIdsAndDateRange(clientIds: string[], startDate: Date, endDate: Date): Promise<WorkoutAssignment[]> {
+    if (clientIds.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('workout_assignments')
+      .select('*')
+      .in(this.k('clientId'), clientIds)
+      .gte(this.k('scheduledDate'), startDate.toISOString().split('T')[0])
+      .lte(this.k('scheduledDate'), endDate.toISOString().split('T')[0])
+      .order(this.k('scheduledDate'), { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<WorkoutAssignment>(data) : [];
+  }
+
+  async getWorkoutAssignmentsByClientProgramId(clientProgramId: number): Promise<WorkoutAssignment[]> {
+    const { data, error } = await this.supabase
+      .from('workout_assignments')
+      .select('*')
+      .eq(this.k('clientProgramId'), clientProgramId)
+      .order(this.k('scheduledDate'), { ascending: true })
+      .order(this.k('weekNumber'), { ascending: true })
+      .order(this.k('dayNumber'), { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<WorkoutAssignment>(data) : [];
+  }
+
+  async createWorkoutAssignment(assignment: InsertWorkoutAssignment): Promise<WorkoutAssignment> {
+    const { data, error } = await this.supabase
+      .from('workout_assignments')
+      .insert(this.toDb(assignment))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<WorkoutAssignment>(data);
+  }
+
+  async updateWorkoutAssignment(id: number, assignment: Partial<WorkoutAssignment>): Promise<WorkoutAssignment> {
+    const { data, error } = await this.supabase
+      .from('workout_assignments')
+      .update(this.toDb(assignment))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<WorkoutAssignment>(data);
+  }
+
+  async deleteWorkoutAssignment(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('workout_assignments')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Workout session operations
+  async getWorkoutSession(id: number): Promise<WorkoutSession | undefined> {
+    const { data, error } = await this.supabase
+      .from('workout_sessions')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<WorkoutSession>(data) : undefined;
+  }
+
+  async getWorkoutSessionByClientSessionId(clientSessionId: string): Promise<WorkoutSession | undefined> {
+    const { data, error } = await this.supabase
+      .from('workout_sessions')
+      .select('*')
+      .eq(this.k('clientSessionId'), clientSessionId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<WorkoutSession>(data) : undefined;
+  }
+
+  async createWorkoutSession(session: InsertWorkoutSession): Promise<WorkoutSession> {
+    const { data, error } = await this.supabase
+      .from('workout_sessions')
+      .insert(this.toDb(session))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<WorkoutSession>(data);
+  }
+
+  async getWorkoutSessionsByClientId(clientId: string, statuses?: string[]): Promise<WorkoutSession[]> {
+    let query = this.supabase
+      .from('workout_sessions')
+      .select('*')
+      .eq(this.k('clientId'), clientId);
+
+    if (statuses?.length) {
+      query = query.in('status', statuses);
+    }
+
+    const { data, error } = await query.order(this.k('createdAt'), { ascending: false });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<WorkoutSession>(data) : [];
+  }
+
+  async getWorkoutSessionsByWorkoutAssignmentId(workoutAssignmentId: number): Promise<WorkoutSession[]> {
+    const { data, error } = await this.supabase
+      .from('workout_sessions')
+      .select('*')
+      .eq(this.k('workoutAssignmentId'), workoutAssignmentId)
+      .order(this.k('createdAt'), { ascending: false });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<WorkoutSession>(data) : [];
+  }
+
+  async updateWorkoutSession(id: number, session: Partial<WorkoutSession>): Promise<WorkoutSession> {
+    const { data, error } = await this.supabase
+      .from('workout_sessions')
+      .update(this.toDb({ ...session, updatedAt: new Date() }))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<WorkoutSession>(data);
+  }
+
+  async getClientWorkoutPreferences(clientId: string): Promise<ClientWorkoutPreferences | undefined> {
+    const { data, error } = await this.supabase
+      .from('client_workout_preferences')
+      .select('*')
+      .eq(this.k('clientId'), clientId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<ClientWorkoutPreferences>(data) : undefined;
+  }
+
+  async upsertClientWorkoutPreferences(clientId: string, preferences: Partial<ClientWorkoutPreferences>): Promise<ClientWorkoutPreferences> {
+    const { data, error } = await this.supabase
+      .from('client_workout_preferences')
+      .upsert(this.toDb({ ...preferences, clientId, updatedAt: new Date() }), { onConflict: this.k('clientId') })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ClientWorkoutPreferences>(data);
+  }
+
+  // Equipment profile operations
+  async getEquipmentProfile(id: number): Promise<EquipmentProfile | undefined> {
+    const { data, error } = await this.supabase
+      .from('equipment_profiles')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<EquipmentProfile>(data) : undefined;
+  }
+
+  async getEquipmentProfilesByClientIds(clientIds: string[]): Promise<EquipmentProfile[]> {
+    if (clientIds.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('equipment_profiles')
+      .select('*')
+      .in(this.k('clientId'), clientIds)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<EquipmentProfile>(data) : [];
+  }
+
+  async createEquipmentProfile(profile: InsertEquipmentProfile): Promise<EquipmentProfile> {
+    const { data, error } = await this.supabase
+      .from('equipment_profiles')
+      .insert(this.toDb(profile))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<EquipmentProfile>(data);
+  }
+
+  async updateEquipmentProfile(id: number, profile: Partial<InsertEquipmentProfile>): Promise<EquipmentProfile> {
+    const { data, error } = await this.supabase
+      .from('equipment_profiles')
+      .update(this.toDb({ ...profile, updatedAt: new Date() }))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<EquipmentProfile>(data);
+  }
+
+  async deleteEquipmentProfile(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('equipment_profiles')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Exercise set operations
+  async getExerciseSet(id: number): Promise<ExerciseSet | undefined> {
+    const { data, error } = await this.supabase
+      .from('exercise_sets')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<ExerciseSet>(data) : undefined;
+  }
+
+  async getExerciseSetsByIds(ids: number[]): Promise<ExerciseSet[]> {
+    if (ids.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('exercise_sets')
+      .select('*')
+      .in('id', ids);
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ExerciseSet>(data) : [];
+  }
+
+  async createExerciseSet(exerciseSet: InsertExerciseSet): Promise<ExerciseSet> {
+    const { data, error } = await this.supabase
+      .from('exercise_sets')
+      .insert(this.toDb(exerciseSet))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ExerciseSet>(data);
+  }
+
+  async updateExerciseSet(id: number, exerciseSet: Partial<ExerciseSet>): Promise<ExerciseSet> {
+    const { data, error } = await this.supabase
+      .from('exercise_sets')
+      .update(this.toDb(exerciseSet))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ExerciseSet>(data);
+  }
+
+  async getExerciseSetsByClientIdAndExerciseId(clientId: string, exerciseId: number): Promise<ExerciseSet[]> {
+    const { data, error } = await this.supabase
+      .from('exercise_sets')
+      .select('*, workout_sessions!inner(client_id)')
+      .eq('workout_sessions.client_id', clientId)
+      .eq(this.k('exerciseId'), exerciseId)
+      .order(this.k('completedAt'), { ascending: false });
+
+    if (error) throw error;
+    // Drop the embedded session used for filtering
+    return data ? this.fromDbArray<ExerciseSet>(data.map(({ workout_sessions, ...row }: any) => row)) : [];
+  }
+
+  async getExerciseSetsByClientIdAndExerciseIdAndDateRange(clientId: string, exerciseId: number, startDate: Date, endDate: Date): Promise<ExerciseSet[]> {
+    const { data, error } = await this.supabase
+      .from('exercise_sets')
+      .select('*, workout_sessions!inner(client_id)')
+      .eq('workout_sessions.client_id', clientId)
+      .eq(this.k('exerciseId'), exerciseId)
+      .gte(this.k('completedAt'), startDate.toISOString())
+      .lte(this.k('completedAt'), endDate.toISOString())
+      .order(this.k('completedAt'), { ascending: false });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ExerciseSet>(data.map(({ workout_sessions, ...row }: any) => row)) : [];
+  }
+
+  async getExerciseSetsByClientIdAndDateRange(clientId: string, startDate: Date, endDate: Date): Promise<ExerciseSet[]> {
+    const { data, error } = await this.supabase
+      .from('exercise_sets')
+      .select('*, workout_sessions!inner(client_id)')
+      .eq('workout_sessions.client_id', clientId)
+      .gte(this.k('completedAt'), startDate.toISOString())
+      .lte(this.k('completedAt'), endDate.toISOString())
+      .order(this.k('completedAt'), { ascending: false });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ExerciseSet>(data.map(({ workout_sessions, ...row }: any) => row)) : [];
+  }
+
+  async getExerciseSetByClientSetId(clientSetId: string): Promise<ExerciseSet | undefined> {
+    const { data, error } = await this.supabase
+      .from('exercise_sets')
+      .select('*')
+      .eq(this.k('clientSetId'), clientSetId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<ExerciseSet>(data) : undefined;
+  }
+
+  async getExerciseSetsByWorkoutSessionId(workoutSessionId: number): Promise<ExerciseSet[]> {
+    const { data, error } = await this.supabase
+      .from('exercise_sets')
+      .select('*')
+      .eq(this.k('workoutSessionId'), workoutSessionId)
+      .order(this.k('completedAt'), { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ExerciseSet>(data) : [];
+  }
+
+  // Form review operations
+  async getFormReview(id: number): Promise<FormReview | undefined> {
+    const { data, error } = await this.supabase
+      .from('form_reviews')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<FormReview>(data) : undefined;
+  }
+
+  async getFormReviewByExerciseSetId(exerciseSetId: number): Promise<FormReview | undefined> {
+    const { data, error } = await this.supabase
+      .from('form_reviews')
+      .select('*')
+      .eq(this.k('exerciseSetId'), exerciseSetId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<FormReview>(data) : undefined;
+  }
+
+  async getFormReviewsByClientIds(clientIds: string[], status?: string): Promise<FormReview[]> {
+    if (clientIds.length === 0) return [];
+    let query = this.supabase
+      .from('form_reviews')
+      .select('*')
+      .in(this.k('clientId'), clientIds);
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query.order(this.k('createdAt'), { ascending: false });
+    if (error) throw error;
+    return data ? this.fromDbArray<FormReview>(data) : [];
+  }
+
+  async createFormReview(review: InsertFormReview): Promise<FormReview> {
+    const { data, error } = await this.supabase
+      .from('form_reviews')
+      .insert(this.toDb(review))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<FormReview>(data);
+  }
+
+  async updateFormReview(id: number, review: Partial<FormReview>): Promise<FormReview> {
+    const { data, error } = await this.supabase
+      .from('form_reviews')
+      .update(this.toDb({ ...review, updatedAt: new Date() }))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<FormReview>(data);
+  }
+
+  async getFormReviewComment(id: number): Promise<FormReviewComment | undefined> {
+    const { data, error } = await this.supabase
+      .from('form_review_comments')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<FormReviewComment>(data) : undefined;
+  }
+
+  async getFormReviewComments(formReviewId: number): Promise<FormReviewComment[]> {
+    const { data, error } = await this.supabase
+      .from('form_review_comments')
+      .select('*')
+      .eq(this.k('formReviewId'), formReviewId)
+      .order(this.k('timestampMs'), { ascending: true })
+      .order('id', { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<FormReviewComment>(data) : [];
+  }
+
+  async createFormReviewComment(comment: InsertFormReviewComment): Promise<FormReviewComment> {
+    const { data, error } = await this.supabase
+      .from('form_review_comments')
+      .insert(this.toDb(comment))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<FormReviewComment>(data);
+  }
+
+  async deleteFormReviewComment(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('form_review_comments')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Block result operations
+  async createBlockResult(result: InsertBlockResult): Promise<BlockResult> {
+    const { data, error } = await this.supabase
+      .from('block_results')
+      .insert(this.toDb(result))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<BlockResult>(data);
+  }
+
+  async getBlockResultByClientResultId(clientResultId: string): Promise<BlockResult | undefined> {
+    const { data, error } = await this.supabase
+      .from('block_results')
+      .select('*')
+      .eq(this.k('clientResultId'), clientResultId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<BlockResult>(data) : undefined;
+  }
+
+  async getBlockResultsByWorkoutSessionId(workoutSessionId: number): Promise<BlockResult[]> {
+    const { data, error } = await this.supabase
+      .from('block_results')
+      .select('*')
+      .eq(this.k('workoutSessionId'), workoutSessionId)
+      .order(this.k('completedAt'), { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<BlockResult>(data) : [];
+  }
+
+  // Exercise substitution operations
+  async createExerciseSubstitution(substitution: InsertExerciseSubstitution): Promise<ExerciseSubstitution> {
+    const { data, error } = await this.supabase
+      .from('exercise_substitutions')
+      .insert(this.toDb(substitution))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ExerciseSubstitution>(data);
+  }
+
+  async getExerciseSubstitutionsByWorkoutSessionId(workoutSessionId: number): Promise<ExerciseSubstitution[]> {
+    const { data, error } = await this.supabase
+      .from('exercise_substitutions')
+      .select('*')
+      .eq(this.k('workoutSessionId'), workoutSessionId)
+      .order(this.k('createdAt'), { ascending: true });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ExerciseSubstitution>(data) : [];
+  }
+
+  // Personal record operations
+  async getPersonalRecord(id: number): Promise<PersonalRecord | undefined> {
+    const { data, error } = await this.supabase
+      .from('personal_records')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<PersonalRecord>(data) : undefined;
+  }
+
+  async getPersonalRecordsByClientId(clientId: string): Promise<PersonalRecord[]> {
+    const { data, error } = await this.supabase
+      .from('personal_records')
+      .select('*')
+      .eq(this.k('clientId'), clientId)
+      .order(this.k('dateAchieved'), { ascending: false })
+      .order(this.k('createdAt'), { ascending: false });
+
+    if (error) throw error;
+    return data ? this.fromDbArray<PersonalRecord>(data) : [];
+  }
+
+  async createPersonalRecord(record: InsertPersonalRecord): Promise<PersonalRecord> {
+    const { data, error } = await this.supabase
+      .from('personal_records')
+      .insert(this.toDb(record))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<PersonalRecord>(data);
+  }
+
+  async updatePersonalRecord(id: number, record: Partial<InsertPersonalRecord>): Promise<PersonalRecord> {
+    const { data, error } = await this.supabase
+      .from('personal_records')
+      .update(this.toDb(record))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<PersonalRecord>(data);
+  }
+
+  // Compliance settings operations
+  async getComplianceSettings(coachId: string): Promise<ComplianceSettings | undefined> {
+    const { data, error } = await this.supabase
+      .from('compliance_settings')
+      .select('*')
+      .eq(this.k('coachId'), coachId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<ComplianceSettings>(data) : undefined;
+  }
+
+  async upsertComplianceSettings(settings: InsertComplianceSettings): Promise<ComplianceSettings> {
+    const { data, error } = await this.supabase
+      .from('compliance_settings')
+      .upsert(this.toDb({ ...settings, updatedAt: new Date() }), { onConflict: this.k('coachId') })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ComplianceSettings>(data);
+  }
+
+  // At-risk alert operations
+  async getAlertSettings(coachId: string): Promise<AlertSettings | undefined> {
+    const { data, error } = await this.supabase
+      .from('alert_settings')
+      .select('*')
+      .eq(this.k('coachId'), coachId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<AlertSettings>(data) : undefined;
+  }
+
+  async upsertAlertSettings(settings: InsertAlertSettings): Promise<AlertSettings> {
+    const { data, error } = await this.supabase
+      .from('alert_settings')
+      .upsert(this.toDb({ ...settings, updatedAt: new Date() }), { onConflict: this.k('coachId') })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<AlertSettings>(data);
+  }
+
+  async getClientAlertsByCoachId(coachId: string): Promise<ClientAlert[]> {
+    const { data, error } = await this.supabase
+      .from('client_alerts')
+      .select('*')
+      .eq(this.k('coachId'), coachId);
+
+    if (error) throw error;
+    return data ? this.fromDbArray<ClientAlert>(data) : [];
+  }
+
+  async upsertClientAlert(alert: InsertClientAlert): Promise<ClientAlert> {
+    const { data, error } = await this.supabase
+      .from('client_alerts')
+      .upsert(
+        this.toDb({ ...alert, snoozedUntil: alert.snoozedUntil ?? null, updatedAt: new Date() }),
+        { onConflict: [this.k('coachId'), this.k('clientId'), this.k('rule')].join(',') }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<ClientAlert>(data);
+  }
+
+  async deleteClientAlert(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('client_alerts')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Training volume operations
+  async getVolumeTargetSettings(coachId: string): Promise<VolumeTargetSettings | undefined> {
+    const { data, error } = await this.supabase
+      .from('volume_target_settings')
+      .select('*')
+      .eq(this.k('coachId'), coachId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined; // Row not found
+      throw error;
+    }
+    return data ? this.fromDb<VolumeTargetSettings>(data) : undefined;
+  }
+
+  async upsertVolumeTargetSettings(settings: InsertVolumeTargetSettings): Promise<VolumeTargetSettings> {
+    const { data, error } = await this.supabase
+      .from('volume_target_settings')
+      .upsert(this.toDb({ ...settings, updatedAt: new Date() }), { onConflict: this.k('coachId') })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.fromDb<VolumeTargetSettings>(data);
+  }
 }
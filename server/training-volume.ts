@@ -0,0 +1,146 @@
+import type { IStorage } from "./storage";
+import type { Client, MuscleVolumeTarget } from "@shared/schema";
+import { weightIn } from "./personal-records";
+
+/**
+ * WEEKLY TRAINING VOLUME
+ *
+ * Hard sets and tonnage per muscle group for each training week (Monday to
+ * Sunday, UTC), from the exercise_sets a client has logged in the player.
+ * - a hard set is a completed working set: not a warm-up, at least one rep,
+ *   and either no RPE recorded or RPE 6 and above
+ * - every muscle group listed on the exercise gets the full set, so a bench
+ *   press set counts for chest, triceps and shoulders alike
+ * - tonnage is load × reps in the client's preferred unit
+ * Each week is compared with the coach's weekly set ranges from
+ * volume_target_settings (or the defaults below).
+ */
+
+export type VolumeStatus = 'under' | 'within' | 'over';
+
+export const DEFAULT_VOLUME_TARGETS: MuscleVolumeTarget[] = [
+  { muscleGroup: 'chest', minSets: 10, maxSets: 20 },
+  { muscleGroup: 'back', minSets: 10, maxSets: 20 },
+  { muscleGroup: 'shoulders', minSets: 8, maxSets: 16 },
+  { muscleGroup: 'biceps', minSets: 6, maxSets: 14 },
+  { muscleGroup: 'triceps', minSets: 6, maxSets: 14 },
+  { muscleGroup: 'quadriceps', minSets: 10, maxSets: 20 },
+  { muscleGroup: 'hamstrings', minSets: 8, maxSets: 16 },
+  { muscleGroup: 'glutes', minSets: 8, maxSets: 16 },
+  { muscleGroup: 'calves', minSets: 6, maxSets: 12 },
+  { muscleGroup: 'core', minSets: 6, maxSets: 16 }
+];
+
+export const MAX_VOLUME_WEEKS = 26;
+
+const MIN_HARD_SET_RPE = 6;
+
+export interface MuscleGroupVolume {
+  muscleGroup: string;
+  hardSets: number;
+  tonnage: number;
+  target: MuscleVolumeTarget | null;
+  // null when the coach has no target for this muscle group
+  status: VolumeStatus | null;
+}
+
+export interface TrainingVolumeWeek {
+  weekStart: string;
+  weekEnd: string;
+  muscleGroups: MuscleGroupVolume[];
+}
+
+export interface TrainingVolume {
+  unit: 'kg' | 'lbs';
+  targets: MuscleVolumeTarget[];
+  // Oldest first; the last week is the current one
+  weeks: TrainingVolumeWeek[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Monday 00:00 UTC of the week containing the date
+function startOfWeek(date: Date): Date {
+  const day = new Date(Date.parse(toDateString(date)));
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+}
+
+export function getVolumeStatus(hardSets: number, target: MuscleVolumeTarget): VolumeStatus {
+  if (hardSets < target.minSets) return 'under';
+  if (hardSets > target.maxSets) return 'over';
+  return 'within';
+}
+
+export async function getVolumeTargetsForCoach(storage: IStorage, coachUserId: string): Promise<MuscleVolumeTarget[]> {
+  const settings = await storage.getVolumeTargetSettings(coachUserId);
+  return settings?.targets ?? DEFAULT_VOLUME_TARGETS;
+}
+
+/**
+ * Volume for the last `weeks` training weeks, including the current one
+ */
+export async function getClientTrainingVolume(
+  storage: IStorage,
+  client: Client,
+  targets: MuscleVolumeTarget[],
+  weeks: number
+): Promise<TrainingVolume> {
+  const preferences = await storage.getClientWorkoutPreferences(client.userId);
+  const unit = preferences?.metricSystem ? 'kg' : 'lbs';
+
+  const firstWeek = startOfWeek(new Date(Date.now() - (weeks - 1) * 7 * DAY_MS));
+  const periodEnd = new Date(firstWeek.getTime() + weeks * 7 * DAY_MS - 1);
+  const [exerciseSets, exercises] = await Promise.all([
+    storage.getExerciseSetsByClientIdAndDateRange(client.userId, firstWeek, periodEnd),
+    storage.getExercises()
+  ]);
+  const muscleGroupsByExercise = new Map(exercises.map(exercise => [
+    exercise.id,
+    Array.from(new Set((exercise.muscleGroups ?? []).map(group => group.trim().toLowerCase()).filter(Boolean)))
+  ]));
+  const targetsByMuscle = new Map(targets.map(target => [target.muscleGroup, target]));
+
+  // week index → muscle group → totals
+  const totals = Array.from({ length: weeks }, () => new Map<string, { hardSets: number; tonnage: number }>());
+  for (const set of exerciseSets) {
+    if (set.isWarmup || !set.actualReps || set.actualReps <= 0) continue;
+    if (set.rpe !== null && set.rpe < MIN_HARD_SET_RPE) continue;
+
+    const week = Math.floor((new Date(set.completedAt).getTime() - firstWeek.getTime()) / (7 * DAY_MS));
+    if (week < 0 || week >= weeks) continue;
+    const tonnage = weightIn(set, unit) * set.actualReps;
+    for (const muscleGroup of muscleGroupsByExercise.get(set.exerciseId) ?? []) {
+      const current = totals[week].get(muscleGroup) ?? { hardSets: 0, tonnage: 0 };
+      totals[week].set(muscleGroup, { hardSets: current.hardSets + 1, tonnage: current.tonnage + tonnage });
+    }
+  }
+
+  return {
+    unit,
+    targets,
+    weeks: totals.map((muscles, index) => {
+      const weekStart = new Date(firstWeek.getTime() + index * 7 * DAY_MS);
+      // Targeted muscle groups are always reported, even with no sets
+      const muscleGroups = Array.from(new Set([...targets.map(target => target.muscleGroup), ...Array.from(muscles.keys())])).map(muscleGroup => {
+        const total = muscles.get(muscleGroup) ?? { hardSets: 0, tonnage: 0 };
+        const target = targetsByMuscle.get(muscleGroup) ?? null;
+        return {
+          muscleGroup,
+          hardSets: total.hardSets,
+          tonnage: round(total.tonnage),
+          target,
+          status: target ? getVolumeStatus(total.hardSets, target) : null
+        };
+      });
+      return {
+        weekStart: toDateString(weekStart),
+        weekEnd: toDateString(new Date(weekStart.getTime() + 6 * DAY_MS)),
+        muscleGroups
+      };
+    })
+  };
+}
@@ -0,0 +1,106 @@
+import type { IStorage } from "./storage";
+import type { ExerciseSet, WorkoutSession } from "@shared/schema";
+import { WORKOUT_SESSION_TIMEOUT_HOURS } from "./config";
+
+/**
+ * RESUMABLE WORKOUT SESSIONS
+ *
+ * The workout_sessions row is the source of truth for where a client is in a
+ * workout: the player snapshots exercise index, set and rest timer on every
+ * logged set, so a closed tab can pick up where it left off. Sessions left
+ * in_progress or paused longer than WORKOUT_SESSION_TIMEOUT_HOURS are moved
+ * to abandoned the next time the client's sessions are looked up.
+ *
+ * Sets logged offline are replayed later against a workout the coach may have
+ * edited in the meantime. A set for an exercise that has since been removed
+ * can't be stored; any other edit keeps the set (prescribed reps and weight
+ * are snapshotted on the row) and tells the player to refresh its copy.
+ */
+
+export const RESUMABLE_STATUSES = ['in_progress', 'paused'];
+
+export type SetConflict = 'exercise_removed';
+
+export interface WorkoutVersionCheck {
+  conflict: SetConflict | null;
+  workoutChanged: boolean;
+}
+
+export interface ResumableSession {
+  session: WorkoutSession;
+  exerciseSets: ExerciseSet[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function lastActivity(session: WorkoutSession): Date {
+  return new Date(session.lastActivityAt || session.updatedAt || session.startTime || session.createdAt);
+}
+
+export function isSessionStale(session: WorkoutSession, now = new Date(), timeoutHours = WORKOUT_SESSION_TIMEOUT_HOURS): boolean {
+  return now.getTime() - lastActivity(session).getTime() > timeoutHours * HOUR_MS;
+}
+
+/**
+ * Abandons the client's stale open sessions and returns the ones still open
+ */
+export async function abandonStaleSessions(
+  storage: IStorage,
+  clientId: string,
+  timeoutHours = WORKOUT_SESSION_TIMEOUT_HOURS
+): Promise<WorkoutSession[]> {
+  const now = new Date();
+  const open = await storage.getWorkoutSessionsByClientId(clientId, RESUMABLE_STATUSES);
+
+  const active: WorkoutSession[] = [];
+  for (const session of open) {
+    if (isSessionStale(session, now, timeoutHours)) {
+      await storage.updateWorkoutSession(session.id, { status: 'abandoned', endTime: lastActivity(session) });
+    } else {
+      active.push(session);
+    }
+  }
+  return active;
+}
+
+/**
+ * The most recent open session of a workout assignment, with the sets logged so far.
+ * Keyed on the assignment since the same workout can be assigned more than once.
+ */
+export async function getResumableSession(
+  storage: IStorage,
+  clientId: string,
+  workoutAssignmentId: number
+): Promise<ResumableSession | null> {
+  const active = await abandonStaleSessions(storage, clientId);
+  const session = active.find(candidate => candidate.workoutAssignmentId === workoutAssignmentId);
+  if (!session) return null;
+
+  const exerciseSets = await storage.getExerciseSetsByWorkoutSessionId(session.id);
+  return { session, exerciseSets };
+}
+
+/**
+ * Compares a replayed set with the current version of the session's workout
+ * @param workoutVersion The workout's updated_at when the player cached it
+ */
+export async function checkWorkoutVersion(
+  storage: IStorage,
+  session: WorkoutSession,
+  workoutExerciseId: number,
+  workoutVersion: string
+): Promise<WorkoutVersionCheck> {
+  if (!session.workoutId) return { conflict: null, workoutChanged: false };
+
+  const [workout, workoutExercises] = await Promise.all([
+    storage.getWorkout(session.workoutId),
+    storage.getWorkoutExercisesByWorkoutId(session.workoutId)
+  ]);
+
+  if (!workoutExercises.some(workoutExercise => workoutExercise.id === workoutExerciseId)) {
+    return { conflict: 'exercise_removed', workoutChanged: true };
+  }
+
+  const workoutChanged = !!workout && new Date(workout.updatedAt).getTime() > new Date(workoutVersion).getTime();
+  return { conflict: null, workoutChanged };
+}
@@ -0,0 +1,22 @@
+/**
+ * One-rep max estimates, shared by server PR detection and client load prescriptions
+ */
+
+export type OneRepMaxFormula = "epley" | "brzycki";
+
+export const ONE_RM_FORMULAS: OneRepMaxFormula[] = ["epley", "brzycki"];
+
+// Estimates from longer sets are too unreliable to use
+export const MAX_REPS_FOR_ESTIMATE = 12;
+
+/**
+ * Estimates a one-rep max from a single set
+ * @returns The estimate, or null when the set is too long to estimate from
+ */
+export function estimateOneRepMax(weight: number, reps: number, formula: OneRepMaxFormula = "epley"): number | null {
+  if (weight <= 0 || reps <= 0 || reps > MAX_REPS_FOR_ESTIMATE) return null;
+  if (reps === 1) return weight;
+  return formula === "brzycki"
+    ? weight * 36 / (37 - reps)
+    : weight * (1 + reps / 30);
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, date, decimal, pgEnum, foreignKey, unique, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, decimal, pgEnum, foreignKey, unique, uuid, jsonb } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -132,6 +132,8 @@ export const deviceIntegrations = pgTable("device_integrations", {
 
 // Exercise library
 export const difficultyLevelEnum = pgEnum('difficulty_level', ['beginner', 'intermediate', 'advanced']);
+// Strength exercises are logged as reps × weight; cardio as duration, distance and heart rate
+export const exerciseTypeEnum = pgEnum('exercise_type', ['strength', 'cardio']);
 
 export const exercises = pgTable("exercises", {
   id: serial("id").primaryKey(),
@@ -147,11 +149,24 @@ export const exercises = pgTable("exercises", {
   createdBy: uuid("created_by").references(() => users.id), // User UUID for created by
   isPublic: boolean("is_public").default(false),
   tags: text("tags").array(), // Array of tags for better searchability
-  caloriesPerMinute: integer("calories_per_minute"),
+  caloriesPerMinute: integer("calories_per_minute"), // at a 70 kg reference bodyweight
+  exerciseType: exerciseTypeEnum("exercise_type").default('strength'),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Variations of an exercise (e.g. push-up variants), offered as substitutes for it
+export const exerciseVariations = pgTable("exercise_variations", {
+  id: serial("id").primaryKey(),
+  baseExerciseId: integer("base_exercise_id").notNull().references(() => exercises.id),
+  name: text("name").notNull(),
+  difficultyModifier: integer("difficulty_modifier").default(0), // -2 (easier) to +2 (harder)
+  equipmentVariant: text("equipment_variant"), // null: same equipment as the base exercise
+  description: text("description"),
+  videoUrl: text("video_url"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Exercise categories
 export const exerciseCategories = pgTable("exercise_categories", {
   id: serial("id").primaryKey(),
@@ -168,6 +183,16 @@ export const exerciseCategories = pgTable("exercise_categories", {
 // Workout programs
 export const programTypeEnum = pgEnum('program_type', ['strength', 'cardio', 'hybrid', 'flexibility', 'sports_specific']);
 
+// How a program's weeks scale from a base week: intensity multiplies weight,
+// volume multiplies sets × reps. Deload weeks are flagged so they stand out.
+export type PeriodizationModel = 'linear' | 'undulating' | 'block' | 'custom';
+
+export type ProgramPeriodization = {
+  model: PeriodizationModel;
+  deloadEvery: number | null; // every Nth week is a deload, null for none
+  weeks: { week: number; intensity: number; volume: number; deload: boolean }[];
+};
+
 export const programs = pgTable("programs", {
   id: serial("id").primaryKey(),
   coachId: integer("coach_id").notNull().references(() => coaches.id), // Reference coaches.id (serial)
@@ -177,6 +202,11 @@ export const programs = pgTable("programs", {
   difficultyLevel: difficultyLevelEnum("difficulty_level"),
   programType: programTypeEnum("program_type"),
   isTemplate: boolean("is_template").default(false),
+  periodization: jsonb("periodization").$type<ProgramPeriodization>(), // null when weeks are built by hand
+  rootProgramId: integer("root_program_id"), // first version's id; null on the first version itself
+  version: integer("version").default(1).notNull(),
+  clonedFromId: integer("cloned_from_id"), // program this one was cloned from
+  templateId: integer("template_id"), // program_templates entry this program was created from
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -195,6 +225,44 @@ export const workouts = pgTable("workouts", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Timed blocks within workouts; their exercises are the movements done each round
+export const workoutBlockTypeEnum = pgEnum('workout_block_type', ['emom', 'amrap', 'for_time', 'interval', 'circuit']);
+
+export type WorkoutBlockParameters = {
+  rounds?: number; // emom, for_time, interval, circuit
+  intervalSeconds?: number; // emom: a new round starts every interval
+  timeCapSeconds?: number; // amrap duration; optional cap for for_time
+  workSeconds?: number; // interval work phase
+  restSeconds?: number; // interval rest phase; circuit rest between rounds
+};
+
+export const workoutBlocks = pgTable("workout_blocks", {
+  id: serial("id").primaryKey(),
+  workoutId: integer("workout_id").notNull().references(() => workouts.id),
+  blockType: workoutBlockTypeEnum("block_type").notNull(),
+  name: text("name"),
+  orderIndex: integer("order_index").notNull(), // Position among the workout's exercises
+  parameters: jsonb("parameters").$type<WorkoutBlockParameters>().notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Prescription for a cardio exercise; any combination of targets
+export type CardioTarget = {
+  durationSeconds?: number;
+  distanceMeters?: number;
+  paceSecondsPerKm?: number;
+  heartRateZone?: number; // 1-5
+  incline?: number; // percent
+  resistance?: number; // machine level
+};
+
+// Substitutes a coach allows for a workout exercise
+export type AllowedSubstitutions = {
+  exerciseIds: number[];
+  variationIds: number[];
+};
+
 // Exercises within workouts
 export const workoutExercises = pgTable("workout_exercises", {
   id: serial("id").primaryKey(),
@@ -208,6 +276,12 @@ export const workoutExercises = pgTable("workout_exercises", {
   notes: text("notes"),
   isSuperset: boolean("is_superset").default(false),
   supersetGroup: integer("superset_group"),
+  blockId: integer("block_id").references(() => workoutBlocks.id), // null for straight sets
+  progressionModel: text("progression_model").default('none'), // none, linear, double, rpe
+  progressionIncrement: decimal("progression_increment"), // load step for suggestions
+  warmupScheme: text("warmup_scheme").default('none'), // none, standard, short, heavy
+  cardioTarget: jsonb("cardio_target").$type<CardioTarget>(), // cardio exercises only
+  substitutions: jsonb("substitutions").$type<AllowedSubstitutions>(), // null: any suggested substitute
 });
 
 // Client program assignments
@@ -221,12 +295,43 @@ export const clientPrograms = pgTable("client_programs", {
   startDate: date("start_date").notNull(),
   endDate: date("end_date"),
   status: programStatusEnum("status").default('active'),
-  currentWeek: integer("current_week").default(1),
+  currentWeek: integer("current_week").default(1), // week of the next workout still to do
+  missedPolicy: text("missed_policy").default('shift'), // shift, skip, stack
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const MISSED_WORKOUT_POLICIES = ['shift', 'skip', 'stack'] as const;
+export type MissedWorkoutPolicy = typeof MISSED_WORKOUT_POLICIES[number];
+
+// Programs coaches publish for other coaches to copy; usage_count and rating are kept up to date by triggers
+export const programTemplates = pgTable("program_templates", {
+  id: serial("id").primaryKey(),
+  programId: integer("program_id").notNull().unique().references(() => programs.id), // first version of the published program
+  name: text("name").notNull(),
+  description: text("description"),
+  category: text("category"),
+  isPublic: boolean("is_public").default(false),
+  createdBy: uuid("created_by").notNull().references(() => users.id),
+  usageCount: integer("usage_count").default(0),
+  rating: decimal("rating", { precision: 2, scale: 1 }).default('0.0'), // average of program_template_ratings
+  ratingCount: integer("rating_count").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const programTemplateRatings = pgTable("program_template_ratings", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").notNull().references(() => programTemplates.id),
+  ratedBy: uuid("rated_by").notNull().references(() => users.id),
+  rating: integer("rating").notNull(), // 1-5
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const programTemplateRatingsUniqueIndex = unique("program_template_rating_unique").on(programTemplateRatings.templateId, programTemplateRatings.ratedBy);
+
 // Workout logging
 export const workoutStatusEnum = pgEnum('workout_status', ['planned', 'in_progress', 'completed', 'skipped']);
 
@@ -349,6 +454,266 @@ export const coachClients = pgTable("coach_clients", {
 // Add unique constraint for coach-client relationships
 export const coachClientsUniqueIndex = unique("coach_client_unique").on(coachClients.coachId, coachClients.clientId);
 
+// Single-workout assignments scheduled by a coach (see WORKOUT_SYSTEM_SQL.sql)
+export const workoutAssignments = pgTable("workout_assignments", {
+  id: serial("id").primaryKey(),
+  clientId: uuid("client_id").notNull().references(() => users.id),
+  workoutId: integer("workout_id").notNull().references(() => workouts.id),
+  assignedBy: uuid("assigned_by").notNull().references(() => users.id),
+  scheduledDate: date("scheduled_date").notNull(),
+  status: text("status").default('scheduled'), // scheduled, in_progress, completed, skipped, cancelled
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  notes: text("notes"),
+  coachFeedback: text("coach_feedback"),
+  // Set when the assignment was scheduled from a client program; week/day are the workout's place in it
+  clientProgramId: integer("client_program_id").references(() => clientPrograms.id),
+  weekNumber: integer("week_number"),
+  dayNumber: integer("day_number"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Workout player tables (see CLIENT_WORKOUT_EXECUTION_SQL.sql)
+export const workoutSessions = pgTable("workout_sessions", {
+  id: serial("id").primaryKey(),
+  clientId: uuid("client_id").notNull().references(() => users.id),
+  workoutAssignmentId: integer("workout_assignment_id").references(() => workoutAssignments.id),
+  workoutId: integer("workout_id").references(() => workouts.id),
+  startTime: timestamp("start_time"),
+  endTime: timestamp("end_time"),
+  status: text("status").default('in_progress'), // in_progress, completed, abandoned, paused
+  clientNotes: text("client_notes"),
+  workoutRating: integer("workout_rating"),
+  difficultyRating: integer("difficulty_rating"),
+  energyLevel: integer("energy_level"),
+  totalDuration: integer("total_duration"), // minutes
+  exercisesCompleted: integer("exercises_completed").default(0),
+  totalExercises: integer("total_exercises"),
+  // Player position, snapshotted on every logged set so a session can be resumed
+  currentExerciseIndex: integer("current_exercise_index").default(0),
+  currentSet: integer("current_set").default(1),
+  restEndsAt: timestamp("rest_ends_at"),
+  lastActivityAt: timestamp("last_activity_at").defaultNow(),
+  // Generated by the player so sessions started offline are created exactly once on sync
+  clientSessionId: uuid("client_session_id").unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const exerciseSets = pgTable("exercise_sets", {
+  id: serial("id").primaryKey(),
+  workoutSessionId: integer("workout_session_id").notNull().references(() => workoutSessions.id),
+  workoutExerciseId: integer("workout_exercise_id").notNull().references(() => workoutExercises.id),
+  exerciseId: integer("exercise_id").notNull().references(() => exercises.id),
+  setNumber: integer("set_number").notNull(),
+  prescribedReps: text("prescribed_reps"),
+  actualReps: integer("actual_reps"),
+  prescribedWeight: text("prescribed_weight"),
+  actualWeight: decimal("actual_weight"),
+  weightUnit: text("weight_unit").default('lbs'), // lbs, kg
+  rpe: integer("rpe"),
+  restDuration: integer("rest_duration"), // seconds actually rested
+  prescribedRest: integer("prescribed_rest"),
+  notes: text("notes"),
+  personalRecord: boolean("personal_record").default(false),
+  formRating: integer("form_rating"),
+  completedAt: timestamp("completed_at").defaultNow().notNull(),
+  synced: boolean("synced").default(true), // false when logged offline and replayed later
+  clientSetId: uuid("client_set_id").unique(), // idempotency key for offline replay
+  supersetRound: integer("superset_round"), // round of its superset; null for straight sets
+  isWarmup: boolean("is_warmup").default(false), // excluded from volume and PRs
+  // Cardio logs; distances in meters, pace in seconds per km
+  durationSeconds: integer("duration_seconds"),
+  distanceMeters: decimal("distance_meters"),
+  paceSecondsPerKm: integer("pace_seconds_per_km"),
+  avgHeartRate: integer("avg_heart_rate"),
+  maxHeartRate: integer("max_heart_rate"),
+  incline: decimal("incline"),
+  resistance: integer("resistance"),
+  timeInZones: jsonb("time_in_zones").$type<number[]>(), // seconds in heart-rate zones 1-5
+  caloriesBurned: integer("calories_burned"),
+});
+
+// Exercises a client swapped during a session; sets are logged against the substitute
+// (a variation's sets against its base exercise)
+export const exerciseSubstitutions = pgTable("exercise_substitutions", {
+  id: serial("id").primaryKey(),
+  workoutSessionId: integer("workout_session_id").notNull().references(() => workoutSessions.id),
+  workoutExerciseId: integer("workout_exercise_id").notNull().references(() => workoutExercises.id),
+  originalExerciseId: integer("original_exercise_id").notNull().references(() => exercises.id),
+  substituteExerciseId: integer("substitute_exercise_id").notNull().references(() => exercises.id),
+  variationId: integer("variation_id").references(() => exerciseVariations.id),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One result per timed block per session
+export const blockResults = pgTable("block_results", {
+  id: serial("id").primaryKey(),
+  workoutSessionId: integer("workout_session_id").notNull().references(() => workoutSessions.id),
+  blockId: integer("block_id").notNull().references(() => workoutBlocks.id),
+  roundsCompleted: integer("rounds_completed"),
+  extraReps: integer("extra_reps"), // amrap: reps into the unfinished round
+  completionTime: integer("completion_time"), // seconds; for_time and circuit
+  timeCapped: boolean("time_capped").default(false), // for_time: cap reached before finishing
+  notes: text("notes"),
+  completedAt: timestamp("completed_at").defaultNow().notNull(),
+  clientResultId: uuid("client_result_id").unique(), // idempotency key for offline replay
+});
+
+export const personalRecords = pgTable("personal_records", {
+  id: serial("id").primaryKey(),
+  clientId: uuid("client_id").notNull().references(() => users.id),
+  exerciseId: integer("exercise_id").notNull().references(() => exercises.id),
+  recordType: text("record_type").notNull(), // 1rm, max_reps, max_volume, max_time
+  value: decimal("value").notNull(),
+  unit: text("unit"),
+  dateAchieved: date("date_achieved").notNull(),
+  workoutSessionId: integer("workout_session_id").references(() => workoutSessions.id),
+  previousRecord: decimal("previous_record"),
+  improvement: decimal("improvement"),
+  verifiedByCoach: boolean("verified_by_coach").default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Equipment a client has at a place they train, matched against exercises.equipment
+export const equipmentProfiles = pgTable("equipment_profiles", {
+  id: serial("id").primaryKey(),
+  clientId: uuid("client_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  profileType: text("profile_type").notNull().default('gym'), // home, gym, travel
+  equipment: text("equipment").array().notNull(), // as written on exercises, e.g. dumbbell, bench, pull-up bar
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const EQUIPMENT_PROFILE_TYPES = ['home', 'gym', 'travel'] as const;
+export type EquipmentProfileType = typeof EQUIPMENT_PROFILE_TYPES[number];
+
+// A client's clip of one logged set for their coach to review; the coach's
+// rating is written to exercise_sets.form_rating
+export const formReviews = pgTable("form_reviews", {
+  id: serial("id").primaryKey(),
+  exerciseSetId: integer("exercise_set_id").notNull().unique().references(() => exerciseSets.id, { onDelete: "cascade" }),
+  clientId: uuid("client_id").notNull().references(() => users.id),
+  coachId: uuid("coach_id").references(() => users.id), // coach who reviewed it
+  videoUrl: text("video_url").notNull(),
+  clientNote: text("client_note"),
+  status: text("status").notNull().default('pending'), // pending, reviewed
+  summary: text("summary"),
+  reviewedAt: timestamp("reviewed_at"),
+  seenAt: timestamp("seen_at"), // client opened the finished review
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const FORM_REVIEW_STATUSES = ['pending', 'reviewed'] as const;
+export type FormReviewStatus = typeof FORM_REVIEW_STATUSES[number];
+
+// Coach comments at a moment in the clip, optionally drawn over that frame
+export const formReviewComments = pgTable("form_review_comments", {
+  id: serial("id").primaryKey(),
+  formReviewId: integer("form_review_id").notNull().references(() => formReviews.id, { onDelete: "cascade" }),
+  authorId: uuid("author_id").notNull().references(() => users.id),
+  timestampMs: integer("timestamp_ms").notNull(), // position in the clip
+  body: text("body").notNull(),
+  annotation: jsonb("annotation").$type<FormAnnotation>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const clientWorkoutPreferences = pgTable("client_workout_preferences", {
+  id: serial("id").primaryKey(),
+  clientId: uuid("client_id").notNull().unique().references(() => users.id),
+  defaultRestTime: integer("default_rest_time").default(60),
+  autoAdvanceExercises: boolean("auto_advance_exercises").default(false),
+  timerSounds: boolean("timer_sounds").default(true),
+  vibrationAlerts: boolean("vibration_alerts").default(true),
+  metricSystem: boolean("metric_system").default(false), // true for kg, false for lbs
+  autoStartTimer: boolean("auto_start_timer").default(true),
+  showPreviousPerformance: boolean("show_previous_performance").default(true),
+  darkModeDuringWorkout: boolean("dark_mode_during_workout").default(false),
+  voiceCommands: boolean("voice_commands").default(false),
+  oneRmFormula: text("one_rm_formula").default('epley'), // epley, brzycki
+  // Gym setup for the plate calculator, in the client's unit (metric_system); null uses standard plates
+  barWeight: decimal("bar_weight"),
+  plateInventory: jsonb("plate_inventory").$type<{ weight: number; count: number }[]>(),
+  maxHeartRate: integer("max_heart_rate"), // measured; heart-rate zones fall back to an age estimate
+  trainingDays: integer("training_days").array(), // ISO weekdays (1 = Monday); null follows each program's day numbers
+  activeEquipmentProfileId: integer("active_equipment_profile_id").references(() => equipmentProfiles.id), // null: no equipment limits
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Daily nutrition logging against a client's nutrition plan
+export const nutritionLogs = pgTable("nutrition_logs", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  nutritionPlanId: integer("nutrition_plan_id").references(() => nutritionPlans.id),
+  date: date("date").notNull(),
+  calories: integer("calories"),
+  proteinGrams: integer("protein_grams"),
+  carbsGrams: integer("carbs_grams"),
+  fatGrams: integer("fat_grams"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Per-coach weighting for client compliance scores
+export const complianceSettings = pgTable("compliance_settings", {
+  id: serial("id").primaryKey(),
+  coachId: uuid("coach_id").notNull().unique().references(() => users.id),
+  workoutWeight: integer("workout_weight").notNull().default(50),
+  nutritionWeight: integer("nutrition_weight").notNull().default(30),
+  checkinWeight: integer("checkin_weight").notNull().default(20),
+  windowDays: integer("window_days").notNull().default(28), // rolling window scored
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Per-coach thresholds for at-risk client alerts (0 disables a rule)
+export const alertSettings = pgTable("alert_settings", {
+  id: serial("id").primaryKey(),
+  coachId: uuid("coach_id").notNull().unique().references(() => users.id),
+  inactivityDays: integer("inactivity_days").notNull().default(7), // days without a completed workout
+  missedCheckins: integer("missed_checkins").notNull().default(2), // missed/cancelled check-ins in the lookback
+  checkinLookbackDays: integer("checkin_lookback_days").notNull().default(30),
+  unansweredMessageHours: integer("unanswered_message_hours").notNull().default(48),
+  weightTrendDays: integer("weight_trend_days").notNull().default(14),
+  weightTrendThreshold: decimal("weight_trend_threshold").notNull().default('1.0'), // kg moved away from goal
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Weekly hard-set range a coach aims for on one muscle group
+export type MuscleVolumeTarget = {
+  muscleGroup: string; // matches exercises.muscle_groups, lowercase
+  minSets: number;
+  maxSets: number;
+};
+
+// Per-coach weekly volume targets by muscle group
+export const volumeTargetSettings = pgTable("volume_target_settings", {
+  id: serial("id").primaryKey(),
+  coachId: uuid("coach_id").notNull().unique().references(() => users.id),
+  targets: jsonb("targets").$type<MuscleVolumeTarget[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A coach's acknowledge/snooze state for an at-risk alert; alerts themselves are computed
+export const clientAlerts = pgTable("client_alerts", {
+  id: serial("id").primaryKey(),
+  coachId: uuid("coach_id").notNull().references(() => users.id),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  rule: text("rule").notNull(), // inactivity, missed_checkins, unanswered_messages, weight_trend
+  status: text("status").notNull(), // acknowledged, snoozed
+  snoozedUntil: timestamp("snoozed_until"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const clientAlertsUniqueIndex = unique("client_alert_unique").on(clientAlerts.coachId, clientAlerts.clientId, clientAlerts.rule);
+
 // Define relations
 export const usersRelations = relations(users, ({ many, one }) => ({
   client: one(clients, {
@@ -421,6 +786,14 @@ export const exercisesRelations = relations(exercises, ({ one, many }) => ({
   }),
   workoutExercises: many(workoutExercises),
   exerciseLogs: many(exerciseLogs),
+  variations: many(exerciseVariations),
+}));
+
+export const exerciseVariationsRelations = relations(exerciseVariations, ({ one }) => ({
+  baseExercise: one(exercises, {
+    fields: [exerciseVariations.baseExerciseId],
+    references: [exercises.id],
+  }),
 }));
 
 // Program relations
@@ -434,6 +807,29 @@ export const programsRelations = relations(programs, ({ one, many }) => ({
   workoutLogs: many(workoutLogs),
 }));
 
+export const programTemplatesRelations = relations(programTemplates, ({ one, many }) => ({
+  program: one(programs, {
+    fields: [programTemplates.programId],
+    references: [programs.id],
+  }),
+  createdBy: one(users, {
+    fields: [programTemplates.createdBy],
+    references: [users.id],
+  }),
+  ratings: many(programTemplateRatings),
+}));
+
+export const programTemplateRatingsRelations = relations(programTemplateRatings, ({ one }) => ({
+  template: one(programTemplates, {
+    fields: [programTemplateRatings.templateId],
+    references: [programTemplates.id],
+  }),
+  ratedBy: one(users, {
+    fields: [programTemplateRatings.ratedBy],
+    references: [users.id],
+  }),
+}));
+
 // Workout relations
 export const workoutsRelations = relations(workouts, ({ one, many }) => ({
   program: one(programs, {
@@ -441,9 +837,69 @@ export const workoutsRelations = relations(workouts, ({ one, many }) => ({
     references: [programs.id],
   }),
   workoutExercises: many(workoutExercises),
+  workoutBlocks: many(workoutBlocks),
   workoutLogs: many(workoutLogs),
 }));
 
+// Workout block relations
+export const workoutBlocksRelations = relations(workoutBlocks, ({ one, many }) => ({
+  workout: one(workouts, {
+    fields: [workoutBlocks.workoutId],
+    references: [workouts.id],
+  }),
+  workoutExercises: many(workoutExercises),
+  results: many(blockResults),
+}));
+
+export const formReviewsRelations = relations(formReviews, ({ one, many }) => ({
+  exerciseSet: one(exerciseSets, {
+    fields: [formReviews.exerciseSetId],
+    references: [exerciseSets.id],
+  }),
+  comments: many(formReviewComments),
+}));
+
+export const formReviewCommentsRelations = relations(formReviewComments, ({ one }) => ({
+  formReview: one(formReviews, {
+    fields: [formReviewComments.formReviewId],
+    references: [formReviews.id],
+  }),
+}));
+
+export const exerciseSubstitutionsRelations = relations(exerciseSubstitutions, ({ one }) => ({
+  workoutSession: one(workoutSessions, {
+    fields: [exerciseSubstitutions.workoutSessionId],
+    references: [workoutSessions.id],
+  }),
+  workoutExercise: one(workoutExercises, {
+    fields: [exerciseSubstitutions.workoutExerciseId],
+    references: [workoutExercises.id],
+  }),
+  originalExercise: one(exercises, {
+    fields: [exerciseSubstitutions.originalExerciseId],
+    references: [exercises.id],
+  }),
+  substituteExercise: one(exercises, {
+    fields: [exerciseSubstitutions.substituteExerciseId],
+    references: [exercises.id],
+  }),
+  variation: one(exerciseVariations, {
+    fields: [exerciseSubstitutions.variationId],
+    references: [exerciseVariations.id],
+  }),
+}));
+
+export const blockResultsRelations = relations(blockResults, ({ one }) => ({
+  workoutSession: one(workoutSessions, {
+    fields: [blockResults.workoutSessionId],
+    references: [workoutSessions.id],
+  }),
+  block: one(workoutBlocks, {
+    fields: [blockResults.blockId],
+    references: [workoutBlocks.id],
+  }),
+}));
+
 // Workout exercise relations
 export const workoutExercisesRelations = relations(workoutExercises, ({ one }) => ({
   workout: one(workouts, {
@@ -454,6 +910,10 @@ export const workoutExercisesRelations = relations(workoutExercises, ({ one }) =
     fields: [workoutExercises.exerciseId],
     references: [exercises.id],
   }),
+  block: one(workoutBlocks, {
+    fields: [workoutExercises.blockId],
+    references: [workoutBlocks.id],
+  }),
 }));
 
 // Client program relations
@@ -569,10 +1029,82 @@ export const insertDeviceIntegrationSchema = createInsertSchema(deviceIntegratio
 // New schemas for enhanced platform
 export const insertExerciseSchema = createInsertSchema(exercises).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertExerciseCategorySchema = createInsertSchema(exerciseCategories).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertProgramSchema = createInsertSchema(programs).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertExerciseVariationSchema = createInsertSchema(exerciseVariations, {
+  name: z.string().trim().min(1),
+  difficultyModifier: z.number().int().min(-2).max(2).optional(),
+}).omit({ id: true, createdAt: true });
+export const EXERCISE_SEARCH_SCOPES = ['all', 'mine', 'public'] as const;
+// Exercise library search, from query string values
+export const exerciseSearchSchema = z.object({
+  search: z.string().trim().max(100).optional(), // name or tag
+  muscleGroup: z.string().trim().max(50).optional(),
+  equipment: z.string().trim().max(50).optional(),
+  difficultyLevel: z.enum(difficultyLevelEnum.enumValues).optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  scope: z.enum(EXERCISE_SEARCH_SCOPES).default('all'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24),
+});
+export const programPeriodizationSchema = z.object({
+  model: z.enum(['linear', 'undulating', 'block', 'custom']),
+  deloadEvery: z.number().int().min(2).max(12).nullable(),
+  weeks: z.array(z.object({
+    week: z.number().int().min(1),
+    intensity: z.number().min(0.3).max(1.5),
+    volume: z.number().min(0.2).max(2),
+    deload: z.boolean(),
+  })).max(52),
+});
+export const insertProgramSchema = createInsertSchema(programs, {
+  periodization: programPeriodizationSchema.optional().nullable(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertProgramTemplateSchema = createInsertSchema(programTemplates, {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(2000).nullable().optional(),
+  category: z.string().trim().max(50).nullable().optional(),
+}).omit({ id: true, usageCount: true, rating: true, ratingCount: true, createdAt: true, updatedAt: true });
+export const insertProgramTemplateRatingSchema = createInsertSchema(programTemplateRatings, {
+  rating: z.number().int().min(1).max(5),
+}).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertWorkoutSchema = createInsertSchema(workouts).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertWorkoutExerciseSchema = createInsertSchema(workoutExercises).omit({ id: true });
-export const insertClientProgramSchema = createInsertSchema(clientPrograms).omit({ id: true, createdAt: true, updatedAt: true });
+export const cardioTargetSchema = z.object({
+  durationSeconds: z.number().int().positive().optional(),
+  distanceMeters: z.number().positive().optional(),
+  paceSecondsPerKm: z.number().int().positive().optional(),
+  heartRateZone: z.number().int().min(1).max(5).optional(),
+  incline: z.number().min(-10).max(40).optional(),
+  resistance: z.number().int().min(0).optional(),
+});
+export const allowedSubstitutionsSchema = z.object({
+  exerciseIds: z.array(z.number().int().positive()),
+  variationIds: z.array(z.number().int().positive()),
+});
+export const insertWorkoutExerciseSchema = createInsertSchema(workoutExercises, {
+  cardioTarget: cardioTargetSchema.optional().nullable(),
+  substitutions: allowedSubstitutionsSchema.optional().nullable(),
+}).omit({ id: true });
+
+const positiveSeconds = z.number().int().min(5);
+// Required parameters per block type
+export const workoutBlockParameterSchemas = {
+  emom: z.object({ intervalSeconds: positiveSeconds, rounds: z.number().int().min(1) }),
+  amrap: z.object({ timeCapSeconds: positiveSeconds }),
+  for_time: z.object({ rounds: z.number().int().min(1), timeCapSeconds: positiveSeconds.optional() }),
+  interval: z.object({ workSeconds: positiveSeconds, restSeconds: z.number().int().min(0), rounds: z.number().int().min(1) }),
+  circuit: z.object({ rounds: z.number().int().min(1), restSeconds: z.number().int().min(0).optional() }),
+} as const;
+
+export const insertWorkoutBlockSchema = createInsertSchema(workoutBlocks, {
+  parameters: z.record(z.number()),
+}).omit({ id: true, createdAt: true }).superRefine((block, ctx) => {
+  const result = workoutBlockParameterSchemas[block.blockType].safeParse(block.parameters);
+  if (!result.success) {
+    result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ['parameters', ...issue.path] }));
+  }
+});
+export const insertClientProgramSchema = createInsertSchema(clientPrograms, {
+  missedPolicy: z.enum(MISSED_WORKOUT_POLICIES).optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertWorkoutLogSchema = createInsertSchema(workoutLogs).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertExerciseLogSchema = createInsertSchema(exerciseLogs).omit({ id: true, createdAt: true });
 export const insertMealPlanSchema = createInsertSchema(mealPlans).omit({ id: true, createdAt: true, updatedAt: true });
@@ -580,6 +1112,136 @@ export const insertMealSchema = createInsertSchema(meals).omit({ id: true });
 export const insertClientMealPlanSchema = createInsertSchema(clientMealPlans).omit({ id: true, createdAt: true });
 export const insertBodyMeasurementSchema = createInsertSchema(bodyMeasurements).omit({ id: true, createdAt: true });
 export const insertCoachClientSchema = createInsertSchema(coachClients).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertWorkoutAssignmentSchema = createInsertSchema(workoutAssignments).omit({ id: true, createdAt: true });
+export const insertWorkoutSessionSchema = createInsertSchema(workoutSessions, {
+  startTime: z.coerce.date().optional().nullable(),
+  clientSessionId: z.string().uuid().optional().nullable(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const workoutSessionStateSchema = createInsertSchema(workoutSessions, {
+  status: z.enum(['in_progress', 'paused', 'abandoned']),
+  currentExerciseIndex: z.number().int().min(0),
+  currentSet: z.number().int().min(1),
+  exercisesCompleted: z.number().int().min(0),
+  restEndsAt: z.coerce.date().nullable(),
+}).pick({ status: true, currentExerciseIndex: true, currentSet: true, exercisesCompleted: true, restEndsAt: true }).partial();
+export const workoutSessionCompletionSchema = createInsertSchema(workoutSessions, {
+  endTime: z.coerce.date(),
+  totalDuration: z.number().int().min(0),
+  exercisesCompleted: z.number().int().min(0),
+}).pick({ endTime: true, totalDuration: true, exercisesCompleted: true }).partial();
+export const insertExerciseSetSchema = createInsertSchema(exerciseSets, {
+  actualReps: z.number().int().min(0).optional().nullable(),
+  actualWeight: z.coerce.string().optional().nullable(),
+  rpe: z.number().int().min(1).max(10).optional().nullable(),
+  completedAt: z.coerce.date().optional(),
+  clientSetId: z.string().uuid().optional().nullable(),
+  supersetRound: z.number().int().min(1).optional().nullable(),
+  durationSeconds: z.number().int().min(0).optional().nullable(),
+  distanceMeters: z.coerce.string().optional().nullable(),
+  paceSecondsPerKm: z.number().int().min(0).optional().nullable(),
+  avgHeartRate: z.number().int().min(30).max(250).optional().nullable(),
+  maxHeartRate: z.number().int().min(30).max(250).optional().nullable(),
+  incline: z.coerce.string().optional().nullable(),
+  resistance: z.number().int().min(0).optional().nullable(),
+  timeInZones: z.array(z.number().int().min(0)).length(5).optional().nullable(),
+  caloriesBurned: z.number().int().min(0).optional().nullable(),
+}).omit({ id: true, personalRecord: true })
+  .refine(set => set.actualReps != null || set.durationSeconds != null, {
+    message: 'A set needs reps or a duration',
+    path: ['actualReps'],
+  });
+export const insertExerciseSubstitutionSchema = createInsertSchema(exerciseSubstitutions, {
+  reason: z.string().trim().max(200).optional().nullable(),
+}).omit({ id: true, createdAt: true });
+export const insertBlockResultSchema = createInsertSchema(blockResults, {
+  roundsCompleted: z.number().int().min(0).optional().nullable(),
+  extraReps: z.number().int().min(0).optional().nullable(),
+  completionTime: z.number().int().min(0).optional().nullable(),
+  completedAt: z.coerce.date().optional(),
+  clientResultId: z.string().uuid().optional().nullable(),
+}).omit({ id: true });
+export const insertPersonalRecordSchema = createInsertSchema(personalRecords).omit({ id: true, createdAt: true });
+export const insertNutritionLogSchema = createInsertSchema(nutritionLogs).omit({ id: true, createdAt: true });
+export const insertComplianceSettingsSchema = createInsertSchema(complianceSettings, {
+  workoutWeight: z.number().int().min(0).max(100),
+  nutritionWeight: z.number().int().min(0).max(100),
+  checkinWeight: z.number().int().min(0).max(100),
+  windowDays: z.number().int().min(7).max(180),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertAlertSettingsSchema = createInsertSchema(alertSettings, {
+  inactivityDays: z.number().int().min(0).max(90),
+  missedCheckins: z.number().int().min(0).max(10),
+  checkinLookbackDays: z.number().int().min(7).max(180),
+  unansweredMessageHours: z.number().int().min(0).max(720),
+  weightTrendDays: z.number().int().min(0).max(90),
+  weightTrendThreshold: z.coerce.string().refine(value => !Number.isNaN(parseFloat(value)) && parseFloat(value) >= 0, 'Must be a non-negative number'),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertVolumeTargetSettingsSchema = createInsertSchema(volumeTargetSettings, {
+  targets: z.array(z.object({
+    muscleGroup: z.string().trim().min(1).max(50).transform(value => value.toLowerCase()),
+    minSets: z.number().int().min(0).max(50),
+    maxSets: z.number().int().min(0).max(50),
+  }).refine(target => target.minSets <= target.maxSets, 'Minimum sets cannot exceed maximum sets')).max(30)
+    .refine(targets => new Set(targets.map(target => target.muscleGroup)).size === targets.length, 'Each muscle group can only have one target'),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertClientAlertSchema = createInsertSchema(clientAlerts, {
+  status: z.enum(['acknowledged', 'snoozed']),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const plateSetupSchema = createInsertSchema(clientWorkoutPreferences, {
+  metricSystem: z.boolean(),
+  barWeight: z.coerce.string().refine(value => !Number.isNaN(parseFloat(value)) && parseFloat(value) >= 0, 'Must be a non-negative number').nullable(),
+  plateInventory: z.array(z.object({
+    weight: z.number().positive(),
+    count: z.number().int().min(0).max(40),
+  })).max(20).nullable(),
+}).pick({ metricSystem: true, barWeight: true, plateInventory: true });
+
+export const heartRateSettingsSchema = createInsertSchema(clientWorkoutPreferences, {
+  maxHeartRate: z.number().int().min(100).max(230).nullable(),
+}).pick({ maxHeartRate: true });
+
+export const trainingDaysSchema = createInsertSchema(clientWorkoutPreferences, {
+  trainingDays: z.array(z.number().int().min(1).max(7)).min(1).max(7)
+    .refine(days => new Set(days).size === days.length, 'Each training day can only be listed once')
+    .transform(days => [...days].sort((a, b) => a - b))
+    .nullable(),
+}).pick({ trainingDays: true });
+
+export const activeEquipmentProfileSchema = createInsertSchema(clientWorkoutPreferences, {
+  activeEquipmentProfileId: z.number().int().positive().nullable(),
+}).pick({ activeEquipmentProfileId: true });
+
+export const insertEquipmentProfileSchema = createInsertSchema(equipmentProfiles, {
+  name: z.string().trim().min(1).max(50),
+  profileType: z.enum(EQUIPMENT_PROFILE_TYPES).optional(),
+  equipment: z.array(z.string().trim().min(1).max(50)).max(50)
+    .transform(items => Array.from(new Set(items))),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertFormReviewSchema = createInsertSchema(formReviews, {
+  clientNote: z.string().trim().max(500).optional().nullable(),
+}).omit({ id: true, coachId: true, status: true, summary: true, reviewedAt: true, seenAt: true, createdAt: true, updatedAt: true });
+
+export const formReviewCompletionSchema = createInsertSchema(formReviews, {
+  summary: z.string().trim().max(2000).optional().nullable(),
+}).pick({ summary: true }).extend({
+  formRating: z.number().int().min(1).max(5),
+});
+
+// Strokes drawn over a frame; points are fractions of the frame's width and height
+export const formAnnotationSchema = z.object({
+  strokes: z.array(z.object({
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+    width: z.number().min(1).max(20),
+    points: z.array(z.tuple([z.number().min(0).max(1), z.number().min(0).max(1)])).min(1).max(500),
+  })).min(1).max(50),
+});
+
+export const insertFormReviewCommentSchema = createInsertSchema(formReviewComments, {
+  timestampMs: z.number().int().min(0),
+  body: z.string().trim().min(1).max(1000),
+  annotation: formAnnotationSchema.optional().nullable(),
+}).omit({ id: true, createdAt: true });
 
 // Types for the application
 export type User = typeof users.$inferSelect;
@@ -612,19 +1274,41 @@ export type InsertDeviceIntegration = z.infer<typeof insertDeviceIntegrationSche
 // New types for enhanced platform
 export type Exercise = typeof exercises.$inferSelect;
 export type InsertExercise = z.infer<typeof insertExerciseSchema>;
+export type ExerciseSearch = z.infer<typeof exerciseSearchSchema>;
+export type ExerciseSearchResult = {
+  exercises: Exercise[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
 
 export type ExerciseCategory = typeof exerciseCategories.$inferSelect;
 export type InsertExerciseCategory = z.infer<typeof insertExerciseCategorySchema>;
 
+export type ExerciseVariation = typeof exerciseVariations.$inferSelect;
+export type InsertExerciseVariation = z.infer<typeof insertExerciseVariationSchema>;
+
 export type Program = typeof programs.$inferSelect;
 export type InsertProgram = z.infer<typeof insertProgramSchema>;
 
+export type ProgramTemplate = typeof programTemplates.$inferSelect;
+export type InsertProgramTemplate = z.infer<typeof insertProgramTemplateSchema>;
+
+export type ProgramTemplateRating = typeof programTemplateRatings.$inferSelect;
+export type InsertProgramTemplateRating = z.infer<typeof insertProgramTemplateRatingSchema>;
+
 export type Workout = typeof workouts.$inferSelect;
 export type InsertWorkout = z.infer<typeof insertWorkoutSchema>;
 
 export type WorkoutExercise = typeof workoutExercises.$inferSelect;
 export type InsertWorkoutExercise = z.infer<typeof insertWorkoutExerciseSchema>;
 
+export type ExerciseType = typeof exerciseTypeEnum.enumValues[number];
+
+export type WorkoutBlockType = typeof workoutBlockTypeEnum.enumValues[number];
+export type WorkoutBlock = typeof workoutBlocks.$inferSelect;
+export type InsertWorkoutBlock = z.infer<typeof insertWorkoutBlockSchema>;
+
 export type ClientProgram = typeof clientPrograms.$inferSelect;
 export type InsertClientProgram = z.infer<typeof insertClientProgramSchema>;
 
@@ -648,3 +1332,52 @@ export type InsertBodyMeasurement = z.infer<typeof insertBodyMeasurementSchema>;
 
 export type CoachClient = typeof coachClients.$inferSelect;
 export type InsertCoachClient = z.infer<typeof insertCoachClientSchema>;
+
+export type WorkoutAssignment = typeof workoutAssignments.$inferSelect;
+export type InsertWorkoutAssignment = z.infer<typeof insertWorkoutAssignmentSchema>;
+
+export type WorkoutSession = typeof workoutSessions.$inferSelect;
+export type InsertWorkoutSession = z.infer<typeof insertWorkoutSessionSchema>;
+export type WorkoutSessionState = z.infer<typeof workoutSessionStateSchema>;
+
+export type ExerciseSet = typeof exerciseSets.$inferSelect;
+export type InsertExerciseSet = z.infer<typeof insertExerciseSetSchema>;
+
+export type BlockResult = typeof blockResults.$inferSelect;
+export type InsertBlockResult = z.infer<typeof insertBlockResultSchema>;
+
+export type ExerciseSubstitution = typeof exerciseSubstitutions.$inferSelect;
+export type InsertExerciseSubstitution = z.infer<typeof insertExerciseSubstitutionSchema>;
+
+export type PersonalRecord = typeof personalRecords.$inferSelect;
+export type InsertPersonalRecord = z.infer<typeof insertPersonalRecordSchema>;
+
+export type ClientWorkoutPreferences = typeof clientWorkoutPreferences.$inferSelect;
+
+export type EquipmentProfile = typeof equipmentProfiles.$inferSelect;
+export type InsertEquipmentProfile = z.infer<typeof insertEquipmentProfileSchema>;
+
+export type FormReview = typeof formReviews.$inferSelect;
+export type InsertFormReview = z.infer<typeof insertFormReviewSchema>;
+export type FormReviewCompletion = z.infer<typeof formReviewCompletionSchema>;
+export type FormAnnotation = z.infer<typeof formAnnotationSchema>;
+
+export type FormReviewComment = typeof formReviewComments.$inferSelect;
+export type InsertFormReviewComment = z.infer<typeof insertFormReviewCommentSchema>;
+
+export type NutritionLog = typeof nutritionLogs.$inferSelect;
+export type InsertNutritionLog = z.infer<typeof insertNutritionLogSchema>;
+
+export type ComplianceSettings = typeof complianceSettings.$inferSelect;
+export type InsertComplianceSettings = z.infer<typeof insertComplianceSettingsSchema>;
+
+export type AlertSettings = typeof alertSettings.$inferSelect;
+export type InsertAlertSettings = z.infer<typeof insertAlertSettingsSchema>;
+
+export type VolumeTargetSettings = typeof volumeTargetSettings.$inferSelect;
+export type InsertVolumeTargetSettings = z.infer<typeof insertVolumeTargetSettingsSchema>;
+
+export type ClientAlert = typeof clientAlerts.$inferSelect;
+export type InsertClientAlert = z.infer<typeof insertClientAlertSchema>;
+
+export type PlateSetup = z.infer<typeof plateSetupSchema>;
@@ -0,0 +1,17 @@
+/**
+ * Weight units, shared by the server and client. Body weight is logged in kg;
+ * training loads follow the client's preference (metric_system).
+ */
+
+export type WeightUnit = "lbs" | "kg";
+
+export const LBS_PER_KG = 2.20462262;
+
+export function convertWeight(weight: number, from: WeightUnit, to: WeightUnit): number {
+  if (from === to) return weight;
+  return to === "kg" ? weight / LBS_PER_KG : weight * LBS_PER_KG;
+}
+
+export function preferredWeightUnit(preferences?: { metricSystem: boolean | null } | null): WeightUnit {
+  return preferences?.metricSystem ? "kg" : "lbs";
+}
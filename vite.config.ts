@@ -3,6 +3,7 @@ import react from "@vitejs/plugin-react";
 import path from "path";
 import { fileURLToPath, URL } from "node:url";
 import runtimeErrorOverlay from "@replit/vite-plugin-runtime-error-modal";
+import { VitePWA } from "vite-plugin-pwa";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -10,6 +11,48 @@ export default defineConfig({
   plugins: [
     react(),
     runtimeErrorOverlay(),
+    // Service worker so assigned workouts open offline; workout data itself lives in IndexedDB
+    VitePWA({
+      registerType: "autoUpdate",
+      includeAssets: ["snp-logo.png"],
+      manifest: {
+        name: "SNP Client Portal",
+        short_name: "SNP",
+        description: "Fitness coaching and progress tracking",
+        theme_color: "#ffffff",
+        background_color: "#ffffff",
+        display: "standalone",
+        start_url: "/",
+        icons: [{ src: "/snp-logo.png", sizes: "1563x1563", type: "image/png" }],
+      },
+      workbox: {
+        navigateFallback: "/index.html",
+        navigateFallbackDenylist: [/^\/api/, /^\/internal-api/, /^\/socket\.io/, /^\/media/],
+        runtimeCaching: [
+          {
+            urlPattern: ({ request }) => request.destination === "image",
+            handler: "CacheFirst",
+            options: {
+              cacheName: "exercise-images",
+              expiration: { maxEntries: 300, maxAgeSeconds: 30 * 24 * 60 * 60 },
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+          {
+            // Form-check clips are private and served with expiring links, so they stay off the device
+            urlPattern: ({ request, url }) =>
+              request.destination === "video" && !url.pathname.startsWith("/media/set-videos/"),
+            handler: "CacheFirst",
+            options: {
+              cacheName: "exercise-videos",
+              expiration: { maxEntries: 30, maxAgeSeconds: 14 * 24 * 60 * 60 },
+              cacheableResponse: { statuses: [0, 200] },
+              rangeRequests: true,
+            },
+          },
+        ],
+      },
+    }),
     ...(process.env.NODE_ENV !== "production" &&
     process.env.REPL_ID !== undefined
       ? [